@@ -0,0 +1,5 @@
+// AsyncStorage has no native module under jest; the package's in-memory
+// mock stands in for it
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
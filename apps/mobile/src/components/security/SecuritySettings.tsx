@@ -11,15 +11,21 @@ import {
   TextInput,
   ActivityIndicator,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import AdvancedSecurityService from '../services/security/AdvancedSecurityService';
+import AdvancedSecurityService, {
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+} from '../services/security/AdvancedSecurityService';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface SecuritySettingsProps {
   securityService: AdvancedSecurityService;
+  userId?: string;
   onSettingsChange?: (settings: any) => void;
 }
 
+// Which step of the two-factor flow the modal is showing
+type TwoFactorModal = 'enroll' | 'backupCodes' | 'disable' | 'regenerate' | null;
+
 interface SecurityConfig {
   enableEndToEndEncryption: boolean;
   enableTwoFactorAuth: boolean;
@@ -33,6 +39,7 @@ interface SecurityConfig {
 
 const SecuritySettings: React.FC<SecuritySettingsProps> = ({
   securityService,
+  userId = 'current_user',
   onSettingsChange,
 }) => {
   const [config, setConfig] = useState<SecurityConfig>({
@@ -47,8 +54,11 @@ const SecuritySettings: React.FC<SecuritySettingsProps> = ({
   });
   const [loading, setLoading] = useState(false);
   const [securityStats, setSecurityStats] = useState<any>(null);
-  const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false);
-  const [twoFactorData, setTwoFactorData] = useState<any>(null);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorModal, setTwoFactorModal] = useState<TwoFactorModal>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [verificationCode, setVerificationCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [hipaaCompliance, setHipaaCompliance] = useState<any>(null);
 
   const { theme } = useTheme();
@@ -83,11 +93,29 @@ const SecuritySettings: React.FC<SecuritySettingsProps> = ({
     }
   };
 
+  // Two-factor state lives on the server
+  const loadTwoFactorStatus = async () => {
+    try {
+      const status = await securityService.getTwoFactorStatus();
+      setTwoFactorStatus(status);
+
+      // Keep the local compliance check in line with the account
+      if (status.enabled !== securityService.getConfig().enableTwoFactorAuth) {
+        await securityService.updateConfig({ enableTwoFactorAuth: status.enabled });
+        setConfig(prev => ({ ...prev, enableTwoFactorAuth: status.enabled }));
+        await checkHIPAACompliance();
+      }
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  };
+
   // Load data on mount
   useEffect(() => {
     loadSecurityConfig();
     loadSecurityStats();
     checkHIPAACompliance();
+    loadTwoFactorStatus();
   }, []);
 
   // Update security configuration
@@ -110,18 +138,63 @@ const SecuritySettings: React.FC<SecuritySettingsProps> = ({
     }
   };
 
-  // Setup two-factor authentication
-  const setupTwoFactorAuth = async () => {
+  const closeTwoFactorModal = () => {
+    setTwoFactorModal(null);
+    setEnrollment(null);
+    setVerificationCode('');
+    setBackupCodes([]);
+  };
+
+  // Turning the switch on starts enrollment; turning it off asks for a code
+  const toggleTwoFactorAuth = async (enabled: boolean) => {
+    setVerificationCode('');
+
+    if (!enabled) {
+      setTwoFactorModal('disable');
+      return;
+    }
+
     try {
       setLoading(true);
-      const userId = 'current_user'; // Get from auth context
-      
       const setupData = await securityService.setupTwoFactorAuth(userId);
-      setTwoFactorData(setupData);
-      setShowTwoFactorSetup(true);
-    } catch (error) {
+      setEnrollment(setupData);
+      setTwoFactorModal('enroll');
+    } catch (error: any) {
       console.error('Failed to setup 2FA:', error);
-      Alert.alert('Error', 'Failed to setup two-factor authentication');
+      Alert.alert('Error', error.message || 'Failed to setup two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sends the code for whichever step the modal is on
+  const submitVerificationCode = async () => {
+    const code = verificationCode.trim();
+    if (!code) {
+      Alert.alert('Error', 'Enter the code from your authenticator app');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      if (twoFactorModal === 'enroll') {
+        setBackupCodes(await securityService.enableTwoFactorAuth(userId, code));
+        setTwoFactorModal('backupCodes');
+      } else if (twoFactorModal === 'regenerate') {
+        setBackupCodes(await securityService.regenerateBackupCodes(code));
+        setTwoFactorModal('backupCodes');
+      } else if (twoFactorModal === 'disable') {
+        await securityService.disableTwoFactorAuth(userId, code);
+        closeTwoFactorModal();
+        Alert.alert('Success', 'Two-factor authentication disabled');
+      }
+
+      setVerificationCode('');
+      await loadTwoFactorStatus();
+    } catch (error: any) {
+      console.error('Two-factor verification failed:', error);
+      Alert.alert('Error', error.message || 'Invalid verification code');
     } finally {
       setLoading(false);
     }
@@ -514,23 +587,29 @@ const SecuritySettings: React.FC<SecuritySettingsProps> = ({
             <View style={styles.settingInfo}>
               <Text style={styles.settingLabel}>Two-Factor Authentication</Text>
               <Text style={styles.settingDescription}>
-                Add an extra layer of security with 2FA
+                {twoFactorStatus?.enabled
+                  ? `Enabled · ${twoFactorStatus.backup_codes_remaining} backup codes left`
+                  : 'Add an extra layer of security with 2FA'}
               </Text>
             </View>
             <Switch
-              value={config.enableTwoFactorAuth}
-              onValueChange={(value) => updateConfig('enableTwoFactorAuth', value)}
+              value={twoFactorStatus?.enabled || false}
+              onValueChange={toggleTwoFactorAuth}
+              disabled={!twoFactorStatus}
             />
           </View>
 
-          {config.enableTwoFactorAuth && (
+          {twoFactorStatus?.enabled && (
             <View style={styles.settingItem}>
               <TouchableOpacity
                 style={[styles.actionButton, styles.secondaryButton]}
-                onPress={setupTwoFactorAuth}
+                onPress={() => {
+                  setVerificationCode('');
+                  setTwoFactorModal('regenerate');
+                }}
               >
                 <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>
-                  Setup 2FA
+                  New Backup Codes
                 </Text>
               </TouchableOpacity>
             </View>
@@ -635,50 +714,95 @@ const SecuritySettings: React.FC<SecuritySettingsProps> = ({
         </View>
       </ScrollView>
 
-      {/* Two-Factor Setup Modal */}
-      {showTwoFactorSetup && twoFactorData && (
+      {/* Two-Factor Modal */}
+      {twoFactorModal && (
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Setup Two-Factor Authentication</Text>
-            
-            <Text style={styles.settingDescription}>
-              Scan this QR code with your authenticator app:
-            </Text>
-            
-            <View style={styles.qrCode}>
-              <Text style={styles.qrCodeText}>QR Code</Text>
-              <Text style={styles.qrCodeText}>{twoFactorData.qrCode}</Text>
-            </View>
+            {twoFactorModal === 'enroll' && enrollment && (
+              <>
+                <Text style={styles.modalTitle}>Setup Two-Factor Authentication</Text>
 
-            <Text style={styles.settingDescription}>
-              Or enter this secret manually:
-            </Text>
-            
-            <TextInput
-              style={styles.input}
-              value={twoFactorData.secret}
-              editable={false}
-              multiline
-            />
+                <Text style={styles.settingDescription}>
+                  Scan this QR code with your authenticator app:
+                </Text>
 
-            <View style={styles.backupCodesContainer}>
-              <Text style={styles.backupCodesTitle}>Backup Codes:</Text>
-              {twoFactorData.backupCodes.map((code: string, index: number) => (
-                <Text key={index} style={styles.backupCode}>
-                  {code}
+                <View style={styles.qrCode}>
+                  <Text style={styles.qrCodeText}>QR Code</Text>
+                  <Text style={styles.qrCodeText}>{enrollment.otpauthUrl}</Text>
+                </View>
+
+                <Text style={styles.settingDescription}>
+                  Or enter this secret manually:
                 </Text>
-              ))}
-            </View>
+
+                <TextInput
+                  style={styles.input}
+                  value={enrollment.secret}
+                  editable={false}
+                  multiline
+                />
+              </>
+            )}
+
+            {twoFactorModal === 'disable' && (
+              <Text style={styles.modalTitle}>Disable Two-Factor Authentication</Text>
+            )}
+
+            {twoFactorModal === 'regenerate' && (
+              <Text style={styles.modalTitle}>Replace Backup Codes</Text>
+            )}
+
+            {twoFactorModal === 'backupCodes' ? (
+              <View style={styles.backupCodesContainer}>
+                <Text style={styles.modalTitle}>Save Your Backup Codes</Text>
+                <Text style={styles.settingDescription}>
+                  Each code signs you in once if you lose your authenticator. They won't be shown again.
+                </Text>
+                {backupCodes.map((code: string, index: number) => (
+                  <Text key={index} style={styles.backupCode}>
+                    {code}
+                  </Text>
+                ))}
+              </View>
+            ) : (
+              <>
+                <Text style={styles.settingDescription}>
+                  {twoFactorModal === 'enroll'
+                    ? 'Enter the 6-digit code your app shows to finish setup:'
+                    : 'Enter a code from your authenticator app or a backup code:'}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={verificationCode}
+                  onChangeText={setVerificationCode}
+                  placeholder="123456"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  keyboardType={twoFactorModal === 'enroll' ? 'number-pad' : 'default'}
+                />
+              </>
+            )}
 
             <View style={styles.modalActions}>
               <TouchableOpacity
                 style={[styles.actionButton, styles.secondaryButton]}
-                onPress={() => setShowTwoFactorSetup(false)}
+                onPress={closeTwoFactorModal}
               >
                 <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>
-                  Close
+                  {twoFactorModal === 'backupCodes' ? 'Done' : 'Cancel'}
                 </Text>
               </TouchableOpacity>
+
+              {twoFactorModal !== 'backupCodes' && (
+                <TouchableOpacity
+                  style={[styles.actionButton, twoFactorModal === 'disable' && styles.dangerButton]}
+                  onPress={submitVerificationCode}
+                >
+                  <Text style={styles.actionButtonText}>
+                    {twoFactorModal === 'disable' ? 'Disable' : 'Verify'}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </View>
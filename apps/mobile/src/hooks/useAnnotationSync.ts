@@ -0,0 +1,87 @@
+// Hook for creating, editing and deleting the annotations of a collaboration session
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AnnotationInput, AnnotationResource } from 'ar-inspection-platform-shared';
+import AnnotationSync, { CollaborationSocket } from '../services/ar/AnnotationSync';
+import ARService from '../services/ar/ARService';
+
+interface UseAnnotationSyncReturn {
+  joined: boolean;
+  error: string | null;
+  createAnnotation: (annotation: AnnotationInput) => Promise<AnnotationResource | null>;
+  updateAnnotation: (annotationId: string, changes: AnnotationInput) => Promise<AnnotationResource | null>;
+  deleteAnnotation: (annotationId: string) => Promise<AnnotationResource | null>;
+}
+
+// Follows the session's annotations while mounted, so the world map being
+// recorded by arService keeps every one of them
+export const useAnnotationSync = (
+  arService: ARService,
+  socket: CollaborationSocket,
+  sessionId: string
+): UseAnnotationSyncReturn => {
+  const [joined, setJoined] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const syncRef = useRef<AnnotationSync | null>(null);
+
+  useEffect(() => {
+    const sync = new AnnotationSync(socket, arService, sessionId);
+    syncRef.current = sync;
+
+    setJoined(false);
+    setError(null);
+    sync.start().then((success) => {
+      if (syncRef.current !== sync) return;
+      setJoined(success);
+      if (!success) {
+        setError('Failed to join collaboration session');
+      }
+    });
+
+    return () => {
+      syncRef.current = null;
+      sync.stop();
+    };
+  }, [arService, socket, sessionId]);
+
+  const run = useCallback(async (
+    action: (sync: AnnotationSync) => Promise<AnnotationResource | null>,
+    failure: string
+  ): Promise<AnnotationResource | null> => {
+    if (!syncRef.current) {
+      setError('Not joined to a collaboration session');
+      return null;
+    }
+
+    try {
+      const annotation = await action(syncRef.current);
+      setError(annotation ? null : failure);
+      return annotation;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return null;
+    }
+  }, []);
+
+  const createAnnotation = useCallback((annotation: AnnotationInput) => {
+    return run((sync) => sync.createAnnotation(annotation), 'Failed to create annotation');
+  }, [run]);
+
+  const updateAnnotation = useCallback((annotationId: string, changes: AnnotationInput) => {
+    return run((sync) => sync.updateAnnotation(annotationId, changes), 'Failed to update annotation');
+  }, [run]);
+
+  const deleteAnnotation = useCallback((annotationId: string) => {
+    return run((sync) => sync.deleteAnnotation(annotationId), 'Failed to delete annotation');
+  }, [run]);
+
+  return {
+    joined,
+    error,
+    createAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+  };
+};
+
+export default useAnnotationSync;
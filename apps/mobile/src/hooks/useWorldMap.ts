@@ -1,7 +1,7 @@
 // Hook for AR world map management
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Alert } from 'react-native';
-import WorldMapManager, { WorldMapData } from '../services/ar/WorldMapManager';
+import WorldMapManager, { AnnotationRestoreProgress, WorldMapData } from '../services/ar/WorldMapManager';
 import WorldMapStorage from '../storage/WorldMapStorage';
 import ARService from '../services/ar/ARService';
 
@@ -18,6 +18,8 @@ interface UseWorldMapReturn {
   isRecording: boolean;
   recordingDuration: number;
   currentMapId: string | null;
+  // Annotations coming back after loadWorldMap
+  restoreProgress: AnnotationRestoreProgress | null;
   startRecording: (name: string) => Promise<string | null>;
   stopRecording: () => Promise<WorldMapData | null>;
   loadWorldMap: (mapId: string) => Promise<boolean>;
@@ -39,6 +41,7 @@ export const useWorldMap = (
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [currentMapId, setCurrentMapId] = useState<string | null>(null);
+  const [restoreProgress, setRestoreProgress] = useState<AnnotationRestoreProgress | null>(null);
 
   const worldMapManagerRef = useRef<WorldMapManager | null>(null);
   const worldMapStorageRef = useRef<WorldMapStorage | null>(null);
@@ -51,7 +54,11 @@ export const useWorldMap = (
 
     if (!worldMapManagerRef.current || !worldMapStorageRef.current) {
       setError('World map support not available');
+      return;
     }
+
+    setRestoreProgress(worldMapManagerRef.current.getRestoreProgress());
+    return worldMapManagerRef.current.onRestoreProgress(setRestoreProgress);
   }, [arService]);
 
   // Load world maps
@@ -185,7 +192,7 @@ export const useWorldMap = (
       const success = await arService.loadWorldMap(mapId, 'default');
       
       if (success) {
-        Alert.alert('Success', 'World map loaded successfully');
+        Alert.alert('Success', 'World map loaded. Move around the mapped area to restore its annotations.');
       } else {
         Alert.alert('Error', 'Failed to load world map');
       }
@@ -390,6 +397,7 @@ export const useWorldMap = (
     isRecording,
     recordingDuration,
     currentMapId,
+    restoreProgress,
     startRecording,
     stopRecording,
     loadWorldMap,
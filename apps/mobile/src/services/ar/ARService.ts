@@ -1,6 +1,8 @@
 // Enhanced AR Service with world map persistence capabilities
-import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
+import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnnotationResource, ARProvider, WebXRProvider } from 'ar-inspection-platform-shared';
+import NativeARProvider from './NativeARProvider';
 import WorldMapManager from './WorldMapManager';
 import WorldMapStorage from '../storage/WorldMapStorage';
 
@@ -31,14 +33,19 @@ export interface AREvent {
 }
 
 class ARService {
-  private eventEmitter: NativeEventEmitter;
   private activeSessions: Map<string, ARSession>;
   private worldMapManager: WorldMapManager | null = null;
   private worldMapStorage: WorldMapStorage | null = null;
   private sessionConfig: ARServiceConfig;
   private eventListeners: Map<string, Set<Function>> = new Map();
 
-  constructor(config: ARServiceConfig = {}) {
+  // Runs on ARBridge, or WebXR on the web, unless given another provider,
+  // such as a SimulatedARProvider in tests. WebXR sessions must be started
+  // from a user gesture.
+  constructor(
+    config: ARServiceConfig = {},
+    private provider: ARProvider = Platform.OS === 'web' ? new WebXRProvider() : new NativeARProvider()
+  ) {
     this.activeSessions = new Map();
     this.sessionConfig = {
       enableWorldMapping: true,
@@ -51,8 +58,7 @@ class ARService {
       ...config,
     };
 
-    this.eventEmitter = new NativeEventEmitter(NativeModules.ARBridge);
-    this.setupNativeEventListeners();
+    this.setupProviderEventListeners();
     this.initializeWorldMapSupport();
   }
 
@@ -64,6 +70,10 @@ class ARService {
         enableLocation: true,
         autoSave: this.sessionConfig.autoSaveMaps,
         retentionDays: 90,
+      }, this.provider);
+
+      this.worldMapManager.onRestoreProgress((progress) => {
+        this.handleProviderEvent('annotationRestoreProgress', progress);
       });
 
       this.worldMapStorage = WorldMapStorage.getInstance({
@@ -76,35 +86,23 @@ class ARService {
     }
   }
 
-  // Set up native event listeners
-  private setupNativeEventListeners(): void {
-    this.eventEmitter.addListener('onARSessionStarted', (event: any) => {
-      this.handleNativeEvent('sessionStarted', event);
-    });
-
-    this.eventEmitter.addListener('onARSessionStopped', (event: any) => {
-      this.handleNativeEvent('sessionStopped', event);
-    });
-
-    this.eventEmitter.addListener('onTrackingStateChanged', (event: any) => {
-      this.handleNativeEvent('trackingStateChanged', event);
-    });
-
-    this.eventEmitter.addListener('onPlaneDetected', (event: any) => {
-      this.handleNativeEvent('planeDetected', event);
+  // Set up provider event listeners
+  private setupProviderEventListeners(): void {
+    this.provider.on('trackingStateChanged', (event) => {
+      this.handleProviderEvent('trackingStateChanged', event);
     });
 
-    this.eventEmitter.addListener('onAnchorAdded', (event: any) => {
-      this.handleNativeEvent('anchorAdded', event);
+    this.provider.on('planeAdded', (plane) => {
+      this.handleProviderEvent('planeDetected', plane);
     });
 
-    this.eventEmitter.addListener('onWorldMappingEvent', (event: any) => {
-      this.handleNativeEvent('worldMapping', event);
+    this.provider.on('anchorAdded', (anchor) => {
+      this.handleProviderEvent('anchorAdded', anchor);
     });
   }
 
-  // Handle native events
-  private handleNativeEvent(eventType: string, data: any): void {
+  // Handle provider events and the session events raised here
+  private handleProviderEvent(eventType: string, data: any): void {
     const event: AREvent = {
       type: eventType,
       sessionId: data.sessionId || 'global',
@@ -122,9 +120,6 @@ class ARService {
       case 'sessionStopped':
         this.handleSessionStopped(event);
         break;
-      case 'worldMapping':
-        this.handleWorldMappingEvent(event);
-        break;
     }
   }
 
@@ -146,26 +141,6 @@ class ARService {
     }
   }
 
-  // Handle world mapping events
-  private handleWorldMappingEvent(event: AREvent): void {
-    if (!this.worldMapManager) return;
-
-    switch (event.data.type) {
-      case 'mappingStarted':
-        console.log('World mapping started for session:', event.sessionId);
-        break;
-      case 'mappingStopped':
-        console.log('World mapping stopped for session:', event.sessionId);
-        break;
-      case 'mapSaved':
-        console.log('World map saved:', event.data.mapId);
-        break;
-      case 'mapLoaded':
-        console.log('World map loaded:', event.data.mapId);
-        break;
-    }
-  }
-
   // Start AR session
   async startSession(sessionId: string, config?: Partial<ARServiceConfig>): Promise<boolean> {
     try {
@@ -186,23 +161,16 @@ class ARService {
 
       this.activeSessions.set(sessionId, session);
 
-      // Start native AR session
-      const platform = Platform.OS;
-      let success = false;
-
-      if (platform === 'ios') {
-        success = await NativeModules.ARBridge.startARSession(sessionId, sessionConfig);
-      } else if (platform === 'android') {
-        success = await NativeModules.ARBridge.startARSession(sessionId, sessionConfig);
-      } else {
-        // Web fallback
-        success = this.startWebARSession(sessionId, sessionConfig);
+      // Start the AR session
+      if (!(await this.provider.isSupported())) {
+        throw new Error('AR not supported on this device');
       }
 
-      if (!success) {
-        this.activeSessions.delete(sessionId);
-        throw new Error('Failed to start AR session');
-      }
+      await this.provider.startSession({
+        planeDetection: sessionConfig.enablePlaneDetection,
+        lightEstimation: sessionConfig.enableLightEstimation,
+        sessionId,
+      });
 
       // Start world mapping if enabled
       if (sessionConfig.enableWorldMapping && this.worldMapManager) {
@@ -210,8 +178,7 @@ class ARService {
         await this.worldMapManager.startRecording(null, `Session ${sessionId}`);
       }
 
-      session.status = 'running';
-      session.lastUpdate = Date.now();
+      this.handleProviderEvent('sessionStarted', { sessionId });
 
       console.log('AR session started:', sessionId);
       return true;
@@ -238,26 +205,12 @@ class ARService {
         }
       }
 
-      // Stop native AR session
-      const platform = Platform.OS;
-      let success = false;
-
-      if (platform === 'ios') {
-        success = await NativeModules.ARBridge.stopARSession(sessionId);
-      } else if (platform === 'android') {
-        success = await NativeModules.ARBridge.stopARSession(sessionId);
-      } else {
-        // Web fallback
-        success = this.stopWebARSession(sessionId);
-      }
-
-      if (success) {
-        session.status = 'stopped';
-        session.lastUpdate = Date.now();
-      }
+      // Stop the AR session
+      await this.provider.stopSession();
+      this.handleProviderEvent('sessionStopped', { sessionId });
 
       console.log('AR session stopped:', sessionId);
-      return success;
+      return true;
     } catch (error) {
       console.error('Failed to stop AR session:', error);
       return false;
@@ -272,13 +225,11 @@ class ARService {
         return false;
       }
 
-      const platform = Platform.OS;
       let success = false;
 
-      if (platform === 'ios') {
-        success = await NativeModules.ARBridge.pauseARSession(sessionId);
-      } else if (platform === 'android') {
-        success = await NativeModules.ARBridge.pauseARSession(sessionId);
+      if (await this.provider.isSupported()) {
+        await this.provider.pauseSession();
+        success = true;
       }
 
       if (success) {
@@ -301,13 +252,11 @@ class ARService {
         return false;
       }
 
-      const platform = Platform.OS;
       let success = false;
 
-      if (platform === 'ios') {
-        success = await NativeModules.ARBridge.resumeARSession(sessionId);
-      } else if (platform === 'android') {
-        success = await NativeModules.ARBridge.resumeARSession(sessionId);
+      if (await this.provider.isSupported()) {
+        await this.provider.resumeSession();
+        success = true;
       }
 
       if (success) {
@@ -408,6 +357,7 @@ class ARService {
           name: metadata?.name || `Session ${sessionId}`,
           duration: worldMapData.duration,
           annotationCount: worldMapData.annotationCount,
+          annotations: worldMapData.annotations,
         }
       );
 
@@ -430,14 +380,16 @@ class ARService {
         return false;
       }
 
-      // Load world map in native AR session
-      const platform = Platform.OS;
+      // Load world map into the running AR session; its annotations come
+      // back through annotationRestoreProgress events as anchors relocalize
       let success = false;
 
-      if (platform === 'ios') {
-        success = await NativeModules.ARBridge.loadWorldMap(sessionId, worldMapData.data);
-      } else if (platform === 'android') {
-        success = await NativeModules.ARBridge.loadWorldMap(sessionId, worldMapData.data);
+      if (this.worldMapManager && await this.provider.isWorldMapSupported()) {
+        success = await this.worldMapManager.relocalize(
+          mapId,
+          worldMapData.data,
+          worldMapData.metadata.annotations || []
+        );
       }
 
       if (success) {
@@ -459,6 +411,25 @@ class ARService {
     }
   }
 
+  // Annotations created, edited or deleted while the session runs are kept
+  // for the world map being recorded, so loading the map brings them back.
+  // Returns false when the annotation is not kept, e.g. it has no position.
+  addAnnotation(annotation: AnnotationResource): boolean {
+    return this.worldMapManager ? this.worldMapManager.trackAnnotation(annotation) : false;
+  }
+
+  updateAnnotation(annotation: AnnotationResource): boolean {
+    if (annotation.deleted_at) {
+      this.removeAnnotation(annotation.id);
+      return false;
+    }
+    return this.addAnnotation(annotation);
+  }
+
+  removeAnnotation(annotationId: string): void {
+    this.worldMapManager?.untrackAnnotation(annotationId);
+  }
+
   // Get world map manager
   getWorldMapManager(): WorldMapManager | null {
     return this.worldMapManager;
@@ -472,15 +443,9 @@ class ARService {
   // Get tracking quality
   async getTrackingQuality(sessionId: string): Promise<'limited' | 'normal'> {
     try {
-      const platform = Platform.OS;
-      
-      if (platform === 'ios') {
-        return await NativeModules.ARBridge.getTrackingQuality(sessionId);
-      } else if (platform === 'android') {
-        return await NativeModules.ARBridge.getTrackingQuality(sessionId);
-      } else {
-        return 'normal'; // Web fallback
-      }
+      // Lost tracking is reported as limited
+      const state = await this.provider.getTrackingState();
+      return state === 'normal' ? 'normal' : 'limited';
     } catch (error) {
       console.error('Failed to get tracking quality:', error);
       return 'limited';
@@ -532,19 +497,6 @@ class ARService {
     }
   }
 
-  // Web AR session implementation
-  private startWebARSession(sessionId: string, config: ARServiceConfig): boolean {
-    // Simplified Web AR implementation
-    console.log('Starting Web AR session:', sessionId, config);
-    return true;
-  }
-
-  private stopWebARSession(sessionId: string): boolean {
-    // Simplified Web AR implementation
-    console.log('Stopping Web AR session:', sessionId);
-    return true;
-  }
-
   // Update session configuration
   updateConfig(config: Partial<ARServiceConfig>): void {
     this.sessionConfig = { ...this.sessionConfig, ...config };
@@ -0,0 +1,139 @@
+// Keeps the annotations of an AR session in step with its collaboration session
+import { Socket } from 'socket.io-client';
+import {
+  AnnotationEventPayload,
+  AnnotationInput,
+  AnnotationResource,
+  AnnotationRevision,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  SessionJoinResponse,
+  SocketErrorResponse,
+} from 'ar-inspection-platform-shared';
+import ARService from './ARService';
+
+export type CollaborationSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const isError = (response: object): response is SocketErrorResponse => 'error' in response;
+
+// Annotations made here go through the collaboration socket, and every
+// annotation the session's room reports, ours or another participant's, is
+// handed to ARService so the world map being recorded carries it.
+class AnnotationSync {
+  // From the last join; rejoining after a reconnect replays what came after it
+  private cursor: string | null = null;
+  private listening = false;
+
+  constructor(
+    private socket: CollaborationSocket,
+    private arService: ARService,
+    private sessionId: string
+  ) {}
+
+  // Join the session and start following its annotations. Returns false if
+  // the server refused the join.
+  async start(): Promise<boolean> {
+    if (!this.listening) {
+      this.socket.on('annotation:created', this.handleAnnotation);
+      this.socket.on('annotation:updated', this.handleAnnotation);
+      this.socket.on('annotation:deleted', this.handleAnnotation);
+      this.socket.on('connect', this.handleReconnect);
+      this.listening = true;
+    }
+
+    return this.join();
+  }
+
+  stop(): void {
+    this.socket.off('annotation:created', this.handleAnnotation);
+    this.socket.off('annotation:updated', this.handleAnnotation);
+    this.socket.off('annotation:deleted', this.handleAnnotation);
+    this.socket.off('connect', this.handleReconnect);
+    this.listening = false;
+
+    if (this.socket.connected) {
+      this.socket.emit('session:leave', { sessionId: this.sessionId });
+    }
+  }
+
+  async createAnnotation(annotation: AnnotationInput): Promise<AnnotationResource | null> {
+    const response = await this.socket.emitWithAck('annotation:create', { sessionId: this.sessionId, annotation });
+    return this.applyResponse('create', response);
+  }
+
+  async updateAnnotation(annotationId: string, changes: AnnotationInput): Promise<AnnotationResource | null> {
+    const response = await this.socket.emitWithAck('annotation:update', {
+      sessionId: this.sessionId,
+      annotationId,
+      changes,
+    });
+    return this.applyResponse('update', response);
+  }
+
+  async deleteAnnotation(annotationId: string): Promise<AnnotationResource | null> {
+    const response = await this.socket.emitWithAck('annotation:delete', { sessionId: this.sessionId, annotationId });
+    return this.applyResponse('delete', response);
+  }
+
+  private async join(): Promise<boolean> {
+    try {
+      const response: SessionJoinResponse | SocketErrorResponse = await this.socket.emitWithAck('session:join', {
+        sessionId: this.sessionId,
+        ...(this.cursor ? { cursor: this.cursor } : {}),
+      });
+
+      if (isError(response)) {
+        console.error('Failed to join collaboration session:', response.error);
+        return false;
+      }
+
+      response.annotations?.forEach((annotation) => this.arService.updateAnnotation(annotation));
+      response.revisions?.forEach((revision) => this.applyRevision(revision));
+      this.cursor = response.cursor;
+      return true;
+    } catch (error) {
+      console.error('Failed to join collaboration session:', error);
+      return false;
+    }
+  }
+
+  // Replay is at-least-once and in order, so applying a revision twice is harmless
+  private applyRevision(revision: AnnotationRevision): void {
+    if (revision.action === 'delete') {
+      this.arService.removeAnnotation(revision.annotation_id);
+    } else {
+      this.arService.updateAnnotation(revision.snapshot);
+    }
+  }
+
+  // The room's broadcast of the same change may arrive before or after the ack
+  private applyResponse(
+    action: string,
+    response: { annotation: AnnotationResource } | SocketErrorResponse
+  ): AnnotationResource | null {
+    if (isError(response)) {
+      console.error(`Failed to ${action} annotation:`, response.error);
+      return null;
+    }
+
+    this.arService.updateAnnotation(response.annotation);
+    return response.annotation;
+  }
+
+  // Deleted annotations arrive with deleted_at set, which updateAnnotation untracks
+  private handleAnnotation = (payload: AnnotationEventPayload): void => {
+    if (payload.sessionId === this.sessionId) {
+      this.arService.updateAnnotation(payload.annotation);
+    }
+  };
+
+  // socket.io-client fires connect again after reconnecting, once the room
+  // membership has been lost
+  private handleReconnect = (): void => {
+    if (this.cursor) {
+      this.join();
+    }
+  };
+}
+
+export default AnnotationSync;
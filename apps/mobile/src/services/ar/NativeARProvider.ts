@@ -0,0 +1,180 @@
+// AR provider backed by the ARBridge native module, with world maps from
+// ARWorldMapManager on iOS and ARCoreManager on Android
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+import {
+  ARAnchorData,
+  ARHitResult,
+  ARHitTestType,
+  ARPose,
+  ARProvider,
+  ARProviderEventName,
+  ARProviderEvents,
+  ARProviderListener,
+  ARSessionOptions,
+  ARTrackingState,
+  Vector2,
+} from 'ar-inspection-platform-shared';
+
+// ARBridge events the provider understands; the rest have no provider equivalent
+const BRIDGE_EVENTS: { [E in ARProviderEventName]?: { name: string; convert: (payload: any) => ARProviderEvents[E] } } = {
+  trackingStateChanged: {
+    name: 'onTrackingStateChanged',
+    convert: (event) => ({ state: event.state, reason: event.reason }),
+  },
+  planeAdded: { name: 'onPlaneDetected', convert: (event) => event.plane || event },
+  anchorAdded: { name: 'onAnchorAdded', convert: (event) => event.anchor || event },
+};
+
+class NativeARProvider implements ARProvider {
+  readonly name = 'arbridge';
+
+  private eventEmitter: NativeEventEmitter | null = null;
+  private worldMapModule: any;
+  // ARBridge addresses sessions by id; the provider drives one at a time
+  private sessionId: string | null = null;
+  private trackingState: ARTrackingState = 'notAvailable';
+
+  constructor() {
+    if (NativeModules.ARBridge) {
+      this.eventEmitter = new NativeEventEmitter(NativeModules.ARBridge);
+      this.on('trackingStateChanged', ({ state }) => {
+        this.trackingState = state;
+      });
+    }
+
+    if (Platform.OS === 'ios') {
+      this.worldMapModule = NativeModules.ARWorldMapManager;
+    } else if (Platform.OS === 'android') {
+      this.worldMapModule = NativeModules.ARCoreManager;
+    }
+  }
+
+  private requireSession(): string {
+    if (!NativeModules.ARBridge || !this.sessionId) {
+      throw new Error('AR session not running');
+    }
+    return this.sessionId;
+  }
+
+  private requireWorldMapModule(): any {
+    if (!this.worldMapModule) {
+      throw new Error('World maps are not supported on this platform');
+    }
+    return this.worldMapModule;
+  }
+
+  async isSupported(): Promise<boolean> {
+    return (Platform.OS === 'ios' || Platform.OS === 'android') && !!NativeModules.ARBridge;
+  }
+
+  async startSession(options: ARSessionOptions = {}): Promise<void> {
+    if (!(await this.isSupported())) {
+      throw new Error('AR not supported on this platform');
+    }
+
+    const sessionId = options.sessionId || `session_${Date.now()}`;
+    const success = await NativeModules.ARBridge.startARSession(sessionId, options);
+    if (!success) {
+      throw new Error('Failed to start AR session');
+    }
+    this.sessionId = sessionId;
+  }
+
+  async pauseSession(): Promise<void> {
+    if (!(await NativeModules.ARBridge.pauseARSession(this.requireSession()))) {
+      throw new Error('Failed to pause AR session');
+    }
+  }
+
+  async resumeSession(): Promise<void> {
+    if (!(await NativeModules.ARBridge.resumeARSession(this.requireSession()))) {
+      throw new Error('Failed to resume AR session');
+    }
+  }
+
+  async stopSession(): Promise<void> {
+    const sessionId = this.requireSession();
+    if (!(await NativeModules.ARBridge.stopARSession(sessionId))) {
+      throw new Error('Failed to stop AR session');
+    }
+    this.sessionId = null;
+    this.trackingState = 'notAvailable';
+  }
+
+  async getTrackingState(): Promise<ARTrackingState> {
+    if (!this.sessionId) {
+      return this.trackingState;
+    }
+    return await NativeModules.ARBridge.getTrackingQuality(this.sessionId);
+  }
+
+  async getCameraPose(): Promise<ARPose> {
+    return await NativeModules.ARBridge.getCameraPose(this.requireSession());
+  }
+
+  async hitTest(point: Vector2, types: ARHitTestType[]): Promise<ARHitResult[]> {
+    return await NativeModules.ARBridge.hitTest(this.requireSession(), point.x, point.y, types);
+  }
+
+  async createAnchor(pose: ARPose): Promise<ARAnchorData> {
+    const id: string | null = await NativeModules.ARBridge.createAnchor(this.requireSession(), pose);
+    if (!id) {
+      throw new Error('Anchor was not created');
+    }
+    return { id, pose };
+  }
+
+  async removeAnchor(id: string): Promise<void> {
+    await NativeModules.ARBridge.removeAnchor(this.requireSession(), id);
+  }
+
+  async isWorldMapSupported(): Promise<boolean> {
+    return !!this.worldMapModule;
+  }
+
+  async getWorldMap(): Promise<string | null> {
+    const worldMaps = this.requireWorldMapModule();
+    return Platform.OS === 'ios' ? await worldMaps.getCurrentWorldMap() : await worldMaps.getWorldMap();
+  }
+
+  // Loaded into the running session when there is one, so ARBridge can
+  // relocalize it; otherwise the platform module keeps it for the next session
+  async loadWorldMap(data: string): Promise<boolean> {
+    if (this.sessionId) {
+      return await NativeModules.ARBridge.loadWorldMap(this.sessionId, data);
+    }
+    return await this.requireWorldMapModule().loadWorldMap(data);
+  }
+
+  async beginWorldMapping(mapId: string): Promise<void> {
+    const worldMaps = this.requireWorldMapModule();
+    if (Platform.OS === 'ios') {
+      await worldMaps.startRecording(mapId);
+    } else {
+      await worldMaps.startWorldMapping(mapId);
+    }
+  }
+
+  async endWorldMapping(): Promise<void> {
+    const worldMaps = this.requireWorldMapModule();
+    if (Platform.OS === 'ios') {
+      await worldMaps.stopRecording();
+    } else {
+      await worldMaps.stopWorldMapping();
+    }
+  }
+
+  on<E extends ARProviderEventName>(event: E, listener: ARProviderListener<E>): () => void {
+    const bridgeEvent = BRIDGE_EVENTS[event];
+    if (!this.eventEmitter || !bridgeEvent) {
+      return () => {};
+    }
+
+    const subscription = this.eventEmitter.addListener(bridgeEvent.name, (payload: any) => {
+      listener(bridgeEvent.convert(payload));
+    });
+    return () => subscription.remove();
+  }
+}
+
+export default NativeARProvider;
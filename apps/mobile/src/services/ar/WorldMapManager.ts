@@ -1,25 +1,19 @@
 // AR World Map persistence for maintaining AR experiences across app sessions
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnnotationResource,
+  ARPose,
+  ARProvider,
+  Vector3,
+  WorldMapAnnotation,
+  WorldMapData,
+  validateWorldMapData,
+} from 'ar-inspection-platform-shared';
 import ARInterface from './ARInterface';
+import NativeARProvider from './NativeARProvider';
+import { composePoses, relativePose, toQuaternion } from './poses';
 
-export interface WorldMapData {
-  id: string;
-  name: string;
-  created: number;
-  updated: number;
-  duration: number;
-  annotationCount: number;
-  mapData?: any; // ARKit/ARCore world map data
-  thumbnail?: string;
-  location?: {
-    latitude: number;
-    longitude: number;
-    altitude?: number;
-  };
-  metadata?: {
-    [key: string]: any;
-  };
-}
+export type { WorldMapData };
 
 export interface WorldMapOptions {
   maxMaps?: number;
@@ -27,40 +21,131 @@ export interface WorldMapOptions {
   compressionQuality?: number;
   autoSave?: boolean;
   retentionDays?: number;
+  // How long to wait for the session to relocalize against a loaded map
+  relocalizationTimeout?: number;
+  // How long after relocalizing to wait for the rest of the saved anchors
+  anchorGracePeriod?: number;
+}
+
+export type AnnotationRestoreState = 'idle' | 'relocalizing' | 'restoring' | 'restored' | 'partial' | 'failed';
+
+// A saved annotation back in the world. 'anchor' placements are relative to
+// their relocalized anchor; 'world' ones use the saved world pose because
+// the anchor never came back (or the annotation had none).
+export interface RestoredAnnotation {
+  annotation: WorldMapAnnotation;
+  pose: ARPose;
+  scale: Vector3;
+  placement: 'anchor' | 'world';
+}
+
+// 'partial' means some annotations fell back to their saved world pose;
+// 'failed' means the session never relocalized and `pending` were not placed
+export interface AnnotationRestoreProgress {
+  mapId: string | null;
+  state: AnnotationRestoreState;
+  total: number;
+  restored: RestoredAnnotation[];
+  pending: WorldMapAnnotation[];
 }
 
+const IDLE_RESTORE: AnnotationRestoreProgress = { mapId: null, state: 'idle', total: 0, restored: [], pending: [] };
+
 class WorldMapManager {
   private currentMapId: string | null = null;
   private isRecording: boolean = false;
   private recordingStartTime: number = 0;
   private options: WorldMapOptions;
 
-  constructor(options: WorldMapOptions = {}) {
+  // Anchor poses as the provider last reported them, and the annotations to
+  // save with the next map, relative to those anchors
+  private anchors: Map<string, ARPose> = new Map();
+  private annotations: Map<string, WorldMapAnnotation> = new Map();
+  // Annotations whose anchor the provider hasn't reported yet. Their
+  // transform is still the world pose until the anchor arrives.
+  private awaitingAnchor: Set<string> = new Set();
+
+  private restoreProgress: AnnotationRestoreProgress = IDLE_RESTORE;
+  private restoreListeners: Set<(progress: AnnotationRestoreProgress) => void> = new Set();
+  private restoreCleanup: (() => void) | null = null;
+
+  constructor(options: WorldMapOptions = {}, private provider: ARProvider = new NativeARProvider()) {
     this.options = {
       maxMaps: options.maxMaps || 10,
       enableLocation: options.enableLocation || false,
       compressionQuality: options.compressionQuality || 0.8,
       autoSave: options.autoSave || true,
       retentionDays: options.retentionDays || 30,
+      relocalizationTimeout: options.relocalizationTimeout || 30000,
+      anchorGracePeriod: options.anchorGracePeriod || 3000,
       ...options,
     };
+
+    this.provider.on('anchorAdded', ({ id, pose }) => this.setAnchor(id, pose));
+    this.provider.on('anchorUpdated', ({ id, pose }) => this.setAnchor(id, pose));
+    this.provider.on('anchorRemoved', ({ id }) => this.anchors.delete(id));
+  }
+
+  // Keep an annotation for the next saved map. Anchored annotations are
+  // stored relative to their anchor, or re-based onto it once it is reported
+  // if it hasn't been yet; ones without a position are skipped.
+  trackAnnotation(annotation: AnnotationResource): boolean {
+    if (!annotation.position) {
+      return false;
+    }
+
+    const worldPose: ARPose = { position: annotation.position, rotation: toQuaternion(annotation.rotation) };
+    const anchor = annotation.anchor_id ? this.anchors.get(annotation.anchor_id) : undefined;
+    const local = anchor ? relativePose(anchor, worldPose) : worldPose;
+
+    if (annotation.anchor_id && !anchor) {
+      this.awaitingAnchor.add(annotation.id);
+    } else {
+      this.awaitingAnchor.delete(annotation.id);
+    }
+
+    this.annotations.set(annotation.id, {
+      id: annotation.id,
+      type: annotation.type,
+      anchorId: annotation.anchor_id,
+      transform: { ...local, scale: annotation.scale || { x: 1, y: 1, z: 1 } },
+      worldPose,
+      style: {
+        color: annotation.color,
+        strokeWidth: annotation.stroke_width,
+        fontSize: annotation.font_size,
+      },
+      text: annotation.text,
+      measurement: annotation.measurement,
+    });
+    return true;
+  }
+
+  untrackAnnotation(annotationId: string): void {
+    this.annotations.delete(annotationId);
+    this.awaitingAnchor.delete(annotationId);
+  }
+
+  getRestoreProgress(): AnnotationRestoreProgress {
+    return this.restoreProgress;
+  }
+
+  onRestoreProgress(listener: (progress: AnnotationRestoreProgress) => void): () => void {
+    this.restoreListeners.add(listener);
+    return () => {
+      this.restoreListeners.delete(listener);
+    };
   }
 
   // Get current world map from AR session
   async getCurrentWorldMap(arInterface: ARInterface): Promise<any> {
     try {
-      const platform = Platform.OS;
-      
-      if (platform === 'ios') {
-        // Get ARKit world map
-        return await NativeModules.ARWorldMapManager.getCurrentWorldMap();
-      } else if (platform === 'android') {
-        // Get ARCore anchor data
-        return await NativeModules.ARCoreManager.getWorldMap();
-      } else {
-        // Web fallback - return scene state
-        return await arInterface.exportSceneState();
+      if (await this.provider.isWorldMapSupported()) {
+        return await this.provider.getWorldMap();
       }
+
+      // Web fallback - return scene state
+      return await arInterface.exportSceneState();
     } catch (error) {
       console.error('Failed to get current world map:', error);
       throw error;
@@ -102,11 +187,8 @@ class WorldMapManager {
       }
 
       // Start AR session recording if supported
-      const platform = Platform.OS;
-      if (platform === 'ios') {
-        await NativeModules.ARWorldMapManager.startRecording(mapId);
-      } else if (platform === 'android') {
-        await NativeModules.ARCoreManager.startWorldMapping(mapId);
+      if (this.provider.beginWorldMapping && await this.provider.isWorldMapSupported()) {
+        await this.provider.beginWorldMapping(mapId);
       }
 
       // Save initial map data
@@ -134,8 +216,7 @@ class WorldMapManager {
       // Get final world map data
       const mapData = await this.getCurrentWorldMap(arInterface);
       
-      // Get current annotations
-      const annotations = await arInterface.getAllAnnotations();
+      const annotations = this.captureAnnotations();
       
       // Generate thumbnail
       const thumbnail = await this.generateThumbnail(arInterface);
@@ -148,16 +229,14 @@ class WorldMapManager {
         updated: Date.now(),
         duration: duration,
         annotationCount: annotations.length,
+        annotations,
         mapData: mapData,
         thumbnail: thumbnail,
       };
 
       // Stop AR session recording
-      const platform = Platform.OS;
-      if (platform === 'ios') {
-        await NativeModules.ARWorldMapManager.stopRecording();
-      } else if (platform === 'android') {
-        await NativeModules.ARCoreManager.stopWorldMapping();
+      if (this.provider.endWorldMapping && await this.provider.isWorldMapSupported()) {
+        await this.provider.endWorldMapping();
       }
 
       // Save final world map
@@ -187,36 +266,12 @@ class WorldMapManager {
         throw new Error('World map not found or invalid');
       }
 
-      const platform = Platform.OS;
-      
-      if (platform === 'ios') {
-        // Restore ARKit world map
-        const success = await NativeModules.ARWorldMapManager.loadWorldMap(
-          worldMapData.mapData
-        );
-        
-        if (success) {
-          // Restore annotations
-          await this.restoreAnnotations(worldMapData, arInterface);
-        }
-        
-        return success;
-      } else if (platform === 'android') {
-        // Restore ARCore anchors
-        const success = await NativeModules.ARCoreManager.loadWorldMap(
-          worldMapData.mapData
-        );
-        
-        if (success) {
-          // Restore annotations
-          await this.restoreAnnotations(worldMapData, arInterface);
-        }
-        
-        return success;
-      } else {
-        // Web fallback - restore scene state
-        return await arInterface.importSceneState(worldMapData.mapData);
+      if (await this.provider.isWorldMapSupported()) {
+        return await this.relocalize(mapId, worldMapData.mapData, worldMapData.annotations || []);
       }
+
+      // Web fallback - restore scene state
+      return await arInterface.importSceneState(worldMapData.mapData);
     } catch (error) {
       console.error('Failed to load world map:', error);
       return false;
@@ -259,6 +314,11 @@ class WorldMapManager {
           const value = await AsyncStorage.getItem(key);
           if (value) {
             const mapData = JSON.parse(value);
+            const invalid = validateWorldMapData(mapData);
+            if (invalid) {
+              console.warn('Skipping invalid world map:', key, invalid);
+              continue;
+            }
             maps.push(mapData);
           }
         } catch (error) {
@@ -374,20 +434,161 @@ class WorldMapManager {
     }
   }
 
-  // Restore annotations from world map
-  private async restoreAnnotations(
-    worldMapData: WorldMapData,
-    arInterface: ARInterface
-  ): Promise<void> {
+  // Saved annotations with their world pose as of now
+  private setAnchor(id: string, pose: ARPose): void {
+    this.anchors.set(id, pose);
+
+    for (const annotationId of Array.from(this.awaitingAnchor)) {
+      const annotation = this.annotations.get(annotationId);
+      if (annotation?.anchorId === id) {
+        const local = relativePose(pose, annotation.worldPose);
+        this.annotations.set(annotationId, { ...annotation, transform: { ...local, scale: annotation.transform.scale } });
+        this.awaitingAnchor.delete(annotationId);
+      }
+    }
+  }
+
+  // An annotation still waiting for its anchor is saved in the world, since
+  // its pose relative to the anchor isn't known
+  private captureAnnotations(): WorldMapAnnotation[] {
+    return Array.from(this.annotations.values()).map((annotation) => {
+      if (this.awaitingAnchor.has(annotation.id)) {
+        return { ...annotation, anchorId: null };
+      }
+      const anchor = annotation.anchorId ? this.anchors.get(annotation.anchorId) : undefined;
+      return anchor ? { ...annotation, worldPose: composePoses(anchor, annotation.transform) } : annotation;
+    });
+  }
+
+  // Load a map into the session and restore its annotations as their anchors
+  // come back. Progress goes to onRestoreProgress listeners: annotations whose
+  // anchor is still missing anchorGracePeriod after relocalizing fall back to
+  // their saved world pose, and none are placed if the session has not
+  // relocalized within relocalizationTimeout.
+  async relocalize(mapId: string, mapData: string, annotations: WorldMapAnnotation[]): Promise<boolean> {
+    this.finishRestore('failed');
+    this.restoreProgress = { mapId, state: 'relocalizing', total: annotations.length, restored: [], pending: annotations };
+
+    // Listening before the load, as anchors may come back before it resolves
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = setTimeout(() => this.finishRestore('failed'), this.options.relocalizationTimeout);
+
+    let relocalized = false;
+    const handleRelocalized = () => {
+      if (relocalized) {
+        return;
+      }
+      relocalized = true;
+      clearTimeout(timeout);
+      this.placeAnnotations((annotation) => annotation.anchorId === null, 'world');
+      if (this.restoreProgress.pending.length === 0) {
+        this.finishRestore('restored');
+        return;
+      }
+      graceTimer = setTimeout(() => {
+        this.placeAnnotations(() => true, 'world');
+        this.finishRestore('partial');
+      }, this.options.anchorGracePeriod);
+    };
+
+    const unsubscribers = [
+      this.provider.on('trackingStateChanged', ({ state }) => {
+        if (state === 'normal') {
+          handleRelocalized();
+        }
+      }),
+      this.provider.on('anchorAdded', ({ id, pose }) => {
+        handleRelocalized();
+        this.placeAnnotations((annotation) => annotation.anchorId === id, 'anchor', pose);
+      }),
+    ];
+
+    this.restoreCleanup = () => {
+      clearTimeout(timeout);
+      if (graceTimer) {
+        clearTimeout(graceTimer);
+      }
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+    this.notifyRestoreProgress();
+
     try {
-      // This would restore annotations that were saved with the world map
-      // Implementation depends on how annotations are stored
-      console.log('Restoring annotations for map:', worldMapData.id);
+      if (!(await this.provider.loadWorldMap(mapData))) {
+        this.finishRestore('failed');
+        return false;
+      }
+      return true;
     } catch (error) {
-      console.error('Failed to restore annotations:', error);
+      this.finishRestore('failed');
+      throw error;
     }
   }
 
+  // Places the pending annotations that match, relative to the anchor pose
+  // when given and at their saved world pose otherwise
+  private placeAnnotations(
+    matches: (annotation: WorldMapAnnotation) => boolean,
+    placement: RestoredAnnotation['placement'],
+    anchorPose?: ARPose
+  ): void {
+    const { pending, restored } = this.restoreProgress;
+    const placed = pending.filter(matches);
+    if (placed.length === 0) {
+      return;
+    }
+
+    const restoredNow = placed.map((annotation): RestoredAnnotation => {
+      const pose = anchorPose
+        ? composePoses(anchorPose, annotation.transform)
+        : annotation.anchorId === null ? annotation.transform : annotation.worldPose;
+
+      // Restored annotations are saved again with the next map
+      this.annotations.set(annotation.id, placement === 'anchor'
+        ? annotation
+        : { ...annotation, anchorId: null, transform: { ...pose, scale: annotation.transform.scale }, worldPose: pose });
+
+      return { annotation, pose, scale: annotation.transform.scale, placement };
+    });
+
+    const stillPending = pending.filter((annotation) => !placed.includes(annotation));
+    this.restoreProgress = {
+      ...this.restoreProgress,
+      state: 'restoring',
+      restored: [...restored, ...restoredNow],
+      pending: stillPending,
+    };
+
+    if (stillPending.length === 0) {
+      this.finishRestore(this.restoreProgress.restored.some((r) => r.placement === 'world' && r.annotation.anchorId)
+        ? 'partial'
+        : 'restored');
+    } else {
+      this.notifyRestoreProgress();
+    }
+  }
+
+  // Ends the restore in progress, if any
+  private finishRestore(state: 'restored' | 'partial' | 'failed'): void {
+    if (!this.restoreCleanup) {
+      return;
+    }
+
+    this.restoreCleanup();
+    this.restoreCleanup = null;
+    this.restoreProgress = { ...this.restoreProgress, state };
+    this.notifyRestoreProgress();
+  }
+
+  private notifyRestoreProgress(): void {
+    this.restoreListeners.forEach((listener) => {
+      try {
+        listener(this.restoreProgress);
+      } catch (error) {
+        console.error('Error in restore progress listener:', error);
+      }
+    });
+  }
+
   // Get current location
   private async getCurrentLocation(): Promise<any> {
     return new Promise((resolve, reject) => {
@@ -453,9 +654,14 @@ class WorldMapManager {
         throw new Error('Invalid world map export data');
       }
 
+      const invalid = validateWorldMapData(importData.mapData);
+      if (invalid) {
+        throw new Error(`Invalid world map export data: ${invalid}`);
+      }
+
       // Generate new ID for imported map
       const newMapId = this.generateMapId();
-      const worldMapData = {
+      const worldMapData: WorldMapData = {
         ...importData.mapData,
         id: newMapId,
         name: `Imported: ${importData.mapData.name}`,
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnnotationResource, ARSimulatorScene, SimulatedARProvider } from 'ar-inspection-platform-shared';
+import ARService from '../ARService';
+import { AnnotationRestoreProgress } from '../WorldMapManager';
+
+// inspection-room: tracking is normal from 500ms, the floor appears at 800ms
+// and by 2000ms the camera, 1.4m up, is pitched 30° down towards it.
+// Relocalizing against a map takes 1500ms.
+const SCENE_FILE = require.resolve('ar-inspection-platform-shared/scenes/inspection-room.json');
+
+const CENTRE = { x: 195, y: 422 };
+const IDENTITY = { x: 0, y: 0, z: 0, w: 1 };
+// Defaults of the WorldMapManager that ARService creates
+const ANCHOR_GRACE_PERIOD = 3000;
+const RELOCALIZATION_TIMEOUT = 30000;
+
+type Relocalization = NonNullable<ARSimulatorScene['relocalization']>;
+
+// The scene file with its relocalization overridden
+const readScene = (relocalization: Partial<Relocalization> = {}): ARSimulatorScene => {
+  const scene: ARSimulatorScene = JSON.parse(fs.readFileSync(SCENE_FILE, 'utf8'));
+  return { ...scene, relocalization: { ...scene.relocalization!, ...relocalization } };
+};
+
+const annotation = (overrides: Partial<AnnotationResource>): AnnotationResource => ({
+  id: 'annotation-1',
+  session_id: 'session-1',
+  type: 'sphere',
+  points: [],
+  color: '#FF3B30',
+  stroke_width: null,
+  text: null,
+  font_size: null,
+  position: { x: 0, y: 0, z: -2 },
+  rotation: null,
+  scale: null,
+  anchor_id: null,
+  measurement: null,
+  version: 1,
+  created_by: 'user-1',
+  created_at: '2026-10-01T09:00:00.000Z',
+  updated_at: '2026-10-01T09:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('ARService world maps on the simulator', () => {
+  let provider: SimulatedARProvider;
+  let service: ARService;
+  let progress: AnnotationRestoreProgress[];
+
+  // Runs the simulator to the given time since the session started
+  const advanceTo = (time: number) => provider.advance(time - provider.now());
+
+  const setup = (scene: ARSimulatorScene) => {
+    provider = new SimulatedARProvider(scene);
+    service = new ARService({}, provider);
+    progress = [];
+    service.addEventListener('annotationRestoreProgress', (event: { data: AnnotationRestoreProgress }) => {
+      progress.push(event.data);
+    });
+  };
+
+  // Records a map with a marker anchored 10cm above the floor and a label at
+  // a fixed spot; a third annotation is deleted before the map is saved
+  const recordMap = async () => {
+    expect(await service.startSession('session-1')).toBe(true);
+    advanceTo(2000);
+
+    const [floor] = await provider.hitTest(CENTRE, ['existingPlane']);
+    const anchor = await provider.createAnchor({ position: floor.position, rotation: IDENTITY });
+    const marker = { ...floor.position, y: floor.position.y + 0.1 };
+
+    const label = annotation({ id: 'label', type: 'text', text: 'Crack', position: { x: 1, y: 1, z: -3 } });
+
+    expect(service.addAnnotation(annotation({ id: 'marker', position: marker, anchor_id: anchor.id }))).toBe(true);
+    expect(service.addAnnotation(label)).toBe(true);
+    expect(service.addAnnotation(annotation({ id: 'mistake' }))).toBe(true);
+    expect(service.updateAnnotation({ ...label, text: 'Crack, 2mm', version: 2 })).toBe(true);
+    service.removeAnnotation('mistake');
+
+    const mapId = service.getWorldMapManager()!.getRecordingStatus().currentMapId!;
+    expect(await service.saveWorldMap('session-1')).toBe(true);
+    await service.stopSession('session-1');
+
+    return { mapId, marker };
+  };
+
+  // A new session on the same provider, tracking, with the map loaded
+  const loadMap = async (mapId: string) => {
+    expect(await service.startSession('session-1')).toBe(true);
+    advanceTo(500);
+    expect(await service.loadWorldMap(mapId, 'session-1')).toBe(true);
+  };
+
+  const states = () => progress.map((p) => p.state);
+  const latest = () => progress[progress.length - 1];
+  const restored = (id: string) => latest().restored.find((r) => r.annotation.id === id)!;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // No AR view to take a thumbnail from
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await AsyncStorage.clear();
+  });
+
+  afterEach(async () => {
+    await service.stopSession('session-1');
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('saves the annotations placed in the session with its map', async () => {
+    setup(readScene());
+    const { mapId, marker } = await recordMap();
+
+    const saved = await service.getWorldMapStorage()!.loadWorldMap(mapId);
+    const annotations = saved!.metadata.annotations!;
+
+    expect(saved!.metadata.annotationCount).toBe(2);
+    expect(annotations.map((a) => a.id)).toEqual(['marker', 'label']);
+    expect(annotations[1].text).toBe('Crack, 2mm');
+
+    // The marker is stored relative to its anchor, the label in the world
+    expect(annotations[0].anchorId).toBe('sim-anchor-1');
+    expect(annotations[0].transform.position.y).toBeCloseTo(0.1, 6);
+    expect(annotations[0].worldPose.position.z).toBeCloseTo(marker.z, 6);
+    expect(annotations[1]).toMatchObject({ anchorId: null, worldPose: { position: { x: 1, y: 1, z: -3 } } });
+  });
+
+  it('stops keeping an annotation once it is deleted', async () => {
+    setup(readScene());
+    await service.startSession('session-1');
+    advanceTo(2000);
+
+    service.addAnnotation(annotation({ id: 'label' }));
+    const deleted = annotation({ id: 'label', deleted_at: '2026-10-01T09:05:00.000Z' });
+    expect(service.updateAnnotation(deleted)).toBe(false);
+    expect(service.addAnnotation(annotation({ id: 'sketch', position: null }))).toBe(false);
+
+    const mapId = service.getWorldMapManager()!.getRecordingStatus().currentMapId!;
+    await service.saveWorldMap('session-1');
+
+    const saved = await service.getWorldMapStorage()!.loadWorldMap(mapId);
+    expect(saved!.metadata.annotations).toEqual([]);
+  });
+
+  it('re-bases an annotation onto its anchor once the anchor is reported', async () => {
+    setup(readScene());
+    await service.startSession('session-1');
+    advanceTo(2000);
+
+    // Arrives from another participant before this device has seen the anchor
+    const [floor] = await provider.hitTest(CENTRE, ['existingPlane']);
+    const marker = { ...floor.position, y: floor.position.y + 0.1 };
+    expect(service.addAnnotation(annotation({ id: 'marker', position: marker, anchor_id: 'sim-anchor-2' }))).toBe(true);
+    expect(service.addAnnotation(annotation({ id: 'early', position: marker, anchor_id: 'sim-anchor-1' }))).toBe(true);
+
+    await provider.createAnchor({ position: floor.position, rotation: IDENTITY });
+
+    const mapId = service.getWorldMapManager()!.getRecordingStatus().currentMapId!;
+    await service.saveWorldMap('session-1');
+    const saved = await service.getWorldMapStorage()!.loadWorldMap(mapId);
+    const [stillWaiting, rebased] = saved!.metadata.annotations!;
+
+    expect(rebased).toMatchObject({ id: 'early', anchorId: 'sim-anchor-1' });
+    expect(rebased.transform.position.y).toBeCloseTo(0.1, 6);
+    expect(rebased.worldPose.position.z).toBeCloseTo(marker.z, 6);
+
+    // Saved in the world while its anchor is still unknown
+    expect(stillWaiting).toMatchObject({ id: 'marker', anchorId: null });
+    expect(stillWaiting.transform.position.y).toBeCloseTo(marker.y, 6);
+  });
+
+  it('restores the annotations as the next session relocalizes against the map', async () => {
+    setup(readScene());
+    const { mapId, marker } = await recordMap();
+
+    await loadMap(mapId);
+    expect(states()).toEqual(['relocalizing']);
+    expect(latest()).toMatchObject({ mapId, total: 2, restored: [] });
+
+    // Loaded at 500ms, so the session relocalizes at 2000ms
+    advanceTo(1999);
+    expect(states()).toEqual(['relocalizing']);
+
+    advanceTo(2000);
+    // The label goes back once tracking returns, the marker with its anchor
+    expect(states()).toEqual(['relocalizing', 'restoring', 'restored']);
+    expect(latest().pending).toEqual([]);
+
+    expect(restored('label')).toMatchObject({ placement: 'world', pose: { position: { x: 1, y: 1, z: -3 } } });
+    const { placement, pose } = restored('marker');
+    expect(placement).toBe('anchor');
+    expect(pose.position.x).toBeCloseTo(marker.x, 6);
+    expect(pose.position.y).toBeCloseTo(marker.y, 6);
+    expect(pose.position.z).toBeCloseTo(marker.z, 6);
+  });
+
+  it('falls back to the saved world pose for an anchor that never comes back', async () => {
+    setup(readScene({ lostAnchorIds: ['sim-anchor-1'] }));
+    const { mapId, marker } = await recordMap();
+
+    await loadMap(mapId);
+    advanceTo(2000);
+
+    expect(states()).toEqual(['relocalizing', 'restoring']);
+    expect(latest().pending.map((a) => a.id)).toEqual(['marker']);
+
+    jest.advanceTimersByTime(ANCHOR_GRACE_PERIOD - 1);
+    expect(states()).toEqual(['relocalizing', 'restoring']);
+
+    jest.advanceTimersByTime(1);
+    expect(states()).toEqual(['relocalizing', 'restoring', 'partial']);
+    expect(latest().pending).toEqual([]);
+
+    const { placement, pose } = restored('marker');
+    expect(placement).toBe('world');
+    expect(pose.position.x).toBeCloseTo(marker.x, 6);
+    expect(pose.position.y).toBeCloseTo(marker.y, 6);
+    expect(pose.position.z).toBeCloseTo(marker.z, 6);
+  });
+
+  it('places nothing when the session never relocalizes', async () => {
+    setup(readScene({ fails: true }));
+    const { mapId } = await recordMap();
+
+    await loadMap(mapId);
+    // Up to where the scene itself next changes tracking
+    advanceTo(2999);
+
+    jest.advanceTimersByTime(RELOCALIZATION_TIMEOUT);
+    expect(states()).toEqual(['relocalizing', 'failed']);
+    expect(latest().restored).toEqual([]);
+    expect(latest().pending.map((a) => a.id)).toEqual(['marker', 'label']);
+  });
+});
@@ -0,0 +1,193 @@
+import fs from 'fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnnotationResource, SimulatedARProvider } from 'ar-inspection-platform-shared';
+import AnnotationSync, { CollaborationSocket } from '../AnnotationSync';
+import ARService from '../ARService';
+
+const SCENE_FILE = require.resolve('ar-inspection-platform-shared/scenes/inspection-room.json');
+
+const annotation = (overrides: Partial<AnnotationResource>): AnnotationResource => ({
+  id: 'annotation-1',
+  session_id: 'session-1',
+  type: 'sphere',
+  points: [],
+  color: '#FF3B30',
+  stroke_width: null,
+  text: null,
+  font_size: null,
+  position: { x: 0, y: 0, z: -2 },
+  rotation: null,
+  scale: null,
+  anchor_id: null,
+  measurement: null,
+  version: 1,
+  created_by: 'user-1',
+  created_at: '2026-10-01T09:00:00.000Z',
+  updated_at: '2026-10-01T09:00:00.000Z',
+  deleted_at: null,
+  ...overrides,
+});
+
+// Stands in for the collaboration namespace: acks come from the handlers
+// the test registers, and serverEmit plays a room broadcast
+class FakeSocket {
+  connected = true;
+  emitted: { event: string; payload: any }[] = [];
+  private listeners = new Map<string, Set<(...args: any[]) => void>>();
+  private ackHandlers = new Map<string, (payload: any) => any>();
+
+  handle(event: string, handler: (payload: any) => any) {
+    this.ackHandlers.set(event, handler);
+  }
+
+  on(event: string, listener: (...args: any[]) => void) {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: string, listener: (...args: any[]) => void) {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  emit(event: string, payload: any) {
+    this.emitted.push({ event, payload });
+    return this;
+  }
+
+  async emitWithAck(event: string, payload: any) {
+    this.emitted.push({ event, payload });
+    const handler = this.ackHandlers.get(event);
+    return handler ? handler(payload) : { error: `No handler for ${event}` };
+  }
+
+  serverEmit(event: string, ...args: any[]) {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+}
+
+describe('AnnotationSync', () => {
+  let provider: SimulatedARProvider;
+  let service: ARService;
+  let socket: FakeSocket;
+  let sync: AnnotationSync;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // No AR view to take a thumbnail from
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await AsyncStorage.clear();
+
+    provider = new SimulatedARProvider(JSON.parse(fs.readFileSync(SCENE_FILE, 'utf8')));
+    service = new ARService({}, provider);
+    expect(await service.startSession('session-1')).toBe(true);
+    provider.advance(2000);
+
+    socket = new FakeSocket();
+    socket.handle('session:join', () => ({ session: { id: 'session-1' }, participants: [], annotations: [], cursor: '4' }));
+    sync = new AnnotationSync(socket as unknown as CollaborationSocket, service, 'session-1');
+  });
+
+  afterEach(async () => {
+    sync.stop();
+    await service.stopSession('session-1');
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // The annotations the map would be saved with
+  const savedAnnotations = async () => {
+    const mapId = service.getWorldMapManager()!.getRecordingStatus().currentMapId!;
+    expect(await service.saveWorldMap('session-1')).toBe(true);
+    const saved = await service.getWorldMapStorage()!.loadWorldMap(mapId);
+    return saved!.metadata.annotations!;
+  };
+
+  it('keeps the annotations made here and by other participants for the map', async () => {
+    socket.handle('session:join', () => ({
+      session: { id: 'session-1' },
+      participants: [],
+      annotations: [annotation({ id: 'existing' })],
+      cursor: '4',
+    }));
+    socket.handle('annotation:create', ({ annotation: input }) => ({
+      annotation: annotation({ ...input, id: 'mine' }),
+    }));
+    socket.handle('annotation:update', ({ annotationId, changes }) => ({
+      annotation: annotation({ ...changes, id: annotationId, version: 2 }),
+    }));
+    socket.handle('annotation:delete', ({ annotationId }) => ({
+      annotation: annotation({ id: annotationId, deleted_at: '2026-10-01T09:05:00.000Z' }),
+    }));
+    expect(await sync.start()).toBe(true);
+
+    const created = await sync.createAnnotation({ type: 'text', text: 'Crack', position: { x: 1, y: 1, z: -3 } });
+    expect(created).toMatchObject({ id: 'mine', text: 'Crack' });
+    await sync.updateAnnotation('mine', { text: 'Crack, 2mm' });
+
+    socket.serverEmit('annotation:created', { sessionId: 'session-1', annotation: annotation({ id: 'theirs' }) });
+    socket.serverEmit('annotation:created', { sessionId: 'session-2', annotation: annotation({ id: 'elsewhere' }) });
+    await sync.deleteAnnotation('existing');
+
+    const saved = await savedAnnotations();
+    expect(saved.map((a) => a.id)).toEqual(['mine', 'theirs']);
+    expect(saved[0].text).toBe('Crack, 2mm');
+  });
+
+  it('stops keeping annotations other participants delete', async () => {
+    await sync.start();
+    socket.serverEmit('annotation:created', { sessionId: 'session-1', annotation: annotation({ id: 'theirs' }) });
+
+    socket.serverEmit('annotation:deleted', {
+      sessionId: 'session-1',
+      annotation: annotation({ id: 'theirs', deleted_at: '2026-10-01T09:05:00.000Z' }),
+    });
+
+    expect(await savedAnnotations()).toEqual([]);
+  });
+
+  it('replays what it missed after reconnecting from the cursor of the last join', async () => {
+    await sync.start();
+    socket.serverEmit('annotation:created', { sessionId: 'session-1', annotation: annotation({ id: 'gone' }) });
+
+    socket.handle('session:join', () => ({
+      session: { id: 'session-1' },
+      participants: [],
+      revisions: [
+        { id: 'r1', annotation_id: 'new', version: 1, action: 'create', snapshot: annotation({ id: 'new' }) },
+        { id: 'r2', annotation_id: 'gone', version: 2, action: 'delete', snapshot: annotation({ id: 'gone' }) },
+      ],
+      statusEvents: [],
+      cursor: '9',
+    }));
+    socket.serverEmit('connect');
+    await Promise.resolve();
+
+    const joins = socket.emitted.filter((e) => e.event === 'session:join').map((e) => e.payload);
+    expect(joins).toEqual([{ sessionId: 'session-1' }, { sessionId: 'session-1', cursor: '4' }]);
+    expect((await savedAnnotations()).map((a) => a.id)).toEqual(['new']);
+  });
+
+  it('keeps nothing the server refused', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await sync.start();
+    socket.handle('annotation:create', () => ({ error: 'Insufficient permissions' }));
+
+    expect(await sync.createAnnotation({ type: 'sphere', position: { x: 0, y: 0, z: -1 } })).toBeNull();
+    expect(await savedAnnotations()).toEqual([]);
+  });
+
+  it('stops following the session', async () => {
+    await sync.start();
+    sync.stop();
+
+    socket.serverEmit('annotation:created', { sessionId: 'session-1', annotation: annotation({ id: 'late' }) });
+
+    expect(socket.emitted[socket.emitted.length - 1]).toEqual({ event: 'session:leave', payload: { sessionId: 'session-1' } });
+    expect(await savedAnnotations()).toEqual([]);
+  });
+});
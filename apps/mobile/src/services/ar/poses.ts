@@ -0,0 +1,65 @@
+// Rigid transforms for placing annotations relative to AR anchors
+import { ARPose, Quaternion, Rotation, Vector3 } from 'ar-inspection-platform-shared';
+
+export const IDENTITY_ROTATION: Quaternion = { x: 0, y: 0, z: 0, w: 1 };
+
+export const multiplyQuaternions = (a: Quaternion, b: Quaternion): Quaternion => ({
+  x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+  y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+  z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+  w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+});
+
+// The inverse, for unit quaternions
+export const conjugate = (q: Quaternion): Quaternion => ({ x: -q.x, y: -q.y, z: -q.z, w: q.w });
+
+export const rotateVector = (q: Quaternion, v: Vector3): Vector3 => {
+  const { x, y, z } = multiplyQuaternions(multiplyQuaternions(q, { ...v, w: 0 }), conjugate(q));
+  return { x, y, z };
+};
+
+// Annotation rotations are quaternions when they have a w, otherwise
+// XYZ Euler angles in radians
+export const toQuaternion = (rotation: Rotation | null | undefined): Quaternion => {
+  if (!rotation) {
+    return IDENTITY_ROTATION;
+  }
+  if (rotation.w !== undefined) {
+    return { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w };
+  }
+
+  const [cx, cy, cz] = [rotation.x, rotation.y, rotation.z].map((angle) => Math.cos(angle / 2));
+  const [sx, sy, sz] = [rotation.x, rotation.y, rotation.z].map((angle) => Math.sin(angle / 2));
+  return {
+    x: sx * cy * cz + cx * sy * sz,
+    y: cx * sy * cz - sx * cy * sz,
+    z: cx * cy * sz + sx * sy * cz,
+    w: cx * cy * cz - sx * sy * sz,
+  };
+};
+
+// A pose given relative to parent, in parent's space
+export const composePoses = (parent: ARPose, local: ARPose): ARPose => {
+  const offset = rotateVector(parent.rotation, local.position);
+  return {
+    position: {
+      x: parent.position.x + offset.x,
+      y: parent.position.y + offset.y,
+      z: parent.position.z + offset.z,
+    },
+    rotation: multiplyQuaternions(parent.rotation, local.rotation),
+  };
+};
+
+// The world pose relative to parent; composePoses undoes it
+export const relativePose = (parent: ARPose, world: ARPose): ARPose => {
+  const inverse = conjugate(parent.rotation);
+  return {
+    position: rotateVector(inverse, {
+      x: world.position.x - parent.position.x,
+      y: world.position.y - parent.position.y,
+      z: world.position.z - parent.position.z,
+    }),
+    rotation: multiplyQuaternions(inverse, world.rotation),
+  };
+};
@@ -1,6 +1,8 @@
 // AR world map native module for iOS
 import React from 'react';
 import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
+import { ARProvider } from 'ar-inspection-platform-shared';
+import NativeARProvider from '../ar/NativeARProvider';
 
 const { ARWorldMapManager } = NativeModules;
 
@@ -18,23 +20,30 @@ export interface WorldMapEvent {
   data?: any;
 }
 
+// Recording, capturing and loading maps go through the AR provider, so a
+// SimulatedARProvider can stand in for ARKit; the saved-map store, status and
+// quality metrics are only on the native module.
 class ARWorldMapBridge {
-  private eventEmitter: NativeEventEmitter;
+  private eventEmitter: NativeEventEmitter | null = null;
+  private provider: ARProvider;
   private listeners: Map<string, any[]> = new Map();
 
-  constructor() {
-    if (Platform.OS !== 'ios' || !ARWorldMapManager) {
+  constructor(provider?: ARProvider) {
+    if (!provider && (Platform.OS !== 'ios' || !ARWorldMapManager)) {
       throw new Error('ARWorldMapManager is not available on this platform');
     }
 
-    this.eventEmitter = new NativeEventEmitter(ARWorldMapManager);
+    this.provider = provider || new NativeARProvider();
+    if (ARWorldMapManager) {
+      this.eventEmitter = new NativeEventEmitter(ARWorldMapManager);
+    }
     this.setupEventListeners();
   }
 
   // Check if world mapping is available
   async isWorldMappingAvailable(): Promise<boolean> {
     try {
-      return await ARWorldMapManager.isWorldMappingAvailable();
+      return await this.provider.isWorldMapSupported();
     } catch (error) {
       console.error('Failed to check world mapping availability:', error);
       return false;
@@ -57,7 +66,8 @@ class ARWorldMapBridge {
   // Start recording world map
   async startRecording(mapId: string): Promise<boolean> {
     try {
-      return await ARWorldMapManager.startRecording(mapId);
+      await this.provider.beginWorldMapping?.(mapId);
+      return true;
     } catch (error) {
       console.error('Failed to start world map recording:', error);
       return false;
@@ -67,7 +77,8 @@ class ARWorldMapBridge {
   // Stop recording world map
   async stopRecording(): Promise<boolean> {
     try {
-      return await ARWorldMapManager.stopRecording();
+      await this.provider.endWorldMapping?.();
+      return true;
     } catch (error) {
       console.error('Failed to stop world map recording:', error);
       return false;
@@ -77,7 +88,7 @@ class ARWorldMapBridge {
   // Get current world map data
   async getCurrentWorldMap(): Promise<any> {
     try {
-      return await ARWorldMapManager.getCurrentWorldMap();
+      return await this.provider.getWorldMap();
     } catch (error) {
       console.error('Failed to get current world map:', error);
       return null;
@@ -87,7 +98,7 @@ class ARWorldMapBridge {
   // Load world map
   async loadWorldMap(worldMapData: any): Promise<boolean> {
     try {
-      return await ARWorldMapManager.loadWorldMap(worldMapData);
+      return await this.provider.loadWorldMap(worldMapData);
     } catch (error) {
       console.error('Failed to load world map:', error);
       return false;
@@ -131,6 +142,15 @@ class ARWorldMapBridge {
     featureCount: number;
   }> {
     try {
+      if (!ARWorldMapManager) {
+        const trackingState = await this.provider.getTrackingState();
+        return {
+          trackingQuality: trackingState === 'normal' ? 'normal' : 'limited',
+          trackingState,
+          featureCount: 0,
+        };
+      }
+
       return await ARWorldMapManager.getWorldMapQuality();
     } catch (error) {
       console.error('Failed to get world map quality:', error);
@@ -154,16 +174,20 @@ class ARWorldMapBridge {
 
   // Set up event listeners
   private setupEventListeners(): void {
+    // Listen for tracking state changes
+    this.provider.on('trackingStateChanged', (event) => {
+      this.emit('trackingStateChanged', event);
+    });
+
+    if (!this.eventEmitter) {
+      return;
+    }
+
     // Listen for world map events
     this.eventEmitter.addListener('onWorldMapEvent', (event: WorldMapEvent) => {
       this.emit(event.type, event);
     });
 
-    // Listen for tracking state changes
-    this.eventEmitter.addListener('onTrackingStateChanged', (event: any) => {
-      this.emit('trackingStateChanged', event);
-    });
-
     // Listen for mapping progress updates
     this.eventEmitter.addListener('onMappingProgress', (event: any) => {
       this.emit('mappingProgress', event);
@@ -14,6 +14,20 @@ export interface SecurityConfig {
   enableHIPAACompliance?: boolean;
   enableAuditLogging?: boolean;
   dataRetentionDays?: number;
+  apiBaseUrl?: string;
+  getAccessToken?: () => Promise<string | null>;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  enabled_at: string | null;
+  backup_codes_remaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
 }
 
 export interface EncryptionKey {
@@ -68,6 +82,7 @@ class AdvancedSecurityService {
       enableHIPAACompliance: false,
       enableAuditLogging: true,
       dataRetentionDays: 90,
+      apiBaseUrl: 'http://localhost:3000',
       ...config,
     };
 
@@ -274,33 +289,20 @@ class AdvancedSecurityService {
     }
   }
 
-  // Two-factor authentication setup
-  async setupTwoFactorAuth(userId: string): Promise<{
-    secret: string;
-    qrCode: string;
-    backupCodes: string[];
-  }> {
-    try {
-      // Generate TOTP secret
-      const secret = this.generateTOTPSecret();
-      
-      // Generate backup codes
-      const backupCodes = this.generateBackupCodes();
-      
-      // Generate QR code URL
-      const qrCodeUrl = `otpauth://totp/ARInspection:${userId}?secret=${secret}&issuer=ARInspection`;
-      
-      // Store setup data (encrypted)
-      const setupData = {
-        secret,
-        backupCodes,
-        setupTime: Date.now(),
-      };
+  // Two-factor authentication is enforced by the backend; the device only
+  // relays codes and never sees the stored secret again after enrollment
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return this.apiRequest<TwoFactorStatus>('/api/auth/2fa');
+  }
 
-      const encryptedSetup = await this.encryptData(setupData, { userId });
-      await AsyncStorage.setItem(`2fa_setup_${userId}`, JSON.stringify(encryptedSetup));
+  // Start enrollment; the secret is shown once for the authenticator app
+  async setupTwoFactorAuth(userId: string): Promise<TwoFactorEnrollment> {
+    try {
+      const enrollment = await this.apiRequest<{ secret: string; otpauth_url: string }>(
+        '/api/auth/2fa/setup',
+        { method: 'POST' }
+      );
 
-      // Log 2FA setup
       await this.logSecurityEvent({
         userId,
         action: 'TWO_FACTOR_SETUP',
@@ -308,44 +310,89 @@ class AdvancedSecurityService {
         result: 'success',
       });
 
-      return {
-        secret,
-        qrCode: qrCodeUrl,
-        backupCodes,
-      };
+      return { secret: enrollment.secret, otpauthUrl: enrollment.otpauth_url };
     } catch (error) {
       console.error('Failed to setup two-factor auth:', error);
       throw error;
     }
   }
 
-  // Verify two-factor authentication code
-  async verifyTwoFactorAuth(userId: string, code: string): Promise<boolean> {
+  // Confirm enrollment with a code from the authenticator; returns the backup codes
+  async enableTwoFactorAuth(userId: string, code: string): Promise<string[]> {
     try {
-      const setupData = await this.getTwoFactorSetup(userId);
-      if (!setupData) {
-        return false;
-      }
+      const response = await this.apiRequest<{ backup_codes: string[] }>(
+        '/api/auth/2fa/enable',
+        { method: 'POST', body: { code } }
+      );
 
-      // Verify TOTP code
-      const isValid = this.verifyTOTPCode(setupData.secret, code);
+      await this.logSecurityEvent({
+        userId,
+        action: 'TWO_FACTOR_ENABLED',
+        resource: '2fa',
+        result: 'success',
+      });
 
-      // Log verification attempt
+      return response.backup_codes;
+    } catch (error) {
       await this.logSecurityEvent({
         userId,
-        action: 'TWO_FACTOR_VERIFY',
+        action: 'TWO_FACTOR_ENABLED',
         resource: '2fa',
-        result: isValid ? 'success' : 'failure',
-        metadata: { codeLength: code.length },
+        result: 'failure',
       });
+      throw error;
+    }
+  }
 
-      return isValid;
+  async disableTwoFactorAuth(userId: string, code: string): Promise<void> {
+    try {
+      await this.apiRequest('/api/auth/2fa/disable', { method: 'POST', body: { code } });
+
+      await this.logSecurityEvent({
+        userId,
+        action: 'TWO_FACTOR_DISABLED',
+        resource: '2fa',
+        result: 'success',
+      });
     } catch (error) {
-      console.error('Failed to verify two-factor auth:', error);
-      return false;
+      await this.logSecurityEvent({
+        userId,
+        action: 'TWO_FACTOR_DISABLED',
+        resource: '2fa',
+        result: 'failure',
+      });
+      throw error;
     }
   }
 
+  async regenerateBackupCodes(code: string): Promise<string[]> {
+    const response = await this.apiRequest<{ backup_codes: string[] }>(
+      '/api/auth/2fa/backup-codes',
+      { method: 'POST', body: { code } }
+    );
+    return response.backup_codes;
+  }
+
+  // Second login step after /api/auth/login answered with two_factor_required.
+  // Accepts a TOTP code or a backup code.
+  async verifyTwoFactorAuth(challengeToken: string, code: string): Promise<any> {
+    const response = await this.apiRequest<any>('/api/auth/login/2fa', {
+      method: 'POST',
+      body: { challenge_token: challengeToken, code },
+      authenticated: false,
+    });
+
+    await this.logSecurityEvent({
+      userId: response.user?.id,
+      action: 'TWO_FACTOR_VERIFY',
+      resource: '2fa',
+      result: 'success',
+      metadata: { method: response.two_factor_method },
+    });
+
+    return response;
+  }
+
   // Initialize biometric authentication
   private async initializeBiometricAuth(): Promise<void> {
     try {
@@ -636,44 +683,37 @@ class AdvancedSecurityService {
     }
   }
 
-  private async getTwoFactorSetup(userId: string): Promise<any> {
-    try {
-      const setupData = await AsyncStorage.getItem(`2fa_setup_${userId}`);
-      if (!setupData) {
-        return null;
-      }
+  private async apiRequest<T = any>(
+    path: string,
+    options: { method?: string; body?: any; authenticated?: boolean } = {}
+  ): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
 
-      const encryptedSetup = JSON.parse(setupData);
-      return await this.decryptData(encryptedSetup);
-    } catch (error) {
-      console.error('Failed to get 2FA setup:', error);
-      return null;
+    if (options.authenticated !== false) {
+      const token = await this.config.getAccessToken?.();
+      if (!token) {
+        throw new Error('Not signed in');
+      }
+      headers.Authorization = `Bearer ${token}`;
     }
-  }
 
-  private generateTOTPSecret(): string {
-    // Generate random base32 secret
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
-    let secret = '';
-    for (let i = 0; i < 16; i++) {
-      secret += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return secret;
-  }
+    const response = await fetch(`${this.config.apiBaseUrl}${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
 
-  private generateBackupCodes(): string[] {
-    const codes: string[] = [];
-    for (let i = 0; i < 10; i++) {
-      codes.push(Math.random().toString(36).substr(2, 8).toUpperCase());
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
     }
-    return codes;
-  }
 
-  private verifyTOTPCode(secret: string, code: string): boolean {
-    // Simplified TOTP verification - in production, use proper TOTP library
-    return code.length === 6 && /^\d+$/.test(code);
+    return data as T;
   }
 
+  // Device-side diagnostics only; anyone with the device can clear them. The
+  // audit trail of record (sign-ins, token refreshes, session access) is the
+  // hash-chained log the server keeps.
   private async logSecurityEvent(log: SecurityAuditLog): Promise<void> {
     try {
       const auditLog: SecurityAuditLog = {
@@ -1,6 +1,7 @@
 // Service for managing world map persistence across app sessions
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { WorldMapAnnotation } from 'ar-inspection-platform-shared';
 
 export interface WorldMapMetadata {
   id: string;
@@ -10,6 +11,7 @@ export interface WorldMapMetadata {
   lastAccessed: number;
   duration: number;
   annotationCount: number;
+  annotations?: WorldMapAnnotation[];
   file_size: number;
   version: string;
   platform: 'ios' | 'android' | 'web';
@@ -71,6 +73,7 @@ class WorldMapStorage {
         lastAccessed: Date.now(),
         duration: metadata.duration || 0,
         annotationCount: metadata.annotationCount || 0,
+        annotations: metadata.annotations,
         file_size: this.calculateDataSize(mapData),
         version: '1.0',
         platform: Platform.OS as 'ios' | 'android' | 'web',
@@ -0,0 +1,130 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import morgan from 'morgan';
+import { organizationIdSchema, sessionIdSchema } from 'ar-inspection-platform-shared';
+
+import { Container } from './container';
+import { checkDatabase } from './database/connection';
+import { requireAuth } from './middleware/auth.middleware';
+import { sessionParticipantMiddleware } from './middleware/session.middleware';
+import { organizationContext, organizationMemberMiddleware } from './middleware/organization.middleware';
+import { validate } from './middleware/validation.middleware';
+import { auditAccess } from './middleware/audit.middleware';
+import { createAuthRoutes } from './routes/auth.routes';
+import { createProfileRoutes } from './routes/profile.routes';
+import { createTwoFactorRoutes } from './routes/two-factor.routes';
+import { createOrganizationRoutes } from './routes/organization.routes';
+import { createAuditLogRoutes } from './routes/audit-log.routes';
+import { createJobRoutes } from './routes/job.routes';
+import { createChecklistTemplateRoutes } from './routes/checklist-template.routes';
+import { createChecklistRoutes } from './routes/checklist.routes';
+import { createReportRoutes } from './routes/report.routes';
+import { createSessionRoutes } from './routes/session.routes';
+import { createAnnotationRoutes } from './routes/annotation.routes';
+import { createWebRtcRoutes } from './routes/webrtc.routes';
+import { createMediaRoutes } from './routes/media.routes';
+import { createMediaFileRoutes } from './routes/media-files.routes';
+
+// Builds the HTTP application around a container. Nothing here listens or
+// opens connections, so tests can pass a container holding a pg-mem pool.
+export const createApp = (container: Container) => {
+  const app = express();
+
+  app.locals.draining = false;
+
+  app.set('trust proxy', container.config.trustProxy);
+
+  // Middleware
+  app.use(helmet());
+  app.use(compression());
+  if (container.config.env !== 'test') {
+    app.use(morgan('combined'));
+  }
+  app.use(cors({
+    origin: container.config.corsOrigins,
+    credentials: true
+  }));
+
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // Liveness: the process is up and serving requests
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      memory: process.memoryUsage()
+    });
+  });
+
+  // Readiness: the database answers and the server isn't shutting down, so
+  // load balancers stop routing here as soon as a drain begins
+  app.get('/health/ready', async (req, res) => {
+    const database = await checkDatabase(container.db);
+    const ready = database.status === 'ok' && !app.locals.draining;
+
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'ok' : (app.locals.draining ? 'shutting_down' : 'unavailable'),
+      timestamp: new Date().toISOString(),
+      checks: { database }
+    });
+  });
+
+  const authenticated = requireAuth(container);
+  const inOrganization = organizationContext(container);
+
+  // Routers nested under a session; the :id param is checked before the session is loaded
+  const sessionScope = [
+    authenticated, inOrganization, validate(sessionIdSchema), sessionParticipantMiddleware(container)
+  ];
+
+  // API routes
+  app.use('/api/auth/2fa', authenticated, createTwoFactorRoutes(container));
+  app.use('/api/auth', createAuthRoutes(container));
+  app.use('/api/profile', authenticated, createProfileRoutes(container));
+  app.use(
+    '/api/organizations/:orgId/audit-log',
+    authenticated, validate(organizationIdSchema), organizationMemberMiddleware(container),
+    createAuditLogRoutes(container)
+  );
+  app.use('/api/organizations', authenticated, createOrganizationRoutes(container));
+  app.use(
+    '/api/sessions/:id/annotations',
+    ...sessionScope, auditAccess(container, 'annotation.access'), createAnnotationRoutes(container)
+  );
+  app.use(
+    '/api/sessions/:id/media',
+    ...sessionScope, auditAccess(container, 'media.access'), createMediaRoutes(container)
+  );
+  app.use(
+    '/api/sessions/:id/checklists',
+    ...sessionScope, auditAccess(container, 'session.access'), createChecklistRoutes(container)
+  );
+  app.use(
+    '/api/sessions/:id/reports',
+    ...sessionScope, auditAccess(container, 'session.access'), createReportRoutes(container)
+  );
+  app.use('/api/sessions', authenticated, inOrganization, createSessionRoutes(container));
+  app.use('/api/jobs', authenticated, inOrganization, createJobRoutes(container));
+  app.use('/api/checklist-templates', authenticated, inOrganization, createChecklistTemplateRoutes(container));
+  app.use('/api/webrtc', authenticated, createWebRtcRoutes());
+  app.use('/api/media', createMediaFileRoutes(container));
+
+  // Error handling middleware
+  app.use((err: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error(err.stack);
+    res.status(err.status || 500).json({
+      error: container.config.env === 'production' ? 'Internal Server Error' : err.message
+    });
+  });
+
+  // 404 handler
+  app.use('*', (req, res) => {
+    res.status(404).json({ error: 'Route not found' });
+  });
+
+  return app;
+};
@@ -0,0 +1,154 @@
+// Settings the application bootstrap needs, read once from the environment.
+// Services that own a single setting (token expiry, storage driver, mail
+// transport...) still read their own variables; secrets are read here so the
+// production check below covers them.
+
+export interface DatabaseConfig {
+  connectionString?: string;
+  host: string;
+  port: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  max: number;
+  idleTimeoutMillis: number;
+  connectionTimeoutMillis: number;
+}
+
+export interface RedisConfig {
+  url?: string;
+  host?: string;
+  port: number;
+}
+
+export interface AuthThrottleConfig {
+  // Requests per client IP per window
+  loginIpLimit: number;
+  registerIpLimit: number;
+  passwordResetIpLimit: number;
+  ipWindowMs: number;
+  // Failed logins on one account within the window before it locks
+  lockoutThreshold: number;
+  failureWindowMs: number;
+  // The first lockout lasts the base cooldown; each further lockout within a
+  // day doubles it, up to the maximum
+  lockoutBaseMs: number;
+  lockoutMaxMs: number;
+  // Wrong codes one 2FA challenge accepts before the password is needed again
+  twoFactorAttemptLimit: number;
+}
+
+export interface AppConfig {
+  env: string;
+  port: number;
+  corsOrigins: string[];
+  // Express "trust proxy" setting, so req.ip is the client behind a load balancer
+  trustProxy: string | number | boolean;
+  database: DatabaseConfig;
+  // Unset without REDIS_URL or REDIS_HOST; rate limits then live in process memory
+  redis?: RedisConfig;
+  authThrottle: AuthThrottleConfig;
+  // Signs access and 2FA challenge tokens; a fixed development value outside production
+  jwtSecret: string;
+  // Signs local media file URLs; MEDIA_URL_SECRET, or the JWT secret when unset
+  mediaUrlSecret: string;
+  // How long in-flight requests get to finish after SIGTERM before the process exits anyway
+  shutdownTimeoutMs: number;
+}
+
+type Env = Record<string, string | undefined>;
+
+const readInteger = (env: Env, name: string, fallback: number): number => {
+  const raw = env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value;
+};
+
+// DATABASE_URL when set, otherwise the DB_* variables setup-dev.sh writes
+export const loadDatabaseConfig = (env: Env = process.env): DatabaseConfig => ({
+  connectionString: env.DATABASE_URL || undefined,
+  host: env.DB_HOST || 'localhost',
+  port: readInteger(env, 'DB_PORT', 5432),
+  database: env.DB_NAME,
+  user: env.DB_USER,
+  password: env.DB_PASSWORD,
+  max: readInteger(env, 'DB_POOL_MAX', 10),
+  idleTimeoutMillis: readInteger(env, 'DB_IDLE_TIMEOUT_MS', 30000),
+  connectionTimeoutMillis: readInteger(env, 'DB_CONNECTION_TIMEOUT_MS', 5000)
+});
+
+const readTrustProxy = (raw: string | undefined): string | number | boolean => {
+  if (raw === undefined || raw === '' || raw === 'false') {
+    return false;
+  }
+  if (raw === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(raw) ? parseInt(raw, 10) : raw;
+};
+
+export const loadRedisConfig = (env: Env = process.env): RedisConfig | undefined => {
+  if (!env.REDIS_URL && !env.REDIS_HOST) {
+    return undefined;
+  }
+
+  return {
+    url: env.REDIS_URL || undefined,
+    host: env.REDIS_HOST || undefined,
+    port: readInteger(env, 'REDIS_PORT', 6379)
+  };
+};
+
+const loadAuthThrottleConfig = (env: Env): AuthThrottleConfig => ({
+  loginIpLimit: readInteger(env, 'AUTH_LOGIN_IP_LIMIT', 20),
+  registerIpLimit: readInteger(env, 'AUTH_REGISTER_IP_LIMIT', 5),
+  passwordResetIpLimit: readInteger(env, 'AUTH_PASSWORD_RESET_IP_LIMIT', 5),
+  ipWindowMs: readInteger(env, 'AUTH_IP_WINDOW_SECONDS', 15 * 60) * 1000,
+  lockoutThreshold: readInteger(env, 'AUTH_LOCKOUT_THRESHOLD', 5),
+  failureWindowMs: readInteger(env, 'AUTH_FAILURE_WINDOW_SECONDS', 15 * 60) * 1000,
+  lockoutBaseMs: readInteger(env, 'AUTH_LOCKOUT_SECONDS', 60) * 1000,
+  lockoutMaxMs: readInteger(env, 'AUTH_LOCKOUT_MAX_SECONDS', 60 * 60) * 1000,
+  twoFactorAttemptLimit: readInteger(env, 'AUTH_2FA_ATTEMPT_LIMIT', 3)
+});
+
+// Throws listing every problem, so a misconfigured deploy fails at startup
+// rather than on the first request that needs the missing setting
+export const loadConfig = (env: Env = process.env): AppConfig => {
+  const config: AppConfig = {
+    env: env.NODE_ENV || 'development',
+    port: readInteger(env, 'PORT', 3000),
+    corsOrigins: env.CORS_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean)
+      || ['http://localhost:3001'],
+    trustProxy: readTrustProxy(env.TRUST_PROXY),
+    database: loadDatabaseConfig(env),
+    redis: loadRedisConfig(env),
+    authThrottle: loadAuthThrottleConfig(env),
+    jwtSecret: env.JWT_SECRET || 'dev_jwt_secret',
+    mediaUrlSecret: env.MEDIA_URL_SECRET || env.JWT_SECRET || 'dev_jwt_secret',
+    shutdownTimeoutMs: readInteger(env, 'SHUTDOWN_TIMEOUT_MS', 10000)
+  };
+
+  if (config.env === 'production') {
+    const problems: string[] = [];
+
+    if (!env.JWT_SECRET) {
+      problems.push('JWT_SECRET is required in production');
+    }
+    if (!config.database.connectionString && !config.database.database) {
+      problems.push('DATABASE_URL or DB_NAME is required in production');
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid configuration: ${problems.join('; ')}`);
+    }
+  }
+
+  return config;
+};
@@ -0,0 +1,32 @@
+import { Pool } from 'pg';
+import { Server } from 'socket.io';
+import { AppConfig, loadConfig } from './config';
+import { createPool } from './database/connection';
+import { RateLimitStore, createRateLimitStore } from './services/rate-limit.service';
+import { StorageDriver, createStorage } from './services/storage.service';
+import { TokenService, createTokenService } from './services/token.service';
+
+// What the routes, middleware and sockets depend on. createApp builds the
+// routers from it, so tests can build an app around a pg-mem pool and no
+// socket server.
+export interface Container {
+  config: AppConfig;
+  db: Pool;
+  rateLimitStore: RateLimitStore;
+  tokens: TokenService;
+  storage: StorageDriver;
+  // Attached once the HTTP server exists, so handlers read it per request
+  io?: Server;
+}
+
+export const createContainer = (
+  config: AppConfig = loadConfig(),
+  overrides: Partial<Omit<Container, 'config'>> = {}
+): Container => ({
+  config,
+  db: overrides.db || createPool(config.database),
+  rateLimitStore: overrides.rateLimitStore || createRateLimitStore(config.redis),
+  tokens: overrides.tokens || createTokenService(config.jwtSecret),
+  storage: overrides.storage || createStorage(config.mediaUrlSecret),
+  io: overrides.io
+});
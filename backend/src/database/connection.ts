@@ -0,0 +1,43 @@
+import { Pool } from 'pg';
+import { DatabaseConfig, loadDatabaseConfig } from '../config';
+
+export const createPool = (config: DatabaseConfig = loadDatabaseConfig()): Pool => {
+  const pool = new Pool({
+    connectionString: config.connectionString,
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    max: config.max,
+    idleTimeoutMillis: config.idleTimeoutMillis,
+    connectionTimeoutMillis: config.connectionTimeoutMillis
+  });
+
+  // An idle client losing its connection (database restart, failover) emits
+  // on the pool; unhandled, that would crash the process
+  pool.on('error', (error) => {
+    console.error('Database pool error:', error);
+  });
+
+  return pool;
+};
+
+export interface DatabaseHealth {
+  status: 'ok' | 'error';
+  latency_ms: number;
+  error?: string;
+}
+
+// Round-trips a trivial query; a pool that can't hand out a connection
+// fails after the configured connection timeout
+export const checkDatabase = async (db: Pool): Promise<DatabaseHealth> => {
+  const startedAt = Date.now();
+
+  try {
+    await db.query('SELECT 1');
+    return { status: 'ok', latency_ms: Date.now() - startedAt };
+  } catch (error: any) {
+    return { status: 'error', latency_ms: Date.now() - startedAt, error: error.message };
+  }
+};
@@ -0,0 +1,371 @@
+import { PoolClient } from 'pg';
+
+// The schema as it stood before versioned migrations. Every statement is
+// IF NOT EXISTS, and the columns added since init-dev.sql was last used are
+// also added with ALTER TABLE, so databases created from it are brought up
+// to date rather than needing a reset.
+export const up = async (client: PoolClient) => {
+  await client.query(`
+    -- Enable UUID extension
+    CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+    -- Users table
+    CREATE TABLE IF NOT EXISTS users (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) UNIQUE NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        user_type VARCHAR(20) CHECK (user_type IN ('client', 'gig_user')),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        is_active BOOLEAN DEFAULT TRUE
+    );
+
+    -- User profiles table
+    CREATE TABLE IF NOT EXISTS user_profiles (
+        user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255),
+        phone VARCHAR(50),
+        bio TEXT,
+        avatar_url VARCHAR(500),
+        skills JSONB DEFAULT '[]', -- inspection skills, matched against job requirements
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Organizations (tenants). Users take part through memberships; sessions
+    -- created inside an organization belong to it.
+    CREATE TABLE IF NOT EXISTS organizations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS organization_memberships (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'dispatcher', 'inspector', 'viewer')),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (organization_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS organization_invitations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+        email VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'dispatcher', 'inspector', 'viewer')),
+        token_hash VARCHAR(255) NOT NULL UNIQUE, -- SHA-256 of the emailed token
+        invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP NOT NULL,
+        accepted_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Sessions table
+    CREATE TABLE IF NOT EXISTS sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE, -- NULL for personal sessions
+        client_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        gig_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        ended_at TIMESTAMP,
+        status VARCHAR(20) CHECK (status IN ('waiting', 'active', 'completed', 'cancelled')),
+        metadata JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Inspection job postings. Accepting one creates its session; the conditional
+    -- UPDATE on status = 'open' makes sure only the first inspector wins.
+    CREATE TABLE IF NOT EXISTS inspection_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE, -- NULL for public jobs
+        client_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        address VARCHAR(500),
+        latitude DOUBLE PRECISION NOT NULL,
+        longitude DOUBLE PRECISION NOT NULL,
+        required_skills JSONB DEFAULT '[]',
+        window_start TIMESTAMP NOT NULL,
+        window_end TIMESTAMP NOT NULL,
+        price NUMERIC(10, 2) NOT NULL,
+        currency VARCHAR(3) DEFAULT 'USD',
+        status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'assigned', 'cancelled')),
+        assigned_to UUID REFERENCES users(id),
+        session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+        accepted_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Jobs an inspector passed on; hidden from their feed
+    CREATE TABLE IF NOT EXISTS inspection_job_declines (
+        job_id UUID REFERENCES inspection_jobs(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (job_id, user_id)
+    );
+
+    -- Annotations table
+    CREATE TABLE IF NOT EXISTS annotations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        type VARCHAR(50) NOT NULL,
+        points JSONB NOT NULL,
+        color VARCHAR(10) DEFAULT '#FF0000',
+        stroke_width INTEGER DEFAULT 3,
+        text TEXT,
+        font_size INTEGER,
+        -- 3D anchor data for AR annotations (null for 2D annotations)
+        position JSONB,
+        rotation JSONB,
+        scale JSONB,
+        anchor_id VARCHAR(255),
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        created_by UUID REFERENCES users(id),
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        deleted_at TIMESTAMP
+    );
+
+    -- Annotation revisions (one row per create/update/delete for replay)
+    CREATE TABLE IF NOT EXISTS annotation_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        annotation_id UUID REFERENCES annotations(id) ON DELETE CASCADE,
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        action VARCHAR(20) CHECK (action IN ('create', 'update', 'delete')),
+        snapshot JSONB NOT NULL,
+        changed_by UUID REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (annotation_id, version)
+    );
+
+    -- Media table
+    CREATE TABLE IF NOT EXISTS media (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        type VARCHAR(20) CHECK (type IN ('photo', 'video')),
+        file_url VARCHAR(500),
+        thumbnail_url VARCHAR(500),
+        -- Keys in the configured storage backend; URLs are signed on read
+        storage_key VARCHAR(500),
+        thumbnail_key VARCHAR(500),
+        mime_type VARCHAR(100),
+        original_name VARCHAR(255),
+        metadata JSONB,
+        file_size BIGINT,
+        duration INTEGER, -- for videos in seconds
+        captured_at TIMESTAMP,
+        uploaded_by UUID REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- In-progress resumable media uploads
+    CREATE TABLE IF NOT EXISTS media_uploads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        mime_type VARCHAR(100) NOT NULL,
+        original_name VARCHAR(255),
+        total_size BIGINT NOT NULL,
+        received_bytes BIGINT NOT NULL DEFAULT 0,
+        metadata JSONB,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Generated PDF reports. Stored alongside session media; each generation gets
+    -- its own row so regenerating never replaces a report that was already shared.
+    CREATE TABLE IF NOT EXISTS session_reports (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'failed')),
+        mime_type VARCHAR(100) DEFAULT 'application/pdf',
+        storage_key VARCHAR(500),
+        file_size BIGINT,
+        error TEXT,
+        generated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        generated_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Reusable inspection checklists. The sections column holds the section/item tree;
+    -- item ids are generated server-side so findings can refer to them.
+    CREATE TABLE IF NOT EXISTS checklist_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE, -- NULL for personal templates
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        sections JSONB NOT NULL,
+        archived_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- A template attached to a session. The sections are copied so later template
+    -- edits don't change a checklist that is already being filled in.
+    CREATE TABLE IF NOT EXISTS session_checklists (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+        template_id UUID REFERENCES checklist_templates(id) ON DELETE SET NULL,
+        name VARCHAR(255) NOT NULL,
+        sections JSONB NOT NULL,
+        attached_by UUID REFERENCES users(id),
+        completed_at TIMESTAMP,
+        completed_by UUID REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- One finding per checklist item
+    CREATE TABLE IF NOT EXISTS checklist_findings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        checklist_id UUID REFERENCES session_checklists(id) ON DELETE CASCADE,
+        item_id VARCHAR(64) NOT NULL,
+        result VARCHAR(10) CHECK (result IN ('pass', 'fail', 'na')),
+        numeric_value DOUBLE PRECISION,
+        notes TEXT,
+        recorded_by UUID REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (checklist_id, item_id)
+    );
+
+    -- Evidence attached to a finding
+    CREATE TABLE IF NOT EXISTS checklist_finding_annotations (
+        finding_id UUID REFERENCES checklist_findings(id) ON DELETE CASCADE,
+        annotation_id UUID REFERENCES annotations(id) ON DELETE CASCADE,
+        PRIMARY KEY (finding_id, annotation_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS checklist_finding_media (
+        finding_id UUID REFERENCES checklist_findings(id) ON DELETE CASCADE,
+        media_id UUID REFERENCES media(id) ON DELETE CASCADE,
+        PRIMARY KEY (finding_id, media_id)
+    );
+
+    -- Password reset tokens
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL,
+        token VARCHAR(255) NOT NULL UNIQUE, -- SHA-256 of the emailed token
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Signed-in devices. Each login gets a row holding its current refresh token;
+    -- access tokens carry the row id and stop working once it is revoked.
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash VARCHAR(255) NOT NULL UNIQUE,
+        previous_token_hash VARCHAR(255), -- the rotated-out token, kept to detect reuse
+        user_agent VARCHAR(500),
+        ip_address VARCHAR(64),
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- TOTP two-factor authentication. enabled_at stays NULL until the user
+    -- confirms enrollment with a valid code.
+    CREATE TABLE IF NOT EXISTS user_two_factor (
+        user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        secret_encrypted TEXT NOT NULL,
+        enabled_at TIMESTAMP,
+        last_used_step BIGINT, -- last accepted time step, so a code can't be replayed
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Single-use recovery codes for when the authenticator is unavailable
+    CREATE TABLE IF NOT EXISTS user_backup_codes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        code_hash VARCHAR(255) NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Columns added after init-dev.sql. CREATE TABLE IF NOT EXISTS leaves the
+    -- tables of a database created from it as they were.
+    ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS skills JSONB DEFAULT '[]';
+    ALTER TABLE sessions ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS position JSONB;
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS rotation JSONB;
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS scale JSONB;
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS anchor_id VARCHAR(255);
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE annotations ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS storage_key VARCHAR(500);
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS thumbnail_key VARCHAR(500);
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS mime_type VARCHAR(100);
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS original_name VARCHAR(255);
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP;
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS uploaded_by UUID REFERENCES users(id);
+    ALTER TABLE password_reset_tokens ADD COLUMN IF NOT EXISTS used_at TIMESTAMP;
+
+    -- Indexes for performance
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_gig_user_id ON sessions(gig_user_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+    CREATE INDEX IF NOT EXISTS idx_sessions_organization_id ON sessions(organization_id);
+    CREATE INDEX IF NOT EXISTS idx_organization_memberships_user_id ON organization_memberships(user_id);
+    CREATE INDEX IF NOT EXISTS idx_organization_invitations_org ON organization_invitations(organization_id, email);
+    CREATE INDEX IF NOT EXISTS idx_inspection_jobs_status ON inspection_jobs(status, window_end);
+    CREATE INDEX IF NOT EXISTS idx_inspection_jobs_location ON inspection_jobs(latitude, longitude);
+    CREATE INDEX IF NOT EXISTS idx_inspection_jobs_client_id ON inspection_jobs(client_id);
+    CREATE INDEX IF NOT EXISTS idx_annotations_session_id ON annotations(session_id);
+    CREATE INDEX IF NOT EXISTS idx_annotation_revisions_annotation_id ON annotation_revisions(annotation_id);
+    CREATE INDEX IF NOT EXISTS idx_annotation_revisions_session_id ON annotation_revisions(session_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_media_session_id ON media(session_id);
+    CREATE INDEX IF NOT EXISTS idx_checklist_templates_org ON checklist_templates(organization_id);
+    CREATE INDEX IF NOT EXISTS idx_session_checklists_session_id ON session_checklists(session_id);
+    CREATE INDEX IF NOT EXISTS idx_media_uploads_expires ON media_uploads(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_session_reports_session_id ON session_reports(session_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_password_reset_token ON password_reset_tokens(token);
+    CREATE INDEX IF NOT EXISTS idx_password_reset_expires ON password_reset_tokens(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_auth_sessions_previous_token ON auth_sessions(previous_token_hash);
+    CREATE INDEX IF NOT EXISTS idx_user_backup_codes_user_id ON user_backup_codes(user_id);
+  `);
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query(`
+    DROP TABLE IF EXISTS user_backup_codes;
+    DROP TABLE IF EXISTS user_two_factor;
+    DROP TABLE IF EXISTS auth_sessions;
+    DROP TABLE IF EXISTS password_reset_tokens;
+    DROP TABLE IF EXISTS checklist_finding_media;
+    DROP TABLE IF EXISTS checklist_finding_annotations;
+    DROP TABLE IF EXISTS checklist_findings;
+    DROP TABLE IF EXISTS session_checklists;
+    DROP TABLE IF EXISTS checklist_templates;
+    DROP TABLE IF EXISTS session_reports;
+    DROP TABLE IF EXISTS media_uploads;
+    DROP TABLE IF EXISTS media;
+    DROP TABLE IF EXISTS annotation_revisions;
+    DROP TABLE IF EXISTS annotations;
+    DROP TABLE IF EXISTS inspection_job_declines;
+    DROP TABLE IF EXISTS inspection_jobs;
+    DROP TABLE IF EXISTS sessions;
+    DROP TABLE IF EXISTS organization_invitations;
+    DROP TABLE IF EXISTS organization_memberships;
+    DROP TABLE IF EXISTS organizations;
+    DROP TABLE IF EXISTS user_profiles;
+    DROP TABLE IF EXISTS users;
+  `);
+};
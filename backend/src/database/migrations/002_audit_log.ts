@@ -0,0 +1,25 @@
+import { PoolClient } from 'pg';
+
+// Security-relevant events recorded by the server, starting with account
+// lockouts. Rows are only ever inserted.
+export const up = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE audit_log (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        action VARCHAR(64) NOT NULL,
+        user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        ip_address VARCHAR(45),
+        user_agent VARCHAR(500),
+        metadata JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_audit_log_created_at ON audit_log(created_at);
+    CREATE INDEX idx_audit_log_user_id ON audit_log(user_id, created_at);
+    CREATE INDEX idx_audit_log_action ON audit_log(action, created_at);
+  `);
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query('DROP TABLE IF EXISTS audit_log');
+};
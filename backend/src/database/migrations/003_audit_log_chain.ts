@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+
+// Turns the audit log into a hash chain: every row stores its position and
+// the hash of the row before it, so edited, removed or reordered rows show up
+// when the chain is verified. Chained rows must never change, so user and
+// organization ids are kept as plain values; a cascading SET NULL would
+// rewrite history.
+// The chain format as of this migration. It is copied from audit.service
+// rather than imported so later changes there can't change what this
+// migration writes.
+const GENESIS_HASH = '0'.repeat(64);
+
+const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const hashEntry = (entry: Record<string, any>): string => {
+  const content = canonicalJson({
+    sequence: entry.sequence,
+    action: entry.action,
+    user_id: entry.user_id,
+    organization_id: entry.organization_id,
+    ip_address: entry.ip_address,
+    user_agent: entry.user_agent,
+    metadata: entry.metadata,
+    created_at: entry.created_at,
+    prev_hash: entry.prev_hash
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+};
+
+export const up = async (client: PoolClient) => {
+  await client.query(`
+    ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_user_id_fkey;
+    ALTER TABLE audit_log ADD COLUMN sequence BIGINT;
+    ALTER TABLE audit_log ADD COLUMN organization_id UUID;
+    ALTER TABLE audit_log ADD COLUMN prev_hash VARCHAR(64);
+    ALTER TABLE audit_log ADD COLUMN hash VARCHAR(64);
+  `);
+
+  // Rows written before the chain existed are linked in the order they were recorded
+  const existing = await client.query('SELECT * FROM audit_log ORDER BY created_at, id');
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, row] of existing.rows.entries()) {
+    const entry = {
+      sequence: index + 1,
+      action: row.action,
+      user_id: row.user_id,
+      organization_id: row.organization_id,
+      ip_address: row.ip_address,
+      user_agent: row.user_agent,
+      metadata: row.metadata || {},
+      created_at: new Date(row.created_at).toISOString(),
+      prev_hash: prevHash
+    };
+    const hash = hashEntry(entry);
+
+    await client.query(
+      'UPDATE audit_log SET sequence = $1, metadata = $2, prev_hash = $3, hash = $4 WHERE id = $5',
+      [entry.sequence, JSON.stringify(entry.metadata), prevHash, hash, row.id]
+    );
+    prevHash = hash;
+  }
+
+  await client.query(`
+    ALTER TABLE audit_log ALTER COLUMN sequence SET NOT NULL;
+    ALTER TABLE audit_log ALTER COLUMN prev_hash SET NOT NULL;
+    ALTER TABLE audit_log ALTER COLUMN hash SET NOT NULL;
+
+    CREATE UNIQUE INDEX idx_audit_log_sequence ON audit_log(sequence);
+    CREATE INDEX idx_audit_log_organization_id ON audit_log(organization_id, sequence);
+  `);
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query(`
+    DROP INDEX IF EXISTS idx_audit_log_organization_id;
+    DROP INDEX IF EXISTS idx_audit_log_sequence;
+    ALTER TABLE audit_log DROP COLUMN hash;
+    ALTER TABLE audit_log DROP COLUMN prev_hash;
+    ALTER TABLE audit_log DROP COLUMN organization_id;
+    ALTER TABLE audit_log DROP COLUMN sequence;
+
+    UPDATE audit_log SET user_id = NULL
+    WHERE user_id IS NOT NULL AND user_id NOT IN (SELECT id FROM users);
+    ALTER TABLE audit_log ADD CONSTRAINT audit_log_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+  `);
+};
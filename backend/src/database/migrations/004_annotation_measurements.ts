@@ -0,0 +1,11 @@
+import { PoolClient } from 'pg';
+
+// Measurements taken with the AR measurement tools are stored as annotations
+// of type `measurement`, with their points, value and unit in this column
+export const up = async (client: PoolClient) => {
+  await client.query('ALTER TABLE annotations ADD COLUMN measurement JSONB');
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query('ALTER TABLE annotations DROP COLUMN measurement');
+};
@@ -0,0 +1,24 @@
+import { PoolClient } from 'pg';
+
+// created_at is part of every audit entry's hash. As a TIMESTAMP it was
+// written and read back in the server's local time zone, so a verifier
+// running in another zone read different instants and every hash failed.
+// TIMESTAMPTZ stores the instant. Existing rows hold the wall-clock time of
+// the server that wrote them, which is assumed to be the one migrating.
+const serverTimeZone = () => {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  if (!/^[\w+\-/]+$/.test(zone)) {
+    throw new Error(`Unexpected time zone name: ${zone}`);
+  }
+  return zone;
+};
+
+export const up = async (client: PoolClient) => {
+  await client.query(`SET LOCAL TimeZone = '${serverTimeZone()}'`);
+  await client.query('ALTER TABLE audit_log ALTER COLUMN created_at TYPE TIMESTAMPTZ');
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query(`SET LOCAL TimeZone = '${serverTimeZone()}'`);
+  await client.query('ALTER TABLE audit_log ALTER COLUMN created_at TYPE TIMESTAMP');
+};
@@ -0,0 +1,51 @@
+import { PoolClient } from 'pg';
+
+// Rejoining collaborators are sent the events they missed after a cursor
+// the database hands out, rather than after a timestamp from the app
+// server's clock. Annotation revisions and session status changes draw their
+// position from one sequence, so a single cursor covers both.
+export const up = async (client: PoolClient) => {
+  await client.query(`
+    CREATE SEQUENCE session_event_seq;
+
+    ALTER TABLE annotation_revisions ADD COLUMN sequence BIGINT;
+
+    CREATE TABLE session_status_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        sequence BIGINT NOT NULL DEFAULT nextval('session_event_seq'),
+        status VARCHAR(50) NOT NULL,
+        snapshot JSONB NOT NULL,
+        changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Existing revisions are numbered in the order they were made
+  const revisions = await client.query(
+    'SELECT id FROM annotation_revisions ORDER BY created_at ASC, version ASC'
+  );
+  for (const revision of revisions.rows) {
+    await client.query(
+      `UPDATE annotation_revisions SET sequence = nextval('session_event_seq') WHERE id = $1`,
+      [revision.id]
+    );
+  }
+
+  await client.query(`
+    ALTER TABLE annotation_revisions ALTER COLUMN sequence SET DEFAULT nextval('session_event_seq');
+    ALTER TABLE annotation_revisions ALTER COLUMN sequence SET NOT NULL;
+
+    CREATE INDEX idx_annotation_revisions_sequence ON annotation_revisions(session_id, sequence);
+    CREATE INDEX idx_session_status_events_sequence ON session_status_events(session_id, sequence);
+  `);
+};
+
+export const down = async (client: PoolClient) => {
+  await client.query(`
+    DROP TABLE IF EXISTS session_status_events;
+    DROP INDEX IF EXISTS idx_annotation_revisions_sequence;
+    ALTER TABLE annotation_revisions DROP COLUMN IF EXISTS sequence;
+    DROP SEQUENCE IF EXISTS session_event_seq;
+  `);
+};
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import { getMigrationStatus, loadMigrations, migrate, rollback } from '../migrator';
+import { iterateAuditEvents, recordAuditEvent, verifyAuditChain, AuditLogEntry } from '../../../services/audit.service';
+import { createEmptyDatabase } from '../../../test/database';
+
+// The schema file databases were created from before versioned migrations
+const INIT_DEV_SQL = path.join(__dirname, '../../../test/fixtures/init-dev.sql');
+
+describe('migrator', () => {
+  const migrations = loadMigrations();
+  let db: Pool;
+
+  beforeEach(() => {
+    // pg-mem rejects CREATE TABLE IF NOT EXISTS for a table that exists,
+    // since it skips the column definitions; Postgres ignores them too
+    ({ db } = createEmptyDatabase({ noAstCoverageCheck: true }));
+  });
+
+  it('applies every migration once, in order', async () => {
+    const applied = await migrate(db);
+
+    expect(applied.map((migration) => migration.version)).toEqual(migrations.map((migration) => migration.version));
+    expect(applied[0].name).toBe('initial_schema');
+    expect(await migrate(db)).toEqual([]);
+
+    const status = await getMigrationStatus(db);
+    expect(status.every((migration) => migration.applied_at instanceof Date)).toBe(true);
+  });
+
+  it('reverts the latest migrations and applies them again', async () => {
+    await migrate(db);
+    const [previous, latest] = migrations.slice(-2);
+
+    const reverted = await rollback(db, 2);
+    expect(reverted.map((migration) => migration.version)).toEqual([latest.version, previous.version]);
+
+    const status = await getMigrationStatus(db);
+    expect(status.slice(-2)).toEqual([
+      { version: previous.version, name: previous.name, applied_at: null },
+      { version: latest.version, name: latest.name, applied_at: null }
+    ]);
+    expect(status[0].applied_at).not.toBeNull();
+
+    // pg-mem keeps the index names of a dropped table, so a migration that
+    // creates one can't be applied twice here; Postgres has no such problem
+    const reapplied = await migrate(db, migrations.slice(0, -1));
+    expect(reapplied.map((migration) => migration.version)).toEqual([previous.version]);
+  });
+
+  it('refuses a database migrated by a newer build', async () => {
+    await migrate(db);
+
+    await expect(migrate(db, migrations.slice(0, -1))).rejects.toThrow(
+      `Database has migrations this build doesn't know about: ${migrations[migrations.length - 1].version}`
+    );
+  });
+
+  it('brings a database created from init-dev.sql up to date', async () => {
+    await db.query(fs.readFileSync(INIT_DEV_SQL, 'utf8'));
+
+    const user = await db.query(
+      `INSERT INTO users (email, password_hash, user_type) VALUES ('old@example.com', 'hash', 'client') RETURNING id`
+    );
+    const userId = user.rows[0].id;
+    await db.query(`INSERT INTO user_profiles (user_id, name) VALUES ($1, 'Old Client')`, [userId]);
+    const session = await db.query(
+      `INSERT INTO sessions (client_id, status) VALUES ($1, 'completed') RETURNING id`,
+      [userId]
+    );
+    const sessionId = session.rows[0].id;
+    await db.query(
+      `INSERT INTO annotations (session_id, type, points, created_by) VALUES ($1, 'line', '[]', $2)`,
+      [sessionId, userId]
+    );
+    await db.query(`INSERT INTO media (session_id, type, file_url) VALUES ($1, 'photo', '/uploads/a.jpg')`, [sessionId]);
+
+    await migrate(db);
+
+    const sessions = await db.query('SELECT organization_id, status FROM sessions');
+    expect(sessions.rows).toEqual([{ organization_id: null, status: 'completed' }]);
+
+    // Postgres also fills the defaults of added columns such as version and
+    // skills into existing rows; pg-mem leaves them null, so they aren't checked
+    const annotations = await db.query(
+      'SELECT type, position, anchor_id, deleted_at FROM annotations WHERE session_id = $1',
+      [sessionId]
+    );
+    expect(annotations.rows).toEqual([{ type: 'line', position: null, anchor_id: null, deleted_at: null }]);
+
+    const media = await db.query('SELECT file_url, storage_key, uploaded_by FROM media');
+    expect(media.rows).toEqual([{ file_url: '/uploads/a.jpg', storage_key: null, uploaded_by: null }]);
+
+    const profiles = await db.query('SELECT name FROM user_profiles');
+    expect(profiles.rows).toEqual([{ name: 'Old Client' }]);
+
+    // New rows get everything the current schema has
+    const added = await db.query(
+      `INSERT INTO annotations (session_id, type, points, position, anchor_id)
+       VALUES ($1, 'sphere', '[]', '{"x": 0, "y": 0, "z": -1}', 'anchor-1') RETURNING version`,
+      [sessionId]
+    );
+    expect(added.rows[0].version).toBe(1);
+  });
+
+  it('numbers the revisions made before the session event sequence existed', async () => {
+    const beforeSequence = migrations.findIndex((migration) => migration.name === 'session_event_sequence');
+    await migrate(db, migrations.slice(0, beforeSequence));
+
+    const user = await db.query(
+      `INSERT INTO users (email, password_hash, user_type) VALUES ('old@example.com', 'hash', 'client') RETURNING id`
+    );
+    const session = await db.query(
+      `INSERT INTO sessions (client_id, status) VALUES ($1, 'active') RETURNING id`,
+      [user.rows[0].id]
+    );
+    const sessionId = session.rows[0].id;
+    const annotation = await db.query(
+      `INSERT INTO annotations (session_id, type, points) VALUES ($1, 'line', '[]') RETURNING id`,
+      [sessionId]
+    );
+    for (const [version, createdAt] of [[2, '2026-01-05 09:01:00'], [1, '2026-01-05 09:00:00']]) {
+      await db.query(
+        `INSERT INTO annotation_revisions (annotation_id, session_id, version, action, snapshot, created_at)
+         VALUES ($1, $2, $3, 'update', '{}', $4)`,
+        [annotation.rows[0].id, sessionId, version, createdAt]
+      );
+    }
+
+    await migrate(db);
+    await db.query(
+      `INSERT INTO annotation_revisions (annotation_id, session_id, version, action, snapshot)
+       VALUES ($1, $2, 3, 'update', '{}')`,
+      [annotation.rows[0].id, sessionId]
+    );
+
+    const revisions = await db.query('SELECT version, sequence FROM annotation_revisions ORDER BY sequence');
+    expect(revisions.rows.map((row) => [row.version, Number(row.sequence)])).toEqual([[1, 1], [2, 2], [3, 3]]);
+  });
+
+  it('chains audit rows written before the chain existed', async () => {
+    const beforeChain = migrations.findIndex((migration) => migration.name === 'audit_log_chain');
+    await migrate(db, migrations.slice(0, beforeChain));
+
+    for (const [ip, createdAt] of [['203.0.113.1', '2026-01-05 09:00:00'], ['203.0.113.2', '2026-01-05 09:01:00']]) {
+      await db.query(
+        `INSERT INTO audit_log (action, ip_address, metadata, created_at)
+         VALUES ('auth.login_failed', $1, '{"email": "a@example.com"}', $2)`,
+        [ip, createdAt]
+      );
+    }
+
+    await migrate(db);
+    await recordAuditEvent(db, { action: 'auth.login_failed', ipAddress: '203.0.113.3' });
+
+    const entries: AuditLogEntry[] = [];
+    for await (const entry of iterateAuditEvents(db)) {
+      entries.push(entry);
+    }
+
+    expect(entries.map((entry) => entry.ip_address)).toEqual(['203.0.113.1', '203.0.113.2', '203.0.113.3']);
+    expect((await verifyAuditChain(entries)).valid).toBe(true);
+  });
+});
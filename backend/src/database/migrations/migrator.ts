@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../transaction';
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: (client: PoolClient) => Promise<void>;
+  down: (client: PoolClient) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied_at: Date | null;
+}
+
+// 001_initial_schema.ts in development, 001_initial_schema.js once compiled
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(ts|js)$/;
+
+// Shared by every runner so two deploys can't migrate the same database at once
+const MIGRATION_LOCK_ID = 727073;
+
+// Migration modules in version order. Each exports up and down, which run
+// inside the transaction that also records them.
+export const loadMigrations = (directory: string = __dirname): Migration[] => {
+  const migrations: Migration[] = [];
+
+  for (const file of fs.readdirSync(directory)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const [, version, name] = match;
+    if (migrations.some((migration) => migration.version === version)) {
+      throw new Error(`Duplicate migration version ${version}`);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const exported = require(path.join(directory, file));
+    if (typeof exported.up !== 'function' || typeof exported.down !== 'function') {
+      throw new Error(`Migration ${file} must export up and down`);
+    }
+
+    migrations.push({ version, name, up: exported.up, down: exported.down });
+  }
+
+  return migrations.sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+};
+
+const ensureMigrationsTable = async (db: Pool) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version VARCHAR(32) PRIMARY KEY,
+       name VARCHAR(255) NOT NULL,
+       applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+     )`
+  );
+};
+
+const getAppliedMigrations = async (db: Pool): Promise<Map<string, Date>> => {
+  const result = await db.query('SELECT version, applied_at FROM schema_migrations');
+  return new Map(result.rows.map((row: any) => [row.version, row.applied_at]));
+};
+
+// Holds a session-level advisory lock on its own connection while the
+// callback runs; a second runner waits until the first has finished
+const withMigrationLock = async <T>(db: Pool, callback: () => Promise<T>): Promise<T> => {
+  const client = await db.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+      await ensureMigrationsTable(db);
+      return await callback();
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+};
+
+// Applies pending migrations in order, each in its own transaction, and
+// returns the ones applied. Refuses to run against a database migrated by a
+// newer build, whose schema this code may not understand.
+export const migrate = async (db: Pool, migrations: Migration[] = loadMigrations()): Promise<Migration[]> => {
+  return withMigrationLock(db, async () => {
+    const applied = await getAppliedMigrations(db);
+
+    const unknown = [...applied.keys()].filter(
+      (version) => !migrations.some((migration) => migration.version === version)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Database has migrations this build doesn't know about: ${unknown.join(', ')}`);
+    }
+
+    const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      await withTransaction(db, async (client) => {
+        await migration.up(client);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+      });
+    }
+
+    return pending;
+  });
+};
+
+// Reverts the most recently applied migrations, newest first, and returns
+// the ones reverted. Pass Infinity to revert everything.
+export const rollback = async (
+  db: Pool,
+  steps = 1,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> => {
+  return withMigrationLock(db, async () => {
+    const applied = await getAppliedMigrations(db);
+    const versions = [...applied.keys()]
+      .sort((a, b) => parseInt(b, 10) - parseInt(a, 10))
+      .slice(0, steps);
+
+    const reverted: Migration[] = [];
+
+    for (const version of versions) {
+      const migration = migrations.find((candidate) => candidate.version === version);
+      if (!migration) {
+        throw new Error(`Migration ${version} is applied but its file is missing`);
+      }
+
+      await withTransaction(db, async (client) => {
+        await migration.down(client);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+      });
+
+      reverted.push(migration);
+    }
+
+    return reverted;
+  });
+};
+
+export const getMigrationStatus = async (
+  db: Pool,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> => {
+  await ensureMigrationsTable(db);
+  const applied = await getAppliedMigrations(db);
+
+  return migrations.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    applied_at: applied.get(migration.version) || null
+  }));
+};
@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { createPool } from '../connection';
+import { getMigrationStatus, migrate, rollback } from './migrator';
+
+const USAGE = 'Usage: run-migrations [up | down [--steps=N | --all] | status]';
+
+const readSteps = (args: string[]): number => {
+  if (args.includes('--all')) {
+    return Infinity;
+  }
+
+  const stepsArg = args.find((arg) => arg.startsWith('--steps='));
+  const steps = stepsArg ? parseInt(stepsArg.split('=')[1], 10) : 1;
+
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(USAGE);
+  }
+  return steps;
+};
+
+const run = async () => {
+  const [command = 'up', ...args] = process.argv.slice(2);
+  const db = createPool();
+
+  try {
+    if (command === 'up') {
+      const applied = await migrate(db);
+      applied.forEach((migration) => console.log(`Applied ${migration.version}_${migration.name}`));
+      console.log(applied.length > 0 ? `${applied.length} migration(s) applied` : 'Database is up to date');
+
+    } else if (command === 'down') {
+      const reverted = await rollback(db, readSteps(args));
+      reverted.forEach((migration) => console.log(`Reverted ${migration.version}_${migration.name}`));
+      console.log(reverted.length > 0 ? `${reverted.length} migration(s) reverted` : 'Nothing to revert');
+
+    } else if (command === 'status') {
+      for (const migration of await getMigrationStatus(db)) {
+        const state = migration.applied_at ? `applied ${migration.applied_at.toISOString()}` : 'pending';
+        console.log(`${migration.version}_${migration.name}  ${state}`);
+      }
+
+    } else {
+      throw new Error(USAGE);
+    }
+  } finally {
+    await db.end();
+  }
+};
+
+run().catch((error) => {
+  console.error('Migration error:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+// Starter checklists. Item ids are fixed so reseeding an environment keeps
+// references to them stable; normalizeSections fills in the defaults.
+export const STARTER_TEMPLATES = [
+  {
+    name: 'Residential Roof Inspection',
+    description: 'Exterior roof condition survey for pitched residential roofs',
+    sections: [
+      {
+        id: 'roof-covering',
+        title: 'Roof covering',
+        items: [
+          { id: 'shingles-intact', label: 'Shingles intact, no missing or lifted tabs', requires_photo: true },
+          { id: 'granule-loss', label: 'No significant granule loss', guidance: 'Check gutters and downspout outlets' },
+          { id: 'roof-pitch', label: 'Roof pitch', type: 'numeric', unit: 'degrees', min: 15, max: 45 }
+        ]
+      },
+      {
+        id: 'flashing-drainage',
+        title: 'Flashing and drainage',
+        items: [
+          { id: 'chimney-flashing', label: 'Chimney and wall flashing sealed', requires_photo: true },
+          { id: 'gutters-clear', label: 'Gutters clear and securely fastened' },
+          { id: 'downspout-discharge', label: 'Downspouts discharge away from foundation', required: false }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'HVAC Service Check',
+    description: 'Routine check of a forced-air heating and cooling system',
+    sections: [
+      {
+        id: 'hvac-readings',
+        title: 'Readings',
+        items: [
+          { id: 'supply-temp', label: 'Supply air temperature', type: 'numeric', unit: '°C', target: 13, tolerance: 2 },
+          { id: 'filter-pressure-drop', label: 'Filter pressure drop', type: 'numeric', unit: 'Pa', max: 125 }
+        ]
+      },
+      {
+        id: 'hvac-condition',
+        title: 'Condition',
+        items: [
+          { id: 'filter-condition', label: 'Filter clean and correctly seated', requires_photo: true },
+          { id: 'condensate-drain', label: 'Condensate drain clear' },
+          { id: 'ductwork-sealed', label: 'Visible ductwork joints sealed', required: false }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'Electrical Panel Safety',
+    description: 'Visual safety inspection of the main distribution panel',
+    sections: [
+      {
+        id: 'panel',
+        title: 'Panel',
+        items: [
+          { id: 'panel-labelled', label: 'Circuits labelled', requires_photo: true },
+          { id: 'no-scorching', label: 'No scorching, corrosion or melted insulation', requires_photo: true },
+          { id: 'supply-voltage', label: 'Supply voltage', type: 'numeric', unit: 'V', target: 240, tolerance: 12 },
+          { id: 'rcd-test', label: 'RCD trips on test button' }
+        ]
+      }
+    ]
+  }
+];
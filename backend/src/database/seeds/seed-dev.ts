@@ -0,0 +1,343 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+import sharp from 'sharp';
+import { AnnotationInput, ClientMediaMetadata } from 'ar-inspection-platform-shared';
+import { loadConfig } from '../../config';
+import { createPool } from '../connection';
+import { createAnnotation, deleteAnnotation, updateAnnotation } from '../../services/annotation.service';
+import { attachChecklist, getSessionChecklist, recordFinding } from '../../services/checklist.service';
+import { createJob } from '../../services/job.service';
+import { createOrganization } from '../../services/organization.service';
+import { storeMedia } from '../../services/media.service';
+import { StorageDriver, createStorage } from '../../services/storage.service';
+import { SeedUser, ensureStarterTemplates, ensureUser } from './seed';
+
+// Every dev account shares this password
+const DEV_PASSWORD = 'Inspect0r!';
+
+// Downtown Seattle; sessions, photos and jobs are scattered around it
+const ORIGIN = { latitude: 47.6062, longitude: -122.3321 };
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DEV_USERS: Record<string, SeedUser> = {
+  client: { email: 'alex.client@example.com', password: DEV_PASSWORD, userType: 'client', name: 'Alex Morgan' },
+  inspector: {
+    email: 'sam.inspector@example.com',
+    password: DEV_PASSWORD,
+    userType: 'gig_user',
+    name: 'Sam Rivera',
+    skills: ['roofing', 'hvac']
+  },
+  electrician: {
+    email: 'jordan.inspector@example.com',
+    password: DEV_PASSWORD,
+    userType: 'gig_user',
+    name: 'Jordan Lee',
+    skills: ['electrical', 'plumbing']
+  },
+  owner: { email: 'dana.owner@example.com', password: DEV_PASSWORD, userType: 'client', name: 'Dana Whitfield' },
+  dispatcher: { email: 'riley.dispatch@example.com', password: DEV_PASSWORD, userType: 'client', name: 'Riley Chen' }
+};
+
+const nearOrigin = (northKm: number, eastKm: number) => ({
+  latitude: ORIGIN.latitude + northKm / 111.32,
+  longitude: ORIGIN.longitude + eastKm / (111.32 * Math.cos(ORIGIN.latitude * Math.PI / 180))
+});
+
+interface SeedSession {
+  organizationId?: string;
+  clientId: string;
+  gigUserId?: string;
+  status: 'waiting' | 'active' | 'completed';
+  startedAgo: number;
+  duration?: number;
+  metadata: Record<string, any>;
+}
+
+const insertSession = async (db: Pool, session: SeedSession): Promise<string> => {
+  const startedAt = new Date(Date.now() - session.startedAgo);
+  const endedAt = session.duration ? new Date(startedAt.getTime() + session.duration) : null;
+
+  const result = await db.query(
+    `INSERT INTO sessions (organization_id, client_id, gig_user_id, started_at, ended_at, status, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [
+      session.organizationId || null, session.clientId, session.gigUserId || null,
+      startedAt, endedAt, session.status, JSON.stringify(session.metadata)
+    ]
+  );
+
+  return result.rows[0].id;
+};
+
+// A labelled gradient stands in for a real site photo
+const renderPhoto = async (label: string, hue: number): Promise<string> => {
+  const filePath = path.join(os.tmpdir(), `seed-${process.pid}-${Date.now()}-${hue}.jpg`);
+  const overlay = Buffer.from(
+    `<svg width="1280" height="960">
+       <defs>
+         <linearGradient id="g" x1="0" y1="0" x2="0" y2="1">
+           <stop offset="0" stop-color="hsl(${hue}, 45%, 65%)"/>
+           <stop offset="1" stop-color="hsl(${hue}, 35%, 25%)"/>
+         </linearGradient>
+       </defs>
+       <rect width="1280" height="960" fill="url(#g)"/>
+       <text x="64" y="900" font-family="sans-serif" font-size="56" fill="white">${label}</text>
+     </svg>`
+  );
+
+  await sharp({ create: { width: 1280, height: 960, channels: 3, background: '#000000' } })
+    .composite([{ input: overlay }])
+    .jpeg({ quality: 80 })
+    .toFile(filePath);
+
+  return filePath;
+};
+
+const addPhoto = async (
+  db: Pool,
+  storage: StorageDriver,
+  sessionId: string,
+  userId: string,
+  label: string,
+  hue: number,
+  metadata: ClientMediaMetadata
+) => {
+  const filePath = await renderPhoto(label, hue);
+
+  try {
+    return await storeMedia(db, storage, {
+      sessionId,
+      userId,
+      filePath,
+      mimeType: 'image/jpeg',
+      originalName: `${label.toLowerCase().replace(/\W+/g, '-')}.jpg`,
+      clientMetadata: metadata
+    });
+  } finally {
+    await fs.promises.unlink(filePath).catch(() => undefined);
+  }
+};
+
+const photoMetadata = (capturedAgo: number, northKm: number, eastKm: number, heading: number): ClientMediaMetadata => ({
+  captured_at: new Date(Date.now() - capturedAgo).toISOString(),
+  gps: { ...nearOrigin(northKm, eastKm), altitude: 56 },
+  camera_pose: {
+    position: { x: 0, y: 1.6, z: 0 },
+    rotation: { x: 0, y: Math.sin(heading / 2), z: 0, w: Math.cos(heading / 2) }
+  }
+});
+
+const ROOF_ANNOTATIONS: AnnotationInput[] = [
+  { type: 'circle', points: [{ x: 0.42, y: 0.31 }, { x: 0.5, y: 0.31 }], color: '#FF3B30', stroke_width: 4 },
+  { type: 'arrow', points: [{ x: 0.2, y: 0.7 }, { x: 0.38, y: 0.52 }], color: '#FFCC00' },
+  { type: 'text', points: [{ x: 0.55, y: 0.2 }], text: 'Lifted tabs along ridge', font_size: 18, color: '#FFFFFF' },
+  {
+    type: 'sphere',
+    position: { x: 1.2, y: 3.4, z: -2.5 },
+    scale: { x: 0.3, y: 0.3, z: 0.3 },
+    color: '#FF3B30'
+  },
+  {
+    type: 'box',
+    position: { x: -0.8, y: 3.1, z: -3 },
+    rotation: { x: 0, y: 0.38, z: 0, w: 0.92 },
+    scale: { x: 1.2, y: 0.4, z: 0.6 },
+    color: '#34C759'
+  }
+];
+
+// Sample accounts, an organization, sessions in every state with annotations,
+// photos and checklists, and open jobs. Skipped when the data is already there.
+export const seedDev = async (db: Pool, storage: StorageDriver) => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Refusing to load development data with NODE_ENV=production');
+  }
+
+  const existing = await db.query('SELECT id FROM users WHERE email = $1', [DEV_USERS.client.email]);
+  if (existing.rows.length > 0) {
+    console.log('Development data is already loaded; run db:reset first to start over');
+    return;
+  }
+
+  const users: Record<string, string> = {};
+  for (const [key, user] of Object.entries(DEV_USERS)) {
+    users[key] = await ensureUser(db, user);
+  }
+
+  // Organization with a member in every role
+  const organization = await createOrganization(db, 'Northwind Property Inspections', users.owner);
+  for (const [key, role] of [['dispatcher', 'dispatcher'], ['inspector', 'inspector'], ['electrician', 'inspector']]) {
+    await db.query(
+      'INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, $3)',
+      [organization.id, users[key], role]
+    );
+  }
+
+  const [roofTemplate, hvacTemplate] = await ensureStarterTemplates(db, organization.id, users.owner);
+  await ensureStarterTemplates(db, null, users.client);
+
+  // Completed roof inspection with annotation history, photos and findings
+  const completedId = await insertSession(db, {
+    clientId: users.client,
+    gigUserId: users.inspector,
+    status: 'completed',
+    startedAgo: 3 * DAY,
+    duration: 50 * 60 * 1000,
+    metadata: { title: 'Roof inspection - 1420 Pine St', address: '1420 Pine St, Seattle, WA', ...nearOrigin(0.8, 0.6) }
+  });
+
+  const annotations = [];
+  for (const annotation of ROOF_ANNOTATIONS) {
+    annotations.push(await createAnnotation(db, completedId, users.inspector, annotation));
+  }
+  await updateAnnotation(db, completedId, annotations[0].id, users.inspector, { color: '#FF9500', stroke_width: 6 });
+  await deleteAnnotation(db, completedId, annotations[1].id, users.client);
+
+  const ridgePhoto = await addPhoto(db, storage, completedId, users.inspector, 'Ridge line', 20, photoMetadata(3 * DAY - HOUR / 4, 0.8, 0.6, 0));
+  const flashingPhoto = await addPhoto(
+    db, storage, completedId, users.inspector, 'Chimney flashing', 200, photoMetadata(3 * DAY - HOUR / 2, 0.8, 0.61, Math.PI / 2)
+  );
+  await addPhoto(db, storage, completedId, users.client, 'Gutter outlet', 120, photoMetadata(3 * DAY - HOUR * 0.7, 0.79, 0.6, Math.PI));
+
+  const roofChecklist = await attachChecklist(db, completedId, roofTemplate, users.inspector);
+  const roofFindings: [string, any][] = [
+    ['shingles-intact', {
+      result: 'fail',
+      notes: 'Several lifted tabs on the north slope',
+      annotation_ids: [annotations[0].id],
+      media_ids: [ridgePhoto.id]
+    }],
+    ['granule-loss', { result: 'pass' }],
+    ['roof-pitch', { value: 32 }],
+    ['chimney-flashing', { result: 'pass', media_ids: [flashingPhoto.id] }],
+    ['gutters-clear', { result: 'fail', notes: 'Leaf debris in the east gutter' }]
+  ];
+  for (const [itemId, body] of roofFindings) {
+    const checklist = await getSessionChecklist(db, completedId, roofChecklist.id);
+    await recordFinding(db, checklist, itemId, users.inspector, body);
+  }
+  await db.query(
+    'UPDATE session_checklists SET completed_at = $1, completed_by = $2 WHERE id = $3',
+    [new Date(Date.now() - 3 * DAY + 50 * 60 * 1000), users.inspector, roofChecklist.id]
+  );
+
+  // Live session in progress
+  const activeId = await insertSession(db, {
+    clientId: users.client,
+    gigUserId: users.inspector,
+    status: 'active',
+    startedAgo: 20 * 60 * 1000,
+    metadata: { title: 'HVAC check - 88 Yesler Way', address: '88 Yesler Way, Seattle, WA', ...nearOrigin(-0.9, 0.2) }
+  });
+  await createAnnotation(db, activeId, users.inspector, {
+    type: 'rectangle',
+    points: [{ x: 0.3, y: 0.4 }, { x: 0.62, y: 0.71 }],
+    color: '#0A84FF'
+  });
+  await createAnnotation(db, activeId, users.client, {
+    type: 'text',
+    points: [{ x: 0.32, y: 0.36 }],
+    text: 'Is this the return filter?',
+    font_size: 16
+  });
+  await addPhoto(db, storage, activeId, users.inspector, 'Air handler', 260, photoMetadata(10 * 60 * 1000, -0.9, 0.2, 0));
+
+  // Waiting for an inspector to join
+  await insertSession(db, {
+    clientId: users.client,
+    status: 'waiting',
+    startedAgo: 5 * 60 * 1000,
+    metadata: { title: 'Water heater follow-up', address: '2200 Alaskan Way, Seattle, WA', ...nearOrigin(0.6, -0.7) }
+  });
+
+  // Organization sessions dispatched to its inspectors
+  await insertSession(db, {
+    organizationId: organization.id,
+    clientId: users.dispatcher,
+    gigUserId: users.electrician,
+    status: 'waiting',
+    startedAgo: 2 * HOUR,
+    metadata: { title: 'Panel safety - Northwind HQ', address: '400 Broad St, Seattle, WA', ...nearOrigin(1.5, -0.5) }
+  });
+  const orgActiveId = await insertSession(db, {
+    organizationId: organization.id,
+    clientId: users.dispatcher,
+    gigUserId: users.inspector,
+    status: 'active',
+    startedAgo: 35 * 60 * 1000,
+    metadata: { title: 'Rooftop unit service', address: '1301 5th Ave, Seattle, WA', ...nearOrigin(0.3, 0.1) }
+  });
+  const hvacChecklist = await attachChecklist(db, orgActiveId, hvacTemplate, users.dispatcher);
+  await recordFinding(db, hvacChecklist, 'supply-temp', users.inspector, { value: 14.2 });
+
+  // Open jobs for the inspectors' feeds; organization ones are posted by the dispatcher
+  const jobs: Record<string, any>[] = [
+    {
+      title: 'Pre-purchase roof inspection',
+      description: 'Two-storey craftsman, composition shingle roof about 15 years old',
+      address: '5120 Ballard Ave NW, Seattle, WA',
+      ...nearOrigin(8.5, -3.2),
+      required_skills: ['roofing'],
+      price: 180
+    },
+    {
+      title: 'Furnace and ductwork check',
+      address: '3300 Rainier Ave S, Seattle, WA',
+      ...nearOrigin(-5.1, 2.4),
+      required_skills: ['hvac'],
+      price: 140
+    },
+    {
+      title: 'Panel upgrade sign-off',
+      description: 'Verify the new 200A panel before drywall goes up',
+      address: '1500 NE 45th St, Seattle, WA',
+      ...nearOrigin(6.2, 2.1),
+      required_skills: ['electrical'],
+      price: 220,
+      organization: true
+    },
+    {
+      title: 'Tacoma warehouse walkthrough',
+      address: '1102 A St, Tacoma, WA',
+      latitude: 47.2529,
+      longitude: -122.4443,
+      required_skills: [],
+      price: 300
+    }
+  ];
+  for (const [index, { organization: posted, ...job }] of jobs.entries()) {
+    const windowStart = new Date(Date.now() + (index + 1) * DAY);
+    await createJob(db, posted ? users.dispatcher : users.client, posted ? organization.id : null, {
+      ...job,
+      window_start: windowStart.toISOString(),
+      window_end: new Date(windowStart.getTime() + 4 * HOUR).toISOString()
+    });
+  }
+
+  console.log(`Development data loaded into organization "${organization.name}". Accounts (password ${DEV_PASSWORD}):`);
+  for (const user of Object.values(DEV_USERS)) {
+    console.log(`  ${user.email}  ${user.userType}`);
+  }
+};
+
+if (require.main === module) {
+  const db = createPool();
+
+  seedDev(db, createStorage(loadConfig().mediaUrlSecret))
+    .then(() => db.end())
+    .catch(async (error) => {
+      console.error('Seed error:', error.message || error);
+      await db.end();
+      process.exit(1);
+    });
+}
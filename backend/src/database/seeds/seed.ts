@@ -0,0 +1,123 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import bcrypt from 'bcrypt';
+import { Pool } from 'pg';
+import { UserType, passwordSchema } from 'ar-inspection-platform-shared';
+import { createPool } from '../connection';
+import { createOrganization } from '../../services/organization.service';
+import { createTemplate, listTemplates, normalizeSections } from '../../services/checklist.service';
+import { STARTER_TEMPLATES } from './checklist-templates';
+
+export interface SeedUser {
+  email: string;
+  password: string;
+  userType: UserType;
+  name: string;
+  skills?: string[];
+}
+
+// Returns the id of the account with this email, creating it and its profile if needed
+export const ensureUser = async (db: Pool, user: SeedUser): Promise<string> => {
+  const existing = await db.query('SELECT id FROM users WHERE email = $1', [user.email]);
+  if (existing.rows.length > 0) {
+    return existing.rows[0].id;
+  }
+
+  const passwordHash = await bcrypt.hash(user.password, 10);
+  const result = await db.query(
+    `INSERT INTO users (email, password_hash, user_type)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [user.email, passwordHash, user.userType]
+  );
+  const userId = result.rows[0].id;
+
+  await db.query(
+    'INSERT INTO user_profiles (user_id, name, skills) VALUES ($1, $2, $3)',
+    [userId, user.name, JSON.stringify(user.skills || [])]
+  );
+
+  return userId;
+};
+
+// Adds the starter checklists to an organization, or to the user's personal
+// templates when organizationId is null, skipping ones already there
+export const ensureStarterTemplates = async (db: Pool, organizationId: string | null, userId: string) => {
+  const existing = await listTemplates(db, organizationId, userId);
+  const names = new Set(existing.map((template) => template.name));
+  const templates = [];
+
+  for (const template of STARTER_TEMPLATES) {
+    if (names.has(template.name)) {
+      continue;
+    }
+
+    const { error, sections } = normalizeSections(template.sections);
+    if (error || !sections) {
+      throw new Error(`Starter template "${template.name}": ${error}`);
+    }
+
+    templates.push(await createTemplate(db, {
+      organizationId,
+      userId,
+      name: template.name,
+      description: template.description,
+      sections
+    }));
+  }
+
+  return templates;
+};
+
+// Data every environment starts with: the first organization and its owner,
+// from SEED_OWNER_EMAIL, SEED_OWNER_PASSWORD and SEED_ORGANIZATION_NAME, plus
+// the starter checklists. Safe to run again; existing records are kept.
+export const seed = async (db: Pool) => {
+  const email = process.env.SEED_OWNER_EMAIL;
+  const password = process.env.SEED_OWNER_PASSWORD;
+  const organizationName = process.env.SEED_ORGANIZATION_NAME;
+
+  if (!email || !password || !organizationName) {
+    console.log('SEED_OWNER_EMAIL, SEED_OWNER_PASSWORD and SEED_ORGANIZATION_NAME are not all set; nothing to seed');
+    return;
+  }
+
+  const { error } = passwordSchema.validate(password);
+  if (error) {
+    throw new Error(`SEED_OWNER_PASSWORD: ${error.message}`);
+  }
+
+  const ownerId = await ensureUser(db, {
+    email: email.toLowerCase(),
+    password,
+    userType: 'client',
+    name: process.env.SEED_OWNER_NAME || 'Administrator'
+  });
+
+  const existing = await db.query(
+    `SELECT o.id FROM organizations o
+     JOIN organization_memberships m ON m.organization_id = o.id
+     WHERE o.name = $1 AND m.user_id = $2 AND m.role = 'owner'`,
+    [organizationName, ownerId]
+  );
+  const organizationId = existing.rows[0]?.id
+    || (await createOrganization(db, organizationName, ownerId)).id;
+
+  const templates = await ensureStarterTemplates(db, organizationId, ownerId);
+
+  console.log(`Organization "${organizationName}" owned by ${email}; ${templates.length} template(s) added`);
+};
+
+if (require.main === module) {
+  const db = createPool();
+
+  seed(db)
+    .then(() => db.end())
+    .catch(async (error) => {
+      console.error('Seed error:', error.message || error);
+      await db.end();
+      process.exit(1);
+    });
+}
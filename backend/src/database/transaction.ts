@@ -0,0 +1,22 @@
+import { Pool, PoolClient } from 'pg';
+
+// Runs the callback on a dedicated client inside BEGIN/COMMIT, rolling back
+// if it throws
+export const withTransaction = async <T>(
+  db: Pool,
+  callback: (client: PoolClient) => Promise<T>
+): Promise<T> => {
+  const client = await db.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
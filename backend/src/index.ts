@@ -2,63 +2,86 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
-import morgan from 'morgan';
-import { Pool } from 'pg';
 import { createServer } from 'http';
+import { Server } from 'socket.io';
 
-import { authMiddleware } from './middleware/auth.middleware';
-import { authRoutes } from './routes/auth.routes';
-import { profileRoutes } from './routes/profile.routes';
+import { createApp } from './app';
+import { loadConfig } from './config';
+import { createContainer } from './container';
+import { checkDatabase } from './database/connection';
+import { purgeExpiredUploads } from './services/media.service';
+import { setupCollaboration } from './sockets/collaboration.socket';
+import { setupSignaling } from './sockets/signaling.socket';
 
-const app = express();
-const server = createServer(app);
+const start = async () => {
+  const config = loadConfig();
+  const container = createContainer(config);
+  const app = createApp(container);
+  const server = createServer(app);
 
-// Middleware
-app.use(helmet());
-app.use(compression());
-app.use(morgan('combined'));
-app.use(cors({
-  origin: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3001'],
-  credentials: true
-}));
+  // Real-time collaboration and WebRTC signaling
+  const io = new Server(server, {
+    cors: { origin: config.corsOrigins, credentials: true }
+  });
+  container.io = io;
+  setupCollaboration(io, container);
+  setupSignaling(io, container);
+
+  // Abandoned resumable uploads
+  const uploadCleanup = setInterval(() => {
+    purgeExpiredUploads(container.db).catch((error) => {
+      console.error('Upload cleanup error:', error);
+    });
+  }, 60 * 60 * 1000);
+  uploadCleanup.unref();
 
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+  // The server still starts when the database is down so /health answers;
+  // /health/ready reports it until the connection comes back
+  const database = await checkDatabase(container.db);
+  if (database.status !== 'ok') {
+    console.error('Database unavailable at startup:', database.error);
+  }
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'ok', 
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    memory: process.memoryUsage()
+  server.listen(config.port, () => {
+    console.log(`Server running on port ${config.port}`);
+    console.log(`Environment: ${config.env}`);
   });
-});
 
-// API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/profile', profileRoutes);
+  // Fail readiness, stop accepting connections, let in-flight requests
+  // finish, then close the pool. A second signal or the timeout forces exit.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      process.exit(1);
+    }
+    shuttingDown = true;
+    app.locals.draining = true;
+    clearInterval(uploadCleanup);
+    console.log(`${signal} received, shutting down`);
 
-// Error handling middleware
-app.use((err: any, req, res, next) => {
-  console.error(err.stack);
-  res.status(err.status || 500).json({
-    error: process.env.NODE_ENV === 'production' ? 'Internal Server Error' : err.message
-  });
-});
+    setTimeout(() => {
+      console.error(`Shutdown did not finish within ${config.shutdownTimeoutMs}ms, exiting`);
+      process.exit(1);
+    }, config.shutdownTimeoutMs).unref();
 
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({ error: 'Route not found' });
-});
+    try {
+      // Disconnects socket clients and closes the HTTP server it is attached to
+      await new Promise<void>((resolve, reject) => {
+        io.close((error) => (error ? reject(error) : resolve()));
+      });
+      await Promise.all([container.db.end(), container.rateLimitStore.close()]);
+      process.exit(0);
+    } catch (error) {
+      console.error('Shutdown error:', error);
+      process.exit(1);
+    }
+  };
 
-const PORT = process.env.PORT || 3000;
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+};
 
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV}`);
-});
\ No newline at end of file
+start().catch((error) => {
+  console.error('Startup error:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { Container } from '../container';
+import { AuditAction, AuditEvent, recordAuditEvent } from '../services/audit.service';
+
+// Who made the request and from where, for audit entries written by handlers
+export const auditContext = (req: AuthRequest): Omit<AuditEvent, 'action'> => ({
+  userId: req.user?.userId,
+  organizationId: req.organization?.id,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent')
+});
+
+// Records successful reads once the response has been sent, so the audit
+// write never delays or fails the request it describes
+export const auditAccess = (container: Container, action: AuditAction) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET') {
+      return next();
+    }
+
+    // Captured now; routers rewrite params and paths as the request moves through them
+    const event: AuditEvent = {
+      ...auditContext(req),
+      action,
+      metadata: {
+        session_id: req.params.id,
+        path: req.originalUrl.split('?')[0]
+      }
+    };
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        return;
+      }
+
+      recordAuditEvent(container.db, event).catch((error) => {
+        console.error('Audit log error:', error);
+      });
+    });
+
+    next();
+  };
+};
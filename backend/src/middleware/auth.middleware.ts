@@ -1,18 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { Pool } from 'pg';
+import { Container } from '../container';
+import {
+  OrganizationRole,
+  Permission,
+  PermissionContext,
+  hasPermission
+} from '../services/permission.service';
 
-interface AuthRequest extends Request {
+export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
     userType: string;
+    sessionId: string;
+  };
+  // Set by the organization middleware when the request acts inside an organization
+  organization?: {
+    id: string;
+    role: OrganizationRole;
   };
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev_jwt_secret';
-
-export const authMiddleware = (db: Pool) => {
+// Verifies the bearer token and that its device session hasn't been revoked
+export const requireAuth = (container: Container) => {
   return async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       const authHeader = req.headers.authorization;
@@ -23,24 +33,14 @@ export const authMiddleware = (db: Pool) => {
 
       const token = authHeader.split(' ')[1];
       
-      // Verify token
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      
-      // Verify user still exists and is active
-      const result = await db.query(
-        'SELECT id, email, user_type FROM users WHERE id = $1 AND is_active = TRUE',
-        [decoded.userId]
-      );
+      // Verify token, user and that the device session hasn't been revoked
+      const user = await container.tokens.verifyAccessToken(container.db, token);
 
-      if (result.rows.length === 0) {
+      if (!user) {
         return res.status(401).json({ error: 'Invalid token' });
       }
 
-      req.user = {
-        userId: decoded.userId,
-        email: decoded.email,
-        userType: decoded.userType
-      };
+      req.user = user;
 
       next();
     } catch (error: any) {
@@ -49,16 +49,23 @@ export const authMiddleware = (db: Pool) => {
   };
 };
 
-export const roleMiddleware = (allowedRoles: string[]) => {
+export const permissionContext = (req: AuthRequest): PermissionContext => ({
+  userType: req.user?.userType || '',
+  organizationRole: req.organization?.role || null
+});
+
+// Checks the caller's organization role when the request is scoped to an
+// organization, and their account user_type otherwise
+export const requirePermission = (permission: Permission) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    if (!allowedRoles.includes(req.user.userType)) {
+    if (!hasPermission(permissionContext(req), permission)) {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,66 @@
+import { Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { AuthRequest } from './auth.middleware';
+import { Container } from '../container';
+import { getMembershipRole } from '../services/organization.service';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+const attachMembership = async (
+  db: Pool,
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  organizationId: string
+) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  if (!UUID_PATTERN.test(organizationId)) {
+    return res.status(400).json({ error: 'Invalid organization id' });
+  }
+
+  const role = await getMembershipRole(db, organizationId, req.user.userId);
+
+  // Non-members get the same answer as a missing organization
+  if (!role) {
+    return res.status(404).json({ error: 'Organization not found' });
+  }
+
+  req.organization = { id: organizationId, role };
+  next();
+};
+
+// Scopes the request to the organization named by the X-Organization-Id
+// header. Without the header the request stays in the caller's personal scope.
+export const organizationContext = (container: Container) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const organizationId = req.get(ORGANIZATION_HEADER);
+
+      if (!organizationId) {
+        return next();
+      }
+
+      await attachMembership(container.db, req, res, next, organizationId);
+    } catch (error: any) {
+      console.error('Organization lookup error:', error);
+      res.status(500).json({ error: 'Failed to load organization' });
+    }
+  };
+};
+
+// Loads the caller's membership in the organization named by the :orgId route param
+export const organizationMemberMiddleware = (container: Container) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      await attachMembership(container.db, req, res, next, req.params.orgId);
+    } catch (error: any) {
+      console.error('Organization lookup error:', error);
+      res.status(500).json({ error: 'Failed to load organization' });
+    }
+  };
+};
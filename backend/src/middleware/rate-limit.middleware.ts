@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthThrottleConfig } from '../config';
+import { Container } from '../container';
+
+// 429 with the wait in both the standard header and the body, for clients
+// that can't read response headers
+export const sendTooManyRequests = (res: Response, retryAfterMs: number, message: string) => {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: message, retry_after: retryAfter });
+};
+
+// Fixed-window limit per client IP. Counters live in the container's rate
+// limit store; if the store itself fails the request is let through, since
+// refusing every login would be worse than briefly not throttling.
+export const rateLimitByIp = (
+  container: Container,
+  name: string,
+  pickLimit: (config: AuthThrottleConfig) => number
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const { config, rateLimitStore } = container;
+    const limit = pickLimit(config.authThrottle);
+
+    try {
+      const counter = await rateLimitStore.increment(`${name}:ip:${req.ip}`, config.authThrottle.ipWindowMs);
+
+      res.set('RateLimit-Limit', String(limit));
+      res.set('RateLimit-Remaining', String(Math.max(0, limit - counter.count)));
+
+      if (counter.count > limit) {
+        return sendTooManyRequests(res, counter.resetMs, 'Too many requests, please try again later');
+      }
+    } catch (error) {
+      console.error('Rate limit error:', error);
+    }
+
+    next();
+  };
+};
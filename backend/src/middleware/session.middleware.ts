@@ -0,0 +1,78 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, permissionContext } from './auth.middleware';
+import { PermissionContext, hasPermission } from '../services/permission.service';
+import { Container } from '../container';
+
+export interface SessionRequest extends AuthRequest {
+  inspectionSession?: {
+    id: string;
+    organization_id: string | null;
+    client_id: string;
+    gig_user_id: string | null;
+    status: 'waiting' | 'active' | 'completed' | 'cancelled';
+  };
+}
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// A session belongs to one organization or to nobody (personal). Requests only
+// see sessions of the scope they were made in.
+export const isInScope = (session: { organization_id: string | null }, req: AuthRequest): boolean => {
+  return (session.organization_id || null) === (req.organization?.id || null);
+};
+
+// Its client and assigned gig user always have access to a session; inside
+// an organization, roles that can see every session may read it and, if they
+// can collaborate, write to it too. Shared with the collaboration socket.
+export const sessionAccess = (
+  session: { client_id: string; gig_user_id: string | null },
+  userId: string,
+  context: PermissionContext
+): 'read' | 'write' | null => {
+  if (session.client_id === userId || session.gig_user_id === userId) {
+    return 'write';
+  }
+  if (!hasPermission(context, 'sessions:view_all')) {
+    return null;
+  }
+  return hasPermission(context, 'sessions:collaborate') ? 'write' : 'read';
+};
+
+// Loads the session named by the :id route param and checks the caller's
+// sessionAccess: reads need any access, other methods write access.
+export const sessionParticipantMiddleware = (container: Container) => {
+  return async (req: SessionRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Not authenticated' });
+      }
+
+      const result = await container.db.query(
+        'SELECT id, organization_id, client_id, gig_user_id, status FROM sessions WHERE id = $1',
+        [req.params.id]
+      );
+
+      const session = result.rows[0];
+
+      if (!session || !isInScope(session, req)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const access = sessionAccess(session, req.user.userId, permissionContext(req));
+
+      if (!access) {
+        return res.status(403).json({ error: 'Not a participant of this session' });
+      }
+
+      if (access === 'read' && !READ_METHODS.includes(req.method)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      req.inspectionSession = session;
+      next();
+    } catch (error: any) {
+      console.error('Session lookup error:', error);
+      res.status(500).json({ error: 'Failed to load session' });
+    }
+  };
+};
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestSchema, validateRequest } from 'ar-inspection-platform-shared';
+
+// Checks params, query and body against the route's declared schema, which
+// comes from the shared package so clients can run the same checks before
+// sending. Every route that reads request input declares one.
+//
+// Invalid requests get 400 with the first message in `error` and every
+// problem in `details`. Valid ones continue with the converted values, so
+// handlers see numbers for numeric query params and trimmed strings.
+export const validate = (schema: RequestSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { value, issues } = validateRequest(schema, {
+      params: req.params,
+      query: req.query,
+      body: req.body
+    });
+
+    if (issues.length > 0) {
+      return res.status(400).json({ error: issues[0].message, details: issues });
+    }
+
+    if (schema.params) {
+      req.params = value.params;
+    }
+    if (schema.query) {
+      req.query = value.query;
+    }
+    if (schema.body) {
+      req.body = value.body;
+    }
+
+    next();
+  };
+};
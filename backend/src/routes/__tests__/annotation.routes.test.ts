@@ -0,0 +1,191 @@
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestSession, createTestUser, useTestContext, waitFor } from '../../test/harness';
+
+describe('measurement annotations', () => {
+  const context = useTestContext();
+  let owner: TestUser;
+  let organizationId: string;
+  let sessionId: string;
+
+  const annotationsUrl = () => `/api/sessions/${sessionId}/annotations`;
+
+  const tapeMeasure = {
+    kind: 'distance',
+    points: [{ x: 0, y: 0, z: 0 }, { x: 0.3, y: 0, z: -0.4 }],
+    value: 12,
+    unit: 'cm',
+    accuracy: 0.004
+  };
+
+  beforeEach(async () => {
+    owner = await createTestUser(context.db);
+    organizationId = (await createOrganization(context.db, 'Northwind Inspections', owner.id)).id;
+
+    const session = await context.db.query(
+      `INSERT INTO sessions (organization_id, client_id, status) VALUES ($1, $2, 'active') RETURNING id`,
+      [organizationId, owner.id]
+    );
+    sessionId = session.rows[0].id;
+  });
+
+  const post = (body: object) => context.api()
+    .post(annotationsUrl())
+    .set('Authorization', bearer(owner))
+    .set('X-Organization-Id', organizationId)
+    .send(body);
+
+  it('stores the value measured from the points rather than the one sent', async () => {
+    const res = await post({ type: 'measurement', position: { x: 0.15, y: 0, z: -0.2 }, measurement: tapeMeasure })
+      .expect(201);
+
+    expect(res.body.measurement).toEqual({ ...tapeMeasure, value: 0.5 });
+  });
+
+  it('recomputes the value when the points change', async () => {
+    const created = await post({ type: 'measurement', position: { x: 0, y: 0, z: 0 }, measurement: tapeMeasure })
+      .expect(201);
+
+    const res = await context.api()
+      .put(`${annotationsUrl()}/${created.body.id}`)
+      .set('Authorization', bearer(owner))
+      .set('X-Organization-Id', organizationId)
+      .send({ measurement: { ...tapeMeasure, points: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 2, z: 0 }] } })
+      .expect(200);
+
+    expect(res.body.measurement.value).toBe(2);
+  });
+
+  it('rejects measurements with the wrong number of points', async () => {
+    const res = await post({
+      type: 'measurement',
+      position: { x: 0, y: 0, z: 0 },
+      measurement: { ...tapeMeasure, kind: 'angle' }
+    }).expect(400);
+
+    expect(JSON.stringify(res.body)).toMatch(/at least 3 items/);
+  });
+
+  it('only accepts measurements on measurement annotations', async () => {
+    await post({ type: 'measurement', position: { x: 0, y: 0, z: 0 } }).expect(400);
+    await post({ type: 'sphere', position: { x: 0, y: 0, z: 0 }, measurement: tapeMeasure }).expect(400);
+  });
+
+  const put = (annotationId: string, body: object) => context.api()
+    .put(`${annotationsUrl()}/${annotationId}`)
+    .set('Authorization', bearer(owner))
+    .set('X-Organization-Id', organizationId)
+    .send(body);
+
+  it('keeps a measurement annotation measured through updates', async () => {
+    const created = await post({ type: 'measurement', position: { x: 0, y: 0, z: 0 }, measurement: tapeMeasure })
+      .expect(201);
+
+    const cleared = await put(created.body.id, { measurement: null }).expect(400);
+    expect(cleared.body.error).toBe('measurement is required on measurement annotations');
+    await put(created.body.id, { type: 'sphere' }).expect(400);
+
+    // Changing the type along with the measurement is fine
+    const res = await put(created.body.id, { type: 'sphere', measurement: null }).expect(200);
+    expect(res.body).toMatchObject({ type: 'sphere', measurement: null, version: 2 });
+  });
+
+  it('only accepts measurements on measurement annotations in updates', async () => {
+    const created = await post({ type: 'sphere', position: { x: 0, y: 0, z: 0 } }).expect(201);
+
+    const res = await put(created.body.id, { measurement: tapeMeasure }).expect(400);
+    expect(res.body.error).toBe('measurement is only allowed on measurement annotations');
+    await put(created.body.id, { type: 'measurement' }).expect(400);
+
+    const updated = await put(created.body.id, { type: 'measurement', measurement: tapeMeasure }).expect(200);
+    expect(updated.body.measurement.value).toBe(0.5);
+
+    const revisions = await context.db.query(
+      'SELECT version FROM annotation_revisions WHERE annotation_id = $1 ORDER BY version',
+      [created.body.id]
+    );
+    expect(revisions.rows.map((row: any) => row.version)).toEqual([1, 2]);
+  });
+});
+
+describe('annotation routes', () => {
+  const context = useTestContext();
+  let client: TestUser;
+  let gigUser: TestUser;
+  let sessionId: string;
+
+  const annotationsUrl = () => `/api/sessions/${sessionId}/annotations`;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+    sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id });
+  });
+
+  const as = (user: TestUser) => ({
+    get: (path = '') => context.api().get(`${annotationsUrl()}${path}`).set('Authorization', bearer(user)),
+    post: (body: object) => context.api().post(annotationsUrl()).set('Authorization', bearer(user)).send(body),
+    put: (id: string, body: object) => context.api()
+      .put(`${annotationsUrl()}/${id}`)
+      .set('Authorization', bearer(user))
+      .send(body),
+    delete: (id: string) => context.api().delete(`${annotationsUrl()}/${id}`).set('Authorization', bearer(user))
+  });
+
+  it('creates, updates and deletes an annotation, keeping a revision of each change', async () => {
+    const created = await as(gigUser).post({ type: 'text', text: 'Crack', position: { x: 1, y: 1, z: -3 } }).expect(201);
+    const id = created.body.id;
+    expect(created.body).toMatchObject({ session_id: sessionId, type: 'text', text: 'Crack', version: 1, created_by: gigUser.id });
+
+    const updated = await as(client).put(id, { text: 'Crack, 2mm' }).expect(200);
+    expect(updated.body).toMatchObject({ text: 'Crack, 2mm', version: 2 });
+
+    const listed = await as(client).get().expect(200);
+    expect(listed.body.annotations.map((annotation: any) => annotation.id)).toEqual([id]);
+
+    const deleted = await as(gigUser).delete(id).expect(200);
+    expect(deleted.body).toEqual({ message: 'Annotation deleted', id, version: 3 });
+
+    expect((await as(client).get().expect(200)).body.annotations).toEqual([]);
+    const withDeleted = await as(client).get('?include_deleted=true').expect(200);
+    expect(withDeleted.body.annotations[0].deleted_at).not.toBeNull();
+
+    const revisions = await as(client).get(`/${id}/revisions`).expect(200);
+    expect(revisions.body.revisions.map((revision: any) => [revision.version, revision.action, revision.changed_by])).toEqual([
+      [1, 'create', gigUser.id],
+      [2, 'update', client.id],
+      [3, 'delete', gigUser.id]
+    ]);
+    expect(revisions.body.revisions[1].snapshot.text).toBe('Crack, 2mm');
+
+    const history = await as(client).get('/history').expect(200);
+    expect(history.body.revisions).toHaveLength(3);
+
+    await as(client).put(id, { text: 'Too late' }).expect(404);
+    await as(client).delete(id).expect(404);
+  });
+
+  it('refuses changes once the session is closed', async () => {
+    const created = await as(client).post({ type: 'sphere', position: { x: 0, y: 0, z: -1 } }).expect(201);
+    await context.db.query(`UPDATE sessions SET status = 'completed' WHERE id = $1`, [sessionId]);
+
+    await as(client).post({ type: 'sphere', position: { x: 0, y: 0, z: -1 } }).expect(409);
+    await as(client).put(created.body.id, { color: '#000000' }).expect(409);
+    await as(client).delete(created.body.id).expect(409);
+    // Still readable, and the read is audited once the response is sent
+    await as(client).get().expect(200);
+    await waitFor(async () => {
+      const audit = await context.db.query(`SELECT user_id FROM audit_log WHERE action = 'annotation.access'`);
+      return audit.rows.length === 1;
+    });
+  });
+
+  it('refuses users who are not participants', async () => {
+    const created = await as(client).post({ type: 'sphere', position: { x: 0, y: 0, z: -1 } }).expect(201);
+    const outsider = await createTestUser(context.db, { userType: 'gig_user' });
+
+    await as(outsider).get().expect(403);
+    await as(outsider).post({ type: 'sphere', position: { x: 0, y: 0, z: -1 } }).expect(403);
+    await as(outsider).put(created.body.id, { color: '#000000' }).expect(403);
+    await as(outsider).delete(created.body.id).expect(403);
+  });
+});
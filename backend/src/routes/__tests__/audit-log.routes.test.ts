@@ -0,0 +1,109 @@
+import { AuditLogEntry } from 'ar-inspection-platform-shared';
+import { createOrganization } from '../../services/organization.service';
+import { verifyAuditChain } from '../../services/audit.service';
+import { TestUser, bearer, createTestUser, useTestContext } from '../../test/harness';
+
+describe('audit log routes', () => {
+  const context = useTestContext();
+  let owner: TestUser;
+  let inspector: TestUser;
+  let organizationId: string;
+
+  const auditLogUrl = () => `/api/organizations/${organizationId}/audit-log`;
+
+  const listActions = async () => {
+    const res = await context.api().get(auditLogUrl()).set('Authorization', bearer(owner)).expect(200);
+    return res.body.entries.map((entry: AuditLogEntry) => entry.action);
+  };
+
+  beforeEach(async () => {
+    owner = await createTestUser(context.db);
+    inspector = await createTestUser(context.db, { userType: 'gig_user' });
+    organizationId = (await createOrganization(context.db, 'Northwind Inspections', owner.id)).id;
+
+    await context.db.query(
+      `INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, 'inspector')`,
+      [organizationId, inspector.id]
+    );
+  });
+
+  it('records sign-ins of members and admin actions in the organization', async () => {
+    await context.api()
+      .post('/api/auth/login')
+      .send({ email: inspector.email, password: 'wrong-password' })
+      .expect(401);
+    await context.api()
+      .post('/api/auth/login')
+      .send({ email: inspector.email, password: inspector.password })
+      .expect(200);
+    await context.api()
+      .patch(`/api/organizations/${organizationId}/members/${inspector.id}`)
+      .set('Authorization', bearer(owner))
+      .send({ role: 'dispatcher' })
+      .expect(200);
+
+    // Newest first
+    expect(await listActions()).toEqual(['member.role_change', 'auth.login', 'auth.login_failed']);
+
+    // Sign-ins by people outside the organization stay out of its log
+    const outsider = await createTestUser(context.db);
+    await context.api()
+      .post('/api/auth/login')
+      .send({ email: outsider.email, password: outsider.password })
+      .expect(200);
+    expect(await listActions()).toHaveLength(3);
+  });
+
+  it('records reads of session data once the response is sent', async () => {
+    const session = await context.db.query(
+      `INSERT INTO sessions (organization_id, client_id, status) VALUES ($1, $2, 'active') RETURNING id`,
+      [organizationId, owner.id]
+    );
+    const sessionId = session.rows[0].id;
+
+    await context.api()
+      .get(`/api/sessions/${sessionId}/annotations`)
+      .set('Authorization', bearer(owner))
+      .set('X-Organization-Id', organizationId)
+      .expect(200);
+
+    // Written after the response, so wait for it
+    for (let attempt = 0; attempt < 20 && (await listActions()).length === 0; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const res = await context.api().get(auditLogUrl()).set('Authorization', bearer(owner)).expect(200);
+    expect(res.body.entries).toHaveLength(1);
+    expect(res.body.entries[0]).toMatchObject({
+      action: 'annotation.access',
+      user_id: owner.id,
+      organization_id: organizationId,
+      metadata: { session_id: sessionId, path: `/api/sessions/${sessionId}/annotations` }
+    });
+  });
+
+  it('exports entries that verify and records the export', async () => {
+    await context.api()
+      .patch(`/api/organizations/${organizationId}`)
+      .set('Authorization', bearer(owner))
+      .send({ name: 'Northwind Inspections Ltd' })
+      .expect(200);
+
+    const res = await context.api()
+      .get(`${auditLogUrl()}/export`)
+      .set('Authorization', bearer(owner))
+      .expect('Content-Type', /application\/x-ndjson/)
+      .expect(200);
+
+    const entries: AuditLogEntry[] = res.text.trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(entries.map((entry) => entry.action)).toEqual(['organization.update', 'audit.export']);
+    expect((await verifyAuditChain(entries, { allowGaps: true })).valid).toBe(true);
+  });
+
+  it('is limited to owners and admins', async () => {
+    await context.api().get(auditLogUrl()).set('Authorization', bearer(inspector)).expect(403);
+
+    const outsider = await createTestUser(context.db);
+    await context.api().get(auditLogUrl()).set('Authorization', bearer(outsider)).expect(404);
+  });
+});
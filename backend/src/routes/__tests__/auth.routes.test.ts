@@ -0,0 +1,431 @@
+import { getMailTransport, MemoryMailTransport } from '../../services/mail.service';
+import { generateTotp } from '../../services/totp.service';
+import { TEST_PASSWORD, TestUser, bearer, createTestUser, useTestContext, waitFor } from '../../test/harness';
+
+describe('auth routes', () => {
+  const context = useTestContext();
+
+  describe('POST /api/auth/register', () => {
+    it('creates the account and profile and signs the user in', async () => {
+      const res = await context.api()
+        .post('/api/auth/register')
+        .send({ email: 'new.user@example.com', password: TEST_PASSWORD, user_type: 'gig_user', name: 'New User' })
+        .expect(201);
+
+      expect(res.body.user).toMatchObject({ email: 'new.user@example.com', user_type: 'gig_user', name: 'New User' });
+      expect(res.body.token).toEqual(expect.any(String));
+      expect(res.body.refresh_token).toEqual(expect.any(String));
+
+      const profile = await context.db.query('SELECT name FROM user_profiles WHERE user_id = $1', [res.body.user.id]);
+      expect(profile.rows[0].name).toBe('New User');
+    });
+
+    it('rejects an email that is already registered', async () => {
+      const user = await createTestUser(context.db);
+
+      const res = await context.api()
+        .post('/api/auth/register')
+        .send({ email: user.email, password: TEST_PASSWORD, user_type: 'client' })
+        .expect(409);
+
+      expect(res.body.error).toBe('User already exists');
+    });
+
+    it('reports every invalid field', async () => {
+      const res = await context.api()
+        .post('/api/auth/register')
+        .send({ email: 'not-an-email', password: 'short', user_type: 'admin' })
+        .expect(400);
+
+      expect(res.body.details.map((issue: any) => issue.path)).toEqual(
+        expect.arrayContaining(['email', 'password', 'user_type'])
+      );
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('returns tokens for valid credentials', async () => {
+      const user = await createTestUser(context.db, { name: 'Casey' });
+
+      const res = await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(200);
+
+      expect(res.body.user).toMatchObject({ id: user.id, email: user.email, name: 'Casey' });
+      expect(res.body.token).toEqual(expect.any(String));
+    });
+
+    it('rejects a wrong password', async () => {
+      const user = await createTestUser(context.db);
+
+      await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: 'Wrong-passw0rd' })
+        .expect(401);
+    });
+
+    it('rejects an unknown email the same way', async () => {
+      const res = await context.api()
+        .post('/api/auth/login')
+        .send({ email: 'nobody@example.com', password: TEST_PASSWORD })
+        .expect(401);
+
+      expect(res.body.error).toBe('Invalid credentials');
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('returns the signed-in user', async () => {
+      const user = await createTestUser(context.db, { userType: 'gig_user', name: 'Morgan' });
+
+      const res = await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', bearer(user))
+        .expect(200);
+
+      expect(res.body).toMatchObject({ id: user.id, email: user.email, user_type: 'gig_user', name: 'Morgan' });
+    });
+
+    it('accepts the token issued at registration', async () => {
+      const registered = await context.api()
+        .post('/api/auth/register')
+        .send({ email: 'fresh@example.com', password: TEST_PASSWORD, user_type: 'client' })
+        .expect(201);
+
+      await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${registered.body.token}`)
+        .expect(200);
+    });
+
+    it('requires a token', async () => {
+      await context.api().get('/api/auth/me').expect(401);
+    });
+
+    it('rejects a token whose device session was revoked', async () => {
+      const user = await createTestUser(context.db);
+
+      await context.api()
+        .post('/api/auth/logout-all')
+        .set('Authorization', bearer(user))
+        .expect(200);
+
+      await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', bearer(user))
+        .expect(401);
+    });
+  });
+
+  describe('login throttling', () => {
+    const failLogin = (email: string) => context.api()
+      .post('/api/auth/login')
+      .send({ email, password: 'Wrong-passw0rd' });
+
+    it('locks the account after repeated failures and says how long to wait', async () => {
+      const user = await createTestUser(context.db);
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin(user.email).expect(401);
+      }
+      const locked = await failLogin(user.email).expect(429);
+
+      expect(locked.body.retry_after).toBe(60);
+      expect(locked.headers['retry-after']).toBe('60');
+
+      // Even the right password is refused until the cooldown ends
+      const refused = await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(429);
+      expect(refused.body.retry_after).toBeGreaterThan(0);
+
+      const audit = await context.db.query("SELECT user_id, metadata FROM audit_log WHERE action = 'auth.lockout'");
+      expect(audit.rows).toHaveLength(1);
+      expect(audit.rows[0].user_id).toBe(user.id);
+      expect(audit.rows[0].metadata).toMatchObject({ lockout_level: 1, duration_seconds: 60 });
+    });
+
+    it('doubles the cooldown for each further lockout', async () => {
+      const user = await createTestUser(context.db);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await failLogin(user.email);
+      }
+      // Let the first cooldown run out
+      await context.rateLimitStore.reset(`login:lock:${user.email}`);
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin(user.email).expect(401);
+      }
+      const locked = await failLogin(user.email).expect(429);
+
+      expect(locked.body.retry_after).toBe(120);
+    });
+
+    it('starts counting again after a successful login', async () => {
+      const user = await createTestUser(context.db);
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin(user.email).expect(401);
+      }
+      await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(200);
+
+      await failLogin(user.email).expect(401);
+    });
+
+    it('locks unknown emails the same way', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin('nobody@example.com').expect(401);
+      }
+      await failLogin('nobody@example.com').expect(429);
+    });
+
+    it('limits registrations per IP address', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await context.api()
+          .post('/api/auth/register')
+          .send({ email: `signup${attempt}@example.com`, password: TEST_PASSWORD, user_type: 'client' })
+          .expect(201);
+      }
+
+      const limited = await context.api()
+        .post('/api/auth/register')
+        .send({ email: 'signup5@example.com', password: TEST_PASSWORD, user_type: 'client' })
+        .expect(429);
+
+      expect(limited.body.retry_after).toBeGreaterThan(0);
+    });
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    const mail = getMailTransport() as MemoryMailTransport;
+
+    // The reset is requested after the response is sent
+    const waitForMail = async () => {
+      for (let attempt = 0; attempt < 100 && mail.outbox.length === 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return mail.outbox;
+    };
+
+    beforeEach(() => {
+      mail.clear();
+    });
+
+    it('mails a reset link to the account, and answers the same for an unknown email', async () => {
+      const user = await createTestUser(context.db);
+
+      const known = await context.api()
+        .post('/api/auth/forgot-password')
+        .send({ email: user.email })
+        .expect(200);
+      const [message] = await waitForMail();
+
+      expect(message.to).toBe(user.email);
+      expect(message.text).toMatch(/reset-password\?token=[0-9a-f]{64}/);
+
+      mail.clear();
+      const unknown = await context.api()
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(unknown.body).toEqual(known.body);
+      expect(await waitForMail()).toEqual([]);
+    });
+
+    it('limits requests per IP address', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await context.api()
+          .post('/api/auth/forgot-password')
+          .send({ email: `nobody${attempt}@example.com` })
+          .expect(200);
+      }
+
+      const limited = await context.api()
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody5@example.com' })
+        .expect(429);
+
+      expect(limited.body.retry_after).toBeGreaterThan(0);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    const mail = getMailTransport() as MemoryMailTransport;
+    const NEW_PASSWORD = 'N3w-passw0rd!';
+
+    // Requests a reset and returns the token from the emailed link
+    const requestReset = async (email: string) => {
+      mail.clear();
+      await context.api().post('/api/auth/forgot-password').send({ email }).expect(200);
+      await waitFor(() => mail.outbox.length > 0);
+      const [, token] = /token=([0-9a-f]+)/.exec(mail.outbox[0].text) || [];
+      return token;
+    };
+
+    const reset = (token: string, password = NEW_PASSWORD) => context.api()
+      .post('/api/auth/reset-password')
+      .send({ token, password });
+
+    it('sets the new password and signs out every device', async () => {
+      const user = await createTestUser(context.db);
+      const token = await requestReset(user.email);
+
+      await reset(token).expect(200);
+
+      await context.api().get('/api/auth/me').set('Authorization', bearer(user)).expect(401);
+      await context.api().post('/api/auth/login').send({ email: user.email, password: TEST_PASSWORD }).expect(401);
+      await context.api().post('/api/auth/login').send({ email: user.email, password: NEW_PASSWORD }).expect(200);
+    });
+
+    it('accepts each token once, and only the latest one sent', async () => {
+      const user = await createTestUser(context.db);
+      const earlier = await requestReset(user.email);
+      const latest = await requestReset(user.email);
+
+      await reset(earlier).expect(400);
+      await reset(latest).expect(200);
+      const reused = await reset(latest, 'An0ther-passw0rd!').expect(400);
+
+      expect(reused.body).toEqual({ error: 'Invalid or expired reset token' });
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    const login = async (user: TestUser) => {
+      const res = await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(200);
+      return res.body;
+    };
+
+    const refresh = (refreshToken: string) => context.api()
+      .post('/api/auth/refresh')
+      .send({ refresh_token: refreshToken });
+
+    it('swaps a refresh token for new tokens once', async () => {
+      const user = await createTestUser(context.db);
+      const { refresh_token: first } = await login(user);
+
+      const rotated = await refresh(first).expect(200);
+      expect(rotated.body.refresh_token).not.toBe(first);
+      expect(rotated.body.expires_in).toBeGreaterThan(0);
+
+      await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${rotated.body.token}`)
+        .expect(200);
+      await refresh(rotated.body.refresh_token).expect(200);
+    });
+
+    it('ends the device session when a rotated-out token is presented again', async () => {
+      const user = await createTestUser(context.db);
+      const { refresh_token: stolen } = await login(user);
+      const rotated = await refresh(stolen).expect(200);
+
+      await refresh(stolen).expect(401);
+
+      // The legitimate holder is signed out too
+      await refresh(rotated.body.refresh_token).expect(401);
+      await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${rotated.body.token}`)
+        .expect(401);
+      // Other devices are unaffected
+      await context.api().get('/api/auth/me').set('Authorization', bearer(user)).expect(200);
+    });
+
+    it('rejects a refresh token after logout', async () => {
+      const user = await createTestUser(context.db);
+      const { refresh_token: refreshToken } = await login(user);
+
+      await context.api().post('/api/auth/logout').send({ refresh_token: refreshToken }).expect(200);
+
+      await refresh(refreshToken).expect(401);
+    });
+  });
+
+  describe('POST /api/auth/login/2fa', () => {
+    const WRONG_CODE = 'WRNG-CODE';
+    let user: TestUser;
+    let backupCodes: string[];
+
+    // Enrolls through the API and keeps the backup codes, which unlike TOTP
+    // codes can be used in any order
+    beforeEach(async () => {
+      user = await createTestUser(context.db);
+
+      const setup = await context.api().post('/api/auth/2fa/setup').set('Authorization', bearer(user)).expect(201);
+      const enabled = await context.api()
+        .post('/api/auth/2fa/enable')
+        .set('Authorization', bearer(user))
+        .send({ code: generateTotp(setup.body.secret) })
+        .expect(200);
+      backupCodes = enabled.body.backup_codes;
+    });
+
+    const startLogin = async () => {
+      const res = await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(200);
+
+      expect(res.body.two_factor_required).toBe(true);
+      return res.body.challenge_token as string;
+    };
+
+    const submitCode = (challengeToken: string, code: string) => context.api()
+      .post('/api/auth/login/2fa')
+      .send({ challenge_token: challengeToken, code });
+
+    it('signs in with a backup code', async () => {
+      const res = await submitCode(await startLogin(), backupCodes[0]).expect(200);
+
+      expect(res.body.user.id).toBe(user.id);
+      expect(res.body.two_factor_method).toBe('backup_code');
+    });
+
+    it('stops accepting a challenge after three wrong codes', async () => {
+      const challengeToken = await startLogin();
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const res = await submitCode(challengeToken, WRONG_CODE).expect(401);
+        expect(res.body.error).toBe('Invalid verification code');
+      }
+
+      const refused = await submitCode(challengeToken, backupCodes[0]).expect(401);
+      expect(refused.body.error).toBe('Invalid or expired challenge');
+
+      // The password gets a fresh challenge
+      await submitCode(await startLogin(), backupCodes[0]).expect(200);
+    });
+
+    it('locks the account after repeated wrong codes across challenges', async () => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await submitCode(await startLogin(), WRONG_CODE).expect(401);
+      }
+      const challengeToken = await startLogin();
+      await submitCode(challengeToken, WRONG_CODE).expect(401);
+      const locked = await submitCode(challengeToken, WRONG_CODE).expect(429);
+
+      expect(locked.body.retry_after).toBe(60);
+
+      // Neither the right code nor the password gets through during the cooldown
+      await submitCode(challengeToken, backupCodes[0]).expect(429);
+      await context.api()
+        .post('/api/auth/login')
+        .send({ email: user.email, password: TEST_PASSWORD })
+        .expect(429);
+
+      const audit = await context.db.query("SELECT user_id FROM audit_log WHERE action = 'auth.lockout'");
+      expect(audit.rows).toEqual([{ user_id: user.id }]);
+    });
+  });
+});
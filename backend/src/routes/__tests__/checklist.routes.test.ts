@@ -0,0 +1,113 @@
+import { TestUser, bearer, createTestSession, createTestUser, useTestContext, waitFor } from '../../test/harness';
+
+const ROOF_SURVEY = {
+  name: 'Roof survey',
+  sections: [{
+    title: 'Roof',
+    items: [
+      { id: 'tiles', label: 'Tiles intact' },
+      { id: 'gutters', label: 'Gutters clear', required: false }
+    ]
+  }]
+};
+
+describe('checklist routes', () => {
+  const context = useTestContext();
+  let client: TestUser;
+  let gigUser: TestUser;
+  let sessionId: string;
+  let templateId: string;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+    sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id });
+
+    const template = await context.api()
+      .post('/api/checklist-templates')
+      .set('Authorization', bearer(client))
+      .send(ROOF_SURVEY)
+      .expect(201);
+    templateId = template.body.id;
+  });
+
+  const as = (user: TestUser) => {
+    const url = (path = '') => `/api/sessions/${sessionId}/checklists${path}`;
+    return {
+      get: (path?: string) => context.api().get(url(path)).set('Authorization', bearer(user)),
+      post: (path?: string) => context.api().post(url(path)).set('Authorization', bearer(user)),
+      put: (path: string) => context.api().put(url(path)).set('Authorization', bearer(user))
+    };
+  };
+
+  const attach = async () => {
+    const res = await as(client).post().send({ template_id: templateId }).expect(201);
+    return res.body.id as string;
+  };
+
+  it('is attached by the client, filled in and signed off once the required items have results', async () => {
+    const attached = await as(client).post().send({ template_id: templateId }).expect(201);
+    expect(attached.body).toMatchObject({
+      session_id: sessionId,
+      template_id: templateId,
+      findings: [],
+      progress: { answered: 0, total: 2, failed: 0 }
+    });
+    const checklistId = attached.body.id;
+
+    const early = await as(gigUser).post(`/${checklistId}/complete`).expect(409);
+    expect(early.body.incomplete_items).toEqual([
+      { item_id: 'tiles', label: 'Tiles intact', reason: 'missing_result' }
+    ]);
+
+    const recorded = await as(gigUser).put(`/${checklistId}/findings/tiles`)
+      .send({ result: 'fail', notes: 'Two cracked ridge tiles' })
+      .expect(200);
+    expect(recorded.body.progress).toEqual({ answered: 1, total: 2, failed: 1 });
+
+    const completed = await as(gigUser).post(`/${checklistId}/complete`).expect(200);
+    expect(completed.body).toMatchObject({ completed_by: gigUser.id, completed_at: expect.any(String) });
+
+    await as(gigUser).put(`/${checklistId}/findings/gutters`).send({ result: 'pass' }).expect(409);
+  });
+
+  it('lists the checklists of the session', async () => {
+    const checklistId = await attach();
+
+    const res = await as(gigUser).get().expect(200);
+
+    expect(res.body.checklists).toEqual([expect.objectContaining({ id: checklistId, name: 'Roof survey' })]);
+    await waitFor(async () => {
+      const audit = await context.db.query(`SELECT user_id FROM audit_log WHERE action = 'session.access'`);
+      return audit.rows.length === 1;
+    });
+  });
+
+  it('is attached by the client only', async () => {
+    const res = await as(gigUser).post().send({ template_id: templateId }).expect(403);
+
+    expect(res.body).toEqual({ error: 'Insufficient permissions' });
+  });
+
+  it('does not attach templates from outside the session scope', async () => {
+    const other = await createTestUser(context.db);
+    const template = await context.api()
+      .post('/api/checklist-templates')
+      .set('Authorization', bearer(other))
+      .send(ROOF_SURVEY)
+      .expect(201);
+
+    await as(client).post().send({ template_id: template.body.id }).expect(404);
+  });
+
+  it('refuses users who are not participants', async () => {
+    const checklistId = await attach();
+    const outsider = await createTestUser(context.db, { userType: 'gig_user' });
+
+    const res = await as(outsider).put(`/${checklistId}/findings/tiles`).send({ result: 'pass' }).expect(403);
+
+    expect(res.body).toEqual({ error: 'Not a participant of this session' });
+    const findings = await context.db.query('SELECT id FROM checklist_findings');
+    expect(findings.rows).toEqual([]);
+  });
+});
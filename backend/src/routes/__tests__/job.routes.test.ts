@@ -0,0 +1,73 @@
+import { TestUser, bearer, createTestUser, useTestContext } from '../../test/harness';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('job routes', () => {
+  const context = useTestContext();
+  let client: TestUser;
+  let jobId: string;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+
+    const res = await context.api()
+      .post('/api/jobs')
+      .set('Authorization', bearer(client))
+      .send({
+        title: 'Roof inspection',
+        latitude: 52.37,
+        longitude: 4.89,
+        window_start: new Date(Date.now() + HOUR).toISOString(),
+        window_end: new Date(Date.now() + 3 * HOUR).toISOString(),
+        price: 120
+      })
+      .expect(201);
+    jobId = res.body.id;
+  });
+
+  const accept = (user: TestUser) => context.api()
+    .post(`/api/jobs/${jobId}/accept`)
+    .set('Authorization', bearer(user));
+
+  describe('POST /api/jobs/:jobId/accept', () => {
+    it('gives the job and a new session to the first inspector and 409 to the next', async () => {
+      const first = await createTestUser(context.db, { userType: 'gig_user' });
+      const second = await createTestUser(context.db, { userType: 'gig_user' });
+
+      const accepted = await accept(first).expect(200);
+      expect(accepted.body.job).toMatchObject({ id: jobId, status: 'assigned', assigned_to: first.id });
+
+      const session = await context.db.query('SELECT client_id, gig_user_id, status FROM sessions WHERE id = $1', [
+        accepted.body.session_id
+      ]);
+      expect(session.rows).toEqual([{ client_id: client.id, gig_user_id: first.id, status: 'waiting' }]);
+
+      const refused = await accept(second).expect(409);
+      expect(refused.body).toEqual({ error: 'Job is no longer available' });
+    });
+
+    it('lets exactly one of two simultaneous accepts through', async () => {
+      const inspectors = await Promise.all([
+        createTestUser(context.db, { userType: 'gig_user' }),
+        createTestUser(context.db, { userType: 'gig_user' })
+      ]);
+
+      const responses = await Promise.all(inspectors.map((inspector) => accept(inspector)));
+
+      expect(responses.map((res) => res.status).sort()).toEqual([200, 409]);
+      const winner = inspectors[responses.findIndex((res) => res.status === 200)];
+
+      const sessions = await context.db.query('SELECT gig_user_id FROM sessions');
+      expect(sessions.rows).toEqual([{ gig_user_id: winner.id }]);
+    });
+
+    it('refuses users who cannot accept jobs', async () => {
+      const otherClient = await createTestUser(context.db);
+
+      await accept(otherClient).expect(403);
+
+      const job = await context.db.query('SELECT status FROM inspection_jobs WHERE id = $1', [jobId]);
+      expect(job.rows).toEqual([{ status: 'open' }]);
+    });
+  });
+});
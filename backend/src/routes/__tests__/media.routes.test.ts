@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestUser, useTestContext } from '../../test/harness';
+
+describe('photo uploads', () => {
+  const context = useTestContext();
+  let owner: TestUser;
+  let organizationId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    owner = await createTestUser(context.db);
+    organizationId = (await createOrganization(context.db, 'Northwind Inspections', owner.id)).id;
+
+    const session = await context.db.query(
+      `INSERT INTO sessions (organization_id, client_id, status) VALUES ($1, $2, 'active') RETURNING id`,
+      [organizationId, owner.id]
+    );
+    sessionId = session.rows[0].id;
+  });
+
+  const upload = (body: Buffer, filename: string, contentType: string) => context.api()
+    .post(`/api/sessions/${sessionId}/media`)
+    .set('Authorization', bearer(owner))
+    .set('X-Organization-Id', organizationId)
+    .attach('file', body, { filename, contentType });
+
+  it('stores a photo with its dimensions and a thumbnail', async () => {
+    const png = await sharp({
+      create: { width: 40, height: 30, channels: 3, background: { r: 200, g: 80, b: 20 } }
+    }).png().toBuffer();
+
+    const res = await upload(png, 'crack.png', 'image/png').expect(201);
+
+    expect(res.body.metadata).toMatchObject({ width: 40, height: 30 });
+    expect(res.body.thumbnail_url).toMatch(/\.thumb\.jpg\?expires=\d+&signature=/);
+  });
+
+  it('rejects a file that is not the image it claims to be', async () => {
+    const res = await upload(Buffer.from('not really a jpeg'), 'crack.jpg', 'image/jpeg').expect(400);
+
+    expect(res.body.error).toBe('Unsupported or corrupt image');
+    const stored = await context.db.query('SELECT id FROM media WHERE session_id = $1', [sessionId]);
+    expect(stored.rows).toHaveLength(0);
+  });
+
+  it('rejects HEIC, which the image pipeline cannot decode', async () => {
+    const res = await upload(Buffer.from('heic'), 'IMG_0001.HEIC', 'image/heic').expect(400);
+
+    expect(res.body.error).toBe('Unsupported media type: image/heic');
+  });
+});
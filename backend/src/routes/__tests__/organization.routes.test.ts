@@ -0,0 +1,199 @@
+import { getMailTransport, MemoryMailTransport } from '../../services/mail.service';
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestSession, createTestUser, useTestContext } from '../../test/harness';
+
+describe('organization routes', () => {
+  const context = useTestContext();
+  const mail = getMailTransport() as MemoryMailTransport;
+  let owner: TestUser;
+  let organizationId: string;
+
+  beforeEach(async () => {
+    mail.clear();
+    owner = await createTestUser(context.db);
+    organizationId = (await createOrganization(context.db, 'Northwind <Inspections> & "Sons"', owner.id)).id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const addMember = async (role: string) => {
+    const member = await createTestUser(context.db);
+    await context.db.query(
+      'INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, $3)',
+      [organizationId, member.id, role]
+    );
+    return member;
+  };
+
+  const invite = (email: string, role = 'inspector') => context.api()
+    .post(`/api/organizations/${organizationId}/invitations`)
+    .set('Authorization', bearer(owner))
+    .send({ email, role })
+    .expect(201);
+
+  const acceptInvitation = (user: TestUser, token: string) => context.api()
+    .post('/api/organizations/invitations/accept')
+    .set('Authorization', bearer(user))
+    .send({ token });
+
+  // The token only leaves the server in the invitation email
+  const sentToken = () => {
+    const match = mail.outbox[mail.outbox.length - 1].text.match(/token=([0-9a-f]+)/);
+    if (!match) {
+      throw new Error('No invitation link in the last email');
+    }
+    return match[1];
+  };
+
+  describe('organization scope', () => {
+    it('lists the sessions of the organization named by the header', async () => {
+      const dispatcher = await addMember('dispatcher');
+      const inOrganization = await createTestSession(context.db, { clientId: owner.id, organizationId });
+      await createTestSession(context.db, { clientId: dispatcher.id });
+
+      const res = await context.api()
+        .get('/api/sessions')
+        .set('Authorization', bearer(dispatcher))
+        .set('X-Organization-Id', organizationId)
+        .expect(200);
+
+      expect(res.body.sessions.map((session: any) => session.id)).toEqual([inOrganization]);
+    });
+
+    it('treats non-members as if the organization did not exist', async () => {
+      const outsider = await createTestUser(context.db);
+
+      await context.api()
+        .get(`/api/organizations/${organizationId}`)
+        .set('Authorization', bearer(outsider))
+        .expect(404);
+      const res = await context.api()
+        .get('/api/sessions')
+        .set('Authorization', bearer(outsider))
+        .set('X-Organization-Id', organizationId)
+        .expect(404);
+      expect(res.body).toEqual({ error: 'Organization not found' });
+    });
+
+    it('keeps members without members:manage from inviting', async () => {
+      const inspector = await addMember('inspector');
+
+      await context.api()
+        .post(`/api/organizations/${organizationId}/invitations`)
+        .set('Authorization', bearer(inspector))
+        .send({ email: 'new@example.com', role: 'inspector' })
+        .expect(403);
+      expect(mail.outbox).toHaveLength(0);
+    });
+  });
+
+  describe('POST /api/organizations/invitations/accept', () => {
+    it('makes the invited user a member with the invited role, once', async () => {
+      const invitee = await createTestUser(context.db);
+      await invite(invitee.email, 'dispatcher');
+      const token = sentToken();
+
+      const res = await acceptInvitation(invitee, token).expect(200);
+      expect(res.body).toMatchObject({ id: organizationId, role: 'dispatcher' });
+
+      const members = await context.api()
+        .get(`/api/organizations/${organizationId}/members`)
+        .set('Authorization', bearer(invitee))
+        .expect(200);
+      expect(members.body.members).toContainEqual(
+        expect.objectContaining({ user_id: invitee.id, role: 'dispatcher' })
+      );
+
+      await acceptInvitation(invitee, token).expect(400);
+    });
+
+    it('refuses an invitation sent to someone else', async () => {
+      const other = await createTestUser(context.db);
+      await invite('someone.else@example.com');
+
+      const res = await acceptInvitation(other, sentToken()).expect(403);
+
+      expect(res.body).toEqual({ error: 'This invitation was sent to a different email address' });
+    });
+  });
+
+  describe('last owner', () => {
+    it('cannot be demoted or leave', async () => {
+      const member = (path: string) => `/api/organizations/${organizationId}/members/${path}`;
+
+      const demoted = await context.api()
+        .patch(member(owner.id))
+        .set('Authorization', bearer(owner))
+        .send({ role: 'admin' })
+        .expect(409);
+      expect(demoted.body).toEqual({ error: 'An organization must keep at least one owner' });
+      await context.api().delete(member(owner.id)).set('Authorization', bearer(owner)).expect(409);
+
+      // With a second owner either may go
+      const secondOwner = await addMember('owner');
+      await context.api().delete(member(owner.id)).set('Authorization', bearer(owner)).expect(204);
+      await context.api().delete(member(secondOwner.id)).set('Authorization', bearer(secondOwner)).expect(409);
+    });
+  });
+
+  describe('POST /api/organizations/:orgId/invitations', () => {
+    it('escapes the organization name in the HTML of the email', async () => {
+      await context.api()
+        .post(`/api/organizations/${organizationId}/invitations`)
+        .set('Authorization', bearer(owner))
+        .send({ email: 'new@example.com', role: 'inspector' })
+        .expect(201);
+
+      const [message] = mail.outbox;
+      expect(message.to).toBe('new@example.com');
+      expect(message.html).toContain('<strong>Northwind &lt;Inspections&gt; &amp; &quot;Sons&quot;</strong> as inspector');
+      expect(message.text).toContain('Northwind <Inspections> & "Sons"');
+    });
+  });
+
+  describe('DELETE /api/organizations/:orgId', () => {
+    it('deletes the stored media and report files of its sessions', async () => {
+      const session = await context.db.query(
+        `INSERT INTO sessions (organization_id, client_id, status) VALUES ($1, $2, 'completed') RETURNING id`,
+        [organizationId, owner.id]
+      );
+      const sessionId = session.rows[0].id;
+      await context.db.query(
+        `INSERT INTO media (session_id, type, storage_key, thumbnail_key)
+         VALUES ($1, 'photo', 'sessions/a/photo.jpg', 'sessions/a/photo.thumb.jpg')`,
+        [sessionId]
+      );
+      await context.db.query(
+        `INSERT INTO session_reports (session_id, status, storage_key) VALUES ($1, 'ready', 'sessions/a/report.pdf')`,
+        [sessionId]
+      );
+
+      // A session outside the organization keeps its files
+      const personal = await context.db.query(
+        `INSERT INTO sessions (client_id, status) VALUES ($1, 'completed') RETURNING id`,
+        [owner.id]
+      );
+      await context.db.query(
+        `INSERT INTO media (session_id, type, storage_key) VALUES ($1, 'photo', 'sessions/b/photo.jpg')`,
+        [personal.rows[0].id]
+      );
+
+      const deleted = jest.spyOn(context.container.storage, 'delete').mockResolvedValue();
+
+      await context.api()
+        .delete(`/api/organizations/${organizationId}`)
+        .set('Authorization', bearer(owner))
+        .expect(204);
+
+      expect(deleted.mock.calls.map(([key]) => key).sort()).toEqual([
+        'sessions/a/photo.jpg',
+        'sessions/a/photo.thumb.jpg',
+        'sessions/a/report.pdf'
+      ]);
+      const sessions = await context.db.query('SELECT id FROM sessions');
+      expect(sessions.rows).toEqual([{ id: personal.rows[0].id }]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { bearer, createTestUser, useTestContext } from '../../test/harness';
+
+describe('profile routes', () => {
+  const context = useTestContext();
+
+  it('requires authentication', async () => {
+    await context.api().get('/api/profile').expect(401);
+    await context.api().put('/api/profile').send({ name: 'Nobody' }).expect(401);
+  });
+
+  describe('PUT /api/profile', () => {
+    it('updates the given fields and normalizes skills', async () => {
+      const user = await createTestUser(context.db, { userType: 'gig_user', name: 'Before' });
+
+      const res = await context.api()
+        .put('/api/profile')
+        .set('Authorization', bearer(user))
+        .send({ name: 'After', bio: 'Licensed roofer', skills: ['Roofing', 'HVAC'] })
+        .expect(200);
+
+      expect(res.body.profile).toMatchObject({ name: 'After', bio: 'Licensed roofer', skills: ['roofing', 'hvac'] });
+
+      const profile = await context.api()
+        .get('/api/profile')
+        .set('Authorization', bearer(user))
+        .expect(200);
+
+      expect(profile.body.profile).toMatchObject({ name: 'After', bio: 'Licensed roofer' });
+    });
+
+    it('creates the profile when the account has none', async () => {
+      const user = await createTestUser(context.db);
+      await context.db.query('DELETE FROM user_profiles WHERE user_id = $1', [user.id]);
+
+      const res = await context.api()
+        .put('/api/profile')
+        .set('Authorization', bearer(user))
+        .send({ phone: '+1 206 555 0100' })
+        .expect(200);
+
+      expect(res.body.profile.phone).toBe('+1 206 555 0100');
+    });
+
+    it('rejects an empty update', async () => {
+      const user = await createTestUser(context.db);
+
+      const res = await context.api()
+        .put('/api/profile')
+        .set('Authorization', bearer(user))
+        .send({})
+        .expect(400);
+
+      expect(res.body.error).toBe('No fields to update');
+    });
+  });
+
+  describe('POST /api/profile/avatar', () => {
+    it('stores the file and records its URL on the profile', async () => {
+      const user = await createTestUser(context.db);
+
+      const res = await context.api()
+        .post('/api/profile/avatar')
+        .set('Authorization', bearer(user))
+        .attach('avatar', Buffer.from('fake image bytes'), { filename: 'me.png', contentType: 'image/png' })
+        .expect(200);
+
+      expect(res.body.avatar_url).toMatch(/^\/uploads\/avatar-.+\.png$/);
+
+      const stored = path.join(process.env.AVATAR_UPLOAD_DIR as string, path.basename(res.body.avatar_url));
+      expect(fs.readFileSync(stored, 'utf8')).toBe('fake image bytes');
+
+      const profile = await context.api()
+        .get('/api/profile')
+        .set('Authorization', bearer(user))
+        .expect(200);
+
+      expect(profile.body.profile.avatar_url).toBe(res.body.avatar_url);
+    });
+
+    it('rejects a request without a file', async () => {
+      const user = await createTestUser(context.db);
+
+      await context.api()
+        .post('/api/profile/avatar')
+        .set('Authorization', bearer(user))
+        .expect(400);
+    });
+  });
+});
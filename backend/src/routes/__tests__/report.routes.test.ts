@@ -0,0 +1,98 @@
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestSession, createTestUser, useTestContext, waitFor } from '../../test/harness';
+
+describe('report routes', () => {
+  const context = useTestContext();
+  let client: TestUser;
+  let gigUser: TestUser;
+  let putBuffer: jest.SpyInstance;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+    // Reports are rendered but not written anywhere
+    putBuffer = jest.spyOn(context.container.storage, 'putBuffer').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const reports = (sessionId: string, user: TestUser) => {
+    const url = `/api/sessions/${sessionId}/reports`;
+    return {
+      list: () => context.api().get(url).set('Authorization', bearer(user)),
+      regenerate: () => context.api().post(url).set('Authorization', bearer(user))
+    };
+  };
+
+  it('regenerates the report of a completed session and lists it', async () => {
+    const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id, status: 'completed' });
+
+    const generated = await reports(sessionId, gigUser).regenerate().expect(201);
+    expect(generated.body).toMatchObject({
+      session_id: sessionId,
+      status: 'ready',
+      mime_type: 'application/pdf',
+      generated_by: gigUser.id
+    });
+    expect(putBuffer).toHaveBeenCalledWith(
+      `sessions/${sessionId}/reports/${generated.body.id}.pdf`,
+      expect.any(Buffer),
+      'application/pdf'
+    );
+
+    const listed = await reports(sessionId, client).list().expect(200);
+    expect(listed.body.reports).toEqual([expect.objectContaining({ id: generated.body.id, url: expect.any(String) })]);
+    await waitFor(async () => {
+      const audit = await context.db.query(`SELECT user_id FROM audit_log WHERE action = 'session.access'`);
+      return audit.rows.length === 1;
+    });
+  });
+
+  it('only regenerates reports of completed sessions', async () => {
+    const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id });
+
+    const res = await reports(sessionId, client).regenerate().expect(409);
+
+    expect(res.body).toEqual({ error: 'Reports are only available for completed sessions' });
+    expect(putBuffer).not.toHaveBeenCalled();
+  });
+
+  it('refuses users who are not participants', async () => {
+    const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id, status: 'completed' });
+    const outsider = await createTestUser(context.db);
+
+    await reports(sessionId, outsider).list().expect(403);
+    await reports(sessionId, outsider).regenerate().expect(403);
+    expect(putBuffer).not.toHaveBeenCalled();
+  });
+
+  it('lets organization viewers read reports but not regenerate them', async () => {
+    const organizationId = (await createOrganization(context.db, 'Northwind Inspections', client.id)).id;
+    const viewer = await createTestUser(context.db);
+    await context.db.query(
+      `INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, 'viewer')`,
+      [organizationId, viewer.id]
+    );
+    const sessionId = await createTestSession(context.db, {
+      clientId: client.id,
+      gigUserId: gigUser.id,
+      organizationId,
+      status: 'completed'
+    });
+
+    const regenerate = await reports(sessionId, viewer).regenerate()
+      .set('X-Organization-Id', organizationId)
+      .expect(403);
+    expect(regenerate.body).toEqual({ error: 'Insufficient permissions' });
+
+    await reports(sessionId, viewer).list()
+      .set('X-Organization-Id', organizationId)
+      .expect(200);
+    await waitFor(async () => {
+      const audit = await context.db.query(`SELECT user_id FROM audit_log WHERE action = 'session.access'`);
+      return audit.rows.length === 1;
+    });
+  });
+});
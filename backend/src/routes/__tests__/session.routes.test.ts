@@ -0,0 +1,100 @@
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestSession, createTestUser, useTestContext, waitFor } from '../../test/harness';
+
+describe('session routes', () => {
+  const context = useTestContext();
+  let client: TestUser;
+  let gigUser: TestUser;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+    // The completion report is rendered but not written anywhere
+    jest.spyOn(context.container.storage, 'putBuffer').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = (user: TestUser, path: string) => context.api()
+    .post(`/api/sessions${path}`)
+    .set('Authorization', bearer(user));
+
+  describe('status transitions', () => {
+    it('takes a requested session through accept, start and complete', async () => {
+      const created = await post(client, '').send({ metadata: { address: '1 Canal St' } }).expect(201);
+      const sessionId = created.body.id;
+      expect(created.body).toMatchObject({ client_id: client.id, gig_user_id: null, status: 'waiting' });
+
+      const accepted = await post(gigUser, `/${sessionId}/accept`).expect(200);
+      expect(accepted.body).toMatchObject({ gig_user_id: gigUser.id, status: 'waiting' });
+
+      const started = await post(gigUser, `/${sessionId}/start`).expect(200);
+      expect(started.body.status).toBe('active');
+      expect(started.body.started_at).not.toBeNull();
+
+      const completed = await post(client, `/${sessionId}/complete`).expect(200);
+      expect(completed.body.status).toBe('completed');
+      expect(completed.body.ended_at).not.toBeNull();
+
+      // Completing renders the report in the background
+      await waitFor(async () => {
+        const reports = await context.db.query('SELECT status FROM session_reports WHERE session_id = $1', [sessionId]);
+        return reports.rows[0]?.status === 'ready';
+      });
+    });
+
+    it('refuses a transition the current status does not allow', async () => {
+      const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id, status: 'waiting' });
+
+      const res = await post(client, `/${sessionId}/complete`).expect(409);
+
+      expect(res.body).toEqual({ error: "Cannot move session from 'waiting' to 'completed'" });
+    });
+
+    it('lets a cancelled session go no further', async () => {
+      const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id });
+
+      await post(gigUser, `/${sessionId}/cancel`).expect(200);
+      await post(client, `/${sessionId}/complete`).expect(409);
+    });
+
+    it('refuses users who are not participants', async () => {
+      const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id });
+      const outsider = await createTestUser(context.db);
+
+      const res = await post(outsider, `/${sessionId}/cancel`).expect(403);
+
+      expect(res.body).toEqual({ error: 'Not a participant of this session' });
+      const session = await context.db.query('SELECT status FROM sessions WHERE id = $1', [sessionId]);
+      expect(session.rows).toEqual([{ status: 'active' }]);
+    });
+
+    it('refuses accepting a session someone else already accepted', async () => {
+      const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id, status: 'waiting' });
+      const otherGigUser = await createTestUser(context.db, { userType: 'gig_user' });
+
+      await post(otherGigUser, `/${sessionId}/accept`).expect(409);
+      // Clients cannot accept at all
+      await post(client, `/${sessionId}/accept`).expect(403);
+    });
+
+    it('lets a dispatcher move the sessions of their organization along', async () => {
+      const organizationId = (await createOrganization(context.db, 'Northwind Inspections', client.id)).id;
+      const dispatcher = await createTestUser(context.db);
+      await context.db.query(
+        `INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, 'dispatcher')`,
+        [organizationId, dispatcher.id]
+      );
+      const sessionId = await createTestSession(context.db, { clientId: client.id, gigUserId: gigUser.id, organizationId });
+
+      await post(dispatcher, `/${sessionId}/cancel`).expect(404);
+
+      const res = await post(dispatcher, `/${sessionId}/cancel`)
+        .set('X-Organization-Id', organizationId)
+        .expect(200);
+      expect(res.body.status).toBe('cancelled');
+    });
+  });
+});
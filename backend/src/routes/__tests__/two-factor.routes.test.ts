@@ -0,0 +1,101 @@
+import { generateTotp } from '../../services/totp.service';
+import { TEST_PASSWORD, TestUser, bearer, createTestUser, useTestContext } from '../../test/harness';
+
+// A code from the next time step; the one enrollment used can't be used again
+const NEXT_STEP = 30 * 1000;
+
+describe('two-factor routes', () => {
+  const context = useTestContext();
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await createTestUser(context.db);
+  });
+
+  const post = (path: string, body: object = {}) => context.api()
+    .post(`/api/auth/2fa${path}`)
+    .set('Authorization', bearer(user))
+    .send(body);
+
+  const status = async () => {
+    const res = await context.api().get('/api/auth/2fa').set('Authorization', bearer(user)).expect(200);
+    return res.body;
+  };
+
+  const login = () => context.api()
+    .post('/api/auth/login')
+    .send({ email: user.email, password: TEST_PASSWORD })
+    .expect(200);
+
+  // Enrolls and returns the secret
+  const enroll = async () => {
+    const setup = await post('/setup').expect(201);
+    await post('/enable', { code: generateTotp(setup.body.secret) }).expect(200);
+    return setup.body.secret as string;
+  };
+
+  describe('enrollment', () => {
+    it('turns on once the first code from the authenticator is confirmed', async () => {
+      const setup = await post('/setup').expect(201);
+      expect(setup.body.otpauth_url).toContain(`secret=${setup.body.secret}`);
+      expect(await status()).toMatchObject({ enabled: false, pending: true });
+
+      const wrong = await post('/enable', { code: '000000' }).expect(400);
+      expect(wrong.body).toEqual({ error: 'Invalid verification code' });
+
+      const enabled = await post('/enable', { code: generateTotp(setup.body.secret) }).expect(200);
+      expect(enabled.body.enabled).toBe(true);
+      expect(enabled.body.backup_codes).toHaveLength(10);
+      expect(await status()).toMatchObject({ enabled: true, pending: false, backup_codes_remaining: 10 });
+
+      await post('/setup').expect(409);
+    });
+
+    it('can only be turned off with a valid code', async () => {
+      const secret = await enroll();
+
+      await post('/disable', { code: '000000' }).expect(400);
+      await post('/disable', { code: generateTotp(secret, Date.now() + NEXT_STEP) }).expect(200);
+
+      expect(await status()).toMatchObject({ enabled: false, pending: false });
+      const res = await login();
+      expect(res.body.token).toBeDefined();
+    });
+
+    it('requires a signed-in user', async () => {
+      await context.api().post('/api/auth/2fa/setup').expect(401);
+      await context.api().get('/api/auth/2fa').expect(401);
+    });
+  });
+
+  describe('login challenge', () => {
+    const submitCode = (challengeToken: string, code: string) => context.api()
+      .post('/api/auth/login/2fa')
+      .send({ challenge_token: challengeToken, code });
+
+    it('asks for a code after the password and signs in with it', async () => {
+      const secret = await enroll();
+
+      const challenge = await login();
+      expect(challenge.body).toEqual({ two_factor_required: true, challenge_token: expect.any(String) });
+
+      const code = generateTotp(secret, Date.now() + NEXT_STEP);
+      const res = await submitCode(challenge.body.challenge_token, code).expect(200);
+      expect(res.body).toMatchObject({ user: { id: user.id }, two_factor_method: 'totp' });
+
+      // The same code can't be replayed
+      const replayed = await submitCode((await login()).body.challenge_token, code).expect(401);
+      expect(replayed.body).toEqual({ error: 'Invalid verification code' });
+    });
+
+    it('refuses a challenge token as an access token', async () => {
+      await enroll();
+      const challenge = await login();
+
+      await context.api()
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${challenge.body.challenge_token}`)
+        .expect(401);
+    });
+  });
+});
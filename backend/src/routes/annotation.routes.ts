@@ -0,0 +1,162 @@
+import express, { Router } from 'express';
+import {
+  annotationHistorySchema,
+  annotationIdSchema,
+  createAnnotationSchema,
+  listAnnotationsSchema,
+  updateAnnotationSchema
+} from 'ar-inspection-platform-shared';
+import {
+  listAnnotations,
+  listSessionRevisions,
+  listAnnotationRevisions,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation
+} from '../services/annotation.service';
+import { broadcastToSession } from '../sockets/collaboration.socket';
+import { validate } from '../middleware/validation.middleware';
+import { Container } from '../container';
+
+const isSessionClosed = (req: any) => {
+  return ['completed', 'cancelled'].includes(req.inspectionSession.status);
+};
+
+// Mounted under /api/sessions/:id/annotations behind sessionParticipantMiddleware
+export const createAnnotationRoutes = (container: Container) => {
+  const router = Router({ mergeParams: true });
+
+  // List annotations for a session
+  router.get('/', validate(listAnnotationsSchema), async (req: any, res: express.Response) => {
+    try {
+      const includeDeleted = req.query.include_deleted === 'true';
+      const annotations = await listAnnotations(container.db, req.params.id, includeDeleted);
+
+      res.json({ annotations });
+
+    } catch (error: any) {
+      console.error('List annotations error:', error);
+      res.status(500).json({ error: 'Failed to list annotations' });
+    }
+  });
+
+  // Full revision history for a session, in the order edits happened
+  router.get('/history', validate(annotationHistorySchema), async (req: any, res: express.Response) => {
+    try {
+      const since = req.query.since !== undefined ? new Date(req.query.since) : undefined;
+      const revisions = await listSessionRevisions(container.db, req.params.id, since);
+
+      res.json({ revisions });
+
+    } catch (error: any) {
+      console.error('Annotation history error:', error);
+      res.status(500).json({ error: 'Failed to get annotation history' });
+    }
+  });
+
+  // Create annotation
+  router.post('/', validate(createAnnotationSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const annotation = await createAnnotation(
+        container.db, req.params.id, req.user.userId, req.body
+      );
+
+      broadcastToSession(container.io, req.params.id, 'annotation:created', {
+        sessionId: req.params.id,
+        annotation
+      });
+
+      res.status(201).json(annotation);
+
+    } catch (error: any) {
+      console.error('Create annotation error:', error);
+      res.status(500).json({ error: 'Failed to create annotation' });
+    }
+  });
+
+  // Update annotation
+  router.put('/:annotationId', validate(updateAnnotationSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const result = await updateAnnotation(
+        container.db, req.params.id, req.params.annotationId, req.user.userId, req.body
+      );
+
+      if (result.status === 'not_found') {
+        return res.status(404).json({ error: 'Annotation not found' });
+      }
+      if (result.status === 'invalid') {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const { annotation } = result;
+
+      broadcastToSession(container.io, req.params.id, 'annotation:updated', {
+        sessionId: req.params.id,
+        annotation
+      });
+
+      res.json(annotation);
+
+    } catch (error: any) {
+      console.error('Update annotation error:', error);
+      res.status(500).json({ error: 'Failed to update annotation' });
+    }
+  });
+
+  // Soft-delete annotation
+  router.delete('/:annotationId', validate(annotationIdSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const annotation = await deleteAnnotation(
+        container.db, req.params.id, req.params.annotationId, req.user.userId
+      );
+
+      if (!annotation) {
+        return res.status(404).json({ error: 'Annotation not found' });
+      }
+
+      broadcastToSession(container.io, req.params.id, 'annotation:deleted', {
+        sessionId: req.params.id,
+        annotation
+      });
+
+      res.json({ message: 'Annotation deleted', id: annotation.id, version: annotation.version });
+
+    } catch (error: any) {
+      console.error('Delete annotation error:', error);
+      res.status(500).json({ error: 'Failed to delete annotation' });
+    }
+  });
+
+  // Revision history for a single annotation
+  router.get('/:annotationId/revisions', validate(annotationIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const revisions = await listAnnotationRevisions(
+        container.db, req.params.id, req.params.annotationId
+      );
+
+      if (revisions.length === 0) {
+        return res.status(404).json({ error: 'Annotation not found' });
+      }
+
+      res.json({ revisions });
+
+    } catch (error: any) {
+      console.error('Annotation revisions error:', error);
+      res.status(500).json({ error: 'Failed to get annotation revisions' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,74 @@
+import express, { Router } from 'express';
+import { exportAuditLogSchema, listAuditLogSchema } from 'ar-inspection-platform-shared';
+import { requirePermission } from '../middleware/auth.middleware';
+import { auditContext } from '../middleware/audit.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+  AuditLogFilters,
+  iterateAuditEvents,
+  listAuditEvents,
+  recordAuditEvent
+} from '../services/audit.service';
+import { Container } from '../container';
+
+// Mounted under /api/organizations/:orgId/audit-log behind organizationMemberMiddleware
+export const createAuditLogRoutes = (container: Container) => {
+  const router = Router({ mergeParams: true });
+
+  router.use(requirePermission('audit:view'));
+
+  const readFilters = (req: any): AuditLogFilters => ({
+    organizationId: req.organization.id,
+    action: req.query.action,
+    userId: req.query.user_id,
+    from: req.query.from,
+    to: req.query.to
+  });
+
+  // Audit entries for the organization, newest first
+  router.get('/', validate(listAuditLogSchema), async (req: any, res: express.Response) => {
+    try {
+      const { limit = 50, offset = 0 } = req.query;
+      const entries = await listAuditEvents(container.db, readFilters(req), limit, offset);
+
+      res.json({ entries, limit, offset });
+
+    } catch (error: any) {
+      console.error('List audit log error:', error);
+      res.status(500).json({ error: 'Failed to list audit log' });
+    }
+  });
+
+  // Every matching entry in chain order as newline-delimited JSON, which
+  // `npm run audit:verify -- --file=<export>` checks offline
+  router.get('/export', validate(exportAuditLogSchema), async (req: any, res: express.Response) => {
+    try {
+      const filters = readFilters(req);
+
+      // Recorded first, so the export appears as the last entry of its own file
+      await recordAuditEvent(container.db, {
+        ...auditContext(req),
+        action: 'audit.export',
+        metadata: { filters: req.query }
+      });
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.attachment(`audit-log-${req.organization.id}-${date}.ndjson`);
+      res.type('application/x-ndjson');
+
+      for await (const entry of iterateAuditEvents(container.db, filters)) {
+        res.write(`${JSON.stringify(entry)}\n`);
+      }
+      res.end();
+
+    } catch (error: any) {
+      console.error('Export audit log error:', error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ error: 'Failed to export audit log' });
+    }
+  });
+
+  return router;
+};
@@ -1,178 +1,435 @@
 import express, { Router } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
-import { Pool } from 'pg';
-
-interface RegisterRequest {
-  email: string;
-  password: string;
-  user_type: 'client' | 'gig_user';
-  name?: string;
-}
-
-interface LoginRequest {
-  email: string;
-  password: string;
-}
-
-const router = Router();
-const JWT_SECRET = process.env.JWT_SECRET || 'dev_jwt_secret';
-const JWT_EXPIRY = process.env.JWT_EXPIRY || '7d';
-
-// Generate JWT token
-const generateToken = (userId: string, email: string, userType: string) => {
-  return jwt.sign(
-    { userId, email, userType },
-    JWT_SECRET,
-    { expiresIn: JWT_EXPIRY }
-  );
-};
+import {
+  LoginRequest,
+  RegisterRequest,
+  forgotPasswordSchema,
+  loginSchema,
+  loginTwoFactorSchema,
+  refreshTokenSchema,
+  registerSchema,
+  resetPasswordSchema
+} from 'ar-inspection-platform-shared';
+import { requestPasswordReset, resetPassword } from '../services/password-reset.service';
+import { revokeRefreshToken, revokeAllSessions } from '../services/token.service';
+import { isTwoFactorEnabled, verifySecondFactor } from '../services/two-factor.service';
+import {
+  LoginFailure,
+  clearLoginFailures,
+  getLockoutRemaining,
+  isChallengeExhausted,
+  recordChallengeFailure,
+  recordLoginFailure
+} from '../services/login-lockout.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { Container } from '../container';
+import { requireAuth } from '../middleware/auth.middleware';
+import { auditContext } from '../middleware/audit.middleware';
+import { rateLimitByIp, sendTooManyRequests } from '../middleware/rate-limit.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { disconnectAuthSessions } from '../sockets/socket.auth';
+
+const clientInfo = (req: express.Request) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+export const createAuthRoutes = (container: Container) => {
+  const router = Router();
+
+  // Audits the lockout a failed password or code just triggered and tells the
+  // client how long to wait
+  const sendLockedOut = async (
+    req: express.Request,
+    res: express.Response,
+    email: string,
+    userId: string | undefined,
+    failure: LoginFailure,
+    retryAfterMs: number
+  ) => {
+    await recordAuditEvent(container.db, {
+      ...auditContext(req),
+      action: 'auth.lockout',
+      userId,
+      metadata: {
+        email,
+        failures: failure.failures,
+        lockout_level: failure.lockoutLevel,
+        duration_seconds: Math.ceil(retryAfterMs / 1000)
+      }
+    });
+    return sendTooManyRequests(res, retryAfterMs, 'Too many failed login attempts');
+  };
+
+  // Register new user
+  router.post(
+    '/register',
+    rateLimitByIp(container, 'register', (throttle) => throttle.registerIpLimit),
+    validate(registerSchema),
+    async (req: express.Request, res: express.Response) => {
+      try {
+        const { email, password, user_type, name }: RegisterRequest = req.body;
+
+        // Check if user already exists
+        const existingUser = await container.db.query(
+          'SELECT id FROM users WHERE email = $1',
+          [email]
+        );
+
+        if (existingUser.rows.length > 0) {
+          return res.status(409).json({ error: 'User already exists' });
+        }
 
-// Register new user
-router.post('/register', async (req: express.Request, res: express.Response) => {
-  try {
-    const { email, password, user_type, name }: RegisterRequest = req.body;
+        // Hash password
+        const saltRounds = 10;
+        const passwordHash = await bcrypt.hash(password, saltRounds);
 
-    if (!email || !password || !user_type) {
-      return res.status(400).json({ error: 'Missing required fields' });
+        // Insert user
+        const result = await container.db.query(
+          `INSERT INTO users (email, password_hash, user_type) 
+           VALUES ($1, $2, $3) 
+           RETURNING id, email, user_type, created_at`,
+          [email, passwordHash, user_type]
+        );
+
+        const user = result.rows[0];
+
+        // Create profile if name provided
+        if (name) {
+          await container.db.query(
+            `INSERT INTO user_profiles (user_id, name) VALUES ($1, $2)`,
+            [user.id, name]
+          );
+        }
+
+        const tokens = await container.tokens.issueTokens(container.db, user, clientInfo(req));
+        await recordAuditEvent(container.db, {
+          ...auditContext(req),
+          action: 'auth.register',
+          userId: user.id
+        });
+
+        res.status(201).json({
+          user: {
+            id: user.id,
+            email: user.email,
+            user_type: user.user_type,
+            name
+          },
+          ...tokens
+        });
+
+      } catch (error: any) {
+        console.error('Registration error:', error);
+        res.status(500).json({ error: 'Registration failed' });
+      }
     }
+  );
+
+  // Login user
+  router.post(
+    '/login',
+    rateLimitByIp(container, 'login', (throttle) => throttle.loginIpLimit),
+    validate(loginSchema),
+    async (req: express.Request, res: express.Response) => {
+      try {
+        const { email, password }: LoginRequest = req.body;
+        const { config, rateLimitStore } = container;
+
+        // Refused before the password is checked, so guesses during the cooldown learn nothing
+        const lockedForMs = await getLockoutRemaining(rateLimitStore, email);
+        if (lockedForMs) {
+          await recordAuditEvent(container.db, {
+            ...auditContext(req),
+            action: 'auth.login_failed',
+            metadata: { email, reason: 'locked_out' }
+          });
+          return sendTooManyRequests(res, lockedForMs, 'Too many failed login attempts');
+        }
 
-    if (!['client', 'gig_user'].includes(user_type)) {
-      return res.status(400).json({ error: 'Invalid user type' });
+        // Find user
+        const result = await container.db.query(
+          `SELECT u.id, u.email, u.password_hash, u.user_type, up.name
+           FROM users u
+           LEFT JOIN user_profiles up ON u.id = up.user_id
+           WHERE u.email = $1 AND u.is_active = TRUE`,
+          [email]
+        );
+
+        const user = result.rows[0];
+
+        // Verify password
+        const isValidPassword = user ? await bcrypt.compare(password, user.password_hash) : false;
+        if (!isValidPassword) {
+          // Unknown emails count too, so a lockout doesn't reveal whether an account exists
+          const failure = await recordLoginFailure(rateLimitStore, config.authThrottle, email);
+          await recordAuditEvent(container.db, {
+            ...auditContext(req),
+            action: 'auth.login_failed',
+            userId: user?.id,
+            metadata: { email, reason: 'invalid_credentials', failures: failure.failures }
+          });
+
+          if (failure.retryAfterMs) {
+            return sendLockedOut(req, res, email, user?.id, failure, failure.retryAfterMs);
+          }
+
+          return res.status(401).json({ error: 'Invalid credentials' });
+        }
+
+        // Password alone isn't enough; the client exchanges this for tokens at
+        // /login/2fa. Failures are only cleared once that succeeds, so fetching
+        // fresh challenges doesn't reset the count of wrong codes.
+        if (await isTwoFactorEnabled(container.db, user.id)) {
+          return res.json({
+            two_factor_required: true,
+            challenge_token: container.tokens.createChallengeToken(user.id)
+          });
+        }
+
+        await clearLoginFailures(rateLimitStore, email);
+
+        const tokens = await container.tokens.issueTokens(container.db, user, clientInfo(req));
+        await recordAuditEvent(container.db, {
+          ...auditContext(req),
+          action: 'auth.login',
+          userId: user.id,
+          metadata: { method: 'password' }
+        });
+
+        res.json({
+          user: {
+            id: user.id,
+            email: user.email,
+            user_type: user.user_type,
+            name: user.name
+          },
+          ...tokens
+        });
+
+      } catch (error: any) {
+        console.error('Login error:', error);
+        res.status(500).json({ error: 'Login failed' });
+      }
     }
+  );
+
+  // Complete a login that returned two_factor_required, using a TOTP or backup code
+  router.post(
+    '/login/2fa',
+    rateLimitByIp(container, 'login', (throttle) => throttle.loginIpLimit),
+    validate(loginTwoFactorSchema),
+    async (req: express.Request, res: express.Response) => {
+      try {
+        const { challenge_token, code } = req.body;
+        const { config, rateLimitStore } = container;
+
+        const challenge = container.tokens.verifyChallengeToken(challenge_token);
+        if (!challenge || await isChallengeExhausted(rateLimitStore, config.authThrottle, challenge.challengeId)) {
+          return res.status(401).json({ error: 'Invalid or expired challenge' });
+        }
+
+        const result = await container.db.query(
+          `SELECT u.id, u.email, u.user_type, up.name
+           FROM users u
+           LEFT JOIN user_profiles up ON u.id = up.user_id
+           WHERE u.id = $1 AND u.is_active = TRUE`,
+          [challenge.userId]
+        );
+
+        if (result.rows.length === 0) {
+          return res.status(401).json({ error: 'Invalid or expired challenge' });
+        }
+
+        const user = result.rows[0];
+
+        // Wrong codes count towards the same lockout as wrong passwords
+        const lockedForMs = await getLockoutRemaining(rateLimitStore, user.email);
+        if (lockedForMs) {
+          await recordAuditEvent(container.db, {
+            ...auditContext(req),
+            action: 'auth.login_failed',
+            userId: user.id,
+            metadata: { reason: 'locked_out' }
+          });
+          return sendTooManyRequests(res, lockedForMs, 'Too many failed login attempts');
+        }
+
+        const method = await verifySecondFactor(container.db, user.id, code);
+        if (!method) {
+          await recordChallengeFailure(rateLimitStore, challenge.challengeId);
+          const failure = await recordLoginFailure(rateLimitStore, config.authThrottle, user.email);
+          await recordAuditEvent(container.db, {
+            ...auditContext(req),
+            action: 'auth.login_failed',
+            userId: user.id,
+            metadata: { reason: 'invalid_second_factor', failures: failure.failures }
+          });
 
-    // Check if user already exists
-    const existingUser = await req.app.locals.db.query(
-      'SELECT id FROM users WHERE email = $1',
-      [email]
-    );
+          if (failure.retryAfterMs) {
+            return sendLockedOut(req, res, user.email, user.id, failure, failure.retryAfterMs);
+          }
 
-    if (existingUser.rows.length > 0) {
-      return res.status(409).json({ error: 'User already exists' });
+          return res.status(401).json({ error: 'Invalid verification code' });
+        }
+
+        await clearLoginFailures(rateLimitStore, user.email);
+        const tokens = await container.tokens.issueTokens(container.db, user, clientInfo(req));
+        await recordAuditEvent(container.db, {
+          ...auditContext(req),
+          action: 'auth.login',
+          userId: user.id,
+          metadata: { method }
+        });
+
+        res.json({
+          user: {
+            id: user.id,
+            email: user.email,
+            user_type: user.user_type,
+            name: user.name
+          },
+          ...tokens,
+          two_factor_method: method
+        });
+
+      } catch (error: any) {
+        console.error('Two-factor login error:', error);
+        res.status(500).json({ error: 'Login failed' });
+      }
     }
+  );
 
-    // Hash password
-    const saltRounds = 10;
-    const passwordHash = await bcrypt.hash(password, saltRounds);
-
-    // Insert user
-    const result = await req.app.locals.db.query(
-      `INSERT INTO users (email, password_hash, user_type) 
-       VALUES ($1, $2, $3) 
-       RETURNING id, email, user_type, created_at`,
-      [email, passwordHash, user_type]
-    );
-
-    const user = result.rows[0];
-
-    // Create profile if name provided
-    if (name) {
-      await req.app.locals.db.query(
-        `INSERT INTO user_profiles (user_id, name) VALUES ($1, $2)`,
-        [user.id, name]
-      );
+  // Exchange a refresh token for a new access token and refresh token
+  router.post('/refresh', validate(refreshTokenSchema), async (req: express.Request, res: express.Response) => {
+    try {
+      const { refresh_token } = req.body;
+
+      const rotated = await container.tokens.rotateRefreshToken(container.db, refresh_token);
+      if (rotated.status === 'rejected') {
+        disconnectAuthSessions(container.io, rotated.revokedSessionIds);
+        return res.status(401).json({ error: 'Invalid refresh token' });
+      }
+
+      await recordAuditEvent(container.db, {
+        ...auditContext(req),
+        action: 'auth.token_refresh',
+        userId: rotated.user.userId,
+        metadata: { auth_session_id: rotated.user.sessionId }
+      });
+
+      res.json(rotated.tokens);
+
+    } catch (error: any) {
+      console.error('Token refresh error:', error);
+      res.status(500).json({ error: 'Failed to refresh token' });
     }
+  });
 
-    // Generate token
-    const token = generateToken(user.id, user.email, user.user_type);
+  // End this device's session
+  router.post('/logout', validate(refreshTokenSchema), async (req: express.Request, res: express.Response) => {
+    try {
+      const { refresh_token } = req.body;
 
-    res.status(201).json({
-      user: {
-        id: user.id,
-        email: user.email,
-        user_type: user.user_type,
-        name
-      },
-      token
-    });
+      const revoked = await revokeRefreshToken(container.db, refresh_token);
+      disconnectAuthSessions(container.io, revoked);
 
-  } catch (error: any) {
-    console.error('Registration error:', error);
-    res.status(500).json({ error: 'Registration failed' });
-  }
-});
+      res.json({ message: 'Logged out' });
+
+    } catch (error: any) {
+      console.error('Logout error:', error);
+      res.status(500).json({ error: 'Logout failed' });
+    }
+  });
+
+  // End every session for the current user, including this one
+  router.post('/logout-all', requireAuth(container), async (req: any, res: express.Response) => {
+    try {
+      const revoked = await revokeAllSessions(container.db, req.user.userId);
+      disconnectAuthSessions(container.io, revoked);
 
-// Login user
-router.post('/login', async (req: express.Request, res: express.Response) => {
-  try {
-    const { email, password }: LoginRequest = req.body;
+      res.json({ message: 'Logged out of all devices', sessions_revoked: revoked.length });
 
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password required' });
+    } catch (error: any) {
+      console.error('Logout all error:', error);
+      res.status(500).json({ error: 'Logout failed' });
     }
+  });
 
-    // Find user
-    const result = await req.app.locals.db.query(
-      `SELECT u.id, u.email, u.password_hash, u.user_type, up.name
-       FROM users u
-       LEFT JOIN user_profiles up ON u.id = up.user_id
-       WHERE u.email = $1 AND u.is_active = TRUE`,
-      [email]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+  // Request a password reset email
+  router.post(
+    '/forgot-password',
+    rateLimitByIp(container, 'forgot-password', (throttle) => throttle.passwordResetIpLimit),
+    validate(forgotPasswordSchema),
+    (req: express.Request, res: express.Response) => {
+      const { email } = req.body;
+
+      // Not awaited: the response is the same, and takes as long, whether or
+      // not the account exists and a token is stored and mailed for it
+      requestPasswordReset(container.db, email).catch((error) => {
+        console.error('Forgot password error:', error);
+      });
+
+      res.json({ message: 'If an account exists for that email, a reset link has been sent' });
     }
+  );
+
+  // Set a new password using the emailed token
+  router.post(
+    '/reset-password',
+    validate(resetPasswordSchema),
+    async (req: express.Request, res: express.Response) => {
+      try {
+        const { token, password } = req.body;
 
-    const user = result.rows[0];
+        const revoked = await resetPassword(container.db, token, password);
+        if (!revoked) {
+          return res.status(400).json({ error: 'Invalid or expired reset token' });
+        }
+        disconnectAuthSessions(container.io, revoked);
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(password, user.password_hash);
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+        res.json({ message: 'Password has been reset' });
+
+      } catch (error: any) {
+        console.error('Reset password error:', error);
+        res.status(500).json({ error: 'Failed to reset password' });
+      }
     }
+  );
+
+  // Get current user (protected route)
+  router.get('/me', requireAuth(container), async (req: any, res: express.Response) => {
+    try {
+      const result = await container.db.query(
+        `SELECT u.id, u.email, u.user_type, u.created_at, up.name, up.phone, up.bio, up.avatar_url
+         FROM users u
+         LEFT JOIN user_profiles up ON u.id = up.user_id
+         WHERE u.id = $1`,
+        [req.user.userId]
+      );
 
-    // Generate token
-    const token = generateToken(user.id, user.email, user.user_type);
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
 
-    res.json({
-      user: {
+      const user = result.rows[0];
+
+      res.json({
         id: user.id,
         email: user.email,
         user_type: user.user_type,
-        name: user.name
-      },
-      token
-    });
-
-  } catch (error: any) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
-  }
-});
+        name: user.name,
+        phone: user.phone,
+        bio: user.bio,
+        avatar_url: user.avatar_url,
+        created_at: user.created_at
+      });
 
-// Get current user (protected route)
-router.get('/me', authMiddleware, async (req: any, res: express.Response) => {
-  try {
-    const result = await req.app.locals.db.query(
-      `SELECT u.id, u.email, u.user_type, u.created_at, up.name, up.phone, up.bio, up.avatar_url
-       FROM users u
-       LEFT JOIN user_profiles up ON u.id = up.user_id
-       WHERE u.id = $1`,
-      [req.user.userId]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'User not found' });
+    } catch (error: any) {
+      console.error('Get user error:', error);
+      res.status(500).json({ error: 'Failed to get user' });
     }
+  });
 
-    const user = result.rows[0];
-    
-    res.json({
-      id: user.id,
-      email: user.email,
-      user_type: user.user_type,
-      name: user.name,
-      phone: user.phone,
-      bio: user.bio,
-      avatar_url: user.avatar_url,
-      created_at: user.created_at
-    });
-
-  } catch (error: any) {
-    console.error('Get user error:', error);
-    res.status(500).json({ error: 'Failed to get user' });
-  }
-});
-
-export default router;
\ No newline at end of file
+  return router;
+};
\ No newline at end of file
@@ -0,0 +1,163 @@
+import express, { Router } from 'express';
+import {
+  checklistTemplateIdSchema,
+  createChecklistTemplateSchema,
+  updateChecklistTemplateSchema
+} from 'ar-inspection-platform-shared';
+import { requirePermission, permissionContext } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { hasPermission } from '../services/permission.service';
+import {
+  normalizeSections,
+  formatTemplate,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  archiveTemplate
+} from '../services/checklist.service';
+import { Container } from '../container';
+
+// Mounted under /api/checklist-templates behind requireAuth and organizationContext
+export const createChecklistTemplateRoutes = (container: Container) => {
+  const router = Router();
+
+  // Templates are visible within their scope: the organization's members, or the author for personal ones
+  const findScopedTemplate = async (req: any) => {
+    const template = await getTemplate(container.db, req.params.templateId);
+    if (!template || (template.organization_id || null) !== (req.organization?.id || null)) {
+      return null;
+    }
+    if (!template.organization_id && template.created_by !== req.user.userId) {
+      return null;
+    }
+    return template;
+  };
+
+  // Authors edit their own templates; inside an organization, dispatchers and admins edit all of them
+  const canEditTemplate = (req: any, template: any) => {
+    return template.created_by === req.user.userId
+      || (req.organization && hasPermission(permissionContext(req), 'sessions:assign'));
+  };
+
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      const templates = await listTemplates(container.db, req.organization?.id || null, req.user.userId);
+      res.json({ templates });
+
+    } catch (error: any) {
+      console.error('List checklist templates error:', error);
+      res.status(500).json({ error: 'Failed to list checklist templates' });
+    }
+  });
+
+  router.post(
+    '/',
+    requirePermission('sessions:create'),
+    validate(createChecklistTemplateSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const { name, description } = req.body;
+        const { error, sections } = normalizeSections(req.body.sections);
+        if (error || !sections) {
+          return res.status(400).json({ error });
+        }
+
+        const template = await createTemplate(container.db, {
+          organizationId: req.organization?.id || null,
+          userId: req.user.userId,
+          name,
+          description,
+          sections
+        });
+
+        res.status(201).json(template);
+
+      } catch (error: any) {
+        console.error('Create checklist template error:', error);
+        res.status(500).json({ error: 'Failed to create checklist template' });
+      }
+    }
+  );
+
+  router.get('/:templateId', validate(checklistTemplateIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const template = await findScopedTemplate(req);
+      if (!template) {
+        return res.status(404).json({ error: 'Checklist template not found' });
+      }
+
+      res.json(formatTemplate(template));
+
+    } catch (error: any) {
+      console.error('Get checklist template error:', error);
+      res.status(500).json({ error: 'Failed to get checklist template' });
+    }
+  });
+
+  // Edits only affect checklists attached afterwards
+  router.put('/:templateId', validate(updateChecklistTemplateSchema), async (req: any, res: express.Response) => {
+    try {
+      const template = await findScopedTemplate(req);
+      if (!template || template.archived_at) {
+        return res.status(404).json({ error: 'Checklist template not found' });
+      }
+
+      if (!canEditTemplate(req, template)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const { name, description } = req.body;
+      const changes: any = {};
+
+      if (name !== undefined) {
+        changes.name = name;
+      }
+
+      if (description !== undefined) {
+        changes.description = description;
+      }
+
+      if (req.body.sections !== undefined) {
+        const { error, sections } = normalizeSections(req.body.sections);
+        if (error || !sections) {
+          return res.status(400).json({ error });
+        }
+        changes.sections = sections;
+      }
+
+      const updated = await updateTemplate(container.db, template.id, changes);
+      if (!updated) {
+        return res.status(404).json({ error: 'Checklist template not found' });
+      }
+
+      res.json(updated);
+
+    } catch (error: any) {
+      console.error('Update checklist template error:', error);
+      res.status(500).json({ error: 'Failed to update checklist template' });
+    }
+  });
+
+  router.delete('/:templateId', validate(checklistTemplateIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const template = await findScopedTemplate(req);
+      if (!template) {
+        return res.status(404).json({ error: 'Checklist template not found' });
+      }
+
+      if (!canEditTemplate(req, template)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      await archiveTemplate(container.db, template.id);
+      res.status(204).send();
+
+    } catch (error: any) {
+      console.error('Archive checklist template error:', error);
+      res.status(500).json({ error: 'Failed to delete checklist template' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,197 @@
+import express, { Router } from 'express';
+import { attachChecklistSchema, checklistIdSchema, recordFindingSchema } from 'ar-inspection-platform-shared';
+import { permissionContext } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { hasPermission } from '../services/permission.service';
+import {
+  getTemplate,
+  listSessionChecklists,
+  findSessionChecklist,
+  getSessionChecklist,
+  attachChecklist,
+  detachChecklist,
+  validateFinding,
+  recordFinding,
+  findIncompleteItems,
+  completeChecklist
+} from '../services/checklist.service';
+import { broadcastToSession } from '../sockets/collaboration.socket';
+import { Container } from '../container';
+
+const isSessionClosed = (req: any) => {
+  return ['completed', 'cancelled'].includes(req.inspectionSession.status);
+};
+
+// The session's client attaches checklists; inside an organization so can dispatchers and admins
+const canAttach = (req: any) => {
+  return req.inspectionSession.client_id === req.user.userId
+    || (req.organization && hasPermission(permissionContext(req), 'sessions:assign'));
+};
+
+// Mounted under /api/sessions/:id/checklists behind sessionParticipantMiddleware
+export const createChecklistRoutes = (container: Container) => {
+  const router = Router({ mergeParams: true });
+
+  const broadcastChecklist = (req: any, checklist: any) => {
+    broadcastToSession(container.io, req.params.id, 'checklist:updated', {
+      sessionId: req.params.id,
+      checklist
+    });
+  };
+
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      res.json({ checklists: await listSessionChecklists(container.db, req.params.id) });
+
+    } catch (error: any) {
+      console.error('List checklists error:', error);
+      res.status(500).json({ error: 'Failed to list checklists' });
+    }
+  });
+
+  // Attach a template to the session
+  router.post('/', validate(attachChecklistSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      if (!canAttach(req)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const template = await getTemplate(container.db, req.body.template_id);
+      const inScope = template
+        && (template.organization_id || null) === (req.inspectionSession.organization_id || null)
+        && (template.organization_id || template.created_by === req.user.userId);
+
+      if (!inScope || template.archived_at) {
+        return res.status(404).json({ error: 'Checklist template not found' });
+      }
+
+      const checklist = await attachChecklist(container.db, req.params.id, template, req.user.userId);
+      broadcastChecklist(req, checklist);
+
+      res.status(201).json(checklist);
+
+    } catch (error: any) {
+      console.error('Attach checklist error:', error);
+      res.status(500).json({ error: 'Failed to attach checklist' });
+    }
+  });
+
+  router.get('/:checklistId', validate(checklistIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const checklist = await getSessionChecklist(container.db, req.params.id, req.params.checklistId);
+      if (!checklist) {
+        return res.status(404).json({ error: 'Checklist not found' });
+      }
+
+      res.json(checklist);
+
+    } catch (error: any) {
+      console.error('Get checklist error:', error);
+      res.status(500).json({ error: 'Failed to get checklist' });
+    }
+  });
+
+  // Detach a checklist that nobody has started filling in
+  router.delete('/:checklistId', validate(checklistIdSchema), async (req: any, res: express.Response) => {
+    try {
+      if (!canAttach(req)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const checklist = await findSessionChecklist(container.db, req.params.id, req.params.checklistId);
+      if (!checklist) {
+        return res.status(404).json({ error: 'Checklist not found' });
+      }
+
+      if (!await detachChecklist(container.db, req.params.id, checklist.id)) {
+        return res.status(409).json({ error: 'Checklist already has findings' });
+      }
+
+      broadcastToSession(container.io, req.params.id, 'checklist:removed', {
+        sessionId: req.params.id,
+        checklistId: checklist.id
+      });
+
+      res.status(204).send();
+
+    } catch (error: any) {
+      console.error('Detach checklist error:', error);
+      res.status(500).json({ error: 'Failed to detach checklist' });
+    }
+  });
+
+  // Record the finding for one item: { result, value, notes, annotation_ids, media_ids }
+  router.put('/:checklistId/findings/:itemId', validate(recordFindingSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const db = container.db;
+      const checklist = await findSessionChecklist(db, req.params.id, req.params.checklistId);
+      if (!checklist) {
+        return res.status(404).json({ error: 'Checklist not found' });
+      }
+
+      if (checklist.completed_at) {
+        return res.status(409).json({ error: 'Checklist is already completed' });
+      }
+
+      const validationError = await validateFinding(db, checklist, req.params.itemId, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const updated = await recordFinding(db, checklist, req.params.itemId, req.user.userId, req.body);
+      broadcastChecklist(req, updated);
+
+      res.json(updated);
+
+    } catch (error: any) {
+      console.error('Record finding error:', error);
+      res.status(500).json({ error: 'Failed to record finding' });
+    }
+  });
+
+  // Sign off the checklist once every required item has a result and its evidence
+  router.post('/:checklistId/complete', validate(checklistIdSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const db = container.db;
+      const checklist = await findSessionChecklist(db, req.params.id, req.params.checklistId);
+      if (!checklist) {
+        return res.status(404).json({ error: 'Checklist not found' });
+      }
+
+      if (checklist.completed_at) {
+        return res.status(409).json({ error: 'Checklist is already completed' });
+      }
+
+      const incomplete = await findIncompleteItems(db, checklist);
+      if (incomplete.length > 0) {
+        return res.status(409).json({ error: 'Checklist has incomplete items', incomplete_items: incomplete });
+      }
+
+      const completed = await completeChecklist(db, checklist, req.user.userId);
+      if (!completed) {
+        return res.status(409).json({ error: 'Checklist is already completed' });
+      }
+
+      broadcastChecklist(req, completed);
+      res.json(completed);
+
+    } catch (error: any) {
+      console.error('Complete checklist error:', error);
+      res.status(500).json({ error: 'Failed to complete checklist' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,258 @@
+import express, { Router } from 'express';
+import {
+  DEFAULT_FEED_RADIUS_KM,
+  createJobSchema,
+  jobFeedSchema,
+  jobIdSchema,
+  jobWindowSchema,
+  listJobsSchema,
+  updateJobSchema,
+  validateRequest
+} from 'ar-inspection-platform-shared';
+import { requirePermission, permissionContext } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { hasPermission } from '../services/permission.service';
+import {
+  formatJob,
+  createJob,
+  getJob,
+  listJobs,
+  updateJob,
+  cancelJob,
+  getUserSkills,
+  getJobFeed,
+  declineJob,
+  acceptJob
+} from '../services/job.service';
+import { Container } from '../container';
+
+// Mounted under /api/jobs behind requireAuth and organizationContext
+export const createJobRoutes = (container: Container) => {
+  const router = Router();
+
+  // Loads the job named by :jobId if it belongs to the request's organization scope
+  const findScopedJob = async (req: any) => {
+    const job = await getJob(container.db, req.params.jobId);
+    if (!job || (job.organization_id || null) !== (req.organization?.id || null)) {
+      return null;
+    }
+    return job;
+  };
+
+  // Posters manage their own jobs; inside an organization, dispatchers and admins manage all of them
+  const canManageJob = (req: any, job: any) => {
+    return job.client_id === req.user.userId
+      || (req.organization && hasPermission(permissionContext(req), 'sessions:assign'));
+  };
+
+  // Post a new inspection job
+  router.post(
+    '/',
+    requirePermission('sessions:create'),
+    validate(createJobSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const job = await createJob(container.db, req.user.userId, req.organization?.id || null, req.body);
+        res.status(201).json(job);
+
+      } catch (error: any) {
+        console.error('Create job error:', error);
+        res.status(500).json({ error: 'Failed to create job' });
+      }
+    }
+  );
+
+  // Jobs the current user posted, or every job in the organization for roles that oversee it
+  router.get('/', validate(listJobsSchema), async (req: any, res: express.Response) => {
+    try {
+      const viewAll = req.organization && hasPermission(permissionContext(req), 'sessions:view_all');
+      const jobs = await listJobs(
+        container.db,
+        req.organization?.id || null,
+        viewAll ? null : req.user.userId,
+        req.query.status
+      );
+
+      res.json({ jobs });
+
+    } catch (error: any) {
+      console.error('List jobs error:', error);
+      res.status(500).json({ error: 'Failed to list jobs' });
+    }
+  });
+
+  // Open jobs near the inspector, nearest first. Jobs needing skills the
+  // inspector's profile lacks are left out unless include_unmatched=true.
+  router.get(
+    '/feed',
+    requirePermission('sessions:accept'),
+    validate(jobFeedSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const { lat: latitude, lng: longitude, radius_km: radiusKm = DEFAULT_FEED_RADIUS_KM } = req.query;
+        const db = container.db;
+        const jobs = await getJobFeed(db, {
+          userId: req.user.userId,
+          organizationId: req.organization?.id || null,
+          latitude,
+          longitude,
+          radiusKm,
+          skills: await getUserSkills(db, req.user.userId),
+          includeUnmatched: req.query.include_unmatched === 'true'
+        });
+
+        res.json({ jobs, radius_km: radiusKm });
+
+      } catch (error: any) {
+        console.error('Job feed error:', error);
+        res.status(500).json({ error: 'Failed to load job feed' });
+      }
+    }
+  );
+
+  router.get('/:jobId', validate(jobIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const job = await findScopedJob(req);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      // Open jobs are visible to every inspector who could take them
+      const canView = canManageJob(req, job)
+        || job.assigned_to === req.user.userId
+        || hasPermission(permissionContext(req), 'sessions:view_all')
+        || (job.status === 'open' && hasPermission(permissionContext(req), 'sessions:accept'));
+
+      if (!canView) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      res.json(formatJob(job));
+
+    } catch (error: any) {
+      console.error('Get job error:', error);
+      res.status(500).json({ error: 'Failed to get job' });
+    }
+  });
+
+  router.patch('/:jobId', validate(updateJobSchema), async (req: any, res: express.Response) => {
+    try {
+      const job = await findScopedJob(req);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (!canManageJob(req, job)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      if (req.body.window_start !== undefined || req.body.window_end !== undefined) {
+        const { issues } = validateRequest(jobWindowSchema, {
+          body: {
+            window_start: req.body.window_start ?? job.window_start.toISOString(),
+            window_end: req.body.window_end ?? job.window_end.toISOString()
+          }
+        });
+        if (issues.length > 0) {
+          return res.status(400).json({ error: issues[0].message, details: issues });
+        }
+      }
+
+      const updated = await updateJob(container.db, job.id, req.body);
+      if (!updated) {
+        return res.status(409).json({ error: 'Only open jobs can be edited' });
+      }
+
+      res.json(updated);
+
+    } catch (error: any) {
+      console.error('Update job error:', error);
+      res.status(500).json({ error: 'Failed to update job' });
+    }
+  });
+
+  router.post('/:jobId/cancel', validate(jobIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const job = await findScopedJob(req);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (!canManageJob(req, job)) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      const cancelled = await cancelJob(container.db, job.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: 'Only open jobs can be cancelled' });
+      }
+
+      res.json(cancelled);
+
+    } catch (error: any) {
+      console.error('Cancel job error:', error);
+      res.status(500).json({ error: 'Failed to cancel job' });
+    }
+  });
+
+  // Take the job. Only the first inspector gets it; everyone else gets 409.
+  router.post(
+    '/:jobId/accept',
+    requirePermission('sessions:accept'),
+    validate(jobIdSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const job = await findScopedJob(req);
+        if (!job) {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+
+        if (job.client_id === req.user.userId) {
+          return res.status(400).json({ error: 'You cannot accept your own job' });
+        }
+
+        const result = await acceptJob(container.db, job.id, req.user.userId);
+
+        if (result.status === 'not_found') {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+        if (result.status === 'expired') {
+          return res.status(409).json({ error: 'Job time window has passed' });
+        }
+        if (result.status === 'unavailable') {
+          return res.status(409).json({ error: 'Job is no longer available' });
+        }
+
+        res.json({ job: result.job, session_id: result.sessionId });
+
+      } catch (error: any) {
+        console.error('Accept job error:', error);
+        res.status(500).json({ error: 'Failed to accept job' });
+      }
+    }
+  );
+
+  // Hide the job from the inspector's feed
+  router.post(
+    '/:jobId/decline',
+    requirePermission('sessions:accept'),
+    validate(jobIdSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const job = await findScopedJob(req);
+        if (!job) {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+
+        await declineJob(container.db, job.id, req.user.userId);
+        res.status(204).send();
+
+      } catch (error: any) {
+        console.error('Decline job error:', error);
+        res.status(500).json({ error: 'Failed to decline job' });
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,46 @@
+import express, { Router } from 'express';
+import { signedFileSchema } from 'ar-inspection-platform-shared';
+import { validate } from '../middleware/validation.middleware';
+import { LocalStorageDriver } from '../services/storage.service';
+import { Container } from '../container';
+
+// Serves files from the local storage driver. Access is granted by the signed,
+// expiring query string rather than an auth header so URLs work in <img> and
+// <video> tags. Not used with the S3 driver, which signs URLs itself.
+export const createMediaFileRoutes = (container: Container) => {
+  const router = Router();
+
+  router.get('/files/*', validate(signedFileSchema), (req: any, res: express.Response) => {
+    const key: string = req.params[0];
+
+    const { storage } = container;
+    if (!(storage instanceof LocalStorageDriver)
+      || !storage.verifySignedKey(key, req.query.expires, req.query.signature)) {
+      return res.status(403).json({ error: 'Invalid or expired link' });
+    }
+
+    let stream;
+    try {
+      stream = storage.getStream(key);
+    } catch (error: any) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    stream.on('error', (error: any) => {
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      if (error.code === 'ENOENT') {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      console.error('Media file error:', error);
+      res.status(500).json({ error: 'Failed to read file' });
+    });
+
+    res.type(key.split('.').pop() || 'application/octet-stream');
+    res.set('Cache-Control', 'private, max-age=300');
+    stream.pipe(res);
+  });
+
+  return router;
+};
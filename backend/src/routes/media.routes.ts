@@ -0,0 +1,317 @@
+import fs from 'fs';
+import express, { Router } from 'express';
+import multer from 'multer';
+import {
+  createUploadSchema,
+  listMediaSchema,
+  mediaIdSchema,
+  parseClientMetadata,
+  uploadIdSchema,
+  uploadMediaSchema
+} from 'ar-inspection-platform-shared';
+import {
+  MAX_VIDEO_BYTES,
+  UPLOAD_TMP_DIR,
+  getMediaType,
+  validateMedia,
+  listMedia,
+  getMedia,
+  storeMedia,
+  formatUpload,
+  createUpload,
+  findUpload,
+  isUploadExpired,
+  writeUploadChunk,
+  completeUpload
+} from '../services/media.service';
+import { broadcastToSession } from '../sockets/collaboration.socket';
+import { validate } from '../middleware/validation.middleware';
+import { Container } from '../container';
+
+const CHUNK_LIMIT = process.env.MEDIA_CHUNK_LIMIT || '10mb';
+
+// Single-request uploads are staged on disk, then processed into storage
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.promises.mkdir(UPLOAD_TMP_DIR, { recursive: true })
+        .then(() => cb(null, UPLOAD_TMP_DIR))
+        .catch((error) => cb(error, UPLOAD_TMP_DIR));
+    }
+  }),
+  limits: { fileSize: MAX_VIDEO_BYTES, files: 1 },
+  fileFilter: (req: any, file, cb) => {
+    if (getMediaType(file.mimetype) === null) {
+      req.rejectedMimeType = file.mimetype;
+      return cb(null, false);
+    }
+    cb(null, true);
+  }
+});
+
+const isSessionClosed = (req: any) => {
+  return ['completed', 'cancelled'].includes(req.inspectionSession.status);
+};
+
+const uploadFile = (req: any, res: express.Response, next: express.NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: error.message });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+};
+
+// Mounted under /api/sessions/:id/media behind sessionParticipantMiddleware
+export const createMediaRoutes = (container: Container) => {
+  const router = Router({ mergeParams: true });
+
+  // List media for a session, optionally filtered by ?type=photo|video
+  router.get('/', validate(listMediaSchema), async (req: any, res: express.Response) => {
+    try {
+      const media = await listMedia(container.db, container.storage, req.params.id, req.query.type);
+
+      res.json({ media });
+
+    } catch (error: any) {
+      console.error('List media error:', error);
+      res.status(500).json({ error: 'Failed to list media' });
+    }
+  });
+
+  // Upload a whole file as multipart/form-data (`file` plus optional `metadata` JSON)
+  router.post('/', validate(uploadMediaSchema), uploadFile, async (req: any, res: express.Response) => {
+    try {
+      if (req.rejectedMimeType) {
+        return res.status(400).json({ error: `Unsupported media type: ${req.rejectedMimeType}` });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'A photo or video file is required' });
+      }
+
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const validationError = validateMedia(req.file.mimetype, req.file.size);
+      if (validationError) {
+        return res.status(validationError.includes('size limit') ? 413 : 400).json({ error: validationError });
+      }
+
+      const { error: metadataError, metadata } = parseClientMetadata(req.body.metadata);
+      if (metadataError) {
+        return res.status(400).json({ error: metadataError });
+      }
+
+      const media = await storeMedia(container.db, container.storage, {
+        sessionId: req.params.id,
+        userId: req.user.userId,
+        filePath: req.file.path,
+        mimeType: req.file.mimetype,
+        originalName: req.file.originalname,
+        clientMetadata: metadata
+      });
+
+      broadcastToSession(container.io, req.params.id, 'media:created', {
+        sessionId: req.params.id,
+        media
+      });
+
+      res.status(201).json(media);
+
+    } catch (error: any) {
+      if (error.status === 400) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Upload media error:', error);
+      res.status(500).json({ error: 'Failed to upload media' });
+    } finally {
+      if (req.file) {
+        await fs.promises.rm(req.file.path, { force: true });
+      }
+    }
+  });
+
+  // Start a resumable upload; chunks are then sent with PATCH /uploads/:uploadId
+  router.post('/uploads', validate(createUploadSchema), async (req: any, res: express.Response) => {
+    try {
+      if (isSessionClosed(req)) {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const { mime_type, total_size, filename } = req.body;
+
+      const validationError = validateMedia(mime_type, total_size);
+      if (validationError) {
+        return res.status(validationError.includes('size limit') ? 413 : 400).json({ error: validationError });
+      }
+
+      const { error: metadataError, metadata } = parseClientMetadata(req.body.metadata);
+      if (metadataError || !metadata) {
+        return res.status(400).json({ error: metadataError });
+      }
+
+      const mediaUpload = await createUpload(container.db, req.params.id, req.user.userId, {
+        mimeType: mime_type,
+        totalSize: total_size,
+        originalName: filename,
+        metadata
+      });
+
+      res.status(201).json(formatUpload(mediaUpload));
+
+    } catch (error: any) {
+      console.error('Create upload error:', error);
+      res.status(500).json({ error: 'Failed to create upload' });
+    }
+  });
+
+  // Current offset of a resumable upload, used to resume after a dropped connection
+  router.get('/uploads/:uploadId', validate(uploadIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const mediaUpload = await findUpload(
+        container.db, req.params.id, req.params.uploadId, req.user.userId
+      );
+
+      if (!mediaUpload) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+
+      res.set('Upload-Offset', String(mediaUpload.received_bytes));
+      res.json(formatUpload(mediaUpload));
+
+    } catch (error: any) {
+      console.error('Get upload error:', error);
+      res.status(500).json({ error: 'Failed to get upload' });
+    }
+  });
+
+  // Append a chunk. The raw body is written at the `Upload-Offset` header, which
+  // must equal the bytes received so far.
+  router.patch(
+    '/uploads/:uploadId',
+    validate(uploadIdSchema),
+    express.raw({ type: () => true, limit: CHUNK_LIMIT }),
+    async (req: any, res: express.Response) => {
+      try {
+        const offset = Number(req.headers['upload-offset']);
+        const chunk: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+        if (!Number.isInteger(offset) || offset < 0) {
+          return res.status(400).json({ error: 'Upload-Offset header is required' });
+        }
+
+        if (chunk.length === 0) {
+          return res.status(400).json({ error: 'Chunk body is empty' });
+        }
+
+        const mediaUpload = await findUpload(
+          container.db, req.params.id, req.params.uploadId, req.user.userId
+        );
+
+        if (!mediaUpload) {
+          return res.status(404).json({ error: 'Upload not found' });
+        }
+
+        if (mediaUpload.status !== 'pending') {
+          return res.status(409).json({ error: `Upload is ${mediaUpload.status}` });
+        }
+
+        if (isUploadExpired(mediaUpload)) {
+          return res.status(410).json({ error: 'Upload has expired' });
+        }
+
+        const receivedBytes = Number(mediaUpload.received_bytes);
+        if (offset !== receivedBytes) {
+          res.set('Upload-Offset', String(receivedBytes));
+          return res.status(409).json({ error: 'Offset mismatch', received_bytes: receivedBytes });
+        }
+
+        if (offset + chunk.length > Number(mediaUpload.total_size)) {
+          return res.status(400).json({ error: 'Chunk exceeds declared file size' });
+        }
+
+        const updated = await writeUploadChunk(container.db, mediaUpload, offset, chunk);
+        if (!updated) {
+          return res.status(409).json({ error: 'Upload was modified concurrently' });
+        }
+
+        res.set('Upload-Offset', String(updated.received_bytes));
+        res.json(formatUpload(updated));
+
+      } catch (error: any) {
+        console.error('Upload chunk error:', error);
+        res.status(500).json({ error: 'Failed to write upload chunk' });
+      }
+    }
+  );
+
+  // Finish a resumable upload once every byte has arrived
+  router.post('/uploads/:uploadId/complete', validate(uploadIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const mediaUpload = await findUpload(
+        container.db, req.params.id, req.params.uploadId, req.user.userId
+      );
+
+      if (!mediaUpload) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+
+      if (mediaUpload.status !== 'pending') {
+        return res.status(409).json({ error: `Upload is ${mediaUpload.status}` });
+      }
+
+      if (isUploadExpired(mediaUpload)) {
+        return res.status(410).json({ error: 'Upload has expired' });
+      }
+
+      if (Number(mediaUpload.received_bytes) !== Number(mediaUpload.total_size)) {
+        return res.status(409).json({
+          error: 'Upload is incomplete',
+          received_bytes: Number(mediaUpload.received_bytes),
+          total_size: Number(mediaUpload.total_size)
+        });
+      }
+
+      const media = await completeUpload(container.db, container.storage, mediaUpload);
+
+      broadcastToSession(container.io, req.params.id, 'media:created', {
+        sessionId: req.params.id,
+        media
+      });
+
+      res.status(201).json(media);
+
+    } catch (error: any) {
+      if (error.status === 400) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Complete upload error:', error);
+      res.status(500).json({ error: 'Failed to complete upload' });
+    }
+  });
+
+  // Get a single media item with fresh signed URLs
+  router.get('/:mediaId', validate(mediaIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const media = await getMedia(container.db, container.storage, req.params.id, req.params.mediaId);
+
+      if (!media) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      res.json(media);
+
+    } catch (error: any) {
+      console.error('Get media error:', error);
+      res.status(500).json({ error: 'Failed to get media' });
+    }
+  });
+
+  return router;
+};
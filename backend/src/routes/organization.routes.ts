@@ -0,0 +1,299 @@
+import express, { Router } from 'express';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  createOrganizationSchema,
+  organizationIdSchema,
+  organizationInvitationSchema,
+  organizationMemberSchema,
+  renameOrganizationSchema,
+  updateMemberRoleSchema
+} from 'ar-inspection-platform-shared';
+import { requirePermission, permissionContext } from '../middleware/auth.middleware';
+import { organizationMemberMiddleware } from '../middleware/organization.middleware';
+import { auditContext } from '../middleware/audit.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { recordAuditEvent } from '../services/audit.service';
+import { canAssignRole, hasPermission } from '../services/permission.service';
+import {
+  createOrganization,
+  listOrganizations,
+  getOrganization,
+  renameOrganization,
+  deleteOrganization,
+  listMembers,
+  countOwners,
+  getMembershipRole,
+  isMemberEmail,
+  updateMemberRole,
+  removeMember,
+  createInvitation,
+  listInvitations,
+  revokeInvitation,
+  findInvitation,
+  acceptInvitation
+} from '../services/organization.service';
+import { Container } from '../container';
+
+// Mounted under /api/organizations behind requireAuth
+export const createOrganizationRoutes = (container: Container) => {
+  const router = Router();
+
+  // Organizations the current user belongs to, with their role in each
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      res.json({ organizations: await listOrganizations(container.db, req.user.userId) });
+
+    } catch (error: any) {
+      console.error('List organizations error:', error);
+      res.status(500).json({ error: 'Failed to list organizations' });
+    }
+  });
+
+  // Create an organization; the creator becomes its owner
+  router.post('/', validate(createOrganizationSchema), async (req: any, res: express.Response) => {
+    try {
+      res.status(201).json(await createOrganization(container.db, req.body.name, req.user.userId));
+
+    } catch (error: any) {
+      console.error('Create organization error:', error);
+      res.status(500).json({ error: 'Failed to create organization' });
+    }
+  });
+
+  // Join an organization with an emailed invitation token. Declared before the
+  // /:orgId routes so "invitations" isn't taken for an organization id.
+  router.post('/invitations/accept', validate(acceptInvitationSchema), async (req: any, res: express.Response) => {
+    try {
+      const invitation = await findInvitation(container.db, req.body.token);
+      if (!invitation) {
+        return res.status(400).json({ error: 'Invalid or expired invitation' });
+      }
+
+      if (invitation.email.toLowerCase() !== req.user.email.toLowerCase()) {
+        return res.status(403).json({ error: 'This invitation was sent to a different email address' });
+      }
+
+      if (!await acceptInvitation(container.db, invitation.id, req.user.userId)) {
+        return res.status(400).json({ error: 'Invalid or expired invitation' });
+      }
+
+      const organization = await getOrganization(container.db, invitation.organization_id);
+      const role = await getMembershipRole(container.db, invitation.organization_id, req.user.userId);
+
+      res.json({ ...organization, role });
+
+    } catch (error: any) {
+      console.error('Accept invitation error:', error);
+      res.status(500).json({ error: 'Failed to accept invitation' });
+    }
+  });
+
+  router.use('/:orgId', validate(organizationIdSchema), organizationMemberMiddleware(container));
+
+  router.get('/:orgId', async (req: any, res: express.Response) => {
+    try {
+      const organization = await getOrganization(container.db, req.organization.id);
+      res.json({ ...organization, role: req.organization.role });
+
+    } catch (error: any) {
+      console.error('Get organization error:', error);
+      res.status(500).json({ error: 'Failed to get organization' });
+    }
+  });
+
+  router.patch(
+    '/:orgId',
+    requirePermission('organization:manage'),
+    validate(renameOrganizationSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const organization = await renameOrganization(container.db, req.organization.id, req.body.name);
+        await recordAuditEvent(container.db, {
+          ...auditContext(req),
+          action: 'organization.update',
+          metadata: { name: req.body.name }
+        });
+
+        res.json({ ...organization, role: req.organization.role });
+
+      } catch (error: any) {
+        console.error('Update organization error:', error);
+        res.status(500).json({ error: 'Failed to update organization' });
+      }
+    }
+  );
+
+  router.delete('/:orgId', requirePermission('organization:delete'), async (req: any, res: express.Response) => {
+    try {
+      await deleteOrganization(container.db, container.storage, req.organization.id);
+      await recordAuditEvent(container.db, { ...auditContext(req), action: 'organization.delete' });
+
+      res.status(204).send();
+
+    } catch (error: any) {
+      console.error('Delete organization error:', error);
+      res.status(500).json({ error: 'Failed to delete organization' });
+    }
+  });
+
+  router.get('/:orgId/members', async (req: any, res: express.Response) => {
+    try {
+      res.json({ members: await listMembers(container.db, req.organization.id) });
+
+    } catch (error: any) {
+      console.error('List members error:', error);
+      res.status(500).json({ error: 'Failed to list members' });
+    }
+  });
+
+  // Change a member's role. The last owner can't be demoted.
+  router.patch(
+    '/:orgId/members/:userId',
+    requirePermission('members:manage'),
+    validate(updateMemberRoleSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const db = container.db;
+        const { role } = req.body;
+
+        const currentRole = await getMembershipRole(db, req.organization.id, req.params.userId);
+        if (!currentRole) {
+          return res.status(404).json({ error: 'Member not found' });
+        }
+
+        if (!canAssignRole(req.organization.role, role) || !canAssignRole(req.organization.role, currentRole)) {
+          return res.status(403).json({ error: 'Insufficient permissions' });
+        }
+
+        if (currentRole === 'owner' && role !== 'owner' && await countOwners(db, req.organization.id) <= 1) {
+          return res.status(409).json({ error: 'An organization must keep at least one owner' });
+        }
+
+        await updateMemberRole(db, req.organization.id, req.params.userId, role);
+        await recordAuditEvent(db, {
+          ...auditContext(req),
+          action: 'member.role_change',
+          metadata: { member_id: req.params.userId, previous_role: currentRole, role }
+        });
+
+        res.json({ user_id: req.params.userId, role });
+
+      } catch (error: any) {
+        console.error('Update member error:', error);
+        res.status(500).json({ error: 'Failed to update member' });
+      }
+    }
+  );
+
+  // Remove a member; any member may remove themselves (leave)
+  router.delete(
+    '/:orgId/members/:userId',
+    validate(organizationMemberSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const db = container.db;
+        const isSelf = req.params.userId === req.user.userId;
+
+        const currentRole = await getMembershipRole(db, req.organization.id, req.params.userId);
+        if (!currentRole) {
+          return res.status(404).json({ error: 'Member not found' });
+        }
+
+        const canRemove = isSelf || (
+          hasPermission(permissionContext(req), 'members:manage')
+          && canAssignRole(req.organization.role, currentRole)
+        );
+        if (!canRemove) {
+          return res.status(403).json({ error: 'Insufficient permissions' });
+        }
+
+        if (currentRole === 'owner' && await countOwners(db, req.organization.id) <= 1) {
+          return res.status(409).json({ error: 'An organization must keep at least one owner' });
+        }
+
+        await removeMember(db, req.organization.id, req.params.userId);
+        await recordAuditEvent(db, {
+          ...auditContext(req),
+          action: 'member.remove',
+          metadata: { member_id: req.params.userId, role: currentRole }
+        });
+
+        res.status(204).send();
+
+      } catch (error: any) {
+        console.error('Remove member error:', error);
+        res.status(500).json({ error: 'Failed to remove member' });
+      }
+    }
+  );
+
+  router.get('/:orgId/invitations', requirePermission('members:manage'), async (req: any, res: express.Response) => {
+    try {
+      res.json({ invitations: await listInvitations(container.db, req.organization.id) });
+
+    } catch (error: any) {
+      console.error('List invitations error:', error);
+      res.status(500).json({ error: 'Failed to list invitations' });
+    }
+  });
+
+  // Invite someone by email. Ownership is transferred through the members
+  // endpoint, so invitations can't grant it.
+  router.post(
+    '/:orgId/invitations',
+    requirePermission('members:manage'),
+    validate(createInvitationSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const db = container.db;
+        const { email, role } = req.body;
+
+        if (await isMemberEmail(db, req.organization.id, email)) {
+          return res.status(409).json({ error: 'User is already a member' });
+        }
+
+        const organization = await getOrganization(db, req.organization.id);
+        const invitation = await createInvitation(db, organization, email, role, req.user.userId);
+        await recordAuditEvent(db, {
+          ...auditContext(req),
+          action: 'invitation.create',
+          metadata: { invitation_id: invitation.id, email, role }
+        });
+
+        res.status(201).json(invitation);
+
+      } catch (error: any) {
+        console.error('Create invitation error:', error);
+        res.status(500).json({ error: 'Failed to create invitation' });
+      }
+    }
+  );
+
+  router.delete(
+    '/:orgId/invitations/:invitationId',
+    requirePermission('members:manage'),
+    validate(organizationInvitationSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        if (!await revokeInvitation(container.db, req.organization.id, req.params.invitationId)) {
+          return res.status(404).json({ error: 'Invitation not found' });
+        }
+
+        await recordAuditEvent(container.db, {
+          ...auditContext(req),
+          action: 'invitation.revoke',
+          metadata: { invitation_id: req.params.invitationId }
+        });
+
+        res.status(204).send();
+
+      } catch (error: any) {
+        console.error('Revoke invitation error:', error);
+        res.status(500).json({ error: 'Failed to revoke invitation' });
+      }
+    }
+  );
+
+  return router;
+};
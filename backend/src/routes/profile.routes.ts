@@ -1,15 +1,16 @@
 import express, { Router } from 'express';
 import multer from 'multer';
 import path from 'path';
+import { updateProfileSchema } from 'ar-inspection-platform-shared';
+import { validate } from '../middleware/validation.middleware';
+import { Container } from '../container';
 
-const router = Router();
+// Configure multer for file uploads; a string destination is created if missing
+const AVATAR_UPLOAD_DIR = process.env.AVATAR_UPLOAD_DIR || 'uploads/';
 
-// Configure multer for file uploads
 const upload = multer({
   storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      cb(null, 'uploads/');
-    },
+    destination: AVATAR_UPLOAD_DIR,
     filename: (req, file, cb) => {
       const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
       cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
@@ -17,146 +18,157 @@ const upload = multer({
   })
 });
 
-// Get user profile
-router.get('/', async (req: any, res: express.Response) => {
-  try {
-    const result = await req.app.locals.db.query(
-      `SELECT u.id, u.email, u.user_type, u.created_at,
-              up.name, up.phone, up.bio, up.avatar_url
-       FROM users u
-       LEFT JOIN user_profiles up ON u.id = up.user_id
-       WHERE u.id = $1`,
-      [req.user.userId]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Profile not found' });
-    }
-
-    const profile = result.rows[0];
-    
-    res.json({
-      id: profile.id,
-      email: profile.email,
-      user_type: profile.user_type,
-      created_at: profile.created_at,
-      profile: {
-        name: profile.name,
-        phone: profile.phone,
-        bio: profile.bio,
-        avatar_url: profile.avatar_url
+export const createProfileRoutes = (container: Container) => {
+  const router = Router();
+
+  // Get user profile
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      const result = await container.db.query(
+        `SELECT u.id, u.email, u.user_type, u.created_at,
+                up.name, up.phone, up.bio, up.avatar_url, up.skills
+         FROM users u
+         LEFT JOIN user_profiles up ON u.id = up.user_id
+         WHERE u.id = $1`,
+        [req.user.userId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Profile not found' });
       }
-    });
-
-  } catch (error: any) {
-    console.error('Get profile error:', error);
-    res.status(500).json({ error: 'Failed to get profile' });
-  }
-});
-
-// Update user profile
-router.put('/', async (req: any, res: express.Response) => {
-  try {
-    const { name, phone, bio } = req.body;
-    const updates: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
-
-    if (name !== undefined) {
-      updates.push(`name = $${paramIndex}`);
-      values.push(name);
-      paramIndex++;
-    }
-
-    if (phone !== undefined) {
-      updates.push(`phone = $${paramIndex}`);
-      values.push(phone);
-      paramIndex++;
-    }
 
-    if (bio !== undefined) {
-      updates.push(`bio = $${paramIndex}`);
-      values.push(bio);
-      paramIndex++;
+      const profile = result.rows[0];
+
+      res.json({
+        id: profile.id,
+        email: profile.email,
+        user_type: profile.user_type,
+        created_at: profile.created_at,
+        profile: {
+          name: profile.name,
+          phone: profile.phone,
+          bio: profile.bio,
+          avatar_url: profile.avatar_url,
+          skills: profile.skills || []
+        }
+      });
+
+    } catch (error: any) {
+      console.error('Get profile error:', error);
+      res.status(500).json({ error: 'Failed to get profile' });
     }
+  });
+
+  // Update user profile
+  router.put('/', validate(updateProfileSchema), async (req: any, res: express.Response) => {
+    try {
+      const { name, phone, bio, skills } = req.body;
+      const updates: string[] = [];
+      const values: any[] = [];
+      // $1 is the user id
+      let paramIndex = 2;
+
+      if (name !== undefined) {
+        updates.push(`name = $${paramIndex}`);
+        values.push(name);
+        paramIndex++;
+      }
 
-    if (updates.length === 0) {
-      return res.status(400).json({ error: 'No fields to update' });
-    }
+      if (phone !== undefined) {
+        updates.push(`phone = $${paramIndex}`);
+        values.push(phone);
+        paramIndex++;
+      }
 
-    // Check if profile exists
-    const existingProfile = await req.app.locals.db.query(
-      'SELECT user_id FROM user_profiles WHERE user_id = $1',
-      [req.user.userId]
-    );
-
-    if (existingProfile.rows.length === 0) {
-      // Create new profile
-      const sql = `INSERT INTO user_profiles (user_id, ${updates.join(', ')}) 
-                   VALUES ($1, ${values.map((_, i) => `$${i + 1}`).join(', ')})`;
-      await req.app.locals.db.query(sql, [req.user.userId, ...values]);
-    } else {
-      // Update existing profile
-      const sql = `UPDATE user_profiles SET ${updates.join(', ')}, updated_at = NOW() 
-                   WHERE user_id = $${updates.length + 2}`;
-      await req.app.locals.db.query(sql, [req.user.userId, ...values]);
-    }
+      if (bio !== undefined) {
+        updates.push(`bio = $${paramIndex}`);
+        values.push(bio);
+        paramIndex++;
+      }
 
-    // Get updated profile
-    const result = await req.app.locals.db.query(
-      `SELECT u.id, u.email, u.user_type, u.created_at,
-              up.name, up.phone, up.bio, up.avatar_url
-       FROM users u
-       LEFT JOIN user_profiles up ON u.id = up.user_id
-       WHERE u.id = $1`,
-      [req.user.userId]
-    );
-
-    const profile = result.rows[0];
-    
-    res.json({
-      id: profile.id,
-      email: profile.email,
-      user_type: profile.user_type,
-      created_at: profile.created_at,
-      profile: {
-        name: profile.name,
-        phone: profile.phone,
-        bio: profile.bio,
-        avatar_url: profile.avatar_url
+      // Inspection skills used to match gig users with job postings
+      if (skills !== undefined) {
+        updates.push(`skills = $${paramIndex}`);
+        values.push(JSON.stringify(skills.map((skill: string) => skill.toLowerCase())));
+        paramIndex++;
       }
-    });
 
-  } catch (error: any) {
-    console.error('Update profile error:', error);
-    res.status(500).json({ error: 'Failed to update profile' });
-  }
-});
+      // Check if profile exists
+      const existingProfile = await container.db.query(
+        'SELECT user_id FROM user_profiles WHERE user_id = $1',
+        [req.user.userId]
+      );
+
+      if (existingProfile.rows.length === 0) {
+        // Create new profile
+        const columns = updates.map((update) => update.split(' = ')[0]);
+        const sql = `INSERT INTO user_profiles (user_id, ${columns.join(', ')}) 
+                     VALUES ($1, ${values.map((_, i) => `$${i + 2}`).join(', ')})`;
+        await container.db.query(sql, [req.user.userId, ...values]);
+      } else {
+        // Update existing profile
+        const sql = `UPDATE user_profiles SET ${updates.join(', ')}, updated_at = NOW() 
+                     WHERE user_id = $1`;
+        await container.db.query(sql, [req.user.userId, ...values]);
+      }
 
-// Upload avatar
-router.post('/avatar', upload.single('avatar'), async (req: any, res: express.Response) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file uploaded' });
+      // Get updated profile
+      const result = await container.db.query(
+        `SELECT u.id, u.email, u.user_type, u.created_at,
+                up.name, up.phone, up.bio, up.avatar_url, up.skills
+         FROM users u
+         LEFT JOIN user_profiles up ON u.id = up.user_id
+         WHERE u.id = $1`,
+        [req.user.userId]
+      );
+
+      const profile = result.rows[0];
+
+      res.json({
+        id: profile.id,
+        email: profile.email,
+        user_type: profile.user_type,
+        created_at: profile.created_at,
+        profile: {
+          name: profile.name,
+          phone: profile.phone,
+          bio: profile.bio,
+          avatar_url: profile.avatar_url,
+          skills: profile.skills || []
+        }
+      });
+
+    } catch (error: any) {
+      console.error('Update profile error:', error);
+      res.status(500).json({ error: 'Failed to update profile' });
     }
+  });
 
-    const avatarUrl = `/uploads/${req.file.filename}`;
+  // Upload avatar
+  router.post('/avatar', upload.single('avatar'), async (req: any, res: express.Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
 
-    // Update profile with avatar URL
-    await req.app.locals.db.query(
-      'UPDATE user_profiles SET avatar_url = $1, updated_at = NOW() WHERE user_id = $2',
-      [avatarUrl, req.user.userId]
-    );
+      const avatarUrl = `/uploads/${req.file.filename}`;
 
-    res.json({
-      message: 'Avatar uploaded successfully',
-      avatar_url: avatarUrl
-    });
+      // Update profile with avatar URL
+      await container.db.query(
+        'UPDATE user_profiles SET avatar_url = $1, updated_at = NOW() WHERE user_id = $2',
+        [avatarUrl, req.user.userId]
+      );
 
-  } catch (error: any) {
-    console.error('Avatar upload error:', error);
-    res.status(500).json({ error: 'Failed to upload avatar' });
-  }
-});
+      res.json({
+        message: 'Avatar uploaded successfully',
+        avatar_url: avatarUrl
+      });
+
+    } catch (error: any) {
+      console.error('Avatar upload error:', error);
+      res.status(500).json({ error: 'Failed to upload avatar' });
+    }
+  });
 
-export default router;
\ No newline at end of file
+  return router;
+};
\ No newline at end of file
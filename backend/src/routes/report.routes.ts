@@ -0,0 +1,73 @@
+import express, { Router } from 'express';
+import { reportIdSchema } from 'ar-inspection-platform-shared';
+import { permissionContext } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { hasPermission } from '../services/permission.service';
+import { listReports, getReport, generateReport } from '../services/report.service';
+import { broadcastToSession } from '../sockets/collaboration.socket';
+import { Container } from '../container';
+
+// Mounted under /api/sessions/:id/reports behind sessionParticipantMiddleware.
+// Reports are generated automatically when a session completes; this router
+// lists them and lets participants regenerate one.
+export const createReportRoutes = (container: Container) => {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      res.json({ reports: await listReports(container.db, container.storage, req.params.id) });
+
+    } catch (error: any) {
+      console.error('List reports error:', error);
+      res.status(500).json({ error: 'Failed to list reports' });
+    }
+  });
+
+  // Regenerate, e.g. after a failed render or once late evidence has been uploaded
+  router.post('/', async (req: any, res: express.Response) => {
+    try {
+      const session = req.inspectionSession;
+      const isSessionParticipant = session.client_id === req.user.userId || session.gig_user_id === req.user.userId;
+      const canManage = req.organization && hasPermission(permissionContext(req), 'sessions:assign');
+
+      if (!isSessionParticipant && !canManage) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+
+      if (session.status !== 'completed') {
+        return res.status(409).json({ error: 'Reports are only available for completed sessions' });
+      }
+
+      const report = await generateReport(container.db, container.storage, req.params.id, req.user.userId);
+      broadcastToSession(container.io, req.params.id, 'report:generated', {
+        sessionId: req.params.id,
+        report
+      });
+
+      res.status(report.status === 'ready' ? 201 : 500).json(report);
+
+    } catch (error: any) {
+      console.error('Generate report error:', error);
+      res.status(500).json({ error: 'Failed to generate report' });
+    }
+  });
+
+  // Get a single report with a fresh download URL
+  router.get('/:reportId', validate(reportIdSchema), async (req: any, res: express.Response) => {
+    try {
+      const report = await getReport(container.db, container.storage, req.params.id, req.params.reportId);
+
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+
+      res.json(report);
+
+    } catch (error: any) {
+      console.error('Get report error:', error);
+      res.status(500).json({ error: 'Failed to get report' });
+    }
+  });
+
+  return router;
+};
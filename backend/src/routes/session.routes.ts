@@ -0,0 +1,389 @@
+import express, { Router } from 'express';
+import {
+  SessionResource,
+  SessionStatus,
+  assignSessionSchema,
+  canTransition,
+  createSessionSchema,
+  listSessionsSchema,
+  sessionIdSchema
+} from 'ar-inspection-platform-shared';
+import { requirePermission, permissionContext } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { isInScope } from '../middleware/session.middleware';
+import { auditAccess } from '../middleware/audit.middleware';
+import { hasPermission } from '../services/permission.service';
+import { getMembershipRole } from '../services/organization.service';
+import { generateReport } from '../services/report.service';
+import { recordStatusEvent } from '../services/session-event.service';
+import { broadcastToSession } from '../sockets/collaboration.socket';
+import { Container } from '../container';
+
+const SESSION_SELECT = `
+  SELECT s.id, s.organization_id, s.client_id, s.gig_user_id, s.status, s.metadata,
+         s.started_at, s.ended_at, s.created_at, s.updated_at,
+         cp.name AS client_name, gp.name AS gig_user_name
+  FROM sessions s
+  LEFT JOIN user_profiles cp ON s.client_id = cp.user_id
+  LEFT JOIN user_profiles gp ON s.gig_user_id = gp.user_id`;
+
+export const isParticipant = (session: any, userId: string): boolean => {
+  return session.client_id === userId || session.gig_user_id === userId;
+};
+
+const formatSession = (row: any): SessionResource => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  client_id: row.client_id,
+  gig_user_id: row.gig_user_id,
+  client_name: row.client_name,
+  gig_user_name: row.gig_user_name,
+  status: row.status,
+  metadata: row.metadata || {},
+  started_at: row.started_at,
+  ended_at: row.ended_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const findSession = async (db: any, sessionId: string) => {
+  const result = await db.query(`${SESSION_SELECT} WHERE s.id = $1`, [sessionId]);
+  return result.rows[0] || null;
+};
+
+export const createSessionRoutes = (container: Container) => {
+  const router = Router();
+
+  // Like findSession, but sessions outside the request's organization scope are not found
+  const findScopedSession = async (req: any, sessionId: string) => {
+    const session = await findSession(container.db, sessionId);
+    return session && isInScope(session, req) ? session : null;
+  };
+
+  // Renders the PDF report in the background; participants hear about it
+  // through report:generated
+  const generateCompletionReport = (req: any, sessionId: string) => {
+    generateReport(container.db, container.storage, sessionId, req.user.userId)
+      .then((report) => {
+        broadcastToSession(container.io, sessionId, 'report:generated', { sessionId, report });
+      })
+      .catch((error) => console.error('Completion report error:', error));
+  };
+
+  // Keeps the change for collaborators who rejoin later, then tells the live ones
+  const announceStatus = async (req: any, session: SessionResource) => {
+    await recordStatusEvent(container.db, session, req.user.userId);
+    broadcastToSession(container.io, session.id, 'session:status', session);
+  };
+
+  // Apply a status change after checking participation and transition legality
+  const transitionSession = async (
+    req: any,
+    res: express.Response,
+    to: SessionStatus,
+    extraUpdates: string[] = []
+  ) => {
+    const session = await findScopedSession(req, req.params.id);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    // Dispatchers and admins may also move their organization's sessions along
+    const canManage = req.organization && hasPermission(permissionContext(req), 'sessions:assign');
+
+    if (!isParticipant(session, req.user.userId) && !canManage) {
+      return res.status(403).json({ error: 'Not a participant of this session' });
+    }
+
+    if (!canTransition(session.status, to)) {
+      return res.status(409).json({
+        error: `Cannot move session from '${session.status}' to '${to}'`
+      });
+    }
+
+    // Guard on the current status so concurrent transitions cannot both win
+    const updates = ['status = $1', ...extraUpdates, 'updated_at = NOW()'];
+    const result = await container.db.query(
+      `UPDATE sessions SET ${updates.join(', ')}
+       WHERE id = $2 AND status = $3
+       RETURNING id`,
+      [to, session.id, session.status]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(409).json({ error: 'Session was modified concurrently' });
+    }
+
+    const updated = formatSession(await findSession(container.db, session.id));
+    await announceStatus(req, updated);
+    res.json(updated);
+
+    if (to === 'completed') {
+      generateCompletionReport(req, session.id);
+    }
+  };
+
+  // Create a new session (clients, or dispatchers inside an organization, request an inspection)
+  router.post(
+    '/',
+    requirePermission('sessions:create'),
+    validate(createSessionSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const { metadata } = req.body;
+
+        const result = await container.db.query(
+          `INSERT INTO sessions (organization_id, client_id, status, metadata)
+           VALUES ($1, $2, 'waiting', $3)
+           RETURNING id`,
+          [req.organization?.id || null, req.user.userId, metadata || {}]
+        );
+
+        const session = await findSession(container.db, result.rows[0].id);
+        res.status(201).json(formatSession(session));
+
+      } catch (error: any) {
+        console.error('Create session error:', error);
+        res.status(500).json({ error: 'Failed to create session' });
+      }
+    }
+  );
+
+  // List sessions for the current user
+  router.get('/', validate(listSessionsSchema), async (req: any, res: express.Response) => {
+    try {
+      const { role, status, from, to, available } = req.query;
+      const { limit = 50, offset = 0 } = req.query;
+      const conditions: string[] = [];
+      const values: any[] = [];
+
+      const context = permissionContext(req);
+
+      const addCondition = (sql: string, value: any) => {
+        values.push(value);
+        conditions.push(sql.replace('?', `$${values.length}`));
+      };
+
+      if (req.organization) {
+        addCondition('s.organization_id = ?', req.organization.id);
+      } else {
+        conditions.push('s.organization_id IS NULL');
+      }
+
+      if (available === 'true') {
+        // Open requests that a gig user or inspector can accept
+        if (!hasPermission(context, 'sessions:accept')) {
+          return res.status(403).json({ error: 'Insufficient permissions' });
+        }
+        conditions.push(`s.status = 'waiting' AND s.gig_user_id IS NULL`);
+      } else {
+        // Roles that oversee an organization see all of its sessions by default;
+        // inspectors see the ones assigned to them
+        const canViewAll = hasPermission(context, 'sessions:view_all');
+        const defaultRole = canViewAll ? 'all' : req.organization ? 'gig_user' : req.user.userType;
+        const listRole = role || defaultRole;
+
+        if (listRole === 'all') {
+          if (!canViewAll) {
+            return res.status(403).json({ error: 'Insufficient permissions' });
+          }
+        } else if (listRole === 'client') {
+          addCondition('s.client_id = ?', req.user.userId);
+        } else {
+          addCondition('s.gig_user_id = ?', req.user.userId);
+        }
+      }
+
+      if (status !== undefined) {
+        const statuses: string[] = status.split(',');
+        const placeholders = statuses.map((s) => {
+          values.push(s);
+          return `$${values.length}`;
+        });
+        conditions.push(`s.status IN (${placeholders.join(', ')})`);
+      }
+
+      if (from !== undefined) {
+        addCondition('s.created_at >= ?', new Date(from));
+      }
+
+      if (to !== undefined) {
+        addCondition('s.created_at <= ?', new Date(to));
+      }
+
+      values.push(limit, offset);
+      const result = await container.db.query(
+        `${SESSION_SELECT}
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY s.created_at DESC
+         LIMIT $${values.length - 1} OFFSET $${values.length}`,
+        values
+      );
+
+      res.json({
+        sessions: result.rows.map(formatSession),
+        limit,
+        offset
+      });
+
+    } catch (error: any) {
+      console.error('List sessions error:', error);
+      res.status(500).json({ error: 'Failed to list sessions' });
+    }
+  });
+
+  // Get a single session
+  router.get(
+    '/:id',
+    validate(sessionIdSchema),
+    auditAccess(container, 'session.access'),
+    async (req: any, res: express.Response) => {
+      try {
+        const session = await findScopedSession(req, req.params.id);
+
+        if (!session) {
+          return res.status(404).json({ error: 'Session not found' });
+        }
+
+        const context = permissionContext(req);
+
+        // Gig users and inspectors may preview open requests before accepting them
+        const isOpenRequest = session.status === 'waiting' && !session.gig_user_id
+          && hasPermission(context, 'sessions:accept');
+
+        if (!isParticipant(session, req.user.userId) && !isOpenRequest
+          && !hasPermission(context, 'sessions:view_all')) {
+          return res.status(403).json({ error: 'Not a participant of this session' });
+        }
+
+        res.json(formatSession(session));
+
+      } catch (error: any) {
+        console.error('Get session error:', error);
+        res.status(500).json({ error: 'Failed to get session' });
+      }
+    }
+  );
+
+  // Accept an open session (gig users, or inspectors inside an organization)
+  router.post(
+    '/:id/accept',
+    requirePermission('sessions:accept'),
+    validate(sessionIdSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        if (!await findScopedSession(req, req.params.id)) {
+          return res.status(404).json({ error: 'Session not found' });
+        }
+
+        const result = await container.db.query(
+          `UPDATE sessions SET gig_user_id = $1, updated_at = NOW()
+           WHERE id = $2 AND status = 'waiting' AND gig_user_id IS NULL
+           RETURNING id`,
+          [req.user.userId, req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+          return res.status(409).json({ error: 'Session is no longer available' });
+        }
+
+        const session = formatSession(await findSession(container.db, req.params.id));
+        await announceStatus(req, session);
+        res.json(session);
+
+      } catch (error: any) {
+        console.error('Accept session error:', error);
+        res.status(500).json({ error: 'Failed to accept session' });
+      }
+    }
+  );
+
+  // Start an accepted session
+  router.post(
+    '/:id/start',
+    requirePermission('sessions:accept'),
+    validate(sessionIdSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const session = await findScopedSession(req, req.params.id);
+
+        if (session && !session.gig_user_id) {
+          return res.status(409).json({ error: 'Session has not been accepted yet' });
+        }
+
+        await transitionSession(req, res, 'active', ['started_at = NOW()']);
+
+      } catch (error: any) {
+        console.error('Start session error:', error);
+        res.status(500).json({ error: 'Failed to start session' });
+      }
+    }
+  );
+
+  // Assign a waiting session to one of the organization's inspectors (dispatchers)
+  router.post(
+    '/:id/assign',
+    requirePermission('sessions:assign'),
+    validate(assignSessionSchema),
+    async (req: any, res: express.Response) => {
+      try {
+        const { gig_user_id: inspectorId } = req.body;
+
+        if (!req.organization) {
+          return res.status(400).json({ error: 'Sessions can only be assigned inside an organization' });
+        }
+
+        if (!await findScopedSession(req, req.params.id)) {
+          return res.status(404).json({ error: 'Session not found' });
+        }
+
+        const inspectorRole = await getMembershipRole(container.db, req.organization.id, inspectorId);
+        if (inspectorRole !== 'inspector') {
+          return res.status(400).json({ error: 'Assignee must be an inspector in this organization' });
+        }
+
+        const result = await container.db.query(
+          `UPDATE sessions SET gig_user_id = $1, updated_at = NOW()
+           WHERE id = $2 AND status = 'waiting'
+           RETURNING id`,
+          [inspectorId, req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+          return res.status(409).json({ error: 'Only waiting sessions can be assigned' });
+        }
+
+        const session = formatSession(await findSession(container.db, req.params.id));
+        await announceStatus(req, session);
+        res.json(session);
+
+      } catch (error: any) {
+        console.error('Assign session error:', error);
+        res.status(500).json({ error: 'Failed to assign session' });
+      }
+    }
+  );
+
+  // Complete an active session
+  router.post('/:id/complete', validate(sessionIdSchema), async (req: any, res: express.Response) => {
+    try {
+      await transitionSession(req, res, 'completed', ['ended_at = NOW()']);
+    } catch (error: any) {
+      console.error('Complete session error:', error);
+      res.status(500).json({ error: 'Failed to complete session' });
+    }
+  });
+
+  // Cancel a waiting or active session
+  router.post('/:id/cancel', validate(sessionIdSchema), async (req: any, res: express.Response) => {
+    try {
+      await transitionSession(req, res, 'cancelled', ['ended_at = NOW()']);
+    } catch (error: any) {
+      console.error('Cancel session error:', error);
+      res.status(500).json({ error: 'Failed to cancel session' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,102 @@
+import express, { Router } from 'express';
+import { twoFactorCodeSchema } from 'ar-inspection-platform-shared';
+import {
+  getTwoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  regenerateBackupCodes
+} from '../services/two-factor.service';
+import { validate } from '../middleware/validation.middleware';
+import { Container } from '../container';
+
+// Mounted under /api/auth/2fa behind requireAuth
+export const createTwoFactorRoutes = (container: Container) => {
+  const router = Router();
+
+  // Current 2FA state for the signed-in user
+  router.get('/', async (req: any, res: express.Response) => {
+    try {
+      res.json(await getTwoFactorStatus(container.db, req.user.userId));
+
+    } catch (error: any) {
+      console.error('Two-factor status error:', error);
+      res.status(500).json({ error: 'Failed to get two-factor status' });
+    }
+  });
+
+  // Start enrollment: returns the secret and otpauth:// URI for the authenticator app
+  router.post('/setup', async (req: any, res: express.Response) => {
+    try {
+      const enrollment = await beginEnrollment(container.db, {
+        id: req.user.userId,
+        email: req.user.email
+      });
+
+      if (!enrollment) {
+        return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+      }
+
+      res.status(201).json(enrollment);
+
+    } catch (error: any) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
+  });
+
+  // Finish enrollment with a code from the authenticator; returns backup codes once
+  router.post('/enable', validate(twoFactorCodeSchema), async (req: any, res: express.Response) => {
+    try {
+      const { code } = req.body;
+
+      const backupCodes = await confirmEnrollment(container.db, req.user.userId, code);
+      if (!backupCodes) {
+        return res.status(400).json({ error: 'Invalid verification code' });
+      }
+
+      res.json({ enabled: true, backup_codes: backupCodes });
+
+    } catch (error: any) {
+      console.error('Two-factor enable error:', error);
+      res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+  });
+
+  // Turn 2FA off; requires a current TOTP or backup code
+  router.post('/disable', validate(twoFactorCodeSchema), async (req: any, res: express.Response) => {
+    try {
+      const { code } = req.body;
+
+      if (!await disableTwoFactor(container.db, req.user.userId, code)) {
+        return res.status(400).json({ error: 'Invalid verification code' });
+      }
+
+      res.json({ enabled: false });
+
+    } catch (error: any) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+    }
+  });
+
+  // Replace all backup codes; requires a current TOTP or backup code
+  router.post('/backup-codes', validate(twoFactorCodeSchema), async (req: any, res: express.Response) => {
+    try {
+      const { code } = req.body;
+
+      const backupCodes = await regenerateBackupCodes(container.db, req.user.userId, code);
+      if (!backupCodes) {
+        return res.status(400).json({ error: 'Invalid verification code' });
+      }
+
+      res.json({ backup_codes: backupCodes });
+
+    } catch (error: any) {
+      console.error('Backup code regeneration error:', error);
+      res.status(500).json({ error: 'Failed to regenerate backup codes' });
+    }
+  });
+
+  return router;
+};
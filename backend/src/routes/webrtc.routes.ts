@@ -0,0 +1,13 @@
+import express, { Router } from 'express';
+import { getIceServers } from '../services/webrtc.service';
+
+export const createWebRtcRoutes = () => {
+  const router = Router();
+
+  // STUN/TURN configuration for RTCPeerConnection; also returned on call:join
+  router.get('/ice-servers', (req: any, res: express.Response) => {
+    res.json({ iceServers: getIceServers(req.user.userId) });
+  });
+
+  return router;
+};
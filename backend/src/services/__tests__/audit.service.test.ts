@@ -0,0 +1,71 @@
+import {
+  AuditLogEntry,
+  hashAuditEntry,
+  iterateAuditEvents,
+  recordAuditEvent,
+  verifyAuditChain
+} from '../audit.service';
+import { useTestContext } from '../../test/harness';
+
+describe('audit log chain', () => {
+  const context = useTestContext();
+
+  const readChain = async () => {
+    const entries: AuditLogEntry[] = [];
+    for await (const entry of iterateAuditEvents(context.db)) {
+      entries.push(entry);
+    }
+    return entries;
+  };
+
+  beforeEach(async () => {
+    for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      await recordAuditEvent(context.db, {
+        action: 'auth.login_failed',
+        ipAddress: '203.0.113.7',
+        metadata: { email, reason: 'invalid_credentials' }
+      });
+    }
+  });
+
+  it('links each entry to the one before it', async () => {
+    const entries = await readChain();
+
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entries[1].prev_hash).toBe(entries[0].hash);
+    expect(await verifyAuditChain(entries)).toEqual({
+      valid: true,
+      checked: 3,
+      head: { sequence: 3, hash: entries[2].hash }
+    });
+  });
+
+  it('detects an edited entry', async () => {
+    await context.db.query(
+      `UPDATE audit_log SET metadata = '{"email":"someone-else@example.com"}' WHERE sequence = 2`
+    );
+
+    const result = await verifyAuditChain(await readChain());
+    expect(result).toMatchObject({ valid: false, checked: 1, failure: { sequence: 2, reason: 'hash_mismatch' } });
+  });
+
+  it('detects a removed entry', async () => {
+    await context.db.query('DELETE FROM audit_log WHERE sequence = 2');
+
+    const result = await verifyAuditChain(await readChain());
+    expect(result.failure).toEqual({ sequence: 2, reason: 'missing_entries' });
+  });
+
+  it('detects an entry rewritten with a recomputed hash', async () => {
+    const [, second] = await readChain();
+    const forged = { ...second, ip_address: '198.51.100.1' };
+    await context.db.query(
+      'UPDATE audit_log SET ip_address = $1, hash = $2 WHERE sequence = 2',
+      [forged.ip_address, hashAuditEntry(forged)]
+    );
+
+    // The forged entry checks out on its own, but its successor still points at the original
+    const result = await verifyAuditChain(await readChain());
+    expect(result.failure).toEqual({ sequence: 3, reason: 'broken_link' });
+  });
+});
@@ -0,0 +1,45 @@
+import { FallbackRateLimitStore, MemoryRateLimitStore, RateLimitStore } from '../rate-limit.service';
+
+describe('rate limit stores', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('counts within a window and expires afterwards', async () => {
+    jest.useFakeTimers({ now: 0, doNotFake: ['setInterval'] });
+
+    await store.increment('key', 1000);
+    expect(await store.increment('key', 1000)).toEqual({ count: 2, resetMs: 1000 });
+
+    jest.setSystemTime(1000);
+    expect(await store.get('key')).toBeNull();
+    expect((await store.increment('key', 1000)).count).toBe(1);
+
+    jest.useRealTimers();
+  });
+
+  it('falls back to memory while the primary store fails', async () => {
+    const failing: RateLimitStore = {
+      increment: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      get: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      set: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      reset: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      close: jest.fn().mockResolvedValue(undefined)
+    };
+    const fallback = new FallbackRateLimitStore(failing, store);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await fallback.increment('key', 60000);
+    expect((await fallback.increment('key', 60000)).count).toBe(2);
+    expect((await store.get('key'))?.count).toBe(2);
+
+    // Logged once per outage, not per request
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
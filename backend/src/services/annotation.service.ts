@@ -0,0 +1,248 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  ANNOTATION_EDITABLE_FIELDS,
+  AnnotationInput,
+  AnnotationResource,
+  AnnotationRevisionAction,
+  Measurement,
+  measureValue
+} from 'ar-inspection-platform-shared';
+import { withTransaction } from '../database/transaction';
+
+const JSON_FIELDS = ['points', 'position', 'rotation', 'scale', 'measurement'];
+
+const ANNOTATION_COLUMNS = `id, session_id, type, points, color, stroke_width, text, font_size,
+  position, rotation, scale, anchor_id, measurement, version, created_by, created_at, updated_at, deleted_at`;
+
+const REVISION_COLUMNS = 'id, annotation_id, version, action, snapshot, changed_by, created_at';
+
+export const formatAnnotation = (row: any): AnnotationResource => ({
+  id: row.id,
+  session_id: row.session_id,
+  type: row.type,
+  points: row.points,
+  color: row.color,
+  stroke_width: row.stroke_width,
+  text: row.text,
+  font_size: row.font_size,
+  position: row.position,
+  rotation: row.rotation,
+  scale: row.scale,
+  anchor_id: row.anchor_id,
+  measurement: row.measurement,
+  version: row.version,
+  created_by: row.created_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+  deleted_at: row.deleted_at
+});
+
+const recordRevision = async (
+  client: PoolClient,
+  annotation: any,
+  action: AnnotationRevisionAction,
+  userId: string
+) => {
+  await client.query(
+    `INSERT INTO annotation_revisions (annotation_id, session_id, version, action, snapshot, changed_by)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [annotation.id, annotation.session_id, annotation.version, action, formatAnnotation(annotation), userId]
+  );
+};
+
+export const listAnnotations = async (db: Pool, sessionId: string, includeDeleted = false) => {
+  const result = await db.query(
+    `SELECT ${ANNOTATION_COLUMNS} FROM annotations
+     WHERE session_id = $1 ${includeDeleted ? '' : 'AND deleted_at IS NULL'}
+     ORDER BY created_at ASC`,
+    [sessionId]
+  );
+
+  return result.rows.map(formatAnnotation);
+};
+
+// Revisions for a whole session in the order the edits happened
+export const listSessionRevisions = async (db: Pool, sessionId: string, since?: Date) => {
+  const values: any[] = [sessionId];
+
+  if (since) {
+    values.push(since);
+  }
+
+  const result = await db.query(
+    `SELECT ${REVISION_COLUMNS}
+     FROM annotation_revisions
+     WHERE session_id = $1 ${since ? 'AND created_at > $2' : ''}
+     ORDER BY created_at ASC, version ASC`,
+    values
+  );
+
+  return result.rows;
+};
+
+// Revisions made after a collaboration cursor (see session-event.service)
+export const listSessionRevisionsAfter = async (db: Pool, sessionId: string, cursor: string) => {
+  const result = await db.query(
+    `SELECT ${REVISION_COLUMNS}
+     FROM annotation_revisions
+     WHERE session_id = $1 AND sequence > $2
+     ORDER BY sequence ASC`,
+    [sessionId, cursor]
+  );
+
+  return result.rows;
+};
+
+export const listAnnotationRevisions = async (db: Pool, sessionId: string, annotationId: string) => {
+  const result = await db.query(
+    `SELECT ${REVISION_COLUMNS}
+     FROM annotation_revisions
+     WHERE annotation_id = $1 AND session_id = $2
+     ORDER BY version ASC`,
+    [annotationId, sessionId]
+  );
+
+  return result.rows;
+};
+
+// The value is always derived from the points, whatever the client sent
+const withMeasuredValue = (measurement: Measurement): Measurement => ({
+  ...measurement,
+  value: measureValue(measurement.kind, measurement.points)
+});
+
+// Callers validate the body with validateAnnotation first
+export const createAnnotation = async (db: Pool, sessionId: string, userId: string, body: AnnotationInput) => {
+  const {
+    type, points, color, stroke_width, text, font_size,
+    position, rotation, scale, anchor_id, measurement
+  } = body;
+
+  const annotation = await withTransaction(db, async (client) => {
+    const result = await client.query(
+      `INSERT INTO annotations
+         (session_id, type, points, color, stroke_width, text, font_size,
+          position, rotation, scale, anchor_id, measurement, created_by)
+       VALUES ($1, $2, $3, COALESCE($4, '#FF0000'), COALESCE($5, 3), $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING ${ANNOTATION_COLUMNS}`,
+      [
+        sessionId, type, JSON.stringify(points || []), color, stroke_width, text, font_size,
+        position ? JSON.stringify(position) : null,
+        rotation ? JSON.stringify(rotation) : null,
+        scale ? JSON.stringify(scale) : null,
+        anchor_id,
+        measurement ? JSON.stringify(withMeasuredValue(measurement)) : null,
+        userId
+      ]
+    );
+
+    await recordRevision(client, result.rows[0], 'create', userId);
+    return result.rows[0];
+  });
+
+  return formatAnnotation(annotation);
+};
+
+export type AnnotationUpdateResult =
+  | { status: 'updated'; annotation: AnnotationResource }
+  // The annotation does not exist or was deleted
+  | { status: 'not_found' }
+  // The changes would leave the type and measurement out of step
+  | { status: 'invalid'; error: string };
+
+// Measurement annotations carry a measurement and nothing else does. The
+// create schema checks this; an update can change either half, so it is
+// checked against the row as it would be after the update.
+const measurementError = (type: string, measurement: Measurement | null) => {
+  if (type === 'measurement' && !measurement) {
+    return 'measurement is required on measurement annotations';
+  }
+  if (type !== 'measurement' && measurement) {
+    return 'measurement is only allowed on measurement annotations';
+  }
+  return null;
+};
+
+export const updateAnnotation = async (
+  db: Pool,
+  sessionId: string,
+  annotationId: string,
+  userId: string,
+  body: AnnotationInput
+): Promise<AnnotationUpdateResult> => {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  const changes: AnnotationInput = body.measurement
+    ? { ...body, measurement: withMeasuredValue(body.measurement) }
+    : body;
+
+  for (const field of ANNOTATION_EDITABLE_FIELDS) {
+    if (changes[field] !== undefined) {
+      values.push(JSON_FIELDS.includes(field) && changes[field] !== null
+        ? JSON.stringify(changes[field])
+        : changes[field]);
+      updates.push(`${field} = $${values.length}`);
+    }
+  }
+
+  values.push(annotationId, sessionId);
+  return withTransaction(db, async (client): Promise<AnnotationUpdateResult> => {
+    const current = await client.query(
+      `SELECT type, measurement FROM annotations
+       WHERE id = $1 AND session_id = $2 AND deleted_at IS NULL
+       FOR UPDATE`,
+      [annotationId, sessionId]
+    );
+
+    if (current.rows.length === 0) {
+      return { status: 'not_found' };
+    }
+
+    const error = measurementError(
+      changes.type ?? current.rows[0].type,
+      changes.measurement !== undefined ? changes.measurement : current.rows[0].measurement
+    );
+    if (error) {
+      return { status: 'invalid', error };
+    }
+
+    const result = await client.query(
+      `UPDATE annotations
+       SET ${updates.join(', ')}, version = version + 1, updated_at = NOW()
+       WHERE id = $${values.length - 1} AND session_id = $${values.length} AND deleted_at IS NULL
+       RETURNING ${ANNOTATION_COLUMNS}`,
+      values
+    );
+
+    await recordRevision(client, result.rows[0], 'update', userId);
+    return { status: 'updated', annotation: formatAnnotation(result.rows[0]) };
+  });
+};
+
+// Soft delete; returns null when the annotation does not exist or was already deleted
+export const deleteAnnotation = async (
+  db: Pool,
+  sessionId: string,
+  annotationId: string,
+  userId: string
+) => {
+  const annotation = await withTransaction(db, async (client) => {
+    const result = await client.query(
+      `UPDATE annotations
+       SET deleted_at = NOW(), version = version + 1, updated_at = NOW()
+       WHERE id = $1 AND session_id = $2 AND deleted_at IS NULL
+       RETURNING ${ANNOTATION_COLUMNS}`,
+      [annotationId, sessionId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    await recordRevision(client, result.rows[0], 'delete', userId);
+    return result.rows[0];
+  });
+
+  return annotation ? formatAnnotation(annotation) : null;
+};
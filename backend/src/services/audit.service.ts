@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { AuditAction, AuditLogEntry } from 'ar-inspection-platform-shared';
+import { withTransaction } from '../database/transaction';
+
+export type { AuditAction, AuditLogEntry };
+
+export interface AuditEvent {
+  action: AuditAction;
+  userId?: string | null;
+  organizationId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Record<string, any>;
+}
+
+export interface AuditLogFilters {
+  organizationId: string;
+  action?: AuditAction;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditChainFailure {
+  sequence: number;
+  reason: 'hash_mismatch' | 'broken_link' | 'missing_entries' | 'out_of_order';
+}
+
+export interface AuditChainResult {
+  valid: boolean;
+  checked: number;
+  // The last entry checked; recording it elsewhere lets a later run detect
+  // entries removed from the end of the chain
+  head: { sequence: number; hash: string } | null;
+  failure?: AuditChainFailure;
+}
+
+// prev_hash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Serializes appends so every entry links to the one before it
+const AUDIT_LOCK_ID = 727074;
+
+const AUDIT_COLUMNS = `sequence, action, user_id, organization_id, ip_address, user_agent,
+  metadata, created_at, prev_hash, hash`;
+
+// JSON with object keys sorted at every level. JSONB doesn't keep key order,
+// so a hash over plain JSON.stringify output wouldn't survive a round trip.
+const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashAuditEntry = (entry: Omit<AuditLogEntry, 'hash'>): string => {
+  const content = canonicalJson({
+    sequence: entry.sequence,
+    action: entry.action,
+    user_id: entry.user_id,
+    organization_id: entry.organization_id,
+    ip_address: entry.ip_address,
+    user_agent: entry.user_agent,
+    metadata: entry.metadata,
+    created_at: entry.created_at,
+    prev_hash: entry.prev_hash
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+};
+
+export const formatAuditEntry = (row: any): AuditLogEntry => ({
+  sequence: Number(row.sequence),
+  action: row.action,
+  user_id: row.user_id,
+  organization_id: row.organization_id,
+  ip_address: row.ip_address,
+  user_agent: row.user_agent,
+  metadata: row.metadata || {},
+  created_at: new Date(row.created_at).toISOString(),
+  prev_hash: row.prev_hash,
+  hash: row.hash
+});
+
+// Appends the next link of the chain while holding the audit lock, so
+// concurrent writers can't both claim the same predecessor
+const appendAuditEntry = async (client: PoolClient, event: AuditEvent): Promise<AuditLogEntry> => {
+  await client.query('SELECT pg_advisory_xact_lock($1)', [AUDIT_LOCK_ID]);
+
+  const latest = await client.query('SELECT sequence, hash FROM audit_log ORDER BY sequence DESC LIMIT 1');
+  const previous = latest.rows[0];
+
+  const entry: Omit<AuditLogEntry, 'hash'> = {
+    sequence: previous ? Number(previous.sequence) + 1 : 1,
+    action: event.action,
+    user_id: event.userId || null,
+    organization_id: event.organizationId || null,
+    ip_address: event.ipAddress || null,
+    user_agent: event.userAgent?.slice(0, 500) || null,
+    metadata: event.metadata || {},
+    created_at: new Date().toISOString(),
+    prev_hash: previous ? previous.hash : GENESIS_HASH
+  };
+  const hash = hashAuditEntry(entry);
+
+  await client.query(
+    `INSERT INTO audit_log (${AUDIT_COLUMNS})
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      entry.sequence, entry.action, entry.user_id, entry.organization_id, entry.ip_address,
+      entry.user_agent, JSON.stringify(entry.metadata), new Date(entry.created_at), entry.prev_hash, hash
+    ]
+  );
+
+  return { ...entry, hash };
+};
+
+export const recordAuditEvent = async (db: Pool, event: AuditEvent): Promise<AuditLogEntry> => {
+  return withTransaction(db, (client) => appendAuditEntry(client, event));
+};
+
+// Entries belonging to the organization, plus the sign-in activity of its
+// current members, which happens outside any organization
+const buildAuditFilter = (filters: AuditLogFilters) => {
+  const values: any[] = [filters.organizationId];
+  const conditions = [
+    `(organization_id = $1 OR (organization_id IS NULL AND action LIKE 'auth.%'
+      AND user_id IN (SELECT user_id FROM organization_memberships WHERE organization_id = $1)))`
+  ];
+
+  if (filters.action) {
+    values.push(filters.action);
+    conditions.push(`action = $${values.length}`);
+  }
+  if (filters.userId) {
+    values.push(filters.userId);
+    conditions.push(`user_id = $${values.length}`);
+  }
+  if (filters.from) {
+    values.push(new Date(filters.from));
+    conditions.push(`created_at >= $${values.length}`);
+  }
+  if (filters.to) {
+    values.push(new Date(filters.to));
+    conditions.push(`created_at <= $${values.length}`);
+  }
+
+  return { conditions, values };
+};
+
+// Newest first
+export const listAuditEvents = async (
+  db: Pool,
+  filters: AuditLogFilters,
+  limit = 50,
+  offset = 0
+): Promise<AuditLogEntry[]> => {
+  const { conditions, values } = buildAuditFilter(filters);
+
+  const result = await db.query(
+    `SELECT ${AUDIT_COLUMNS} FROM audit_log
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY sequence DESC
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, limit, offset]
+  );
+
+  return result.rows.map(formatAuditEntry);
+};
+
+// Every matching entry in chain order, read in batches so exports of long
+// histories don't sit in memory
+export async function* iterateAuditEvents(
+  db: Pool,
+  filters?: AuditLogFilters,
+  batchSize = 500
+): AsyncGenerator<AuditLogEntry> {
+  const { conditions, values } = filters ? buildAuditFilter(filters) : { conditions: [], values: [] };
+  let after = 0;
+
+  for (;;) {
+    const result = await db.query(
+      `SELECT ${AUDIT_COLUMNS} FROM audit_log
+       WHERE ${[...conditions, `sequence > $${values.length + 1}`].join(' AND ')}
+       ORDER BY sequence LIMIT $${values.length + 2}`,
+      [...values, after, batchSize]
+    );
+
+    for (const row of result.rows) {
+      yield formatAuditEntry(row);
+    }
+
+    if (result.rows.length < batchSize) {
+      return;
+    }
+    after = Number(result.rows[result.rows.length - 1].sequence);
+  }
+}
+
+// Checks entries in chain order: each hash must match its content and each
+// entry must link to its predecessor. A full chain must start at sequence 1
+// with no gaps; a filtered export may skip entries, in which case only
+// adjacent sequences are linked.
+export const verifyAuditChain = async (
+  entries: Iterable<AuditLogEntry> | AsyncIterable<AuditLogEntry>,
+  options: { allowGaps?: boolean } = {}
+): Promise<AuditChainResult> => {
+  let head: AuditChainResult['head'] = null;
+  let checked = 0;
+
+  const fail = (sequence: number, reason: AuditChainFailure['reason']): AuditChainResult => ({
+    valid: false,
+    checked,
+    head,
+    failure: { sequence, reason }
+  });
+
+  for await (const entry of entries) {
+    const { hash, ...content } = entry;
+    const expectedSequence: number = head ? head.sequence + 1 : 1;
+
+    if (head && entry.sequence <= head.sequence) {
+      return fail(entry.sequence, 'out_of_order');
+    }
+    if (entry.sequence !== expectedSequence && !options.allowGaps) {
+      return fail(expectedSequence, 'missing_entries');
+    }
+    if (hashAuditEntry(content) !== hash) {
+      return fail(entry.sequence, 'hash_mismatch');
+    }
+
+    // With gaps allowed, an entry after a gap can't be checked against the one before
+    const expectedPrevious = entry.sequence === 1
+      ? GENESIS_HASH
+      : (head && head.sequence === entry.sequence - 1 ? head.hash : null);
+    if (expectedPrevious && entry.prev_hash !== expectedPrevious) {
+      return fail(entry.sequence, 'broken_link');
+    }
+
+    head = { sequence: entry.sequence, hash };
+    checked += 1;
+  }
+
+  return { valid: true, checked, head };
+};
@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import {
+  CHECKLIST_ITEM_TYPES,
+  FINDING_RESULTS,
+  ChecklistItemType,
+  FindingResult
+} from 'ar-inspection-platform-shared';
+import { withTransaction } from '../database/transaction';
+
+export type { ChecklistItemType, FindingResult };
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  type: ChecklistItemType;
+  required: boolean;
+  requires_photo: boolean;
+  guidance?: string;
+  // Numeric items only; a reading outside [min, max] fails
+  unit?: string;
+  min?: number;
+  max?: number;
+  target?: number;
+  tolerance?: number;
+}
+
+export interface ChecklistSection {
+  id: string;
+  title: string;
+  items: ChecklistItem[];
+}
+
+const TEMPLATE_COLUMNS = `id, organization_id, created_by, name, description, sections,
+  archived_at, created_at, updated_at`;
+
+const CHECKLIST_COLUMNS = `id, session_id, template_id, name, sections, attached_by,
+  completed_at, completed_by, created_at, updated_at`;
+
+const isNumber = (value: any): value is number => typeof value === 'number' && isFinite(value);
+
+const newId = () => crypto.randomUUID();
+
+// Validates a template's sections and fills in defaults and ids. Existing ids
+// are kept so editing a template doesn't orphan references to its items.
+export const normalizeSections = (raw: any): { error?: string; sections?: ChecklistSection[] } => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: 'At least one section is required' };
+  }
+
+  const sections: ChecklistSection[] = [];
+  const seenIds = new Set<string>();
+
+  for (const section of raw) {
+    if (!section || typeof section.title !== 'string' || !section.title.trim()) {
+      return { error: 'Every section needs a title' };
+    }
+    if (!Array.isArray(section.items) || section.items.length === 0) {
+      return { error: `Section "${section.title}" needs at least one item` };
+    }
+
+    const items: ChecklistItem[] = [];
+
+    for (const item of section.items) {
+      if (!item || typeof item.label !== 'string' || !item.label.trim()) {
+        return { error: 'Every item needs a label' };
+      }
+
+      const type = item.type || 'pass_fail';
+      if (!(CHECKLIST_ITEM_TYPES as readonly string[]).includes(type)) {
+        return { error: `Invalid item type for "${item.label}"` };
+      }
+
+      const id = typeof item.id === 'string' && item.id ? item.id.slice(0, 64) : newId();
+      if (seenIds.has(id)) {
+        return { error: `Duplicate item id ${id}` };
+      }
+      seenIds.add(id);
+
+      const normalized: ChecklistItem = {
+        id,
+        label: item.label.trim(),
+        type,
+        required: item.required !== false,
+        requires_photo: item.requires_photo === true
+      };
+
+      if (typeof item.guidance === 'string' && item.guidance.trim()) {
+        normalized.guidance = item.guidance.trim();
+      }
+
+      if (type === 'numeric') {
+        for (const field of ['min', 'max', 'target', 'tolerance']) {
+          if (item[field] !== undefined && item[field] !== null && !isNumber(item[field])) {
+            return { error: `${field} must be a number for "${item.label}"` };
+          }
+        }
+
+        let { min, max } = item;
+
+        // A target with a tolerance is shorthand for the range around it
+        if (isNumber(item.target) && isNumber(item.tolerance)) {
+          if (item.tolerance < 0) {
+            return { error: `Tolerance must not be negative for "${item.label}"` };
+          }
+          min = item.target - item.tolerance;
+          max = item.target + item.tolerance;
+          normalized.target = item.target;
+          normalized.tolerance = item.tolerance;
+        }
+
+        if (isNumber(min) && isNumber(max) && min > max) {
+          return { error: `min must not exceed max for "${item.label}"` };
+        }
+
+        if (isNumber(min)) {
+          normalized.min = min;
+        }
+        if (isNumber(max)) {
+          normalized.max = max;
+        }
+        if (typeof item.unit === 'string' && item.unit.trim()) {
+          normalized.unit = item.unit.trim();
+        }
+      }
+
+      items.push(normalized);
+    }
+
+    sections.push({
+      id: typeof section.id === 'string' && section.id ? section.id.slice(0, 64) : newId(),
+      title: section.title.trim(),
+      items
+    });
+  }
+
+  return { sections };
+};
+
+const findItem = (sections: ChecklistSection[], itemId: string): ChecklistItem | null => {
+  for (const section of sections) {
+    const item = section.items.find((candidate) => candidate.id === itemId);
+    if (item) {
+      return item;
+    }
+  }
+  return null;
+};
+
+const allItems = (sections: ChecklistSection[]) => sections.flatMap((section) => section.items);
+
+export const isWithinTolerance = (item: ChecklistItem, value: number): boolean => {
+  return (item.min === undefined || value >= item.min) && (item.max === undefined || value <= item.max);
+};
+
+export const formatTemplate = (row: any) => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  created_by: row.created_by,
+  name: row.name,
+  description: row.description,
+  sections: row.sections,
+  archived_at: row.archived_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+export const listTemplates = async (db: Pool, organizationId: string | null, userId: string) => {
+  // Personal templates are private to their author; organization templates are shared
+  const result = organizationId
+    ? await db.query(
+      `SELECT ${TEMPLATE_COLUMNS} FROM checklist_templates
+       WHERE organization_id = $1 AND archived_at IS NULL
+       ORDER BY name`,
+      [organizationId]
+    )
+    : await db.query(
+      `SELECT ${TEMPLATE_COLUMNS} FROM checklist_templates
+       WHERE organization_id IS NULL AND created_by = $1 AND archived_at IS NULL
+       ORDER BY name`,
+      [userId]
+    );
+
+  return result.rows.map(formatTemplate);
+};
+
+export const getTemplate = async (db: Pool | PoolClient, templateId: string) => {
+  const result = await db.query(`SELECT ${TEMPLATE_COLUMNS} FROM checklist_templates WHERE id = $1`, [templateId]);
+  return result.rows[0] || null;
+};
+
+// Callers normalize the sections with normalizeSections first
+export const createTemplate = async (
+  db: Pool,
+  input: { organizationId: string | null; userId: string; name: string; description?: string; sections: ChecklistSection[] }
+) => {
+  const result = await db.query(
+    `INSERT INTO checklist_templates (organization_id, created_by, name, description, sections)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${TEMPLATE_COLUMNS}`,
+    [input.organizationId, input.userId, input.name, input.description || null, JSON.stringify(input.sections)]
+  );
+
+  return formatTemplate(result.rows[0]);
+};
+
+export const updateTemplate = async (
+  db: Pool,
+  templateId: string,
+  changes: { name?: string; description?: string; sections?: ChecklistSection[] }
+) => {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (changes.name !== undefined) {
+    values.push(changes.name);
+    updates.push(`name = $${values.length}`);
+  }
+  if (changes.description !== undefined) {
+    values.push(changes.description);
+    updates.push(`description = $${values.length}`);
+  }
+  if (changes.sections !== undefined) {
+    values.push(JSON.stringify(changes.sections));
+    updates.push(`sections = $${values.length}`);
+  }
+
+  values.push(templateId);
+  const result = await db.query(
+    `UPDATE checklist_templates SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $${values.length} AND archived_at IS NULL
+     RETURNING ${TEMPLATE_COLUMNS}`,
+    values
+  );
+
+  return result.rows[0] ? formatTemplate(result.rows[0]) : null;
+};
+
+// Archived templates stay readable for checklists that were built from them
+export const archiveTemplate = async (db: Pool, templateId: string) => {
+  await db.query(
+    `UPDATE checklist_templates SET archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND archived_at IS NULL`,
+    [templateId]
+  );
+};
+
+const loadFindings = async (db: Pool | PoolClient, checklistIds: string[]) => {
+  if (checklistIds.length === 0) {
+    return [];
+  }
+
+  const placeholders = checklistIds.map((_, i) => `$${i + 1}`).join(', ');
+  const findings = await db.query(
+    `SELECT id, checklist_id, item_id, result, numeric_value, notes, recorded_by, created_at, updated_at
+     FROM checklist_findings WHERE checklist_id IN (${placeholders})`,
+    checklistIds
+  );
+
+  if (findings.rows.length === 0) {
+    return [];
+  }
+
+  const findingIds = findings.rows.map((row: any) => row.id);
+  const findingPlaceholders = findingIds.map((_: string, i: number) => `$${i + 1}`).join(', ');
+  const annotations = await db.query(
+    `SELECT finding_id, annotation_id FROM checklist_finding_annotations
+     WHERE finding_id IN (${findingPlaceholders})`,
+    findingIds
+  );
+  const media = await db.query(
+    `SELECT finding_id, media_id FROM checklist_finding_media
+     WHERE finding_id IN (${findingPlaceholders})`,
+    findingIds
+  );
+
+  return findings.rows.map((row: any) => ({
+    ...row,
+    annotation_ids: annotations.rows.filter((link: any) => link.finding_id === row.id).map((link: any) => link.annotation_id),
+    media_ids: media.rows.filter((link: any) => link.finding_id === row.id).map((link: any) => link.media_id)
+  }));
+};
+
+const formatFinding = (row: any, item: ChecklistItem | null) => ({
+  id: row.id,
+  item_id: row.item_id,
+  result: row.result,
+  value: row.numeric_value,
+  within_tolerance: item?.type === 'numeric' && row.numeric_value !== null
+    ? isWithinTolerance(item, row.numeric_value)
+    : null,
+  notes: row.notes,
+  annotation_ids: row.annotation_ids,
+  media_ids: row.media_ids,
+  recorded_by: row.recorded_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+export const formatChecklist = (row: any, findings: any[]) => {
+  const items = allItems(row.sections);
+  const own = findings.filter((finding) => finding.checklist_id === row.id);
+
+  return {
+    id: row.id,
+    session_id: row.session_id,
+    template_id: row.template_id,
+    name: row.name,
+    sections: row.sections,
+    findings: own.map((finding) => formatFinding(finding, findItem(row.sections, finding.item_id))),
+    progress: {
+      answered: own.filter((finding) => finding.result).length,
+      total: items.length,
+      failed: own.filter((finding) => finding.result === 'fail').length
+    },
+    attached_by: row.attached_by,
+    completed_at: row.completed_at,
+    completed_by: row.completed_by,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
+
+export const listSessionChecklists = async (db: Pool, sessionId: string) => {
+  const result = await db.query(
+    `SELECT ${CHECKLIST_COLUMNS} FROM session_checklists WHERE session_id = $1 ORDER BY created_at`,
+    [sessionId]
+  );
+  const findings = await loadFindings(db, result.rows.map((row: any) => row.id));
+
+  return result.rows.map((row: any) => formatChecklist(row, findings));
+};
+
+// Raw row for the session's checklist, or null
+export const findSessionChecklist = async (db: Pool | PoolClient, sessionId: string, checklistId: string) => {
+  const result = await db.query(
+    `SELECT ${CHECKLIST_COLUMNS} FROM session_checklists WHERE id = $1 AND session_id = $2`,
+    [checklistId, sessionId]
+  );
+  return result.rows[0] || null;
+};
+
+export const getSessionChecklist = async (db: Pool | PoolClient, sessionId: string, checklistId: string) => {
+  const row = await findSessionChecklist(db, sessionId, checklistId);
+  return row ? formatChecklist(row, await loadFindings(db, [row.id])) : null;
+};
+
+// Copies the template's current sections onto the session
+export const attachChecklist = async (db: Pool, sessionId: string, template: any, userId: string) => {
+  const result = await db.query(
+    `INSERT INTO session_checklists (session_id, template_id, name, sections, attached_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${CHECKLIST_COLUMNS}`,
+    [sessionId, template.id, template.name, JSON.stringify(template.sections), userId]
+  );
+
+  return formatChecklist(result.rows[0], []);
+};
+
+// Only checklists nobody has started filling in can be detached
+export const detachChecklist = async (db: Pool, sessionId: string, checklistId: string) => {
+  const result = await db.query(
+    `DELETE FROM session_checklists
+     WHERE id = $1 AND session_id = $2 AND completed_at IS NULL
+       AND NOT EXISTS (SELECT 1 FROM checklist_findings f WHERE f.checklist_id = $1)
+     RETURNING id`,
+    [checklistId, sessionId]
+  );
+
+  return result.rows.length > 0;
+};
+
+const idsBelongToSession = async (db: Pool, table: 'annotations' | 'media', ids: string[], sessionId: string) => {
+  if (ids.length === 0) {
+    return true;
+  }
+
+  const placeholders = ids.map((_, i) => `$${i + 2}`).join(', ');
+  const deletedFilter = table === 'annotations' ? 'AND deleted_at IS NULL' : '';
+  const result = await db.query(
+    `SELECT id FROM ${table} WHERE session_id = $1 ${deletedFilter} AND id IN (${placeholders})`,
+    [sessionId, ...ids]
+  );
+
+  return result.rows.length === new Set(ids).size;
+};
+
+const isIdList = (value: any) => Array.isArray(value) && value.every((id) => typeof id === 'string' && id);
+
+// Validates a finding against its item and the session's evidence. Returns an
+// error message, or null when the body is acceptable.
+export const validateFinding = async (db: Pool, checklist: any, itemId: string, body: any): Promise<string | null> => {
+  const item = findItem(checklist.sections, itemId);
+  if (!item) {
+    return 'Unknown checklist item';
+  }
+
+  if (!body || typeof body !== 'object') {
+    return 'Finding body is required';
+  }
+
+  if (body.result !== undefined && body.result !== null && !(FINDING_RESULTS as readonly string[]).includes(body.result)) {
+    return 'Result must be pass, fail or na';
+  }
+
+  if (item.type === 'numeric') {
+    if (body.value !== undefined && body.value !== null && !isNumber(body.value)) {
+      return 'Value must be a number';
+    }
+    if (body.result && body.result !== 'na' && body.value === undefined) {
+      return 'Numeric items are scored from their value';
+    }
+  } else if (body.value !== undefined && body.value !== null) {
+    return 'Only numeric items take a value';
+  }
+
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') {
+    return 'Notes must be a string';
+  }
+
+  for (const field of ['annotation_ids', 'media_ids']) {
+    if (body[field] !== undefined && !isIdList(body[field])) {
+      return `${field} must be an array of ids`;
+    }
+  }
+
+  if (body.annotation_ids && !await idsBelongToSession(db, 'annotations', body.annotation_ids, checklist.session_id)) {
+    return 'Annotations must belong to this session';
+  }
+
+  if (body.media_ids && !await idsBelongToSession(db, 'media', body.media_ids, checklist.session_id)) {
+    return 'Media must belong to this session';
+  }
+
+  return null;
+};
+
+const replaceLinks = async (
+  client: PoolClient,
+  table: 'checklist_finding_annotations' | 'checklist_finding_media',
+  column: 'annotation_id' | 'media_id',
+  findingId: string,
+  ids: string[]
+) => {
+  await client.query(`DELETE FROM ${table} WHERE finding_id = $1`, [findingId]);
+  for (const id of new Set(ids)) {
+    await client.query(`INSERT INTO ${table} (finding_id, ${column}) VALUES ($1, $2)`, [findingId, id]);
+  }
+};
+
+// Creates or updates the finding for an item. Numeric readings are scored
+// against the item's tolerance unless marked N/A. Fields left out of the body
+// keep their current value; evidence lists replace the existing links.
+export const recordFinding = async (db: Pool, checklist: any, itemId: string, userId: string, body: any) => {
+  const item = findItem(checklist.sections, itemId) as ChecklistItem;
+
+  return withTransaction(db, async (client) => {
+    const existing = await client.query(
+      'SELECT result, numeric_value, notes FROM checklist_findings WHERE checklist_id = $1 AND item_id = $2',
+      [checklist.id, itemId]
+    );
+    const current = existing.rows[0] || { result: null, numeric_value: null, notes: null };
+
+    let result = body.result !== undefined ? body.result : current.result;
+    let value = body.value !== undefined ? body.value : current.numeric_value;
+
+    if (item.type === 'numeric') {
+      if (body.result === 'na') {
+        value = null;
+      } else if (body.value !== undefined) {
+        result = value === null ? null : (isWithinTolerance(item, value) ? 'pass' : 'fail');
+      }
+    }
+
+    const saved = await client.query(
+      `INSERT INTO checklist_findings (checklist_id, item_id, result, numeric_value, notes, recorded_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (checklist_id, item_id) DO UPDATE
+       SET result = EXCLUDED.result, numeric_value = EXCLUDED.numeric_value, notes = EXCLUDED.notes,
+           recorded_by = EXCLUDED.recorded_by, updated_at = CURRENT_TIMESTAMP
+       RETURNING id`,
+      [
+        checklist.id, itemId, result, value,
+        body.notes !== undefined ? body.notes : current.notes, userId
+      ]
+    );
+    const findingId = saved.rows[0].id;
+
+    if (body.annotation_ids !== undefined) {
+      await replaceLinks(client, 'checklist_finding_annotations', 'annotation_id', findingId, body.annotation_ids);
+    }
+    if (body.media_ids !== undefined) {
+      await replaceLinks(client, 'checklist_finding_media', 'media_id', findingId, body.media_ids);
+    }
+
+    await client.query(
+      'UPDATE session_checklists SET updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [checklist.id]
+    );
+
+    return getSessionChecklist(client, checklist.session_id, checklist.id);
+  });
+};
+
+// Items that still block completion: required ones without a result, and
+// photo-evidence items (not marked N/A) without a linked photo
+export const findIncompleteItems = async (db: Pool, checklist: any) => {
+  const findings = await loadFindings(db, [checklist.id]);
+  const photoIds = new Set<string>();
+
+  const linkedMedia = findings.flatMap((finding: any) => finding.media_ids);
+  if (linkedMedia.length > 0) {
+    const placeholders = linkedMedia.map((_: string, i: number) => `$${i + 1}`).join(', ');
+    const photos = await db.query(
+      `SELECT id FROM media WHERE type = 'photo' AND id IN (${placeholders})`,
+      linkedMedia
+    );
+    photos.rows.forEach((row: any) => photoIds.add(row.id));
+  }
+
+  const incomplete: { item_id: string; label: string; reason: string }[] = [];
+
+  for (const item of allItems(checklist.sections)) {
+    const finding = findings.find((candidate: any) => candidate.item_id === item.id);
+
+    if (item.required && !finding?.result) {
+      incomplete.push({ item_id: item.id, label: item.label, reason: 'missing_result' });
+    } else if (item.requires_photo && finding?.result !== 'na'
+      && !(finding?.media_ids || []).some((id: string) => photoIds.has(id))) {
+      incomplete.push({ item_id: item.id, label: item.label, reason: 'missing_photo' });
+    }
+  }
+
+  return incomplete;
+};
+
+// Returns null if the checklist was completed concurrently
+export const completeChecklist = async (db: Pool, checklist: any, userId: string) => {
+  const result = await db.query(
+    `UPDATE session_checklists
+     SET completed_at = CURRENT_TIMESTAMP, completed_by = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2 AND completed_at IS NULL
+     RETURNING id`,
+    [userId, checklist.id]
+  );
+
+  return result.rows.length > 0 ? getSessionChecklist(db, checklist.session_id, checklist.id) : null;
+};
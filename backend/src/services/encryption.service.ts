@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+// TOTP_ENCRYPTION_KEY is 32 bytes as 64 hex characters. Development falls back
+// to a key derived from JWT_SECRET so setup needs no extra variable.
+const getKey = (): Buffer => {
+  const configured = process.env.TOTP_ENCRYPTION_KEY;
+
+  if (configured) {
+    const key = Buffer.from(configured, 'hex');
+    if (key.length !== 32) {
+      throw new Error('TOTP_ENCRYPTION_KEY must be 64 hex characters');
+    }
+    return key;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TOTP_ENCRYPTION_KEY is required in production');
+  }
+
+  return crypto.createHash('sha256').update(process.env.JWT_SECRET || 'dev_jwt_secret').digest();
+};
+
+// Returns `iv:authTag:ciphertext`, each base64
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, authTag, ciphertext] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,293 @@
+import { Pool } from 'pg';
+import { getBoundsOfDistance, getDistance } from 'geolib';
+import { withTransaction } from '../database/transaction';
+
+export interface FeedQuery {
+  userId: string;
+  organizationId: string | null;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  skills: string[];
+  includeUnmatched: boolean;
+}
+
+export interface AcceptResult {
+  status: 'accepted' | 'not_found' | 'unavailable' | 'expired';
+  // Set when accepted
+  job?: any;
+  sessionId?: string;
+}
+
+const MAX_FEED_SIZE = 100;
+
+const EDITABLE_FIELDS = [
+  'title', 'description', 'address', 'latitude', 'longitude',
+  'required_skills', 'window_start', 'window_end', 'price', 'currency'
+];
+
+const JOB_COLUMNS = `id, organization_id, client_id, title, description, address, latitude, longitude,
+  required_skills, window_start, window_end, price, currency, status, assigned_to, session_id,
+  accepted_at, created_at, updated_at`;
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase();
+
+// Open jobs whose time window has passed are reported as expired
+export const formatJob = (row: any) => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  client_id: row.client_id,
+  title: row.title,
+  description: row.description,
+  address: row.address,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  required_skills: row.required_skills || [],
+  window_start: row.window_start,
+  window_end: row.window_end,
+  price: parseFloat(row.price),
+  currency: row.currency,
+  status: row.status === 'open' && new Date(row.window_end) <= new Date() ? 'expired' : row.status,
+  assigned_to: row.assigned_to,
+  session_id: row.session_id,
+  accepted_at: row.accepted_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const serializeField = (field: string, value: any) => {
+  if (field === 'required_skills') {
+    return JSON.stringify(Array.from(new Set(value.map(normalizeSkill))));
+  }
+  if (field === 'title') {
+    return value.trim();
+  }
+  if (field === 'window_start' || field === 'window_end') {
+    return new Date(value);
+  }
+  return value;
+};
+
+// Callers validate the body with createJobSchema first
+export const createJob = async (
+  db: Pool,
+  clientId: string,
+  organizationId: string | null,
+  body: any
+) => {
+  const result = await db.query(
+    `INSERT INTO inspection_jobs
+       (organization_id, client_id, title, description, address, latitude, longitude,
+        required_skills, window_start, window_end, price, currency)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12, 'USD'))
+     RETURNING ${JOB_COLUMNS}`,
+    [
+      organizationId, clientId, body.title.trim(), body.description || null, body.address || null,
+      body.latitude, body.longitude, serializeField('required_skills', body.required_skills || []),
+      new Date(body.window_start), new Date(body.window_end), body.price, body.currency || null
+    ]
+  );
+
+  return formatJob(result.rows[0]);
+};
+
+export const getJob = async (db: Pool, jobId: string) => {
+  const result = await db.query(`SELECT ${JOB_COLUMNS} FROM inspection_jobs WHERE id = $1`, [jobId]);
+  return result.rows[0] || null;
+};
+
+// Jobs posted in the given scope; `clientId` narrows it to one poster
+export const listJobs = async (
+  db: Pool,
+  organizationId: string | null,
+  clientId: string | null,
+  status?: string
+) => {
+  const conditions: string[] = [];
+  const values: any[] = [];
+
+  if (organizationId) {
+    values.push(organizationId);
+    conditions.push(`organization_id = $${values.length}`);
+  } else {
+    conditions.push('organization_id IS NULL');
+  }
+
+  if (clientId) {
+    values.push(clientId);
+    conditions.push(`client_id = $${values.length}`);
+  }
+
+  if (status) {
+    values.push(status);
+    conditions.push(`status = $${values.length}`);
+  }
+
+  const result = await db.query(
+    `SELECT ${JOB_COLUMNS} FROM inspection_jobs
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY created_at DESC`,
+    values
+  );
+
+  return result.rows.map(formatJob);
+};
+
+// Only open jobs can be edited. Returns null if the job was taken meanwhile.
+export const updateJob = async (db: Pool, jobId: string, body: any) => {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      values.push(serializeField(field, body[field]));
+      updates.push(`${field} = $${values.length}`);
+    }
+  }
+
+  values.push(jobId);
+  const result = await db.query(
+    `UPDATE inspection_jobs SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $${values.length} AND status = 'open'
+     RETURNING ${JOB_COLUMNS}`,
+    values
+  );
+
+  return result.rows[0] ? formatJob(result.rows[0]) : null;
+};
+
+export const cancelJob = async (db: Pool, jobId: string) => {
+  const result = await db.query(
+    `UPDATE inspection_jobs SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND status = 'open'
+     RETURNING ${JOB_COLUMNS}`,
+    [jobId]
+  );
+
+  return result.rows[0] ? formatJob(result.rows[0]) : null;
+};
+
+export const getUserSkills = async (db: Pool, userId: string): Promise<string[]> => {
+  const result = await db.query('SELECT skills FROM user_profiles WHERE user_id = $1', [userId]);
+  const skills = result.rows[0]?.skills;
+  return Array.isArray(skills) ? skills.map(normalizeSkill) : [];
+};
+
+// Open, unexpired jobs within the radius, nearest first. The bounding box
+// narrows the query; geolib then computes the exact distance for each row.
+export const getJobFeed = async (db: Pool, query: FeedQuery) => {
+  const origin = { latitude: query.latitude, longitude: query.longitude };
+  const radiusMeters = query.radiusKm * 1000;
+  const [southWest, northEast] = getBoundsOfDistance(origin, radiusMeters);
+
+  const values: any[] = [query.userId, southWest.latitude, northEast.latitude];
+  const conditions = [
+    `j.status = 'open'`,
+    'j.window_end > CURRENT_TIMESTAMP',
+    'j.client_id <> $1',
+    'd.job_id IS NULL',
+    'j.latitude BETWEEN $2 AND $3'
+  ];
+
+  // Skip the longitude filter when the box wraps around the antimeridian
+  if (southWest.longitude <= northEast.longitude) {
+    values.push(southWest.longitude, northEast.longitude);
+    conditions.push(`j.longitude BETWEEN $${values.length - 1} AND $${values.length}`);
+  }
+
+  if (query.organizationId) {
+    values.push(query.organizationId);
+    conditions.push(`j.organization_id = $${values.length}`);
+  } else {
+    conditions.push('j.organization_id IS NULL');
+  }
+
+  const result = await db.query(
+    `SELECT j.*
+     FROM inspection_jobs j
+     LEFT JOIN inspection_job_declines d ON d.job_id = j.id AND d.user_id = $1
+     WHERE ${conditions.join(' AND ')}`,
+    values
+  );
+
+  const skills = new Set(query.skills.map(normalizeSkill));
+
+  return result.rows
+    .map((row: any) => {
+      const missingSkills = (row.required_skills || []).filter((skill: string) => !skills.has(skill));
+      return {
+        ...formatJob(row),
+        distance_meters: getDistance(origin, { latitude: row.latitude, longitude: row.longitude }),
+        missing_skills: missingSkills
+      };
+    })
+    .filter((job: any) => job.distance_meters <= radiusMeters)
+    .filter((job: any) => query.includeUnmatched || job.missing_skills.length === 0)
+    .sort((a: any, b: any) => a.distance_meters - b.distance_meters)
+    .slice(0, MAX_FEED_SIZE);
+};
+
+// Hides the job from the inspector's feed; declining twice is a no-op
+export const declineJob = async (db: Pool, jobId: string, userId: string) => {
+  await db.query(
+    `INSERT INTO inspection_job_declines (job_id, user_id)
+     VALUES ($1, $2)
+     ON CONFLICT (job_id, user_id) DO NOTHING`,
+    [jobId, userId]
+  );
+};
+
+// First come, first served: the guarded UPDATE lets exactly one concurrent
+// accept through, and the session is created in the same transaction so a
+// failure leaves the job open.
+export const acceptJob = async (db: Pool, jobId: string, userId: string): Promise<AcceptResult> => {
+  return withTransaction(db, async (client) => {
+    const claimed = await client.query(
+      `UPDATE inspection_jobs
+       SET status = 'assigned', assigned_to = $1, accepted_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND status = 'open' AND window_end > CURRENT_TIMESTAMP
+       RETURNING ${JOB_COLUMNS}`,
+      [userId, jobId]
+    );
+
+    if (claimed.rows.length === 0) {
+      const existing = await client.query(
+        'SELECT status FROM inspection_jobs WHERE id = $1',
+        [jobId]
+      );
+      if (existing.rows.length === 0) {
+        return { status: 'not_found' };
+      }
+      return { status: existing.rows[0].status === 'open' ? 'expired' : 'unavailable' };
+    }
+
+    const job = claimed.rows[0];
+    const session = await client.query(
+      `INSERT INTO sessions (organization_id, client_id, gig_user_id, status, metadata)
+       VALUES ($1, $2, $3, 'waiting', $4)
+       RETURNING id`,
+      [
+        job.organization_id, job.client_id, userId,
+        JSON.stringify({
+          job_id: job.id,
+          title: job.title,
+          address: job.address,
+          location: { latitude: job.latitude, longitude: job.longitude },
+          window_start: job.window_start,
+          window_end: job.window_end,
+          price: parseFloat(job.price),
+          currency: job.currency
+        })
+      ]
+    );
+
+    const sessionId = session.rows[0].id;
+    const updated = await client.query(
+      `UPDATE inspection_jobs SET session_id = $1 WHERE id = $2 RETURNING ${JOB_COLUMNS}`,
+      [sessionId, job.id]
+    );
+
+    return { status: 'accepted', job: formatJob(updated.rows[0]), sessionId };
+  });
+};
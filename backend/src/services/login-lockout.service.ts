@@ -0,0 +1,66 @@
+import { AuthThrottleConfig } from '../config';
+import { RateLimitStore } from './rate-limit.service';
+import { CHALLENGE_TOKEN_TTL_SECONDS } from './token.service';
+
+// Lockouts within this period count towards the next, longer cooldown
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoginFailure {
+  // Set when this failure locked the account
+  retryAfterMs: number | null;
+  failures: number;
+  lockoutLevel: number;
+}
+
+// Keyed by the email as typed (lowercased), whether or not an account has it,
+// so locking doesn't reveal which emails are registered
+const accountKey = (email: string) => email.trim().toLowerCase();
+
+export const getLockoutRemaining = async (store: RateLimitStore, email: string): Promise<number | null> => {
+  const lock = await store.get(`login:lock:${accountKey(email)}`);
+  return lock ? lock.resetMs : null;
+};
+
+// Counts a failed login. Reaching the threshold locks the account for the
+// base cooldown, doubled for every earlier lockout in the past day.
+export const recordLoginFailure = async (
+  store: RateLimitStore,
+  config: AuthThrottleConfig,
+  email: string
+): Promise<LoginFailure> => {
+  const key = accountKey(email);
+  const failures = await store.increment(`login:fail:${key}`, config.failureWindowMs);
+
+  if (failures.count < config.lockoutThreshold) {
+    return { retryAfterMs: null, failures: failures.count, lockoutLevel: 0 };
+  }
+
+  const level = (await store.increment(`login:lockouts:${key}`, LOCKOUT_MEMORY_MS)).count;
+  const retryAfterMs = Math.min(config.lockoutBaseMs * 2 ** (level - 1), config.lockoutMaxMs);
+
+  await store.set(`login:lock:${key}`, level, retryAfterMs);
+  await store.reset(`login:fail:${key}`);
+
+  return { retryAfterMs, failures: failures.count, lockoutLevel: level };
+};
+
+export const clearLoginFailures = async (store: RateLimitStore, email: string) => {
+  const key = accountKey(email);
+  await Promise.all([store.reset(`login:fail:${key}`), store.reset(`login:lockouts:${key}`)]);
+};
+
+// Wrong codes entered against one 2FA challenge token. Counted for as long as
+// the token is valid; at the limit the challenge is refused even with the
+// right code, so guessing needs a fresh password login each time.
+export const isChallengeExhausted = async (
+  store: RateLimitStore,
+  config: AuthThrottleConfig,
+  challengeId: string
+): Promise<boolean> => {
+  const attempts = await store.get(`login:challenge:${challengeId}`);
+  return Boolean(attempts && attempts.count >= config.twoFactorAttemptLimit);
+};
+
+export const recordChallengeFailure = async (store: RateLimitStore, challengeId: string) => {
+  await store.increment(`login:challenge:${challengeId}`, CHALLENGE_TOKEN_TTL_SECONDS * 1000);
+};
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'AR Inspection Platform <no-reply@arinspection.local>';
+
+// Renders the full RFC 822 message without delivering it
+const renderMessage = async (message: MailMessage): Promise<Buffer> => {
+  const renderer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  const info = await renderer.sendMail({ from: MAIL_FROM, ...message });
+
+  return info.message as Buffer;
+};
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Development stub: each message is written as an .eml file that any mail
+// client can open
+export class FileMailTransport implements MailTransport {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const raw = await renderMessage(message);
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(this.dir, `${Date.now()}-${safeRecipient}.eml`);
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(filePath, raw);
+    console.log(`Email to ${message.to} written to ${filePath}`);
+  }
+}
+
+// Test stub: keeps sent messages in memory for assertions
+export class MemoryMailTransport implements MailTransport {
+  outbox: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT=smtp|file|memory. Defaults to SMTP when SMTP_HOST is set,
+// memory under test and .eml files otherwise.
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const kind = process.env.MAIL_TRANSPORT
+      || (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+
+    if (kind === 'smtp') {
+      transport = new SmtpMailTransport();
+    } else if (kind === 'memory') {
+      transport = new MemoryMailTransport();
+    } else {
+      transport = new FileMailTransport(process.env.MAIL_OUTBOX_DIR || 'uploads/mail');
+    }
+  }
+
+  return transport;
+};
+
+// Replaces the configured transport, e.g. with a MemoryMailTransport in tests
+export const setMailTransport = (mailTransport: MailTransport) => {
+  transport = mailTransport;
+};
+
+export const sendMail = (message: MailMessage) => getMailTransport().send(message);
@@ -0,0 +1,386 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { Pool } from 'pg';
+import sharp from 'sharp';
+import exifr from 'exifr';
+import { ClientMediaMetadata, MediaResource, MediaType, isFiniteNumber } from 'ar-inspection-platform-shared';
+import { StorageDriver } from './storage.service';
+
+export interface StoreMediaInput {
+  sessionId: string;
+  userId: string;
+  filePath: string;
+  mimeType: string;
+  originalName?: string;
+  clientMetadata?: ClientMediaMetadata;
+}
+
+// HEIC is not accepted: sharp's prebuilt libvips only decodes AVIF among HEIF
+// files, so iPhone photos must be uploaded as JPEG
+const MEDIA_MIME_TYPES: Record<string, { type: MediaType; extension: string }> = {
+  'image/jpeg': { type: 'photo', extension: 'jpg' },
+  'image/png': { type: 'photo', extension: 'png' },
+  'image/webp': { type: 'photo', extension: 'webp' },
+  'video/mp4': { type: 'video', extension: 'mp4' },
+  'video/quicktime': { type: 'video', extension: 'mov' },
+  'video/webm': { type: 'video', extension: 'webm' }
+};
+
+export const MAX_PHOTO_BYTES = parseInt(process.env.MEDIA_MAX_PHOTO_BYTES || String(25 * 1024 * 1024), 10);
+export const MAX_VIDEO_BYTES = parseInt(process.env.MEDIA_MAX_VIDEO_BYTES || String(500 * 1024 * 1024), 10);
+
+const SIGNED_URL_TTL = parseInt(process.env.MEDIA_URL_TTL || '900', 10);
+const UPLOAD_TTL_HOURS = parseInt(process.env.MEDIA_UPLOAD_TTL_HOURS || '24', 10);
+
+// Staging area for multipart and chunked uploads before they reach storage
+export const UPLOAD_TMP_DIR = process.env.MEDIA_UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'ar-inspection-uploads');
+
+const THUMBNAIL_SIZE = 320;
+
+const MEDIA_COLUMNS = `id, session_id, type, mime_type, original_name, storage_key, thumbnail_key,
+  metadata, file_size, duration, captured_at, uploaded_by, created_at`;
+
+const UPLOAD_COLUMNS = `id, session_id, user_id, mime_type, original_name, total_size,
+  received_bytes, metadata, status, expires_at, created_at, updated_at`;
+
+export const getMediaType = (mimeType: string): MediaType | null => {
+  return MEDIA_MIME_TYPES[mimeType]?.type || null;
+};
+
+// Returns an error message when the type is unsupported or the file too large
+export const validateMedia = (mimeType: string, size: number): string | null => {
+  const type = getMediaType(mimeType);
+
+  if (!type) {
+    return `Unsupported media type: ${mimeType}`;
+  }
+
+  if (!Number.isInteger(size) || size <= 0) {
+    return 'File size must be a positive integer';
+  }
+
+  const maxBytes = type === 'photo' ? MAX_PHOTO_BYTES : MAX_VIDEO_BYTES;
+  if (size > maxBytes) {
+    return `File exceeds the ${type} size limit of ${maxBytes} bytes`;
+  }
+
+  return null;
+};
+
+const runCommand = (command: string, args: string[]): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { encoding: 'buffer', maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+};
+
+// EXIF capture time, GPS and dimensions for photos
+const extractPhotoMetadata = async (filePath: string) => {
+  const info = await sharp(filePath).metadata();
+  let exif: any = null;
+
+  try {
+    exif = await exifr.parse(filePath, { gps: true });
+  } catch (error) {
+    // Files without an EXIF block are fine
+  }
+
+  const gps = exif && isFiniteNumber(exif.latitude) && isFiniteNumber(exif.longitude)
+    ? {
+      latitude: exif.latitude,
+      longitude: exif.longitude,
+      ...(isFiniteNumber(exif.GPSAltitude) ? { altitude: exif.GPSAltitude } : {})
+    }
+    : undefined;
+
+  return {
+    width: info.width,
+    height: info.height,
+    captured_at: exif?.DateTimeOriginal instanceof Date ? exif.DateTimeOriginal.toISOString() : undefined,
+    gps,
+    camera: exif?.Make || exif?.Model ? { make: exif.Make, model: exif.Model } : undefined
+  };
+};
+
+const createPhotoThumbnail = (filePath: string): Promise<Buffer> => {
+  return sharp(filePath)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+};
+
+// Video duration and a poster frame come from ffprobe/ffmpeg. Hosts without
+// them still accept videos, just without a thumbnail or duration.
+const extractVideoDetails = async (filePath: string) => {
+  let duration: number | null = null;
+  let thumbnail: Buffer | null = null;
+
+  try {
+    const output = await runCommand(process.env.FFPROBE_PATH || 'ffprobe', [
+      '-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath
+    ]);
+    const seconds = parseFloat(output.toString());
+    duration = isFinite(seconds) ? Math.round(seconds) : null;
+  } catch (error: any) {
+    console.warn('Video duration unavailable:', error.code || error.message);
+  }
+
+  try {
+    const frame = await runCommand(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-v', 'error', '-ss', '0', '-i', filePath, '-frames:v', '1', '-f', 'image2pipe', '-vcodec', 'png', '-'
+    ]);
+    thumbnail = await sharp(frame)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch (error: any) {
+    console.warn('Video thumbnail unavailable:', error.code || error.message);
+  }
+
+  return { duration, thumbnail };
+};
+
+export const formatMedia = async (storage: StorageDriver, row: any): Promise<MediaResource> => {
+  return {
+    id: row.id,
+    session_id: row.session_id,
+    type: row.type,
+    mime_type: row.mime_type,
+    original_name: row.original_name,
+    file_size: row.file_size !== null ? Number(row.file_size) : null,
+    duration: row.duration,
+    captured_at: row.captured_at,
+    metadata: row.metadata || {},
+    uploaded_by: row.uploaded_by,
+    created_at: row.created_at,
+    url: row.storage_key ? await storage.getSignedUrl(row.storage_key, SIGNED_URL_TTL) : null,
+    thumbnail_url: row.thumbnail_key ? await storage.getSignedUrl(row.thumbnail_key, SIGNED_URL_TTL) : null,
+    url_expires_at: new Date(Date.now() + SIGNED_URL_TTL * 1000).toISOString()
+  };
+};
+
+export const listMedia = async (db: Pool, storage: StorageDriver, sessionId: string, type?: MediaType) => {
+  const values: any[] = [sessionId];
+  let typeFilter = '';
+
+  if (type) {
+    values.push(type);
+    typeFilter = 'AND type = $2';
+  }
+
+  const result = await db.query(
+    `SELECT ${MEDIA_COLUMNS} FROM media
+     WHERE session_id = $1 ${typeFilter}
+     ORDER BY COALESCE(captured_at, created_at) ASC`,
+    values
+  );
+
+  return Promise.all(result.rows.map((row: any) => formatMedia(storage, row)));
+};
+
+export const getMedia = async (db: Pool, storage: StorageDriver, sessionId: string, mediaId: string) => {
+  const result = await db.query(
+    `SELECT ${MEDIA_COLUMNS} FROM media WHERE id = $1 AND session_id = $2`,
+    [mediaId, sessionId]
+  );
+
+  return result.rows[0] ? formatMedia(storage, result.rows[0]) : null;
+};
+
+// Generates the thumbnail, extracts metadata, copies the file and its
+// thumbnail to storage and records the media row. Device-supplied capture time
+// and GPS take precedence over EXIF, which may have been stripped or be stale.
+// Photos that can't be decoded throw an error with status 400.
+export const storeMedia = async (db: Pool, storage: StorageDriver, input: StoreMediaInput) => {
+  const type = getMediaType(input.mimeType);
+  if (!type) {
+    throw new Error(`Unsupported media type: ${input.mimeType}`);
+  }
+
+  const { size } = await fs.promises.stat(input.filePath);
+  const mediaId = crypto.randomUUID();
+  const clientMetadata = input.clientMetadata || {};
+  const storageKey = `sessions/${input.sessionId}/${mediaId}.${MEDIA_MIME_TYPES[input.mimeType].extension}`;
+  const thumbnailKey = `sessions/${input.sessionId}/${mediaId}.thumb.jpg`;
+
+  let thumbnail: Buffer | null = null;
+  let duration: number | null = null;
+  let metadata: Record<string, any> = {};
+
+  if (type === 'photo') {
+    let extracted: Awaited<ReturnType<typeof extractPhotoMetadata>>;
+    try {
+      extracted = await extractPhotoMetadata(input.filePath);
+      thumbnail = await createPhotoThumbnail(input.filePath);
+    } catch (error) {
+      // sharp can't decode it: not an image, truncated, or a format it lacks
+      throw Object.assign(new Error('Unsupported or corrupt image'), { status: 400 });
+    }
+    metadata = {
+      width: extracted.width,
+      height: extracted.height,
+      camera: extracted.camera,
+      gps: clientMetadata.gps || extracted.gps,
+      captured_at: clientMetadata.captured_at || extracted.captured_at
+    };
+  } else {
+    const details = await extractVideoDetails(input.filePath);
+    thumbnail = details.thumbnail;
+    duration = details.duration;
+    metadata = { gps: clientMetadata.gps, captured_at: clientMetadata.captured_at };
+  }
+
+  metadata.camera_pose = clientMetadata.camera_pose;
+
+  await storage.put(storageKey, input.filePath, input.mimeType);
+  if (thumbnail) {
+    await storage.putBuffer(thumbnailKey, thumbnail, 'image/jpeg');
+  }
+
+  try {
+    const result = await db.query(
+      `INSERT INTO media (id, session_id, type, mime_type, original_name, storage_key, thumbnail_key,
+                          metadata, file_size, duration, captured_at, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING ${MEDIA_COLUMNS}`,
+      [
+        mediaId, input.sessionId, type, input.mimeType, input.originalName || null, storageKey,
+        thumbnail ? thumbnailKey : null, JSON.stringify(metadata), size, duration,
+        metadata.captured_at || null, input.userId
+      ]
+    );
+
+    return formatMedia(storage, result.rows[0]);
+  } catch (error) {
+    // Don't leave orphaned objects behind when the row can't be written
+    await storage.delete(storageKey).catch(() => undefined);
+    if (thumbnail) {
+      await storage.delete(thumbnailKey).catch(() => undefined);
+    }
+    throw error;
+  }
+};
+
+// Resumable uploads: the client declares the file up front, sends it in
+// offset-addressed chunks that are written into a staging file, then
+// completes the upload to process and store it.
+
+const getUploadPath = (uploadId: string) => path.join(UPLOAD_TMP_DIR, `${uploadId}.part`);
+
+export const formatUpload = (row: any) => ({
+  id: row.id,
+  session_id: row.session_id,
+  mime_type: row.mime_type,
+  original_name: row.original_name,
+  total_size: Number(row.total_size),
+  received_bytes: Number(row.received_bytes),
+  status: row.status,
+  expires_at: row.expires_at,
+  created_at: row.created_at
+});
+
+export const createUpload = async (
+  db: Pool,
+  sessionId: string,
+  userId: string,
+  upload: { mimeType: string; totalSize: number; originalName?: string; metadata: ClientMediaMetadata }
+) => {
+  const result = await db.query(
+    `INSERT INTO media_uploads (session_id, user_id, mime_type, original_name, total_size, metadata, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP + ($7 || ' hours')::interval)
+     RETURNING ${UPLOAD_COLUMNS}`,
+    [
+      sessionId, userId, upload.mimeType, upload.originalName || null, upload.totalSize,
+      JSON.stringify(upload.metadata), String(UPLOAD_TTL_HOURS)
+    ]
+  );
+
+  await fs.promises.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  await fs.promises.writeFile(getUploadPath(result.rows[0].id), Buffer.alloc(0));
+
+  return result.rows[0];
+};
+
+// Returns the raw row for an upload owned by the user in this session
+export const findUpload = async (db: Pool, sessionId: string, uploadId: string, userId: string) => {
+  const result = await db.query(
+    `SELECT ${UPLOAD_COLUMNS} FROM media_uploads WHERE id = $1 AND session_id = $2 AND user_id = $3`,
+    [uploadId, sessionId, userId]
+  );
+
+  return result.rows[0] || null;
+};
+
+export const isUploadExpired = (upload: any) => new Date(upload.expires_at).getTime() < Date.now();
+
+// Writes a chunk at the given offset. Positional writes make retrying the same
+// chunk harmless, and the offset guard on the UPDATE rejects chunks that raced
+// another request. Returns the updated row, or null if the offset moved.
+export const writeUploadChunk = async (db: Pool, upload: any, offset: number, chunk: Buffer) => {
+  const handle = await fs.promises.open(getUploadPath(upload.id), 'r+');
+
+  try {
+    await handle.write(chunk, 0, chunk.length, offset);
+  } finally {
+    await handle.close();
+  }
+
+  const result = await db.query(
+    `UPDATE media_uploads SET received_bytes = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2 AND received_bytes = $3 AND status = 'pending'
+     RETURNING ${UPLOAD_COLUMNS}`,
+    [offset + chunk.length, upload.id, offset]
+  );
+
+  return result.rows[0] || null;
+};
+
+export const completeUpload = async (db: Pool, storage: StorageDriver, upload: any) => {
+  const filePath = getUploadPath(upload.id);
+
+  try {
+    const media = await storeMedia(db, storage, {
+      sessionId: upload.session_id,
+      userId: upload.user_id,
+      filePath,
+      mimeType: upload.mime_type,
+      originalName: upload.original_name,
+      clientMetadata: upload.metadata || {}
+    });
+
+    await db.query(
+      `UPDATE media_uploads SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [upload.id]
+    );
+
+    return media;
+  } catch (error) {
+    await db.query(
+      `UPDATE media_uploads SET status = 'failed', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [upload.id]
+    );
+    throw error;
+  } finally {
+    await fs.promises.rm(filePath, { force: true });
+  }
+};
+
+// Drops staging files and rows for uploads that were never completed
+export const purgeExpiredUploads = async (db: Pool) => {
+  const result = await db.query(
+    `DELETE FROM media_uploads WHERE expires_at < CURRENT_TIMESTAMP AND status <> 'completed' RETURNING id`
+  );
+
+  await Promise.all(result.rows.map((row: any) => fs.promises.rm(getUploadPath(row.id), { force: true })));
+
+  return result.rows.length;
+};
@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import { Pool } from 'pg';
+import { withTransaction } from '../database/transaction';
+import { sendMail } from './mail.service';
+import { OrganizationRole } from './permission.service';
+import { StorageDriver } from './storage.service';
+
+const INVITATION_TTL_DAYS = parseInt(process.env.ORGANIZATION_INVITATION_TTL_DAYS || '7', 10);
+const APP_URL = process.env.APP_URL || 'http://localhost:3001';
+
+// Invitation tokens are stored hashed, like password reset tokens
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Organization names are chosen by users, so they can't go into mail HTML as is
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+const formatMember = (row: any) => ({
+  user_id: row.user_id,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  joined_at: row.created_at
+});
+
+const formatInvitation = (row: any) => ({
+  id: row.id,
+  organization_id: row.organization_id,
+  email: row.email,
+  role: row.role,
+  invited_by: row.invited_by,
+  expires_at: row.expires_at,
+  created_at: row.created_at
+});
+
+// Returns the user's role in the organization, or null if they aren't a member
+export const getMembershipRole = async (
+  db: Pool,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationRole | null> => {
+  const result = await db.query(
+    'SELECT role FROM organization_memberships WHERE organization_id = $1 AND user_id = $2',
+    [organizationId, userId]
+  );
+
+  return result.rows[0]?.role || null;
+};
+
+// The creator becomes the first owner
+export const createOrganization = async (db: Pool, name: string, userId: string) => {
+  return withTransaction(db, async (client) => {
+    const result = await client.query(
+      `INSERT INTO organizations (name, created_by)
+       VALUES ($1, $2)
+       RETURNING id, name, created_at, updated_at`,
+      [name, userId]
+    );
+    const organization = result.rows[0];
+
+    await client.query(
+      `INSERT INTO organization_memberships (organization_id, user_id, role)
+       VALUES ($1, $2, 'owner')`,
+      [organization.id, userId]
+    );
+
+    return { ...organization, role: 'owner' };
+  });
+};
+
+export const listOrganizations = async (db: Pool, userId: string) => {
+  const result = await db.query(
+    `SELECT o.id, o.name, o.created_at, o.updated_at, m.role
+     FROM organization_memberships m
+     JOIN organizations o ON o.id = m.organization_id
+     WHERE m.user_id = $1
+     ORDER BY o.name`,
+    [userId]
+  );
+
+  return result.rows;
+};
+
+export const getOrganization = async (db: Pool, organizationId: string) => {
+  const result = await db.query(
+    'SELECT id, name, created_at, updated_at FROM organizations WHERE id = $1',
+    [organizationId]
+  );
+
+  return result.rows[0] || null;
+};
+
+export const renameOrganization = async (db: Pool, organizationId: string, name: string) => {
+  const result = await db.query(
+    `UPDATE organizations SET name = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2
+     RETURNING id, name, created_at, updated_at`,
+    [name, organizationId]
+  );
+
+  return result.rows[0] || null;
+};
+
+// Removes the organization together with its memberships, invitations and
+// sessions, then the stored media and report files of those sessions, which
+// the cascade can't reach
+export const deleteOrganization = async (db: Pool, storage: StorageDriver, organizationId: string) => {
+  const keys = await withTransaction(db, async (client) => {
+    const media = await client.query(
+      `SELECT m.storage_key, m.thumbnail_key FROM media m
+       JOIN sessions s ON s.id = m.session_id
+       WHERE s.organization_id = $1`,
+      [organizationId]
+    );
+    const reports = await client.query(
+      `SELECT r.storage_key FROM session_reports r
+       JOIN sessions s ON s.id = r.session_id
+       WHERE s.organization_id = $1`,
+      [organizationId]
+    );
+
+    await client.query('DELETE FROM organizations WHERE id = $1', [organizationId]);
+
+    return [
+      ...media.rows.flatMap((row: any) => [row.storage_key, row.thumbnail_key]),
+      ...reports.rows.map((row: any) => row.storage_key)
+    ].filter(Boolean) as string[];
+  });
+
+  // Only once the rows are gone, so a failure can't leave rows pointing at
+  // missing files; a file that fails to delete is logged and left behind
+  await Promise.all(keys.map((key) => storage.delete(key).catch((error) => {
+    console.error(`Failed to delete stored file ${key}:`, error);
+  })));
+};
+
+export const listMembers = async (db: Pool, organizationId: string) => {
+  const result = await db.query(
+    `SELECT m.user_id, m.role, m.created_at, u.email, p.name
+     FROM organization_memberships m
+     JOIN users u ON u.id = m.user_id
+     LEFT JOIN user_profiles p ON p.user_id = m.user_id
+     WHERE m.organization_id = $1
+     ORDER BY m.created_at`,
+    [organizationId]
+  );
+
+  return result.rows.map(formatMember);
+};
+
+export const isMemberEmail = async (db: Pool, organizationId: string, email: string) => {
+  const result = await db.query(
+    `SELECT 1 FROM organization_memberships m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = $1 AND LOWER(u.email) = LOWER($2)`,
+    [organizationId, email]
+  );
+
+  return result.rows.length > 0;
+};
+
+export const countOwners = async (db: Pool, organizationId: string) => {
+  const result = await db.query(
+    `SELECT COUNT(*) AS owners FROM organization_memberships
+     WHERE organization_id = $1 AND role = 'owner'`,
+    [organizationId]
+  );
+
+  return parseInt(result.rows[0].owners, 10);
+};
+
+export const updateMemberRole = async (
+  db: Pool,
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole
+) => {
+  const result = await db.query(
+    `UPDATE organization_memberships SET role = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE organization_id = $2 AND user_id = $3
+     RETURNING user_id`,
+    [role, organizationId, userId]
+  );
+
+  return result.rows.length > 0;
+};
+
+export const removeMember = async (db: Pool, organizationId: string, userId: string) => {
+  const result = await db.query(
+    'DELETE FROM organization_memberships WHERE organization_id = $1 AND user_id = $2 RETURNING user_id',
+    [organizationId, userId]
+  );
+
+  return result.rows.length > 0;
+};
+
+// Emails a single-use invitation link. Re-inviting an address replaces any
+// invitation still pending for it.
+export const createInvitation = async (
+  db: Pool,
+  organization: { id: string; name: string },
+  email: string,
+  role: OrganizationRole,
+  invitedBy: string
+) => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  const invitation = await withTransaction(db, async (client) => {
+    await client.query(
+      `DELETE FROM organization_invitations
+       WHERE organization_id = $1 AND email = $2 AND accepted_at IS NULL`,
+      [organization.id, email]
+    );
+
+    const result = await client.query(
+      `INSERT INTO organization_invitations (organization_id, email, role, token_hash, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP + ($6 || ' days')::interval)
+       RETURNING id, organization_id, email, role, invited_by, expires_at, created_at`,
+      [organization.id, email, role, hashToken(token), invitedBy, String(INVITATION_TTL_DAYS)]
+    );
+
+    return result.rows[0];
+  });
+
+  const inviteUrl = `${APP_URL}/invitations/accept?token=${token}`;
+  const organizationName = escapeHtml(organization.name);
+
+  await sendMail({
+    to: email,
+    subject: `You've been invited to ${organization.name} on AR Inspection Platform`,
+    text: `You've been invited to join ${organization.name} as ${role}.\n\n`
+      + `Open this link within ${INVITATION_TTL_DAYS} days to accept:\n${inviteUrl}\n`,
+    html: `<p>You've been invited to join <strong>${organizationName}</strong> as ${escapeHtml(role)}.</p>`
+      + `<p><a href="${inviteUrl}">Accept the invitation</a> within ${INVITATION_TTL_DAYS} days.</p>`
+  });
+
+  return formatInvitation(invitation);
+};
+
+export const listInvitations = async (db: Pool, organizationId: string) => {
+  const result = await db.query(
+    `SELECT id, organization_id, email, role, invited_by, expires_at, created_at
+     FROM organization_invitations
+     WHERE organization_id = $1 AND accepted_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY created_at DESC`,
+    [organizationId]
+  );
+
+  return result.rows.map(formatInvitation);
+};
+
+export const revokeInvitation = async (db: Pool, organizationId: string, invitationId: string) => {
+  const result = await db.query(
+    `DELETE FROM organization_invitations
+     WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL
+     RETURNING id`,
+    [invitationId, organizationId]
+  );
+
+  return result.rows.length > 0;
+};
+
+// Pending, unexpired invitation for the token, or null
+export const findInvitation = async (db: Pool, token: string) => {
+  const result = await db.query(
+    `SELECT id, organization_id, email, role
+     FROM organization_invitations
+     WHERE token_hash = $1 AND accepted_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [hashToken(token)]
+  );
+
+  return result.rows[0] || null;
+};
+
+// Marks the invitation used and adds the membership. An existing member keeps
+// their current role. Returns false if the invitation was accepted concurrently.
+export const acceptInvitation = async (db: Pool, invitationId: string, userId: string) => {
+  return withTransaction(db, async (client) => {
+    const claimed = await client.query(
+      `UPDATE organization_invitations SET accepted_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND accepted_at IS NULL
+       RETURNING organization_id, role`,
+      [invitationId]
+    );
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    const { organization_id: organizationId, role } = claimed.rows[0];
+    await client.query(
+      `INSERT INTO organization_memberships (organization_id, user_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (organization_id, user_id) DO NOTHING`,
+      [organizationId, userId, role]
+    );
+
+    return true;
+  });
+};
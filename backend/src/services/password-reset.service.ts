@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { Pool } from 'pg';
+import { withTransaction } from '../database/transaction';
+import { sendMail } from './mail.service';
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const APP_URL = process.env.APP_URL || 'http://localhost:3001';
+
+// Only the hash is stored, so a leaked table can't be used to reset passwords
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issues a reset token and emails the link. Unknown or inactive emails are a
+// silent no-op so the endpoint can't be used to discover accounts.
+export const requestPasswordReset = async (db: Pool, email: string) => {
+  const result = await db.query(
+    'SELECT id, email FROM users WHERE email = $1 AND is_active = TRUE',
+    [email]
+  );
+
+  if (result.rows.length === 0) {
+    return;
+  }
+
+  const user = result.rows[0];
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await withTransaction(db, async (client) => {
+    // A new request invalidates links sent earlier
+    await client.query(
+      'DELETE FROM password_reset_tokens WHERE email = $1 AND used_at IS NULL',
+      [user.email]
+    );
+    await client.query(
+      `INSERT INTO password_reset_tokens (email, token, expires_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP + ($3 || ' minutes')::interval)`,
+      [user.email, hashToken(token), String(RESET_TOKEN_TTL_MINUTES)]
+    );
+  });
+
+  const resetUrl = `${APP_URL}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your AR Inspection Platform password',
+    text: `We received a request to reset your password.\n\n`
+      + `Open this link within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new one:\n${resetUrl}\n\n`
+      + `If you didn't ask for this, you can ignore this email.`,
+    html: `<p>We received a request to reset your password.</p>`
+      + `<p><a href="${resetUrl}">Choose a new password</a> within ${RESET_TOKEN_TTL_MINUTES} minutes.</p>`
+      + `<p>If you didn't ask for this, you can ignore this email.</p>`
+  });
+};
+
+// Consumes the token and sets the new password. Returns the ids of the auth
+// sessions it ended, or null when the token is unknown, expired or already used.
+export const resetPassword = async (db: Pool, token: string, password: string): Promise<string[] | null> => {
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  return withTransaction(db, async (client) => {
+    // Marking the token used in the same statement that checks it keeps it single-use
+    const consumed = await client.query(
+      `UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE token = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       RETURNING email`,
+      [hashToken(token)]
+    );
+
+    if (consumed.rows.length === 0) {
+      return null;
+    }
+
+    const email = consumed.rows[0].email;
+
+    const updated = await client.query(
+      `UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE email = $2 AND is_active = TRUE
+       RETURNING id`,
+      [passwordHash, email]
+    );
+
+    await client.query(
+      'DELETE FROM password_reset_tokens WHERE email = $1 AND used_at IS NULL',
+      [email]
+    );
+
+    if (updated.rows.length === 0) {
+      return null;
+    }
+
+    // Anyone holding the old password may already be signed in elsewhere
+    const revoked = await client.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [updated.rows[0].id]
+    );
+
+    return revoked.rows.map((row) => row.id);
+  });
+};
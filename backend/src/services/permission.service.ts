@@ -0,0 +1,62 @@
+import { ORGANIZATION_ROLES, OrganizationRole } from 'ar-inspection-platform-shared';
+
+export { ORGANIZATION_ROLES };
+export type { OrganizationRole };
+
+export type Permission =
+  | 'organization:manage'
+  | 'organization:delete'
+  | 'members:manage'
+  | 'audit:view'
+  | 'sessions:create'
+  | 'sessions:assign'
+  | 'sessions:view_all'
+  | 'sessions:accept'
+  | 'sessions:collaborate';
+
+export interface PermissionContext {
+  userType: string;
+  // Set when the request acts inside an organization
+  organizationRole?: OrganizationRole | null;
+}
+
+// What each membership role may do inside its organization
+const ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: [
+    'organization:manage', 'organization:delete', 'members:manage', 'audit:view',
+    'sessions:create', 'sessions:assign', 'sessions:view_all', 'sessions:collaborate'
+  ],
+  admin: [
+    'organization:manage', 'members:manage', 'audit:view',
+    'sessions:create', 'sessions:assign', 'sessions:view_all', 'sessions:collaborate'
+  ],
+  dispatcher: ['sessions:create', 'sessions:assign', 'sessions:view_all', 'sessions:collaborate'],
+  inspector: ['sessions:accept', 'sessions:collaborate'],
+  viewer: ['sessions:view_all']
+};
+
+// Personal (non-organization) requests fall back to the account's user_type
+const USER_TYPE_PERMISSIONS: Record<string, Permission[]> = {
+  client: ['sessions:create', 'sessions:collaborate'],
+  gig_user: ['sessions:accept', 'sessions:collaborate']
+};
+
+export const isOrganizationRole = (role: any): role is OrganizationRole => {
+  return (ORGANIZATION_ROLES as readonly string[]).includes(role);
+};
+
+export const hasPermission = (context: PermissionContext, permission: Permission): boolean => {
+  const granted = context.organizationRole
+    ? ROLE_PERMISSIONS[context.organizationRole]
+    : USER_TYPE_PERMISSIONS[context.userType];
+
+  return granted?.includes(permission) ?? false;
+};
+
+// Owners can hand out any role; admins can't create or change owners
+export const canAssignRole = (actor: OrganizationRole, role: OrganizationRole): boolean => {
+  if (actor === 'owner') {
+    return true;
+  }
+  return actor === 'admin' && role !== 'owner';
+};
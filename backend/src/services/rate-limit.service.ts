@@ -0,0 +1,203 @@
+import Redis from 'ioredis';
+import { RedisConfig } from '../config';
+
+// Expiring counters shared by the rate limiter and login lockout. Keys are
+// namespaced by the caller, e.g. `login:ip:<address>`.
+export interface RateLimitCounter {
+  count: number;
+  // Milliseconds until the counter expires
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  // Adds one, starting a window of windowMs when the key doesn't exist yet
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  get(key: string): Promise<RateLimitCounter | null>;
+  set(key: string, count: number, ttlMs: number): Promise<void>;
+  reset(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    // Expired counters are otherwise only dropped when their key is read again
+    this.sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  private live(key: string) {
+    const counter = this.counters.get(key);
+
+    if (counter && counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return null;
+    }
+    return counter || null;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const counter = this.live(key) || { count: 0, expiresAt: Date.now() + windowMs };
+
+    counter.count += 1;
+    this.counters.set(key, counter);
+
+    return { count: counter.count, resetMs: counter.expiresAt - Date.now() };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.live(key);
+    return counter ? { count: counter.count, resetMs: counter.expiresAt - Date.now() } : null;
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    this.counters.set(key, { count, expiresAt: Date.now() + ttlMs });
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  clear(): void {
+    this.counters.clear();
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private prefix = 'ratelimit:';
+
+  constructor(private redis: Redis) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const redisKey = this.prefix + key;
+    const results = await this.redis.multi().incr(redisKey).pttl(redisKey).exec();
+    if (!results) {
+      throw new Error('Rate limit transaction was aborted');
+    }
+
+    const [[incrError, count], [, ttl]] = results;
+    if (incrError) {
+      throw incrError;
+    }
+
+    // A fresh key, or one whose expiry was lost, starts its window now
+    if ((ttl as number) < 0) {
+      await this.redis.pexpire(redisKey, windowMs);
+      return { count: count as number, resetMs: windowMs };
+    }
+    return { count: count as number, resetMs: ttl as number };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const redisKey = this.prefix + key;
+    const results = await this.redis.multi().get(redisKey).pttl(redisKey).exec();
+    const count = results?.[0][1] as string | null;
+    const ttl = results?.[1][1] as number;
+
+    if (!count || ttl < 0) {
+      return null;
+    }
+    return { count: parseInt(count, 10), resetMs: ttl };
+  }
+
+  async set(key: string, count: number, ttlMs: number): Promise<void> {
+    await this.redis.set(this.prefix + key, count, 'PX', ttlMs);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(this.prefix + key);
+  }
+
+  async close(): Promise<void> {
+    // quit() waits for a connection that may never come back; stop reconnecting instead
+    if (this.redis.status === 'ready') {
+      await this.redis.quit().catch(() => undefined);
+    } else {
+      this.redis.disconnect();
+    }
+  }
+}
+
+// Uses Redis while it answers and in-process counters while it doesn't, so
+// a Redis outage weakens throttling across instances instead of failing
+// every login
+export class FallbackRateLimitStore implements RateLimitStore {
+  private usingFallback = false;
+
+  constructor(private primary: RateLimitStore, private fallback: RateLimitStore) {}
+
+  private async run<T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> {
+    try {
+      const result = await operation(this.primary);
+      if (this.usingFallback) {
+        this.usingFallback = false;
+        console.log('Rate limit store: Redis is back');
+      }
+      return result;
+    } catch (error: any) {
+      if (!this.usingFallback) {
+        this.usingFallback = true;
+        console.error('Rate limit store: Redis unavailable, using in-memory counters:', error.message);
+      }
+      return operation(this.fallback);
+    }
+  }
+
+  increment(key: string, windowMs: number) {
+    return this.run((store) => store.increment(key, windowMs));
+  }
+
+  get(key: string) {
+    return this.run((store) => store.get(key));
+  }
+
+  set(key: string, count: number, ttlMs: number) {
+    return this.run((store) => store.set(key, count, ttlMs));
+  }
+
+  reset(key: string) {
+    return this.run((store) => store.reset(key));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.primary.close(), this.fallback.close()]);
+  }
+}
+
+// Redis from docker-compose when configured, otherwise in-process counters,
+// which are only correct for a single instance
+export const createRateLimitStore = (config?: RedisConfig): RateLimitStore => {
+  if (!config) {
+    return new MemoryRateLimitStore();
+  }
+
+  const options = {
+    // Fail fast while disconnected rather than queueing, so the fallback kicks in
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1
+  };
+  const redis = config.url
+    ? new Redis(config.url, options)
+    : new Redis({ ...options, host: config.host, port: config.port });
+
+  // Connection errors surface through failed commands; without a listener
+  // ioredis logs each reconnect attempt as an unhandled error event
+  redis.on('error', () => undefined);
+
+  return new FallbackRateLimitStore(new RedisRateLimitStore(redis), new MemoryRateLimitStore());
+};
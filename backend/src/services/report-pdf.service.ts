@@ -0,0 +1,314 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+
+export interface ReportParticipant {
+  role: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface ReportSnapshot {
+  image: Buffer;
+  caption: string;
+  details: string[];
+}
+
+// A checklist reading or a measurement taken with the AR tools
+export interface ReportMeasurement {
+  // Checklist name, or 'AR measurement'
+  source: string;
+  label: string;
+  value: number;
+  unit?: string;
+  min?: number;
+  max?: number;
+  // Estimated ± error of AR measurements, in the same unit
+  accuracy?: number;
+  withinTolerance: boolean | null;
+}
+
+export interface ReportData {
+  session: any;
+  organizationName: string | null;
+  participants: ReportParticipant[];
+  checklists: any[];
+  snapshots: ReportSnapshot[];
+  measurements: ReportMeasurement[];
+  annotationCount: number;
+  generatedAt: Date;
+}
+
+const PAGE_MARGIN = 50;
+const SNAPSHOT_HEIGHT = 260;
+
+const RESULT_LABELS: Record<string, string> = { pass: 'PASS', fail: 'FAIL', na: 'N/A' };
+const RESULT_COLORS: Record<string, string> = { pass: '#2e7d32', fail: '#c62828', na: '#757575' };
+
+// Branding comes from the environment so every deployment renders without any
+// network access: the standard PDF fonts unless REPORT_FONT_PATH points at a
+// TTF (needed for non-Latin names), and an optional local logo file.
+const getBranding = () => ({
+  name: process.env.REPORT_BRAND_NAME || 'AR Inspection Platform',
+  color: process.env.REPORT_BRAND_COLOR || '#1976d2',
+  logoPath: process.env.REPORT_LOGO_PATH || null,
+  fontPath: process.env.REPORT_FONT_PATH || null,
+  boldFontPath: process.env.REPORT_BOLD_FONT_PATH || process.env.REPORT_FONT_PATH || null
+});
+
+export const formatDuration = (start?: string | Date | null, end?: string | Date | null): string => {
+  if (!start || !end) {
+    return '—';
+  }
+
+  const totalMinutes = Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+};
+
+const formatDate = (value?: string | Date | null) => {
+  return value ? new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '—';
+};
+
+const formatRange = (measurement: ReportMeasurement) => {
+  const unit = measurement.unit ? ` ${measurement.unit}` : '';
+  if (measurement.min !== undefined && measurement.max !== undefined) {
+    return `${measurement.min} – ${measurement.max}${unit}`;
+  }
+  if (measurement.min !== undefined) {
+    return `≥ ${measurement.min}${unit}`;
+  }
+  if (measurement.max !== undefined) {
+    return `≤ ${measurement.max}${unit}`;
+  }
+  if (measurement.accuracy !== undefined) {
+    return `± ${measurement.accuracy}${unit}`;
+  }
+  return '—';
+};
+
+// Renders the inspection report and resolves with the PDF bytes
+export const renderReportPdf = (data: ReportData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const branding = getBranding();
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Inspection report ${data.session.id}`,
+        Author: branding.name,
+        CreationDate: data.generatedAt
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const regular = branding.fontPath ? 'Body' : 'Helvetica';
+    const bold = branding.boldFontPath ? 'BodyBold' : 'Helvetica-Bold';
+    if (branding.fontPath) {
+      doc.registerFont('Body', branding.fontPath);
+    }
+    if (branding.boldFontPath) {
+      doc.registerFont('BodyBold', branding.boldFontPath);
+    }
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+      }
+    };
+
+    const heading = (text: string) => {
+      ensureSpace(60);
+      doc.moveDown(1);
+      doc.font(bold).fontSize(14).fillColor(branding.color).text(text, PAGE_MARGIN);
+      doc.moveTo(PAGE_MARGIN, doc.y + 2).lineTo(PAGE_MARGIN + contentWidth, doc.y + 2)
+        .lineWidth(0.5).strokeColor(branding.color).stroke();
+      doc.moveDown(0.5);
+      doc.font(regular).fontSize(10).fillColor('black');
+    };
+
+    const field = (label: string, value: string) => {
+      ensureSpace(16);
+      doc.font(bold).fontSize(10).fillColor('#555555').text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true });
+      doc.font(regular).fillColor('black').text(value);
+    };
+
+    // Header band
+    doc.rect(0, 0, doc.page.width, 80).fill(branding.color);
+    let titleX = PAGE_MARGIN;
+    if (branding.logoPath && fs.existsSync(branding.logoPath)) {
+      try {
+        doc.image(branding.logoPath, PAGE_MARGIN, 15, { fit: [50, 50] });
+        titleX += 60;
+      } catch (error: any) {
+        console.warn('Report logo unavailable:', error.message);
+      }
+    }
+    doc.font(bold).fontSize(20).fillColor('white').text(branding.name, titleX, 22);
+    doc.font(regular).fontSize(11).text('Inspection Report', titleX, 48);
+    doc.fillColor('black').font(regular).fontSize(10);
+    doc.y = 100;
+
+    // Session
+    heading('Session');
+    const metadata = data.session.metadata || {};
+    field('Session ID', data.session.id);
+    if (metadata.title) {
+      field('Title', String(metadata.title));
+    }
+    if (metadata.address) {
+      field('Address', String(metadata.address));
+    }
+    if (data.organizationName) {
+      field('Organization', data.organizationName);
+    }
+    field('Status', data.session.status);
+    field('Started', formatDate(data.session.started_at));
+    field('Ended', formatDate(data.session.ended_at));
+    field('Duration', formatDuration(data.session.started_at, data.session.ended_at));
+    field('Annotations', String(data.annotationCount));
+
+    // Participants
+    heading('Participants');
+    data.participants.forEach((participant) => {
+      field(participant.role, [participant.name, participant.email].filter(Boolean).join(' · ') || '—');
+    });
+
+    // Checklists
+    heading('Checklist Results');
+    if (data.checklists.length === 0) {
+      doc.text('No checklist was attached to this session.');
+    }
+
+    data.checklists.forEach((checklist) => {
+      ensureSpace(40);
+      doc.font(bold).fontSize(12).text(checklist.name, PAGE_MARGIN);
+      doc.font(regular).fontSize(9).fillColor('#555555').text(
+        `${checklist.progress.answered}/${checklist.progress.total} answered · ${checklist.progress.failed} failed · `
+        + (checklist.completed_at ? `signed off ${formatDate(checklist.completed_at)}` : 'not signed off')
+      );
+      doc.fillColor('black').fontSize(10);
+
+      checklist.sections.forEach((section: any) => {
+        ensureSpace(30);
+        doc.moveDown(0.4);
+        doc.font(bold).fontSize(10).text(section.title, PAGE_MARGIN);
+        doc.font(regular);
+
+        section.items.forEach((item: any) => {
+          const finding = checklist.findings.find((f: any) => f.item_id === item.id);
+          const result = finding?.result || null;
+
+          ensureSpace(18);
+          const rowY = doc.y;
+          doc.fillColor('black').text(item.label, PAGE_MARGIN + 10, doc.y, { width: contentWidth - 110 });
+          const textBottom = doc.y;
+
+          const resultText = result ? RESULT_LABELS[result] : 'OPEN';
+          const reading = finding?.value !== null && finding?.value !== undefined
+            ? `${finding.value}${item.unit ? ` ${item.unit}` : ''}  `
+            : '';
+          doc.font(bold).fillColor(result ? RESULT_COLORS[result] : '#9e9e9e')
+            .text(`${reading}${resultText}`, PAGE_MARGIN + contentWidth - 100, rowY, {
+              width: 100,
+              align: 'right'
+            });
+          doc.font(regular).fillColor('black');
+          doc.y = Math.max(textBottom, doc.y);
+
+          if (finding?.notes) {
+            doc.fontSize(9).fillColor('#555555').text(finding.notes, PAGE_MARGIN + 20, doc.y, { width: contentWidth - 130 });
+            doc.fontSize(10).fillColor('black');
+          }
+        });
+      });
+      doc.moveDown(0.8);
+    });
+
+    // Measurements
+    heading('Measurements');
+    if (data.measurements.length === 0) {
+      doc.text('No measurements were recorded.');
+    }
+
+    data.measurements.forEach((measurement) => {
+      ensureSpace(16);
+      const rowY = doc.y;
+      doc.font(regular).fillColor('black')
+        .text(`${measurement.label} (${measurement.source})`, PAGE_MARGIN, rowY, { width: contentWidth - 220 });
+      const textBottom = doc.y;
+      doc.text(`${measurement.value}${measurement.unit ? ` ${measurement.unit}` : ''}`, PAGE_MARGIN + contentWidth - 210, rowY, {
+        width: 70,
+        align: 'right'
+      });
+      doc.fillColor('#555555').text(formatRange(measurement), PAGE_MARGIN + contentWidth - 135, rowY, { width: 85 });
+      if (measurement.withinTolerance !== null) {
+        doc.font(bold).fillColor(measurement.withinTolerance ? RESULT_COLORS.pass : RESULT_COLORS.fail)
+          .text(measurement.withinTolerance ? 'OK' : 'OUT', PAGE_MARGIN + contentWidth - 45, rowY, { width: 45, align: 'right' });
+      }
+      doc.font(regular).fillColor('black');
+      doc.y = Math.max(textBottom, doc.y);
+    });
+
+    // Snapshots
+    if (data.snapshots.length > 0) {
+      heading('Annotated Snapshots');
+      data.snapshots.forEach((snapshot) => {
+        ensureSpace(SNAPSHOT_HEIGHT + 40 + snapshot.details.length * 12);
+        try {
+          doc.image(snapshot.image, PAGE_MARGIN, doc.y, { fit: [contentWidth, SNAPSHOT_HEIGHT], align: 'center' });
+          doc.y += SNAPSHOT_HEIGHT + 6;
+        } catch (error: any) {
+          console.warn('Report snapshot skipped:', error.message);
+        }
+        doc.font(bold).fontSize(10).fillColor('black').text(snapshot.caption, PAGE_MARGIN);
+        doc.font(regular).fontSize(9).fillColor('#555555');
+        snapshot.details.forEach((detail) => doc.text(detail, PAGE_MARGIN));
+        doc.fontSize(10).fillColor('black');
+        doc.moveDown(1);
+      });
+    }
+
+    // Signatures
+    heading('Sign-off');
+    ensureSpace(110);
+    const signers = data.participants.filter((participant) => participant.role !== 'Organization');
+    const boxWidth = (contentWidth - 20) / 2;
+    const top = doc.y + 10;
+
+    signers.slice(0, 2).forEach((signer, index) => {
+      const x = PAGE_MARGIN + index * (boxWidth + 20);
+      doc.moveTo(x, top + 40).lineTo(x + boxWidth, top + 40).lineWidth(0.5).strokeColor('black').stroke();
+      doc.font(regular).fontSize(9).fillColor('#555555')
+        .text(`${signer.role}: ${signer.name || signer.email || '—'}`, x, top + 45, { width: boxWidth });
+      doc.moveTo(x, top + 85).lineTo(x + boxWidth / 2, top + 85).stroke();
+      doc.text('Date', x, top + 90);
+    });
+    doc.y = top + 110;
+
+    // Footer on every page
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Drawing inside the bottom margin would otherwise start a new page
+      doc.page.margins.bottom = 0;
+      const footerY = doc.page.height - PAGE_MARGIN + 15;
+      doc.font(regular).fontSize(8).fillColor('#9e9e9e').text(
+        `Generated ${formatDate(data.generatedAt)} · Page ${i - range.start + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        footerY,
+        { width: contentWidth, align: 'center', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+};
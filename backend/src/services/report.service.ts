@@ -0,0 +1,289 @@
+import { Readable } from 'stream';
+import { Pool } from 'pg';
+import { displayMeasurement, MeasurementKind } from 'ar-inspection-platform-shared';
+import sharp from 'sharp';
+import { StorageDriver } from './storage.service';
+import { listSessionChecklists } from './checklist.service';
+import { renderReportPdf, ReportData, ReportMeasurement, ReportSnapshot } from './report-pdf.service';
+
+const REPORT_COLUMNS = `id, session_id, status, mime_type, storage_key, file_size, error,
+  generated_by, generated_at, created_at`;
+
+const SIGNED_URL_TTL = parseInt(process.env.MEDIA_URL_TTL || '900', 10);
+
+// Keeps large sessions from producing unwieldy PDFs
+const MAX_SNAPSHOTS = parseInt(process.env.REPORT_MAX_SNAPSHOTS || '24', 10);
+const SNAPSHOT_WIDTH = 1000;
+
+export const formatReport = async (storage: StorageDriver, row: any) => ({
+  id: row.id,
+  session_id: row.session_id,
+  status: row.status,
+  mime_type: row.mime_type,
+  file_size: row.file_size !== null ? Number(row.file_size) : null,
+  error: row.error,
+  generated_by: row.generated_by,
+  generated_at: row.generated_at,
+  created_at: row.created_at,
+  url: row.storage_key && row.status === 'ready'
+    ? await storage.getSignedUrl(row.storage_key, SIGNED_URL_TTL)
+    : null,
+  url_expires_at: new Date(Date.now() + SIGNED_URL_TTL * 1000).toISOString()
+});
+
+export const listReports = async (db: Pool, storage: StorageDriver, sessionId: string) => {
+  const result = await db.query(
+    `SELECT ${REPORT_COLUMNS} FROM session_reports WHERE session_id = $1 ORDER BY created_at DESC`,
+    [sessionId]
+  );
+
+  return Promise.all(result.rows.map((row: any) => formatReport(storage, row)));
+};
+
+export const getReport = async (db: Pool, storage: StorageDriver, sessionId: string, reportId: string) => {
+  const result = await db.query(
+    `SELECT ${REPORT_COLUMNS} FROM session_reports WHERE id = $1 AND session_id = $2`,
+    [reportId, sessionId]
+  );
+
+  return result.rows[0] ? formatReport(storage, result.rows[0]) : null;
+};
+
+const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// PDFKit only embeds JPEG and PNG, so photos are re-encoded (and shrunk) with
+// sharp. Falls back to the stored thumbnail when the original can't be decoded.
+const loadSnapshotImage = async (storage: StorageDriver, row: any): Promise<Buffer | null> => {
+
+  for (const key of [row.storage_key, row.thumbnail_key]) {
+    if (!key) {
+      continue;
+    }
+    try {
+      const original = await streamToBuffer(storage.getStream(key));
+      return await sharp(original)
+        .rotate()
+        .resize(SNAPSHOT_WIDTH, SNAPSHOT_WIDTH, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+    } catch (error: any) {
+      console.warn(`Report image ${key} unavailable:`, error.message);
+    }
+  }
+
+  return null;
+};
+
+const findItem = (checklist: any, itemId: string) => {
+  for (const section of checklist.sections) {
+    const item = section.items.find((candidate: any) => candidate.id === itemId);
+    if (item) {
+      return item;
+    }
+  }
+  return null;
+};
+
+// Numeric checklist readings
+const collectMeasurements = (checklists: any[]): ReportMeasurement[] => {
+  const measurements: ReportMeasurement[] = [];
+
+  checklists.forEach((checklist) => {
+    checklist.findings.forEach((finding: any) => {
+      const item = findItem(checklist, finding.item_id);
+      if (item?.type !== 'numeric' || finding.value === null) {
+        return;
+      }
+      measurements.push({
+        source: checklist.name,
+        label: item.label,
+        value: finding.value,
+        unit: item.unit,
+        min: item.min,
+        max: item.max,
+        withinTolerance: finding.within_tolerance
+      });
+    });
+  });
+
+  return measurements;
+};
+
+const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  distance: 'Distance',
+  polyline: 'Path length',
+  area: 'Area',
+  height: 'Height',
+  angle: 'Angle'
+};
+
+// Measurements taken with the AR tools, in the units they were taken in
+const collectARMeasurements = (annotations: any[]): ReportMeasurement[] => {
+  return annotations
+    .filter((annotation) => annotation.type === 'measurement' && annotation.measurement)
+    .map((annotation) => {
+      const { value, accuracy, unit } = displayMeasurement(annotation.measurement);
+      return {
+        source: 'AR measurement',
+        label: annotation.text || MEASUREMENT_LABELS[annotation.measurement.kind as MeasurementKind],
+        value,
+        unit,
+        accuracy: accuracy ?? undefined,
+        withinTolerance: null
+      };
+    });
+};
+
+// Session photos, captioned with the checklist items they evidence and the
+// annotations recorded against those items
+const collectSnapshots = async (
+  db: Pool,
+  storage: StorageDriver,
+  sessionId: string,
+  checklists: any[],
+  annotations: any[]
+): Promise<ReportSnapshot[]> => {
+  const result = await db.query(
+    `SELECT m.id, m.original_name, m.storage_key, m.thumbnail_key, m.metadata, m.captured_at, m.created_at,
+            up.name AS uploaded_by_name
+     FROM media m
+     LEFT JOIN user_profiles up ON m.uploaded_by = up.user_id
+     WHERE m.session_id = $1 AND m.type = 'photo'
+     ORDER BY COALESCE(m.captured_at, m.created_at) ASC
+     LIMIT ${MAX_SNAPSHOTS}`,
+    [sessionId]
+  );
+
+  const snapshots: ReportSnapshot[] = [];
+
+  for (const row of result.rows) {
+    const image = await loadSnapshotImage(storage, row);
+    if (!image) {
+      continue;
+    }
+
+    const details: string[] = [];
+    const takenAt = row.captured_at || row.created_at;
+    details.push(`Captured ${new Date(takenAt).toISOString().replace('T', ' ').slice(0, 16)} UTC`
+      + (row.uploaded_by_name ? ` by ${row.uploaded_by_name}` : ''));
+
+    const gps = row.metadata?.gps;
+    if (gps && typeof gps.latitude === 'number' && typeof gps.longitude === 'number') {
+      details.push(`Location ${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}`);
+    }
+
+    checklists.forEach((checklist) => {
+      checklist.findings
+        .filter((finding: any) => (finding.media_ids || []).includes(row.id))
+        .forEach((finding: any) => {
+          const item = findItem(checklist, finding.item_id);
+          const result = finding.result ? finding.result.toUpperCase() : 'OPEN';
+          details.push(`${checklist.name} › ${item?.label || finding.item_id}: ${result}`
+            + (finding.notes ? ` — ${finding.notes}` : ''));
+
+          annotations
+            .filter((annotation) => (finding.annotation_ids || []).includes(annotation.id))
+            .forEach((annotation) => {
+              details.push(`  Annotation (${annotation.type})${annotation.text ? `: ${annotation.text}` : ''}`);
+            });
+        });
+    });
+
+    snapshots.push({ image, caption: row.original_name || `Photo ${snapshots.length + 1}`, details });
+  }
+
+  return snapshots;
+};
+
+const collectReportData = async (db: Pool, storage: StorageDriver, sessionId: string): Promise<ReportData> => {
+  const sessionResult = await db.query(
+    `SELECT s.id, s.status, s.metadata, s.started_at, s.ended_at,
+            o.name AS organization_name,
+            cu.email AS client_email, cp.name AS client_name,
+            gu.email AS gig_user_email, gp.name AS gig_user_name
+     FROM sessions s
+     LEFT JOIN organizations o ON s.organization_id = o.id
+     LEFT JOIN users cu ON s.client_id = cu.id
+     LEFT JOIN user_profiles cp ON s.client_id = cp.user_id
+     LEFT JOIN users gu ON s.gig_user_id = gu.id
+     LEFT JOIN user_profiles gp ON s.gig_user_id = gp.user_id
+     WHERE s.id = $1`,
+    [sessionId]
+  );
+
+  const session = sessionResult.rows[0];
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  const annotationResult = await db.query(
+    `SELECT id, type, text, measurement FROM annotations
+     WHERE session_id = $1 AND deleted_at IS NULL
+     ORDER BY created_at ASC`,
+    [sessionId]
+  );
+
+  const checklists = await listSessionChecklists(db, sessionId);
+
+  return {
+    session,
+    organizationName: session.organization_name,
+    participants: [
+      { role: 'Client', name: session.client_name, email: session.client_email },
+      { role: 'Inspector', name: session.gig_user_name, email: session.gig_user_email }
+    ],
+    checklists,
+    measurements: [...collectMeasurements(checklists), ...collectARMeasurements(annotationResult.rows)],
+    snapshots: await collectSnapshots(db, storage, sessionId, checklists, annotationResult.rows),
+    annotationCount: annotationResult.rows.length,
+    generatedAt: new Date()
+  };
+};
+
+// Renders the session's report and stores it next to the session media. The
+// row is created up front as 'pending' so the dashboard can show progress,
+// and is marked 'failed' with the reason if rendering or storage fails.
+export const generateReport = async (
+  db: Pool,
+  storage: StorageDriver,
+  sessionId: string,
+  userId: string | null
+) => {
+  const pending = await db.query(
+    `INSERT INTO session_reports (session_id, status, generated_by)
+     VALUES ($1, 'pending', $2)
+     RETURNING ${REPORT_COLUMNS}`,
+    [sessionId, userId]
+  );
+  const reportId = pending.rows[0].id;
+  const storageKey = `sessions/${sessionId}/reports/${reportId}.pdf`;
+
+  try {
+    const pdf = await renderReportPdf(await collectReportData(db, storage, sessionId));
+    await storage.putBuffer(storageKey, pdf, 'application/pdf');
+
+    const result = await db.query(
+      `UPDATE session_reports
+       SET status = 'ready', storage_key = $1, file_size = $2, generated_at = CURRENT_TIMESTAMP
+       WHERE id = $3
+       RETURNING ${REPORT_COLUMNS}`,
+      [storageKey, pdf.length, reportId]
+    );
+
+    return formatReport(storage, result.rows[0]);
+  } catch (error: any) {
+    console.error('Report generation error:', error);
+    const result = await db.query(
+      `UPDATE session_reports SET status = 'failed', error = $1 WHERE id = $2 RETURNING ${REPORT_COLUMNS}`,
+      [String(error.message || error).slice(0, 500), reportId]
+    );
+
+    return formatReport(storage, result.rows[0]);
+  }
+};
@@ -0,0 +1,49 @@
+import { Pool } from 'pg';
+import { SessionResource, SessionStatusEvent } from 'ar-inspection-platform-shared';
+
+// Annotation revisions and status changes are numbered from the same database
+// sequence. A collaborator's cursor is the highest number it has been sent
+// for its session; BIGINTs are passed around as strings.
+
+// Kept so rejoining collaborators can be sent the session:status events they missed
+export const recordStatusEvent = async (db: Pool, session: SessionResource, userId: string) => {
+  await db.query(
+    `INSERT INTO session_status_events (session_id, status, snapshot, changed_by)
+     VALUES ($1, $2, $3, $4)`,
+    [session.id, session.status, session, userId]
+  );
+};
+
+// The position of the session's latest event, or '0' before it has any
+export const getSessionCursor = async (db: Pool, sessionId: string): Promise<string> => {
+  const result = await db.query(
+    `SELECT MAX(sequence) AS cursor FROM (
+       SELECT sequence FROM annotation_revisions WHERE session_id = $1
+       UNION ALL
+       SELECT sequence FROM session_status_events WHERE session_id = $1
+     ) AS events`,
+    [sessionId]
+  );
+
+  return String(result.rows[0]?.cursor ?? 0);
+};
+
+export const listStatusEventsAfter = async (
+  db: Pool,
+  sessionId: string,
+  cursor: string
+): Promise<SessionStatusEvent[]> => {
+  const result = await db.query(
+    `SELECT status, snapshot, changed_by, created_at FROM session_status_events
+     WHERE session_id = $1 AND sequence > $2
+     ORDER BY sequence ASC`,
+    [sessionId, cursor]
+  );
+
+  return result.rows.map((row) => ({
+    status: row.status,
+    session: row.snapshot,
+    changed_by: row.changed_by,
+    created_at: row.created_at
+  }));
+};
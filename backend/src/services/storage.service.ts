@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import S3 from 'aws-sdk/clients/s3';
+
+// Backend-agnostic object storage used for session media. Keys are
+// slash-separated paths such as `sessions/<sessionId>/<mediaId>.jpg`.
+export interface StorageDriver {
+  put(key: string, filePath: string, contentType: string): Promise<void>;
+  putBuffer(key: string, body: Buffer, contentType: string): Promise<void>;
+  getStream(key: string): Readable;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+const MEDIA_FILES_PATH = '/api/media/files';
+
+export class LocalStorageDriver implements StorageDriver {
+  private root: string;
+  private urlSecret: string;
+
+  constructor(root: string, urlSecret: string) {
+    // An empty HMAC key would make every signature forgeable
+    if (!urlSecret) {
+      throw new Error('A URL secret is required to sign media URLs');
+    }
+    this.root = path.resolve(root);
+    this.urlSecret = urlSecret;
+  }
+
+  private signKey(key: string, expires: number) {
+    return crypto.createHmac('sha256', this.urlSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  // Checks a signature produced by getSignedUrl
+  verifySignedKey(key: string, expires: number, signature: string) {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signKey(key, expires));
+    const actual = Buffer.from(signature || '');
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+  }
+
+  async putBuffer(key: string, body: Buffer): Promise<void> {
+    const target = this.resolve(key);
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, body);
+  }
+
+  getStream(key: string): Readable {
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Served by the media file route, which checks the signature instead of a token
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    return `${MEDIA_FILES_PATH}/${encodedKey}?expires=${expires}&signature=${this.signKey(key, expires)}`;
+  }
+}
+
+// S3 or any S3-compatible service (MinIO, R2) when S3_ENDPOINT is set
+export class S3StorageDriver implements StorageDriver {
+  private s3: S3;
+  private bucket: string;
+
+  constructor(bucket: string) {
+    this.bucket = bucket;
+    this.s3 = new S3({
+      region: process.env.S3_REGION || process.env.AWS_REGION,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      s3ForcePathStyle: Boolean(process.env.S3_ENDPOINT),
+      signatureVersion: 'v4'
+    });
+  }
+
+  async put(key: string, filePath: string, contentType: string): Promise<void> {
+    await this.s3.upload({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentType: contentType
+    }).promise();
+  }
+
+  async putBuffer(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.s3.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    }).promise();
+  }
+
+  getStream(key: string): Readable {
+    return this.s3.getObject({ Bucket: this.bucket, Key: key }).createReadStream();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return this.s3.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      Expires: expiresInSeconds
+    });
+  }
+}
+
+// STORAGE_DRIVER=s3 (with S3_BUCKET) in production; local disk otherwise.
+// createContainer builds the one the app uses.
+export const createStorage = (urlSecret: string): StorageDriver => {
+  if (process.env.STORAGE_DRIVER === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    return new S3StorageDriver(process.env.S3_BUCKET);
+  }
+
+  return new LocalStorageDriver(process.env.MEDIA_STORAGE_DIR || 'uploads/media', urlSecret);
+};
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Pool } from 'pg';
+
+export interface TokenUser {
+  userId: string;
+  email: string;
+  userType: string;
+  sessionId: string;
+}
+
+export interface TokenResponse {
+  token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export type RefreshResult =
+  | { status: 'rotated'; user: TokenUser; tokens: TokenResponse }
+  // Sessions ended because the token was reused or its user is inactive
+  | { status: 'rejected'; revokedSessionIds: string[] };
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const ACCESS_TOKEN_EXPIRY = process.env.JWT_EXPIRY || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+export const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const createRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+export const revokeSession = async (db: Pool, sessionId: string) => {
+  await db.query(
+    'UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND revoked_at IS NULL',
+    [sessionId]
+  );
+};
+
+// Logout with only the refresh token, which still works after the access token
+// expired; returns the id of the session it ended, if any
+export const revokeRefreshToken = async (db: Pool, refreshToken: string): Promise<string[]> => {
+  const result = await db.query(
+    `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE refresh_token_hash = $1 AND revoked_at IS NULL
+     RETURNING id`,
+    [hashToken(refreshToken)]
+  );
+
+  return result.rows.map((row) => row.id);
+};
+
+// "Log out all devices"; returns the ids of the sessions it ended
+export const revokeAllSessions = async (db: Pool, userId: string): Promise<string[]> => {
+  const result = await db.query(
+    `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND revoked_at IS NULL
+     RETURNING id`,
+    [userId]
+  );
+
+  return result.rows.map((row) => row.id);
+};
+
+// Signs and verifies the JWTs with the configured secret; createContainer
+// builds one from config.jwtSecret
+export const createTokenService = (secret: string) => {
+  // Short-lived JWT; `sid` ties it to the auth_sessions row that can revoke it
+  const generateAccessToken = (user: TokenUser) => {
+    return jwt.sign(
+      { userId: user.userId, email: user.email, userType: user.userType, sid: user.sessionId },
+      secret,
+      { expiresIn: ACCESS_TOKEN_EXPIRY as jwt.SignOptions['expiresIn'] }
+    );
+  };
+
+  const buildTokenResponse = (user: TokenUser, refreshToken: string): TokenResponse => {
+    const token = generateAccessToken(user);
+    const { exp } = jwt.decode(token) as { exp: number };
+
+    return {
+      token,
+      refresh_token: refreshToken,
+      expires_in: exp - Math.floor(Date.now() / 1000)
+    };
+  };
+
+  return {
+    // Starts a new device session for a successful login or registration
+    issueTokens: async (
+      db: Pool,
+      user: { id: string; email: string; user_type: string },
+      client: ClientInfo = {}
+    ) => {
+      const refreshToken = createRefreshToken();
+
+      const result = await db.query(
+        `INSERT INTO auth_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + ($5 || ' days')::interval)
+         RETURNING id`,
+        [
+          user.id, hashToken(refreshToken), client.userAgent?.slice(0, 500) || null,
+          client.ipAddress || null, String(REFRESH_TOKEN_TTL_DAYS)
+        ]
+      );
+
+      return buildTokenResponse(
+        { userId: user.id, email: user.email, userType: user.user_type, sessionId: result.rows[0].id },
+        refreshToken
+      );
+    },
+
+    // Exchanges a refresh token for a new access/refresh pair. Each refresh token
+    // works once; presenting one that was already rotated out means it was copied,
+    // so the whole device session is revoked.
+    rotateRefreshToken: async (db: Pool, refreshToken: string): Promise<RefreshResult> => {
+      const presentedHash = hashToken(refreshToken);
+      const nextToken = createRefreshToken();
+
+      const rotated = await db.query(
+        `UPDATE auth_sessions
+         SET previous_token_hash = refresh_token_hash,
+             refresh_token_hash = $1,
+             last_used_at = CURRENT_TIMESTAMP,
+             expires_at = CURRENT_TIMESTAMP + ($2 || ' days')::interval
+         WHERE refresh_token_hash = $3 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         RETURNING id, user_id`,
+        [hashToken(nextToken), String(REFRESH_TOKEN_TTL_DAYS), presentedHash]
+      );
+
+      if (rotated.rows.length === 0) {
+        const reused = await db.query(
+          `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+           WHERE previous_token_hash = $1 AND revoked_at IS NULL
+           RETURNING id`,
+          [presentedHash]
+        );
+        if (reused.rows.length > 0) {
+          console.warn(`Refresh token reuse detected; revoked session ${reused.rows[0].id}`);
+        }
+        return { status: 'rejected', revokedSessionIds: reused.rows.map((row) => row.id) };
+      }
+
+      const session = rotated.rows[0];
+      const userResult = await db.query(
+        'SELECT id, email, user_type FROM users WHERE id = $1 AND is_active = TRUE',
+        [session.user_id]
+      );
+
+      if (userResult.rows.length === 0) {
+        await revokeSession(db, session.id);
+        return { status: 'rejected', revokedSessionIds: [session.id] };
+      }
+
+      const row = userResult.rows[0];
+      const user: TokenUser = { userId: row.id, email: row.email, userType: row.user_type, sessionId: session.id };
+
+      return { status: 'rotated', user, tokens: buildTokenResponse(user, nextToken) };
+    },
+
+    // Verifies the JWT and that its user is active and its device session has not
+    // been revoked. Shared by the HTTP and Socket.IO auth middleware.
+    verifyAccessToken: async (db: Pool, token: string): Promise<TokenUser | null> => {
+      let decoded: any;
+      try {
+        decoded = jwt.verify(token, secret);
+      } catch (error) {
+        return null;
+      }
+
+      if (!decoded?.userId || !decoded.sid) {
+        return null;
+      }
+
+      const result = await db.query(
+        `SELECT u.id FROM users u
+         JOIN auth_sessions s ON s.user_id = u.id
+         WHERE u.id = $1 AND s.id = $2 AND u.is_active = TRUE
+           AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP`,
+        [decoded.userId, decoded.sid]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return {
+        userId: decoded.userId,
+        email: decoded.email,
+        userType: decoded.userType,
+        sessionId: decoded.sid
+      };
+    },
+
+    // Issued by login when the password is correct but a second factor is still
+    // required. It has no `sid`, so verifyAccessToken never accepts it; its `jti`
+    // lets wrong codes be counted per challenge.
+    createChallengeToken: (userId: string) => {
+      return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, secret, {
+        expiresIn: CHALLENGE_TOKEN_TTL_SECONDS,
+        jwtid: crypto.randomUUID()
+      });
+    },
+
+    // Returns the user the challenge was issued for and the challenge's id, or null
+    verifyChallengeToken: (token: string): { userId: string; challengeId: string } | null => {
+      try {
+        const decoded = jwt.verify(token, secret) as any;
+        return decoded?.purpose === CHALLENGE_PURPOSE && decoded.userId && decoded.jti
+          ? { userId: decoded.userId, challengeId: decoded.jti }
+          : null;
+      } catch (error) {
+        return null;
+      }
+    }
+  };
+};
+
+export type TokenService = ReturnType<typeof createTokenService>;
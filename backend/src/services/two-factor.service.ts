@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../database/transaction';
+import { encryptSecret, decryptSecret } from './encryption.service';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from './totp.service';
+
+export type SecondFactorMethod = 'totp' | 'backup_code';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'AR Inspection';
+const BACKUP_CODE_COUNT = 10;
+
+// Unambiguous characters only (no 0/O, 1/I/L)
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const normalizeBackupCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashBackupCode = (code: string) => {
+  return crypto.createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+};
+
+const generateBackupCode = () => {
+  const chars = Array.from(crypto.randomBytes(8), (byte) => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+};
+
+// Replaces any existing backup codes; the plain codes are only ever returned here
+const replaceBackupCodes = async (client: PoolClient, userId: string) => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+
+  await client.query('DELETE FROM user_backup_codes WHERE user_id = $1', [userId]);
+  for (const code of codes) {
+    await client.query(
+      'INSERT INTO user_backup_codes (user_id, code_hash) VALUES ($1, $2)',
+      [userId, hashBackupCode(code)]
+    );
+  }
+
+  return codes;
+};
+
+const loadTwoFactor = async (db: Pool | PoolClient, userId: string) => {
+  const result = await db.query(
+    'SELECT user_id, secret_encrypted, enabled_at, last_used_step FROM user_two_factor WHERE user_id = $1',
+    [userId]
+  );
+
+  return result.rows[0] || null;
+};
+
+export const getTwoFactorStatus = async (db: Pool, userId: string) => {
+  const twoFactor = await loadTwoFactor(db, userId);
+  const codes = await db.query(
+    'SELECT COUNT(*) AS remaining FROM user_backup_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+
+  return {
+    enabled: Boolean(twoFactor?.enabled_at),
+    pending: Boolean(twoFactor && !twoFactor.enabled_at),
+    enabled_at: twoFactor?.enabled_at || null,
+    backup_codes_remaining: twoFactor?.enabled_at ? parseInt(codes.rows[0].remaining, 10) : 0
+  };
+};
+
+export const isTwoFactorEnabled = async (db: Pool, userId: string) => {
+  const twoFactor = await loadTwoFactor(db, userId);
+  return Boolean(twoFactor?.enabled_at);
+};
+
+// Starts (or restarts) enrollment with a fresh secret. Returns null when 2FA
+// is already enabled.
+export const beginEnrollment = async (db: Pool, user: { id: string; email: string }) => {
+  const existing = await loadTwoFactor(db, user.id);
+  if (existing?.enabled_at) {
+    return null;
+  }
+
+  const secret = generateTotpSecret();
+
+  await db.query(
+    `INSERT INTO user_two_factor (user_id, secret_encrypted)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE
+     SET secret_encrypted = EXCLUDED.secret_encrypted, enabled_at = NULL,
+         last_used_step = NULL, updated_at = CURRENT_TIMESTAMP`,
+    [user.id, encryptSecret(secret)]
+  );
+
+  return {
+    secret,
+    otpauth_url: buildOtpAuthUri(secret, user.email, TOTP_ISSUER)
+  };
+};
+
+// Enables 2FA once the user proves their authenticator produces valid codes.
+// Returns the new backup codes, or null if the code is wrong or nothing is pending.
+export const confirmEnrollment = async (db: Pool, userId: string, code: string) => {
+  const twoFactor = await loadTwoFactor(db, userId);
+  if (!twoFactor || twoFactor.enabled_at) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(twoFactor.secret_encrypted), code.trim());
+  if (step === null) {
+    return null;
+  }
+
+  return withTransaction(db, async (client) => {
+    await client.query(
+      `UPDATE user_two_factor
+       SET enabled_at = CURRENT_TIMESTAMP, last_used_step = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2`,
+      [step, userId]
+    );
+
+    return replaceBackupCodes(client, userId);
+  });
+};
+
+// Checks a TOTP code or an unused backup code for an enrolled user. Accepted
+// codes are consumed: a TOTP time step can't be reused and a backup code
+// works once.
+export const verifySecondFactor = async (
+  db: Pool,
+  userId: string,
+  code: string
+): Promise<SecondFactorMethod | null> => {
+  const twoFactor = await loadTwoFactor(db, userId);
+  if (!twoFactor?.enabled_at || typeof code !== 'string') {
+    return null;
+  }
+
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(decryptSecret(twoFactor.secret_encrypted), trimmed);
+    if (step === null) {
+      return null;
+    }
+
+    const accepted = await db.query(
+      `UPDATE user_two_factor SET last_used_step = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2 AND (last_used_step IS NULL OR last_used_step < $1)
+       RETURNING user_id`,
+      [step, userId]
+    );
+
+    return accepted.rows.length > 0 ? 'totp' : null;
+  }
+
+  const redeemed = await db.query(
+    `UPDATE user_backup_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashBackupCode(trimmed)]
+  );
+
+  return redeemed.rows.length > 0 ? 'backup_code' : null;
+};
+
+// Returns false if the code is invalid
+export const disableTwoFactor = async (db: Pool, userId: string, code: string) => {
+  if (!await verifySecondFactor(db, userId, code)) {
+    return false;
+  }
+
+  await withTransaction(db, async (client) => {
+    await client.query('DELETE FROM user_backup_codes WHERE user_id = $1', [userId]);
+    await client.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+  });
+
+  return true;
+};
+
+// Returns a fresh set of backup codes, or null if the code is invalid
+export const regenerateBackupCodes = async (db: Pool, userId: string, code: string) => {
+  if (!await verifySecondFactor(db, userId, code)) {
+    return null;
+  }
+
+  return withTransaction(db, (client) => replaceBackupCodes(client, userId));
+};
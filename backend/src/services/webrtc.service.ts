@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+const TURN_CREDENTIAL_TTL = parseInt(process.env.TURN_CREDENTIAL_TTL || '86400', 10);
+
+const parseUrls = (value?: string): string[] => {
+  return (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+};
+
+// TURN REST API credentials (coturn `use-auth-secret`): the username carries the
+// expiry timestamp and the password is an HMAC of it, so nothing long-lived
+// reaches the client
+const createTurnCredentials = (userId: string, secret: string) => {
+  const username = `${Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL}:${userId}`;
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+
+  return { username, credential };
+};
+
+// ICE servers for a user's peer connection. With no STUN_SERVERS or
+// TURN_SERVERS configured this is empty, which is enough for host candidates
+// on a local loopback peer and needs no external service.
+export const getIceServers = (userId: string): IceServer[] => {
+  const iceServers: IceServer[] = [];
+  const stunUrls = parseUrls(process.env.STUN_SERVERS);
+  const turnUrls = parseUrls(process.env.TURN_SERVERS);
+
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  if (turnUrls.length > 0) {
+    const credentials = process.env.TURN_SECRET
+      ? createTurnCredentials(userId, process.env.TURN_SECRET)
+      : { username: process.env.TURN_USERNAME, credential: process.env.TURN_PASSWORD };
+
+    iceServers.push({ urls: turnUrls, ...credentials });
+  }
+
+  return iceServers;
+};
@@ -0,0 +1,165 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { COLLABORATION_NAMESPACE, setupCollaboration } from '../collaboration.socket';
+import { createOrganization } from '../../services/organization.service';
+import { TestUser, bearer, createTestUser, useTestContext } from '../../test/harness';
+
+const SPHERE = { type: 'sphere', position: { x: 0, y: 0, z: -1 }, color: '#FF3B30' };
+
+describe('collaboration socket', () => {
+  const context = useTestContext();
+  let io: Server;
+  let url: string;
+  const sockets: ClientSocket[] = [];
+
+  // A real Socket.IO server on a loopback port, attached to the app's
+  // container so REST changes reach it
+  beforeAll(async () => {
+    const server = http.createServer();
+    io = new Server(server);
+    setupCollaboration(io, context.container);
+    context.container.io = io;
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${COLLABORATION_NAMESPACE}`;
+  });
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.disconnect());
+  });
+
+  afterAll(async () => {
+    context.container.io = undefined;
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+  });
+
+  const connectAs = (user: TestUser) => new Promise<ClientSocket>((resolve, reject) => {
+    const socket = connect(url, { auth: { token: user.token }, transports: ['websocket'], reconnection: false, forceNew: true });
+    sockets.push(socket);
+    socket.once('connect', () => resolve(socket));
+    socket.once('connect_error', reject);
+  });
+
+  const nextEvent = (socket: ClientSocket, event: string) => new Promise<any>((resolve) => {
+    socket.once(event, resolve);
+  });
+
+  let client: TestUser;
+  let gigUser: TestUser;
+  let organizationId: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+    organizationId = (await createOrganization(context.db, 'Northwind Inspections', client.id)).id;
+
+    const session = await context.db.query(
+      `INSERT INTO sessions (organization_id, client_id, gig_user_id, status) VALUES ($1, $2, $3, 'waiting') RETURNING id`,
+      [organizationId, client.id, gigUser.id]
+    );
+    sessionId = session.rows[0].id;
+  });
+
+  const addMember = async (role: string) => {
+    const member = await createTestUser(context.db);
+    await context.db.query(
+      'INSERT INTO organization_memberships (organization_id, user_id, role) VALUES ($1, $2, $3)',
+      [organizationId, member.id, role]
+    );
+    return member;
+  };
+
+  describe('session access', () => {
+    it('lets a dispatcher of the organization collaborate without being a participant', async () => {
+      const dispatcher = await addMember('dispatcher');
+      const socket = await connectAs(dispatcher);
+
+      const joined = await socket.emitWithAck('session:join', { sessionId });
+      expect(joined).toMatchObject({ session: { id: sessionId }, annotations: [], cursor: '0' });
+
+      const created = await socket.emitWithAck('annotation:create', { sessionId, annotation: SPHERE });
+      expect(created.annotation).toMatchObject({ session_id: sessionId, type: 'sphere', created_by: dispatcher.id });
+    });
+
+    it('lets a viewer follow the session but not change it', async () => {
+      const viewer = await addMember('viewer');
+      const socket = await connectAs(viewer);
+
+      expect(await socket.emitWithAck('session:join', { sessionId })).toMatchObject({ session: { id: sessionId } });
+      expect(await socket.emitWithAck('annotation:create', { sessionId, annotation: SPHERE })).toEqual({
+        error: 'Insufficient permissions'
+      });
+    });
+
+    it('refuses users outside the session and its organization', async () => {
+      const outsider = await createTestUser(context.db, { userType: 'gig_user' });
+      const socket = await connectAs(outsider);
+
+      expect(await socket.emitWithAck('session:join', { sessionId })).toEqual({
+        error: 'Not a participant of this session'
+      });
+    });
+  });
+
+  describe('rejoining', () => {
+    it('replays the revisions and status changes made after the cursor', async () => {
+      // A personal session, so the gig user can start it without joining the organization
+      await context.db.query('UPDATE sessions SET organization_id = NULL WHERE id = $1', [sessionId]);
+
+      const first = await connectAs(client);
+      const { cursor } = await first.emitWithAck('session:join', { sessionId });
+      first.disconnect();
+
+      const gigSocket = await connectAs(gigUser);
+      await gigSocket.emitWithAck('session:join', { sessionId });
+      const { annotation } = await gigSocket.emitWithAck('annotation:create', { sessionId, annotation: SPHERE });
+      await context.api()
+        .post(`/api/sessions/${sessionId}/start`)
+        .set('Authorization', bearer(gigUser))
+        .expect(200);
+
+      const second = await connectAs(client);
+      const rejoined = await second.emitWithAck('session:join', { sessionId, cursor });
+
+      expect(rejoined.annotations).toBeUndefined();
+      expect(rejoined.revisions).toEqual([
+        expect.objectContaining({ annotation_id: annotation.id, action: 'create', version: 1 })
+      ]);
+      expect(rejoined.statusEvents).toEqual([
+        expect.objectContaining({ status: 'active', session: expect.objectContaining({ id: sessionId, status: 'active' }) })
+      ]);
+      expect(BigInt(rejoined.cursor)).toBeGreaterThan(BigInt(cursor));
+
+      // Nothing has happened since
+      const again = await second.emitWithAck('session:join', { sessionId, cursor: rejoined.cursor });
+      expect(again).toMatchObject({ revisions: [], statusEvents: [], cursor: rejoined.cursor });
+    });
+
+    it('rejects a cursor it did not issue', async () => {
+      const socket = await connectAs(client);
+
+      expect(await socket.emitWithAck('session:join', { sessionId, cursor: '2026-10-01T09:00:00.000Z' })).toEqual({
+        error: 'cursor must be the cursor from a previous join'
+      });
+    });
+  });
+
+  describe('revoked auth sessions', () => {
+    it('disconnects the sockets of every session ended by logging out of all devices', async () => {
+      const socket = await connectAs(client);
+      const otherUser = await connectAs(gigUser);
+      const disconnected = nextEvent(socket, 'disconnect');
+
+      await context.api()
+        .post('/api/auth/logout-all')
+        .set('Authorization', bearer(client))
+        .expect(200);
+
+      expect(await disconnected).toBe('io server disconnect');
+      expect(otherUser.connected).toBe(true);
+    });
+  });
+});
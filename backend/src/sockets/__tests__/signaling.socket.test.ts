@@ -0,0 +1,113 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { SIGNALING_NAMESPACE, setupSignaling } from '../signaling.socket';
+import { TestUser, createTestUser, useTestContext } from '../../test/harness';
+
+describe('signaling socket', () => {
+  const context = useTestContext();
+  let io: Server;
+  let url: string;
+  const sockets: ClientSocket[] = [];
+
+  // A real Socket.IO server on a loopback port, backed by the test database
+  beforeAll(async () => {
+    const server = http.createServer();
+    io = new Server(server);
+    setupSignaling(io, context.container);
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${SIGNALING_NAMESPACE}`;
+  });
+
+  afterEach(() => {
+    sockets.splice(0).forEach((socket) => socket.disconnect());
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+  });
+
+  const connectWithToken = (token: string) => new Promise<ClientSocket>((resolve, reject) => {
+    const socket = connect(url, { auth: { token }, transports: ['websocket'], reconnection: false, forceNew: true });
+    sockets.push(socket);
+    socket.once('connect', () => resolve(socket));
+    socket.once('connect_error', reject);
+  });
+
+  const nextEvent = (socket: ClientSocket, event: string) => new Promise<any>((resolve) => {
+    socket.once(event, resolve);
+  });
+
+  let client: TestUser;
+  let gigUser: TestUser;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    client = await createTestUser(context.db);
+    gigUser = await createTestUser(context.db, { userType: 'gig_user' });
+
+    const session = await context.db.query(
+      `INSERT INTO sessions (client_id, gig_user_id, status) VALUES ($1, $2, 'active') RETURNING id`,
+      [client.id, gigUser.id]
+    );
+    sessionId = session.rows[0].id;
+  });
+
+  it('refuses a connection without a valid token', async () => {
+    await expect(connectWithToken('not-a-token')).rejects.toThrow('Invalid token');
+  });
+
+  it('lets an authenticated participant join the call', async () => {
+    const socket = await connectWithToken(client.token);
+
+    const joined = await socket.emitWithAck('call:join', { sessionId });
+
+    expect(joined).toMatchObject({ sessionId, peers: [], shouldOffer: false });
+    expect(joined.iceServers).toEqual(expect.any(Array));
+  });
+
+  it('relays the offer, answer and ICE candidates between the two participants', async () => {
+    const clientSocket = await connectWithToken(client.token);
+    const gigSocket = await connectWithToken(gigUser.token);
+
+    await clientSocket.emitWithAck('call:join', { sessionId });
+    const peerJoined = nextEvent(clientSocket, 'call:peer-joined');
+    const joined = await gigSocket.emitWithAck('call:join', { sessionId });
+
+    expect(joined).toMatchObject({ peers: [client.id], shouldOffer: true });
+    expect(await peerJoined).toEqual({ sessionId, userId: gigUser.id });
+
+    const offer = nextEvent(clientSocket, 'signal:offer');
+    expect(await gigSocket.emitWithAck('signal:offer', { sessionId, sdp: 'v=0 offer' })).toEqual({ ok: true });
+    expect(await offer).toEqual({ sessionId, from: gigUser.id, sdp: 'v=0 offer' });
+
+    const answer = nextEvent(gigSocket, 'signal:answer');
+    await clientSocket.emitWithAck('signal:answer', { sessionId, sdp: 'v=0 answer' });
+    expect(await answer).toEqual({ sessionId, from: client.id, sdp: 'v=0 answer' });
+
+    const candidate = { candidate: 'candidate:1 1 udp 2122260223 192.0.2.1 54321 typ host', sdpMid: '0' };
+    const ice = nextEvent(clientSocket, 'signal:ice-candidate');
+    await gigSocket.emitWithAck('signal:ice-candidate', { sessionId, candidate });
+    expect(await ice).toEqual({ sessionId, from: gigUser.id, candidate });
+  });
+
+  it('refuses a user who is not a participant of the session', async () => {
+    const outsider = await createTestUser(context.db, { userType: 'gig_user' });
+    const clientSocket = await connectWithToken(client.token);
+    const outsiderSocket = await connectWithToken(outsider.token);
+    await clientSocket.emitWithAck('call:join', { sessionId });
+
+    const joined = await outsiderSocket.emitWithAck('call:join', { sessionId });
+    expect(joined).toEqual({ error: 'Not a participant of this session' });
+
+    // Without joining, nothing it sends reaches the call
+    const relayed = jest.fn();
+    clientSocket.on('signal:offer', relayed);
+    const offered = await outsiderSocket.emitWithAck('signal:offer', { sessionId, sdp: 'v=0 offer' });
+
+    expect(offered).toEqual({ error: 'Join the call first' });
+    expect(relayed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,286 @@
+import { Server, Socket } from 'socket.io';
+import { Pool } from 'pg';
+import {
+  AnnotationCreatePayload,
+  AnnotationDeletePayload,
+  AnnotationUpdatePayload,
+  CursorMovePayload,
+  PresenceParticipant,
+  ServerEventName,
+  ServerEventPayload,
+  SessionJoinPayload,
+  SessionLeavePayload,
+  validateAnnotationCreate,
+  validateAnnotationDelete,
+  validateAnnotationUpdate,
+  validateCursorMove,
+  validateSessionJoin
+} from 'ar-inspection-platform-shared';
+import { Container } from '../container';
+import { socketAuthMiddleware, SocketUser } from './socket.auth';
+import {
+  listAnnotations,
+  listSessionRevisionsAfter,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation
+} from '../services/annotation.service';
+import { getMembershipRole } from '../services/organization.service';
+import { getSessionCursor, listStatusEventsAfter } from '../services/session-event.service';
+import { sessionAccess } from '../middleware/session.middleware';
+
+type Ack = (response: any) => void;
+
+export const COLLABORATION_NAMESPACE = '/collaboration';
+
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+// sessionId -> userId -> connected socket ids (a user may have several devices)
+const presence: Map<string, Map<string, Set<string>>> = new Map();
+
+// Sends an event to everyone in a session room; used by the REST routes so
+// changes made over HTTP reach live participants too. Payloads are checked
+// against the shared ServerToClientEvents contract.
+export const broadcastToSession = <E extends ServerEventName>(
+  io: Server | undefined,
+  sessionId: string,
+  event: E,
+  payload: ServerEventPayload<E>
+) => {
+  if (!io) {
+    return;
+  }
+
+  io.of(COLLABORATION_NAMESPACE).to(sessionRoom(sessionId)).emit(event, payload);
+};
+
+const getPresence = (sessionId: string): PresenceParticipant[] => {
+  const participants = presence.get(sessionId);
+
+  return Array.from(participants?.keys() || []).map((userId) => ({
+    userId,
+    connections: participants?.get(userId)?.size || 0
+  }));
+};
+
+const addPresence = (sessionId: string, userId: string, socketId: string) => {
+  const participants = presence.get(sessionId) || new Map<string, Set<string>>();
+  const sockets = participants.get(userId) || new Set<string>();
+
+  sockets.add(socketId);
+  participants.set(userId, sockets);
+  presence.set(sessionId, participants);
+};
+
+const removePresence = (sessionId: string, userId: string, socketId: string) => {
+  const participants = presence.get(sessionId);
+  const sockets = participants?.get(userId);
+
+  if (!participants || !sockets) {
+    return;
+  }
+
+  sockets.delete(socketId);
+  if (sockets.size === 0) {
+    participants.delete(userId);
+  }
+  if (participants.size === 0) {
+    presence.delete(sessionId);
+  }
+};
+
+// Loads the session with the user's access to it, as sessionParticipantMiddleware
+// decides it. Sockets aren't opened inside an organization, so the user's
+// role is the one they hold in the session's organization.
+const loadSessionAccess = async (db: Pool, sessionId: string, user: SocketUser) => {
+  const result = await db.query(
+    'SELECT id, organization_id, client_id, gig_user_id, status FROM sessions WHERE id = $1',
+    [sessionId]
+  );
+
+  const session = result.rows[0];
+  if (!session) {
+    return null;
+  }
+
+  const organizationRole = session.organization_id
+    ? await getMembershipRole(db, session.organization_id, user.userId)
+    : null;
+  const access = sessionAccess(session, user.userId, { userType: user.userType, organizationRole });
+
+  return access ? { session, access } : null;
+};
+
+const respond = (ack: Ack | undefined, response: any) => {
+  if (typeof ack === 'function') {
+    ack(response);
+  }
+};
+
+export const setupCollaboration = (io: Server, container: Container) => {
+  const namespace = io.of(COLLABORATION_NAMESPACE);
+
+  namespace.use(socketAuthMiddleware(container));
+
+  namespace.on('connection', (socket: Socket) => {
+    const user: SocketUser = socket.data.user;
+    const joinedSessions: Set<string> = new Set();
+
+    const leaveSession = (sessionId: string) => {
+      socket.leave(sessionRoom(sessionId));
+      joinedSessions.delete(sessionId);
+      removePresence(sessionId, user.userId, socket.id);
+      namespace.to(sessionRoom(sessionId)).emit('presence:update', {
+        sessionId,
+        participants: getPresence(sessionId)
+      });
+    };
+
+    // Wraps annotation handlers with payload validation and the joined-room,
+    // write-access and open-session checks
+    const withJoinedSession = <P extends { sessionId: string }>(
+      validate: (payload: any) => string | null,
+      handler: (session: any, payload: P) => Promise<any>
+    ) => async (payload: P, ack?: Ack) => {
+      try {
+        const validationError = validate(payload);
+        if (validationError) {
+          return respond(ack, { error: validationError });
+        }
+
+        if (!joinedSessions.has(payload.sessionId)) {
+          return respond(ack, { error: 'Join the session first' });
+        }
+
+        const loaded = await loadSessionAccess(container.db, payload.sessionId, user);
+        if (!loaded) {
+          return respond(ack, { error: 'Not a participant of this session' });
+        }
+
+        const { session, access } = loaded;
+        if (access !== 'write') {
+          return respond(ack, { error: 'Insufficient permissions' });
+        }
+
+        if (['completed', 'cancelled'].includes(session.status)) {
+          return respond(ack, { error: 'Session is closed' });
+        }
+
+        respond(ack, await handler(session, payload));
+      } catch (error: any) {
+        console.error('Collaboration event error:', error);
+        respond(ack, { error: 'Failed to process event' });
+      }
+    };
+
+    // Join a session room; anyone who may read the session may join. The
+    // response carries a cursor from the database. Reconnecting clients pass it
+    // back and receive the revisions and status changes made after it;
+    // first-time joins receive the full current annotation set.
+    socket.on('session:join', async (payload: SessionJoinPayload, ack?: Ack) => {
+      try {
+        const validationError = validateSessionJoin(payload);
+        if (validationError) {
+          return respond(ack, { error: validationError });
+        }
+
+        const loaded = await loadSessionAccess(container.db, payload.sessionId, user);
+        if (!loaded) {
+          return respond(ack, { error: 'Not a participant of this session' });
+        }
+
+        const { session } = loaded;
+
+        // In the room before the cursor is read, so nothing after it is missed;
+        // anything made in between is sent twice, and clients go by version
+        socket.join(sessionRoom(session.id));
+        joinedSessions.add(session.id);
+        addPresence(session.id, user.userId, socket.id);
+
+        const cursor = await getSessionCursor(container.db, session.id);
+
+        respond(ack, {
+          session,
+          participants: getPresence(session.id),
+          ...(payload.cursor
+            ? {
+              revisions: await listSessionRevisionsAfter(container.db, session.id, payload.cursor),
+              statusEvents: await listStatusEventsAfter(container.db, session.id, payload.cursor)
+            }
+            : { annotations: await listAnnotations(container.db, session.id) }),
+          cursor
+        });
+
+        socket.to(sessionRoom(session.id)).emit('presence:update', {
+          sessionId: session.id,
+          participants: getPresence(session.id)
+        });
+      } catch (error: any) {
+        console.error('Session join error:', error);
+        respond(ack, { error: 'Failed to join session' });
+      }
+    });
+
+    socket.on('session:leave', (payload: SessionLeavePayload, ack?: Ack) => {
+      if (payload?.sessionId && joinedSessions.has(payload.sessionId)) {
+        leaveSession(payload.sessionId);
+      }
+      respond(ack, { ok: true });
+    });
+
+    socket.on('annotation:create', withJoinedSession<AnnotationCreatePayload>(validateAnnotationCreate, async (session, payload) => {
+      const annotation = await createAnnotation(container.db, session.id, user.userId, payload.annotation);
+      namespace.to(sessionRoom(session.id)).emit('annotation:created', { sessionId: session.id, annotation });
+      return { annotation };
+    }));
+
+    socket.on('annotation:update', withJoinedSession<AnnotationUpdatePayload>(validateAnnotationUpdate, async (session, payload) => {
+      const result = await updateAnnotation(
+        container.db, session.id, payload.annotationId, user.userId, payload.changes
+      );
+      if (result.status === 'not_found') {
+        return { error: 'Annotation not found' };
+      }
+      if (result.status === 'invalid') {
+        return { error: result.error };
+      }
+
+      const { annotation } = result;
+      namespace.to(sessionRoom(session.id)).emit('annotation:updated', { sessionId: session.id, annotation });
+      return { annotation };
+    }));
+
+    socket.on('annotation:delete', withJoinedSession<AnnotationDeletePayload>(validateAnnotationDelete, async (session, payload) => {
+      const annotation = await deleteAnnotation(container.db, session.id, payload.annotationId, user.userId);
+      if (!annotation) {
+        return { error: 'Annotation not found' };
+      }
+
+      namespace.to(sessionRoom(session.id)).emit('annotation:deleted', { sessionId: session.id, annotation });
+      return { annotation };
+    }));
+
+    // Cursor and pointer positions are relayed only and never persisted
+    socket.on('cursor:move', (payload: CursorMovePayload) => {
+      if (validateCursorMove(payload) || !joinedSessions.has(payload.sessionId)) {
+        return;
+      }
+
+      socket.volatile.to(sessionRoom(payload.sessionId)).emit('cursor:moved', {
+        sessionId: payload.sessionId,
+        userId: user.userId,
+        space: payload.space === 'world' ? 'world' : 'screen',
+        position: payload.position,
+        timestamp: Date.now()
+      });
+    });
+
+    socket.on('disconnect', () => {
+      for (const sessionId of Array.from(joinedSessions)) {
+        leaveSession(sessionId);
+      }
+    });
+  });
+
+  return namespace;
+};
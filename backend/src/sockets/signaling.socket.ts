@@ -0,0 +1,146 @@
+import { Server, Socket } from 'socket.io';
+import { Container } from '../container';
+import { socketAuthMiddleware, SocketUser } from './socket.auth';
+import { getIceServers } from '../services/webrtc.service';
+
+type Ack = (response: any) => void;
+
+type SignalEvent = 'signal:offer' | 'signal:answer' | 'signal:ice-candidate';
+
+export const SIGNALING_NAMESPACE = '/signaling';
+
+const callRoom = (sessionId: string) => `call:${sessionId}`;
+
+// Calls are only possible once a gig user has accepted and before the session ends
+const CALLABLE_STATUSES = ['waiting', 'active'];
+
+// sessionId -> userId -> socket id; at most the client and the gig user
+const calls: Map<string, Map<string, string>> = new Map();
+
+const respond = (ack: Ack | undefined, response: any) => {
+  if (typeof ack === 'function') {
+    ack(response);
+  }
+};
+
+// Relays SDP offers/answers and ICE candidates between the two assigned
+// participants of a session. Media never touches the server.
+export const setupSignaling = (io: Server, container: Container) => {
+  const namespace = io.of(SIGNALING_NAMESPACE);
+
+  namespace.use(socketAuthMiddleware(container));
+
+  namespace.on('connection', (socket: Socket) => {
+    const user: SocketUser = socket.data.user;
+    let currentSessionId: string | null = null;
+
+    const leaveCall = () => {
+      if (!currentSessionId) {
+        return;
+      }
+
+      const sessionId = currentSessionId;
+      const participants = calls.get(sessionId);
+
+      // Only clear the slot if it still belongs to this socket (not a newer one)
+      if (participants?.get(user.userId) === socket.id) {
+        participants.delete(user.userId);
+        socket.to(callRoom(sessionId)).emit('call:peer-left', { sessionId, userId: user.userId });
+      }
+      if (participants && participants.size === 0) {
+        calls.delete(sessionId);
+      }
+
+      socket.leave(callRoom(sessionId));
+      currentSessionId = null;
+    };
+
+    socket.on('call:join', async (payload: { sessionId: string }, ack?: Ack) => {
+      try {
+        const result = await container.db.query(
+          'SELECT id, client_id, gig_user_id, status FROM sessions WHERE id = $1',
+          [payload?.sessionId]
+        );
+        const session = result.rows[0];
+
+        if (!session || (session.client_id !== user.userId && session.gig_user_id !== user.userId)) {
+          return respond(ack, { error: 'Not a participant of this session' });
+        }
+
+        if (!session.gig_user_id || !CALLABLE_STATUSES.includes(session.status)) {
+          return respond(ack, { error: 'Session is not available for calls' });
+        }
+
+        if (currentSessionId && currentSessionId !== session.id) {
+          leaveCall();
+        }
+
+        const participants = calls.get(session.id) || new Map<string, string>();
+
+        // A second connection from the same user (reconnect, new tab) replaces the old one
+        const previousSocketId = participants.get(user.userId);
+        if (previousSocketId && previousSocketId !== socket.id) {
+          namespace.to(previousSocketId).emit('call:replaced', { sessionId: session.id });
+          namespace.in(previousSocketId).socketsLeave(callRoom(session.id));
+        }
+
+        participants.set(user.userId, socket.id);
+        calls.set(session.id, participants);
+        currentSessionId = session.id;
+        socket.join(callRoom(session.id));
+
+        const peers = Array.from(participants.keys()).filter((userId) => userId !== user.userId);
+
+        respond(ack, {
+          sessionId: session.id,
+          iceServers: getIceServers(user.userId),
+          peers,
+          // The participant who joins second creates the offer
+          shouldOffer: peers.length > 0
+        });
+
+        socket.to(callRoom(session.id)).emit('call:peer-joined', { sessionId: session.id, userId: user.userId });
+      } catch (error: any) {
+        console.error('Call join error:', error);
+        respond(ack, { error: 'Failed to join call' });
+      }
+    });
+
+    const relay = (event: SignalEvent, field: 'sdp' | 'candidate') => {
+      socket.on(event, (payload: any, ack?: Ack) => {
+        const isActiveSocket = currentSessionId !== null
+          && calls.get(currentSessionId)?.get(user.userId) === socket.id;
+
+        if (!currentSessionId || !isActiveSocket || payload?.sessionId !== currentSessionId) {
+          return respond(ack, { error: 'Join the call first' });
+        }
+
+        if (payload[field] === undefined) {
+          return respond(ack, { error: `Missing ${field}` });
+        }
+
+        socket.to(callRoom(currentSessionId)).emit(event, {
+          sessionId: currentSessionId,
+          from: user.userId,
+          [field]: payload[field]
+        });
+        respond(ack, { ok: true });
+      });
+    };
+
+    relay('signal:offer', 'sdp');
+    relay('signal:answer', 'sdp');
+    relay('signal:ice-candidate', 'candidate');
+
+    socket.on('call:leave', (_payload: any, ack?: Ack) => {
+      leaveCall();
+      respond(ack, { ok: true });
+    });
+
+    socket.on('disconnect', () => {
+      leaveCall();
+    });
+  });
+
+  return namespace;
+};
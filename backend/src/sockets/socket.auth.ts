@@ -0,0 +1,69 @@
+import { Server, Socket } from 'socket.io';
+import { Container } from '../container';
+
+export interface SocketUser {
+  userId: string;
+  email: string;
+  userType: string;
+  sessionId: string;
+}
+
+// Every authenticated socket joins the room of its auth session, so revoking
+// the session can disconnect it
+export const authSessionRoom = (sessionId: string) => `auth-session:${sessionId}`;
+
+// Namespaces that use socketAuthMiddleware
+const authenticatedNamespaces: Set<string> = new Set();
+
+// Disconnects the sockets opened with the given auth sessions, after they are revoked
+export const disconnectAuthSessions = (io: Server | undefined, sessionIds: string[]) => {
+  if (!io || sessionIds.length === 0) {
+    return;
+  }
+
+  const rooms = sessionIds.map(authSessionRoom);
+  for (const name of Array.from(authenticatedNamespaces)) {
+    io.of(name).in(rooms).disconnectSockets(true);
+  }
+};
+
+const extractToken = (socket: Socket): string | null => {
+  if (typeof socket.handshake.auth?.token === 'string') {
+    return socket.handshake.auth.token;
+  }
+
+  const authHeader = socket.handshake.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+
+  return null;
+};
+
+// Socket.IO equivalent of requireAuth: verifies the JWT sent in the
+// handshake and stores the user on socket.data.user
+export const socketAuthMiddleware = (container: Container) => {
+  return async (socket: Socket, next: (err?: Error) => void) => {
+    try {
+      const token = extractToken(socket);
+
+      if (!token) {
+        return next(new Error('No token provided'));
+      }
+
+      const user: SocketUser | null = await container.tokens.verifyAccessToken(container.db, token);
+
+      if (!user) {
+        return next(new Error('Invalid token'));
+      }
+
+      socket.data.user = user;
+      authenticatedNamespaces.add(socket.nsp.name);
+      socket.join(authSessionRoom(user.sessionId));
+
+      next();
+    } catch (error: any) {
+      next(new Error('Invalid token'));
+    }
+  };
+};
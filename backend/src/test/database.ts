@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { Pool } from 'pg';
+import { DataType, IMemoryDb, MemoryDbOptions, newDb } from 'pg-mem';
+import { migrate } from '../database/migrations/migrator';
+
+export interface TestDatabase {
+  mem: IMemoryDb;
+  db: Pool;
+  // Restores the freshly migrated, empty schema
+  reset: () => void;
+}
+
+// Postgres functions the schema and migrator use that pg-mem doesn't ship
+const registerFunctions = (mem: IMemoryDb) => {
+  mem.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: DataType.uuid,
+    implementation: () => crypto.randomUUID(),
+    impure: true
+  });
+
+  mem.registerExtension('uuid-ossp', (schema) => {
+    schema.registerFunction({
+      name: 'uuid_generate_v4',
+      returns: DataType.uuid,
+      implementation: () => crypto.randomUUID(),
+      impure: true
+    });
+  });
+
+  // A single in-process database has no concurrent migrators or audit writers to exclude
+  for (const name of ['pg_advisory_lock', 'pg_advisory_unlock', 'pg_advisory_xact_lock']) {
+    mem.public.registerFunction({
+      name,
+      args: [DataType.integer],
+      returns: DataType.bool,
+      implementation: () => true,
+      impure: true
+    });
+  }
+};
+
+// An empty in-memory database, for tests of the migrations themselves
+export const createEmptyDatabase = (options?: MemoryDbOptions): { mem: IMemoryDb; db: Pool } => {
+  const mem = newDb(options);
+  registerFunctions(mem);
+
+  const { Pool: MemPool } = mem.adapters.createPg();
+  return { mem, db: new MemPool() };
+};
+
+// An in-memory database built by the real migrations. Migrating is the slow
+// part, so call this once per test file and reset() between tests.
+export const createTestDatabase = async (): Promise<TestDatabase> => {
+  const { mem, db } = createEmptyDatabase();
+
+  await migrate(db);
+  const backup = mem.backup();
+
+  return { mem, db, reset: () => backup.restore() };
+};
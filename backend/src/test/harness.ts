@@ -0,0 +1,121 @@
+import express from 'express';
+import request from 'supertest';
+import { Pool } from 'pg';
+import { SessionStatus, UserType } from 'ar-inspection-platform-shared';
+import { createApp } from '../app';
+import { loadConfig } from '../config';
+import { Container, createContainer } from '../container';
+import { ensureUser } from '../database/seeds/seed';
+import { MemoryRateLimitStore } from '../services/rate-limit.service';
+import { createTokenService } from '../services/token.service';
+import { TestDatabase, createTestDatabase } from './database';
+
+export const TEST_PASSWORD = 'Passw0rd!';
+
+export interface TestContext extends TestDatabase {
+  container: Container;
+  app: express.Application;
+  rateLimitStore: MemoryRateLimitStore;
+  api: () => request.SuperTest<request.Test>;
+}
+
+export interface TestUser {
+  id: string;
+  email: string;
+  password: string;
+  userType: UserType;
+  name: string;
+  token: string;
+}
+
+// The real app around an in-memory database and rate limit store; no socket
+// server, so REST broadcasts are skipped. reset() empties both.
+export const createTestContext = async (): Promise<TestContext> => {
+  const database = await createTestDatabase();
+  const rateLimitStore = new MemoryRateLimitStore();
+  const container = createContainer(loadConfig(), { db: database.db, rateLimitStore });
+  const app = createApp(container);
+
+  return {
+    ...database,
+    container,
+    app,
+    rateLimitStore,
+    api: () => request(app),
+    reset: () => {
+      database.reset();
+      rateLimitStore.clear();
+    }
+  };
+};
+
+// Wires a describe block to a fresh database: migrated once, emptied before
+// each test. Read the context inside tests, after beforeAll has run.
+export const useTestContext = () => {
+  const context = {} as TestContext;
+
+  beforeAll(async () => {
+    Object.assign(context, await createTestContext());
+  });
+
+  afterAll(async () => {
+    await context.rateLimitStore?.close();
+  });
+
+  beforeEach(() => {
+    context.reset();
+  });
+
+  return context;
+};
+
+let userCount = 0;
+
+// Signs with the same secret as the apps createTestContext builds
+const tokens = createTokenService(loadConfig().jwtSecret);
+
+// Creates an account with a profile and signs it in, so tests can call
+// protected endpoints without going through /register and /login
+export const createTestUser = async (
+  db: Pool,
+  overrides: Partial<Omit<TestUser, 'id' | 'token'>> = {}
+): Promise<TestUser> => {
+  userCount += 1;
+  const user = {
+    email: `user${userCount}@example.com`,
+    password: TEST_PASSWORD,
+    userType: 'client' as UserType,
+    name: `Test User ${userCount}`,
+    ...overrides
+  };
+
+  const id = await ensureUser(db, user);
+  const { token } = await tokens.issueTokens(db, { id, email: user.email, user_type: user.userType });
+
+  return { ...user, id, token };
+};
+
+export const bearer = (user: TestUser) => `Bearer ${user.token}`;
+
+// Inserts a session directly, for tests that don't exercise creating and accepting one
+export const createTestSession = async (
+  db: Pool,
+  session: { clientId: string; gigUserId?: string | null; organizationId?: string | null; status?: SessionStatus }
+): Promise<string> => {
+  const result = await db.query(
+    `INSERT INTO sessions (organization_id, client_id, gig_user_id, status) VALUES ($1, $2, $3, $4) RETURNING id`,
+    [session.organizationId || null, session.clientId, session.gigUserId || null, session.status || 'active']
+  );
+  return result.rows[0].id;
+};
+
+// Polls until the check passes, for work the app finishes after responding
+export const waitFor = async (check: () => Promise<boolean> | boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!await check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
@@ -0,0 +1,16 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Runs before each test file loads any application module, since services
+// read their settings at import time. Files written by the app go to a
+// scratch directory per test file rather than the working tree.
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ar-inspection-test-'));
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret';
+process.env.MAIL_TRANSPORT = 'memory';
+process.env.STORAGE_DRIVER = 'local';
+process.env.MEDIA_STORAGE_DIR = path.join(scratchDir, 'media');
+process.env.MEDIA_UPLOAD_TMP_DIR = path.join(scratchDir, 'media-uploads');
+process.env.AVATAR_UPLOAD_DIR = path.join(scratchDir, 'avatars');
@@ -356,6 +356,50 @@ class ARKitManager: NSObject {
     }
   }
 
+  func session(_ session: ARSession, didUpdate frame: ARFrame) {
+    let camera = frame.camera
+    let orientation = simd_quatf(camera.transform)
+    let intrinsics = camera.intrinsics
+
+    // Intrinsics are in captured-image pixels; JS maps them onto the viewport
+    if let frameData = try? JSONSerialization.data(withJSONObject: [
+      "timestamp": frame.timestamp * 1000,
+      "cameraTransform": [
+        "position": [
+          "x": camera.transform.columns.3.x,
+          "y": camera.transform.columns.3.y,
+          "z": camera.transform.columns.3.z
+        ],
+        "rotation": [
+          "x": orientation.imag.x,
+          "y": orientation.imag.y,
+          "z": orientation.imag.z,
+          "w": orientation.real
+        ]
+      ],
+      "camera": [
+        "intrinsics": [
+          "fx": intrinsics.columns.0.x,
+          "fy": intrinsics.columns.1.y,
+          "cx": intrinsics.columns.2.x,
+          "cy": intrinsics.columns.2.y
+        ],
+        "imageResolution": [
+          "width": camera.imageResolution.width,
+          "height": camera.imageResolution.height
+        ]
+      ],
+      "lightEstimate": [
+        "ambientIntensity": frame.lightEstimate?.ambientIntensity ?? 0,
+        "ambientColorTemperature": frame.lightEstimate?.ambientColorTemperature ?? 0,
+        "directionalIntensity": 0
+      ]
+    ], options: .fragmentsAllowed) as Data {
+
+      ARKitManager.sharedInstance.sendEvent("onARFrameUpdate", data: frameData)
+    }
+  }
+
   // MARK: - Event Emission
   func sendEvent(_ eventName: String, data: Any) {
     // Send event to React Native
@@ -1,8 +1,12 @@
+const path = require('path');
+
 module.exports = {
   preset: 'react-native',
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx'],
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|react-native-vector-icons|react-native-screens)/)'
+    'node_modules/(?!(react-native|@react-native|react-native-vector-icons|react-native-screens)/)',
+    // The shared package is linked from ../shared and already built to CommonJS
+    `${path.resolve(__dirname, '../shared/dist')}/`
   ],
   setupFilesAfterEnv: [
     '<rootDir>/jest.setup.js'
@@ -0,0 +1 @@
+require('@testing-library/jest-native/extend-expect');
@@ -1,29 +1,24 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { View, StyleSheet, Text, TouchableOpacity, Dimensions } from 'react-native';
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { Annotation3D, formatMeasurement } from 'ar-inspection-platform-shared';
+import { OcclusionPlane, ProjectionCamera, placeOnScreen } from '../services/ARProjection';
 
-interface Point3D {
-  x: number;
-  y: number;
-  z: number;
-}
+const MARKER_SIZE = 40;
 
-interface ARAnnotation3D {
-  id: string;
-  type: 'sphere' | 'box' | 'arrow' | 'text' | 'circle' | 'line';
-  position: Point3D;
-  rotation?: Point3D;
-  scale?: Point3D;
-  color: string;
-  text?: string;
-  strokeWidth?: number;
-  fontSize?: number;
-  createdAt: number;
-  createdBy: string;
+interface AR3DAnnotationComponentProps {
+  annotation: Annotation3D;
+  // Latest camera from useARCamera; nothing is drawn until the first frame arrives
+  camera: ProjectionCamera | null;
+  // Detected planes, used to fade annotations that are behind real surfaces
+  planes?: OcclusionPlane[];
+  onPress?: (annotation: Annotation3D) => void;
 }
 
-const AR3DAnnotationComponent: React.FC<{ annotation: ARAnnotation3D; onPress?: (annotation: ARAnnotation3D) => void }> = ({ 
-  annotation, 
-  onPress 
+const AR3DAnnotationComponent: React.FC<AR3DAnnotationComponentProps> = ({
+  annotation,
+  camera,
+  planes = [],
+  onPress
 }) => {
   const [isSelected, setIsSelected] = useState(false);
 
@@ -33,10 +28,7 @@ const AR3DAnnotationComponent: React.FC<{ annotation: ARAnnotation3D; onPress?:
   };
 
   const renderAnnotation = () => {
-    const { type, position, color, text, strokeWidth, fontSize } = annotation;
-    
-    // Project 3D position to 2D screen space
-    const screenPosition = project3DToScreen(position);
+    const { type, color, text, strokeWidth, fontSize, measurement } = annotation;
 
     switch (type) {
       case 'sphere':
@@ -78,35 +70,42 @@ const AR3DAnnotationComponent: React.FC<{ annotation: ARAnnotation3D; onPress?:
           <View style={[styles.line, { borderColor: color, height: strokeWidth }]} />
         );
       
+      case 'measurement':
+        return (
+          <View style={[styles.measurementLabel, { borderColor: isSelected ? '#FFD700' : color }]}>
+            <Text style={styles.annotationText} numberOfLines={1}>
+              {measurement ? formatMeasurement(measurement) : text}
+            </Text>
+          </View>
+        );
+      
       default:
         return null;
     }
   };
 
-  const project3DToScreen = (worldPosition: Point3D): { x: number; y: number } => {
-    // Simplified 3D to 2D projection
-    // In a real implementation, this would use the camera transform from AR session
-    const distance = Math.sqrt(
-      Math.pow(worldPosition.x, 2) + 
-      Math.pow(worldPosition.y, 2) + 
-      Math.pow(worldPosition.z, 2)
-    );
-    
-    const scale = Math.max(100, 1000 / distance); // Scale based on distance
-    const centerX = Dimensions.get('window').width / 2;
-    const centerY = Dimensions.get('window').height / 2;
-    
-    return {
-      x: centerX + worldPosition.x * scale,
-      y: centerY + worldPosition.y * scale,
-    };
-  };
+  if (!camera) {
+    return null;
+  }
+
+  // Culled when behind the camera or off screen
+  const placement = placeOnScreen(annotation.position, camera, planes, { margin: MARKER_SIZE });
+  if (!placement.visible) {
+    return null;
+  }
 
   return (
     <TouchableOpacity
       style={[
         styles.container,
-        { left: screenPosition.x - 20, top: screenPosition.y - 20 }
+        {
+          left: placement.x - MARKER_SIZE / 2,
+          top: placement.y - MARKER_SIZE / 2,
+          opacity: placement.opacity,
+          // Nearer annotations draw on top
+          zIndex: Math.round(camera.far * 100 - placement.depth * 100),
+          transform: [{ scale: placement.scale }],
+        }
       ]}
       onPress={handlePress}
       activeOpacity={isSelected ? 0.8 : 1}
@@ -119,8 +118,8 @@ const AR3DAnnotationComponent: React.FC<{ annotation: ARAnnotation3D; onPress?:
 const styles = StyleSheet.create({
   container: {
     position: 'absolute',
-    width: 40,
-    height: 40,
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 2,
@@ -186,6 +185,14 @@ const styles = StyleSheet.create({
     position: 'absolute',
     backgroundColor: '#333',
   },
+  measurementLabel: {
+    minWidth: 80,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
   annotationText: {
     fontSize: 12,
     fontWeight: 'bold',
@@ -0,0 +1,46 @@
+// Hook that turns ARSceneManager frame updates into a projection camera for overlays
+import { useState, useEffect } from 'react';
+import { Dimensions } from 'react-native';
+import ARSceneManager, { ARFrame, ARPlane } from '../services/ARSceneManager';
+import { createProjectionCamera, ProjectionCamera, ProjectionOptions, Size } from '../services/ARProjection';
+
+interface UseARCameraReturn {
+  camera: ProjectionCamera | null;
+  planes: ARPlane[];
+}
+
+export const useARCamera = (
+  sceneManager: ARSceneManager,
+  viewport?: Size,
+  options: ProjectionOptions = {}
+): UseARCameraReturn => {
+  const [camera, setCamera] = useState<ProjectionCamera | null>(null);
+  const [planes, setPlanes] = useState<ARPlane[]>(() => sceneManager.getPlanes());
+
+  const width = viewport?.width ?? Dimensions.get('window').width;
+  const height = viewport?.height ?? Dimensions.get('window').height;
+  const { near, far, fallbackFovY } = options;
+
+  useEffect(() => {
+    const handleFrame = (frame: ARFrame) => {
+      setCamera(createProjectionCamera(
+        frame.cameraTransform,
+        { width, height },
+        frame.camera,
+        { near, far, fallbackFovY }
+      ));
+    };
+
+    const refreshPlanes = () => setPlanes(sceneManager.getPlanes());
+
+    sceneManager.on('frameUpdate', handleFrame);
+    ['planeDetected', 'planeUpdated', 'planeRemoved'].forEach(event => sceneManager.on(event, refreshPlanes));
+
+    return () => {
+      sceneManager.off('frameUpdate', handleFrame);
+      ['planeDetected', 'planeUpdated', 'planeRemoved'].forEach(event => sceneManager.off(event, refreshPlanes));
+    };
+  }, [sceneManager, width, height, near, far, fallbackFovY]);
+
+  return { camera, planes };
+};
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import SocketService from '../../services/SocketService';
+import SocketService from '../services/SocketService';
 import ARSceneManager from '../../services/ARSceneManager';
-import { Annotation, Annotation3D } from '../../../shared/types/annotations';
+import { ANNOTATION_3D_TYPES, Annotation, Annotation3D, Annotation3DType } from 'ar-inspection-platform-shared';
 
 interface ARAnnotationPanelProps {
   annotations: Annotation[];
@@ -19,7 +19,7 @@ const ARAnnotationPanel: React.FC<ARAnnotationPanelProps> = ({
 }) => {
   const [arAnnotations, setARAnnotations] = useState<Annotation3D[]>([]);
   const [isARMode, setIsARMode] = useState(false);
-  const [selectedType, setSelectedType] = useState<'sphere' | 'box' | 'arrow' | 'text' | 'circle' | 'line'>('sphere');
+  const [selectedType, setSelectedType] = useState<Annotation3DType>('sphere');
   const [selectedColor, setSelectedColor] = useState('#FF0000');
   const [strokeWidth, setStrokeWidth] = useState(3);
 
@@ -126,7 +126,7 @@ const ARAnnotationPanel: React.FC<ARAnnotationPanelProps> = ({
         <View style={styles.arControls}>
           <View style={styles.toolSelector}>
             <Text style={styles.toolLabel}>Type:</Text>
-            {['sphere', 'box', 'arrow', 'text', 'circle', 'line'].map(type => (
+            {ANNOTATION_3D_TYPES.map(type => (
               <TouchableOpacity
                 key={type}
                 style={[
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dimensions, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  AnnotationInput,
+  LENGTH_UNITS,
+  LengthUnit,
+  MEASUREMENT_KINDS,
+  MeasurementKind,
+  formatMeasurement
+} from 'ar-inspection-platform-shared';
+import ARSceneManager, { ARTrackingQuality } from '../services/ARSceneManager';
+import ARMeasurementService, { MeasurementPoint } from '../services/ARMeasurementService';
+
+interface ARMeasurementPanelProps {
+  sceneManager: ARSceneManager;
+  // Receives the finished measurement as an annotation to create
+  onMeasurementCreate: (annotation: AnnotationInput) => void;
+}
+
+const TOOL_LABELS: Record<MeasurementKind, string> = {
+  distance: 'Tape',
+  polyline: 'Path',
+  area: 'Area',
+  height: 'Height',
+  angle: 'Angle'
+};
+
+const TOOL_HINTS: Record<MeasurementKind, string> = {
+  distance: 'Aim at the start, then the end',
+  polyline: 'Add a point at every bend',
+  area: 'Add a point at every corner',
+  height: 'Aim at the top; tap the floor first if it has not been detected',
+  angle: 'Aim at one end, the corner, then the other end'
+};
+
+const ARMeasurementPanel: React.FC<ARMeasurementPanelProps> = ({ sceneManager, onMeasurementCreate }) => {
+  const service = useMemo(() => new ARMeasurementService(sceneManager), [sceneManager]);
+  const [kind, setKind] = useState<MeasurementKind>(service.getKind());
+  const [unit, setUnit] = useState<LengthUnit>(service.getUnit());
+  const [points, setPoints] = useState<MeasurementPoint[]>([]);
+  const [trackingQuality, setTrackingQuality] = useState<ARTrackingQuality>(sceneManager.getTrackingQuality());
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleTrackingQuality = (quality: ARTrackingQuality) => setTrackingQuality(quality);
+    sceneManager.on('trackingQualityChanged', handleTrackingQuality);
+    return () => sceneManager.off('trackingQualityChanged', handleTrackingQuality);
+  }, [sceneManager]);
+
+  const refresh = () => setPoints(service.getPoints());
+
+  const handleKindChange = (nextKind: MeasurementKind) => {
+    service.setKind(nextKind);
+    setKind(nextKind);
+    setMessage(null);
+    refresh();
+  };
+
+  const handleUnitChange = (nextUnit: LengthUnit) => {
+    service.setUnit(nextUnit);
+    setUnit(nextUnit);
+  };
+
+  // Points are placed under the reticle in the middle of the view
+  const handleAddPoint = async () => {
+    const { width, height } = Dimensions.get('window');
+    const point = await service.addPoint({ x: width / 2, y: height / 2 });
+
+    if (!point) {
+      setMessage(trackingQuality === 'notAvailable'
+        ? 'Tracking lost. Move the device slowly to recover.'
+        : 'No surface found. Aim at a textured surface.');
+    } else {
+      setMessage(null);
+    }
+    refresh();
+  };
+
+  const handleUndo = () => {
+    service.undo();
+    refresh();
+  };
+
+  const handleFinish = () => {
+    const annotation = service.complete();
+    if (annotation) {
+      onMeasurementCreate(annotation);
+    }
+    refresh();
+  };
+
+  const reading = service.getReading();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.selector}>
+        {MEASUREMENT_KINDS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.option, kind === option && styles.optionSelected]}
+            onPress={() => handleKindChange(option)}
+          >
+            <Text style={[styles.optionText, kind === option && styles.optionTextSelected]}>
+              {TOOL_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {kind !== 'angle' && (
+        <View style={styles.selector}>
+          {LENGTH_UNITS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, unit === option && styles.optionSelected]}
+              onPress={() => handleUnitChange(option)}
+            >
+              <Text style={[styles.optionText, unit === option && styles.optionTextSelected]}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.readout}>
+        <Text style={styles.reading}>{reading ? formatMeasurement(reading) : '—'}</Text>
+        <Text style={styles.hint}>{message || `${TOOL_HINTS[kind]} (${points.length} placed)`}</Text>
+        {trackingQuality !== 'normal' && (
+          <Text style={styles.warning}>
+            {trackingQuality === 'limited' ? 'Tracking limited, accuracy reduced' : 'Tracking unavailable'}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, !service.canAddPoint() && styles.buttonDisabled]}
+          disabled={!service.canAddPoint()}
+          onPress={handleAddPoint}
+        >
+          <Text style={styles.buttonText}>Add point</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.buttonSecondary, points.length === 0 && styles.buttonDisabled]}
+          disabled={points.length === 0}
+          onPress={handleUndo}
+        >
+          <Text style={styles.buttonText}>Undo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, !reading && styles.buttonDisabled]}
+          disabled={!reading}
+          onPress={handleFinish}
+        >
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    backgroundColor: '#fff',
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  readout: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  reading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    flex: 1,
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  buttonSecondary: {
+    backgroundColor: '#8E8E93',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ARMeasurementPanel;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import ChecklistService, {
+  ChecklistItem,
+  ChecklistRequestError,
+  FindingInput,
+  SessionChecklist,
+} from '../services/ChecklistService';
+import SocketService from '../services/SocketService';
+
+interface ChecklistPanelProps {
+  sessionId: string;
+  editable: boolean;
+  onClose: () => void;
+}
+
+const RESULT_OPTIONS: { value: 'pass' | 'fail' | 'na'; label: string }[] = [
+  { value: 'pass', label: 'Pass' },
+  { value: 'fail', label: 'Fail' },
+  { value: 'na', label: 'N/A' },
+];
+
+// Overlay on the live session where the inspector works through the attached checklists
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ sessionId, editable, onClose }) => {
+  const [checklists, setChecklists] = useState<SessionChecklist[]>([]);
+  const [readings, setReadings] = useState<Record<string, string>>({});
+
+  const replaceChecklist = useCallback((updated: SessionChecklist) => {
+    setChecklists(prev => {
+      const exists = prev.some(c => c.id === updated.id);
+      return exists ? prev.map(c => (c.id === updated.id ? updated : c)) : [...prev, updated];
+    });
+  }, []);
+
+  useEffect(() => {
+    ChecklistService.getInstance().listChecklists(sessionId)
+      .then(setChecklists)
+      .catch(error => console.error('Failed to load checklists:', error));
+
+    const socketService = SocketService.getInstance();
+    const handleUpdated = (payload: any) => {
+      if (payload.sessionId === sessionId) {
+        replaceChecklist(payload.checklist);
+      }
+    };
+    const handleRemoved = (payload: any) => {
+      if (payload.sessionId === sessionId) {
+        setChecklists(prev => prev.filter(c => c.id !== payload.checklistId));
+      }
+    };
+
+    socketService.on('checklist:updated', handleUpdated);
+    socketService.on('checklist:removed', handleRemoved);
+
+    return () => {
+      socketService.off('checklist:updated', handleUpdated);
+      socketService.off('checklist:removed', handleRemoved);
+    };
+  }, [sessionId, replaceChecklist]);
+
+  const saveFinding = async (checklist: SessionChecklist, itemId: string, finding: FindingInput) => {
+    try {
+      replaceChecklist(await ChecklistService.getInstance().recordFinding(sessionId, checklist.id, itemId, finding));
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleComplete = async (checklist: SessionChecklist) => {
+    try {
+      replaceChecklist(await ChecklistService.getInstance().completeChecklist(sessionId, checklist.id));
+    } catch (error: any) {
+      const missing = error instanceof ChecklistRequestError ? error.details?.incomplete_items : undefined;
+      Alert.alert(
+        'Checklist incomplete',
+        missing ? missing.map((item: any) => `• ${item.label}`).join('\n') : error.message
+      );
+    }
+  };
+
+  const renderItem = (checklist: SessionChecklist, item: ChecklistItem) => {
+    const finding = checklist.findings.find(f => f.item_id === item.id);
+    const canEdit = editable && !checklist.completed_at;
+    const readingKey = `${checklist.id}:${item.id}`;
+    const reading = readings[readingKey] ?? (finding?.value != null ? String(finding.value) : '');
+
+    return (
+      <View key={item.id} style={styles.item}>
+        <Text style={styles.itemLabel}>
+          {item.label}{item.required ? ' *' : ''}
+        </Text>
+        {item.guidance ? <Text style={styles.guidance}>{item.guidance}</Text> : null}
+        {item.requires_photo && (
+          <Text style={styles.guidance}>
+            Photo required{finding?.media_ids.length ? ` (${finding.media_ids.length} attached)` : ''}
+          </Text>
+        )}
+
+        {item.type === 'numeric' && (
+          <View style={styles.row}>
+            <TextInput
+              style={styles.input}
+              keyboardType="numeric"
+              editable={canEdit}
+              value={reading}
+              placeholder={item.unit || 'Reading'}
+              placeholderTextColor="#888"
+              onChangeText={text => setReadings(prev => ({ ...prev, [readingKey]: text }))}
+              onEndEditing={() => {
+                const value = parseFloat(reading);
+                if (!isNaN(value) && value !== finding?.value) {
+                  saveFinding(checklist, item.id, { value });
+                }
+              }}
+            />
+            {item.min !== undefined || item.max !== undefined ? (
+              <Text style={styles.guidance}>
+                {item.min ?? '…'} – {item.max ?? '…'} {item.unit || ''}
+              </Text>
+            ) : null}
+          </View>
+        )}
+
+        <View style={styles.row}>
+          {RESULT_OPTIONS
+            .filter(option => item.type === 'pass_fail' || option.value === 'na')
+            .map(option => (
+              <TouchableOpacity
+                key={option.value}
+                disabled={!canEdit}
+                style={[styles.resultButton, finding?.result === option.value && styles[option.value]]}
+                onPress={() => saveFinding(checklist, item.id, { result: option.value })}
+              >
+                <Text style={styles.buttonText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          {item.type === 'numeric' && finding?.result && finding.result !== 'na' && (
+            <Text style={[styles.resultBadge, finding.result === 'pass' ? styles.pass : styles.fail]}>
+              {finding.result.toUpperCase()}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Checklists</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.buttonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView>
+        {checklists.length === 0 && (
+          <Text style={styles.guidance}>No checklist attached to this session.</Text>
+        )}
+
+        {checklists.map(checklist => (
+          <View key={checklist.id} style={styles.checklist}>
+            <Text style={styles.checklistName}>
+              {checklist.name} ({checklist.progress.answered}/{checklist.progress.total})
+            </Text>
+            {checklist.sections.map(section => (
+              <View key={section.id}>
+                <Text style={styles.sectionTitle}>{section.title}</Text>
+                {section.items.map(item => renderItem(checklist, item))}
+              </View>
+            ))}
+            {checklist.completed_at ? (
+              <Text style={styles.completed}>Completed</Text>
+            ) : editable && (
+              <TouchableOpacity style={styles.completeButton} onPress={() => handleComplete(checklist)}>
+                <Text style={styles.buttonText}>Complete Checklist</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 80,
+    bottom: 110,
+    left: 12,
+    right: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  checklist: {
+    marginBottom: 16,
+  },
+  checklistName: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 8,
+    textTransform: 'uppercase',
+  },
+  item: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#444',
+  },
+  itemLabel: {
+    color: 'white',
+    fontSize: 14,
+  },
+  guidance: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  input: {
+    color: 'white',
+    borderWidth: 1,
+    borderColor: '#666',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    minWidth: 90,
+    marginRight: 8,
+  },
+  resultButton: {
+    backgroundColor: '#333',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 15,
+    marginRight: 8,
+  },
+  resultBadge: {
+    color: 'white',
+    fontSize: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  pass: {
+    backgroundColor: '#34C759',
+  },
+  fail: {
+    backgroundColor: '#FF3B30',
+  },
+  na: {
+    backgroundColor: '#8E8E93',
+  },
+  completeButton: {
+    backgroundColor: 'rgba(0, 122, 255, 0.8)',
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 12,
+  },
+  completed: {
+    color: '#34C759',
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
+
+export default ChecklistPanel;
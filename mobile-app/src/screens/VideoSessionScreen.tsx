@@ -8,12 +8,18 @@ import {
 } from 'react-native';
 import { RTCView } from 'react-native-webrtc';
 import { useAuth } from '../contexts/AuthContext';
+import ChecklistPanel from './ChecklistPanel';
 
-const VideoSessionScreen: React.FC = () => {
+interface VideoSessionScreenProps {
+  sessionId?: string;
+}
+
+const VideoSessionScreen: React.FC<VideoSessionScreenProps> = ({ sessionId }) => {
   const { user } = useAuth();
   const [localStream, setLocalStream] = useState(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [sessionStatus, setSessionStatus] = useState('idle');
+  const [showChecklist, setShowChecklist] = useState(false);
 
   useEffect(() => {
     // In Phase 2, this will be enhanced with actual WebRTC implementation
@@ -88,7 +94,26 @@ const VideoSessionScreen: React.FC = () => {
             Flip Camera
           </Text>
         </TouchableOpacity>
+
+        {sessionId && (
+          <TouchableOpacity
+            style={styles.controlButton}
+            onPress={() => setShowChecklist(visible => !visible)}
+          >
+            <Text style={styles.buttonText}>
+              Checklist
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
+
+      {sessionId && showChecklist && (
+        <ChecklistPanel
+          sessionId={sessionId}
+          editable={isStreaming}
+          onClose={() => setShowChecklist(false)}
+        />
+      )}
       
       <View style={styles.statusBar}>
         <Text style={styles.statusText}>
@@ -1,6 +1,12 @@
-import { ARSceneManager } from '../services/ARSceneManager';
-import { Annotation3D } from '../../../shared/types/annotations';
-import { useAuth } from '../../contexts/AuthContext';
+import ARSceneManager from './ARSceneManager';
+import {
+  SurfaceAnalysis,
+  analyzeSurface,
+  surfaceArea,
+  surfaceNormal,
+  surfaceOrientation
+} from './ARSurfaceAnalysis';
+import { Annotation3D } from 'ar-inspection-platform-shared';
 
 interface ARHitTestResult {
   position: {
@@ -13,7 +19,29 @@ interface ARHitTestResult {
   transform: number[];
 }
 
+interface HitFilterOptions {
+  maxDistance?: number;
+  // Square metres; hits on smaller (or no longer tracked) planes are dropped
+  minPlaneSize?: number;
+  // Hits on horizontal planes first, then the rest, each nearest first
+  preferHorizontalPlanes?: boolean;
+}
+
 const ARHitTestingService = {
+  // Set by the AR screen once its session is up; hit tests and plane lookups go through it
+  sceneManager: null as ARSceneManager | null,
+
+  attach(sceneManager: ARSceneManager | null): void {
+    this.sceneManager = sceneManager;
+  },
+
+  requireSceneManager(): ARSceneManager {
+    if (!this.sceneManager) {
+      throw new Error('ARHitTestingService is not attached to a scene');
+    }
+    return this.sceneManager;
+  },
+
   async performHitTest(
     screenPoint: { x: number; y: number },
     type: 'existingPlane' | 'estimatedHorizontalPlane' | 'estimatedVerticalPlane' | 'featurePoint' = 'existingPlane'
@@ -21,7 +49,7 @@ const ARHitTestingService = {
     try {
       console.log(`Performing hit test at (${screenPoint.x}, ${screenPoint.y}) with type: ${type}`);
       
-      const results = await ARSceneManager.performHitTest(screenPoint.x, screenPoint.y, type);
+      const results = await this.requireSceneManager().performHitTest(screenPoint, type);
       
       if (results.length === 0) {
         console.warn('No hit test results found');
@@ -60,11 +88,7 @@ const ARHitTestingService = {
         : ['existingPlane', 'estimatedHorizontalPlane', 'estimatedVerticalPlane'];
       
       for (const hitType of hitTestTypes) {
-        const results = await ARSceneManager.performHitTest(
-          screenPoint.x, 
-          screenPoint.y, 
-          hitType
-        );
+        const results = await this.requireSceneManager().performHitTest(screenPoint, hitType);
         
         if (results.length > 0) {
           // Filter results based on preferences
@@ -85,33 +109,43 @@ const ARHitTestingService = {
     }
   },
 
-  filterHitResults(results: ARHitTestResult[], options: any): ARHitTestResult[] {
+  filterHitResults(results: ARHitTestResult[], options: HitFilterOptions): ARHitTestResult[] {
     const {
-      maxDistance,
-      minPlaneSize,
-      preferHorizontalPlanes
+      maxDistance = Infinity,
+      minPlaneSize = 0,
+      preferHorizontalPlanes = false
     } = options;
-    
-    return results.filter(result => {
-      // Filter by distance
+
+    const planes = new Map((this.sceneManager?.getPlanes() || []).map(plane => [plane.id, plane]));
+    const isHorizontal = (result: ARHitTestResult) => {
+      const plane = result.planeId ? planes.get(result.planeId) : undefined;
+      return plane !== undefined && surfaceOrientation(surfaceNormal(plane)) === 'horizontal';
+    };
+
+    const filtered = results.filter(result => {
       if (result.distance > maxDistance) {
         return false;
       }
-      
-      // Filter by plane size (if available)
+
+      // Feature point hits have no plane to measure and are kept
       if (result.planeId && minPlaneSize > 0) {
-        // This is simplified - in production you'd check plane geometry
-        // For now, assume planes meet minimum size requirement
-      }
-      
-      // Prefer horizontal planes if specified
-      if (preferHorizontalPlanes && result.planeId) {
-        // In production, you'd check plane alignment
-        // For now, assume all planes are valid
+        const plane = planes.get(result.planeId);
+        if (!plane || surfaceArea(plane) < minPlaneSize) {
+          return false;
+        }
       }
-      
+
       return true;
     });
+
+    if (!preferHorizontalPlanes) {
+      return filtered;
+    }
+
+    return filtered
+      .map(result => ({ result, horizontal: isHorizontal(result) }))
+      .sort((a, b) => Number(b.horizontal) - Number(a.horizontal) || a.result.distance - b.result.distance)
+      .map(({ result }) => result);
   },
 
   async performContinuousHitTesting(
@@ -130,7 +164,7 @@ const ARHitTestingService = {
       for (let i = 0; i <= sampleCount; i++) {
         const x = startPoint.x + (stepX * i);
         const y = startPoint.y + (stepY * i);
-        const pointResults = await ARSceneManager.performHitTest(x, y, type);
+        const pointResults = await this.requireSceneManager().performHitTest({ x, y }, type);
         
         results.push(...pointResults);
       }
@@ -196,61 +230,24 @@ const ARHitTestingService = {
     return resultsWithDistance[0];
   },
 
-  async performSurfaceAnalysis(
-    hitResult: ARHitTestResult
-  ): Promise<{
-    surfaceType: 'horizontal' | 'vertical' | 'unknown';
-    isFlat: boolean;
-    normal: { x: number; y: number; z: number };
-    area: number;
-  }> {
-    if (!hitResult.planeId) {
-      return {
-        surfaceType: 'unknown',
-        isFlat: false,
-        normal: { x: 0, y: 0, z: 1 },
-        area: 0,
-      };
+  // Geometry of the plane under the hit. Hits that aren't on a tracked plane
+  // (feature points, estimated planes) have no geometry and come back as null.
+  async performSurfaceAnalysis(hitResult: ARHitTestResult): Promise<SurfaceAnalysis | null> {
+    const sceneManager = this.sceneManager;
+    const planes = sceneManager?.getPlanes() || [];
+    const plane = planes.find(candidate => candidate.id === hitResult.planeId);
+
+    if (!sceneManager || !plane) {
+      return null;
     }
-    
+
     try {
-      // This is a simplified implementation
-      // In production, you'd analyze the plane geometry from the AR session
-      
-      const transform = hitResult.transform;
-      if (transform && transform.length >= 16) {
-        // Extract normal vector from transform matrix (elements 8,9,10 are x,y,z components of normal)
-        const normalX = transform[8];
-        const normalY = transform[9];
-        const normalZ = transform[10];
-        const normalMagnitude = Math.sqrt(normalX * normalX + normalY * normalY + normalZ * normalZ);
-        
-        // Determine if surface is flat (normal is close to vertical)
-        const isFlat = Math.abs(normalZ) > 0.95;
-        
-        // Determine surface type based on normal vector
-        let surfaceType: 'horizontal' | 'vertical' | 'unknown';
-        if (isFlat) {
-          surfaceType = 'horizontal';
-        } else if (Math.abs(normalX) > 0.7 || Math.abs(normalY) > 0.7) {
-          surfaceType = 'vertical';
-        }
-        
-        return {
-          surfaceType,
-          isFlat,
-          normal: { x: normalX / normalMagnitude, y: normalY / normalMagnitude, z: normalZ / normalMagnitude },
-          area: 100 // Simplified area calculation
-        };
-      }
+      // Without a camera position floors are still found from the other planes
+      const camera = await sceneManager.getCameraTransform().catch(() => null);
+      return analyzeSurface(plane, planes, camera?.position);
     } catch (error) {
       console.error('Surface analysis failed:', error);
-      return {
-        surfaceType: 'unknown',
-        isFlat: false,
-        normal: { x: 0, y: 0, z: 1 },
-        area: 0,
-      };
+      return null;
     }
   },
 
@@ -270,16 +267,19 @@ const ARHitTestingService = {
       return false;
     }
     
-    // Check surface preference
+    // Check surface preference, by orientation ('horizontal') or kind ('floor')
     const surfaceAnalysis = await this.performSurfaceAnalysis(result);
-    if (preferredSurfaces.length > 0 && !preferredSurfaces.includes(surfaceAnalysis.surfaceType)) {
-      console.warn(`Hit test result surface type not preferred: ${surfaceAnalysis.surfaceType}`);
+    const surfaceTypes: string[] = surfaceAnalysis
+      ? [surfaceAnalysis.surfaceType, surfaceAnalysis.classification]
+      : ['unknown'];
+    if (preferredSurfaces.length > 0 && !preferredSurfaces.some(type => surfaceTypes.includes(type))) {
+      console.warn(`Hit test result surface type not preferred: ${surfaceTypes.join('/')}`);
       return false;
     }
     
     // Check if the surface is suitable for placing annotations
-    if (!surfaceAnalysis.isFlat && minConfidence > 0.7) {
-      console.warn(`Surface not flat enough for annotation placement: ${surfaceAnalysis.isFlat}`);
+    if (!surfaceAnalysis?.isFlat && minConfidence > 0.7) {
+      console.warn(`Surface not flat enough for annotation placement: ${surfaceAnalysis?.flatness ?? 'no plane'}`);
       return false;
     }
     
@@ -312,6 +312,11 @@ const ARHitTestingService = {
     isFlat: boolean;
     normal: { x: number; y: number; z: number };
   }): {
+    strategy: 'place_on_surface' | 'place_in_space';
+    confidence: 'high' | 'medium' | 'low';
+    recommendation: string;
+    preferredAnnotationTypes: string[];
+  } {
     if (surface.surfaceType === 'horizontal' && surface.isFlat) {
       return {
         strategy: 'place_on_surface',
@@ -0,0 +1,227 @@
+import {
+  AnnotationInput,
+  LengthUnit,
+  MEASUREMENT_POINT_LIMITS,
+  Measurement,
+  MeasurementKind,
+  Vector3,
+  distanceBetween,
+  measureValue
+} from 'ar-inspection-platform-shared';
+import ARSceneManager, { ARTrackingQuality } from './ARSceneManager';
+
+export interface MeasurementPoint {
+  position: Vector3;
+  // Estimated ± error of the position, in meters
+  accuracy: number;
+  // Set when the point came from a detected plane rather than a feature point
+  planeId?: string;
+  // Floor points placed by the height tool rather than tapped
+  inferred?: boolean;
+}
+
+// Error model for a single hit: a fixed floor plus a share of the hit distance,
+// since depth error grows with range. Feature points are noisier than planes
+// and limited tracking (fast motion, few features) drifts a lot more.
+const BASE_POINT_ERROR = 0.005;
+const DISTANCE_ERROR_RATIO = 0.01;
+const FEATURE_POINT_FACTOR = 2;
+const TRACKING_FACTORS: Record<ARTrackingQuality, number | null> = {
+  normal: 1,
+  limited: 3,
+  notAvailable: null
+};
+
+const degrees = (radians: number) => radians * 180 / Math.PI;
+
+// Lengths, heights and areas in meters; angles in degrees
+export const estimateAccuracy = (kind: MeasurementKind, points: MeasurementPoint[]): number => {
+  const positions = points.map((point) => point.position);
+  const variance = (a: MeasurementPoint, b: MeasurementPoint) => a.accuracy ** 2 + b.accuracy ** 2;
+
+  switch (kind) {
+    case 'distance':
+    case 'height':
+      return Math.sqrt(variance(points[0], points[1]));
+
+    case 'polyline': {
+      let total = 0;
+      for (let i = 1; i < points.length; i++) {
+        total += variance(points[i - 1], points[i]);
+      }
+      return Math.sqrt(total);
+    }
+
+    case 'area': {
+      // Moving a vertex by e across the outline changes the area by about
+      // e times half the chord between its neighbours
+      let total = 0;
+      points.forEach((point, index) => {
+        const previous = positions[(index + positions.length - 1) % positions.length];
+        const next = positions[(index + 1) % positions.length];
+        total += (distanceBetween(previous, next) / 2 * point.accuracy) ** 2;
+      });
+      return Math.sqrt(total);
+    }
+
+    case 'angle': {
+      const [a, vertex, b] = points;
+      const armA = distanceBetween(a.position, vertex.position);
+      const armB = distanceBetween(b.position, vertex.position);
+      if (armA === 0 || armB === 0) {
+        return 180;
+      }
+      return degrees(Math.sqrt(
+        (a.accuracy / armA) ** 2
+        + (b.accuracy / armB) ** 2
+        + vertex.accuracy ** 2 * (1 / armA ** 2 + 1 / armB ** 2)
+      ));
+    }
+  }
+};
+
+// State behind the measurement panel: the active tool, display unit and the
+// points placed so far. Points come from hit tests at a screen position
+// (usually the reticle in the middle of the view).
+class ARMeasurementService {
+  private kind: MeasurementKind = 'distance';
+  private unit: LengthUnit = 'm';
+  private points: MeasurementPoint[] = [];
+
+  constructor(private sceneManager: ARSceneManager) {}
+
+  getKind(): MeasurementKind {
+    return this.kind;
+  }
+
+  // Switching tools discards the points placed so far
+  setKind(kind: MeasurementKind): void {
+    this.kind = kind;
+    this.points = [];
+  }
+
+  getUnit(): LengthUnit {
+    return this.unit;
+  }
+
+  setUnit(unit: LengthUnit): void {
+    this.unit = unit;
+  }
+
+  getPoints(): MeasurementPoint[] {
+    return [...this.points];
+  }
+
+  canAddPoint(): boolean {
+    return this.points.length < MEASUREMENT_POINT_LIMITS[this.kind].max;
+  }
+
+  isComplete(): boolean {
+    return this.points.length >= MEASUREMENT_POINT_LIMITS[this.kind].min;
+  }
+
+  // Places the next point where the screen position hits the world. Returns
+  // null when nothing was hit, the tool has all its points, or tracking is
+  // lost (positions would be meaningless).
+  async addPoint(screenPoint: { x: number; y: number }): Promise<MeasurementPoint | null> {
+    const trackingFactor = TRACKING_FACTORS[this.sceneManager.getTrackingQuality()];
+    if (trackingFactor === null || !this.canAddPoint()) {
+      return null;
+    }
+
+    let results = await this.sceneManager.performHitTest(screenPoint, 'existingPlane');
+    if (results.length === 0) {
+      results = await this.sceneManager.performHitTest(screenPoint, 'featurePoint');
+    }
+
+    const hit = results[0];
+    if (!hit) {
+      return null;
+    }
+
+    const pointError = (BASE_POINT_ERROR + DISTANCE_ERROR_RATIO * hit.distance) * trackingFactor;
+    const point: MeasurementPoint = {
+      position: hit.position,
+      accuracy: hit.planeId ? pointError : pointError * FEATURE_POINT_FACTOR,
+      planeId: hit.planeId
+    };
+
+    // Height needs a floor point first; when the floor has been detected it is
+    // taken straight below the measured point so one tap is enough
+    if (this.kind === 'height' && this.points.length === 0) {
+      const floor = this.findFloorHeight();
+      if (floor !== null && floor < hit.position.y) {
+        this.points.push({
+          position: { ...hit.position, y: floor },
+          accuracy: pointError,
+          inferred: true
+        });
+      }
+    }
+
+    this.points.push(point);
+    return point;
+  }
+
+  undo(): void {
+    this.points.pop();
+    // A floor point added together with the measured point goes with it
+    if (this.points.length === 1 && this.points[0].inferred) {
+      this.points = [];
+    }
+  }
+
+  clear(): void {
+    this.points = [];
+  }
+
+  // The live reading, or null until the tool has enough points
+  getReading(): Measurement | null {
+    if (!this.isComplete()) {
+      return null;
+    }
+
+    const positions = this.points.map((point) => point.position);
+    return {
+      kind: this.kind,
+      points: positions,
+      value: measureValue(this.kind, positions),
+      unit: this.unit,
+      accuracy: estimateAccuracy(this.kind, this.points)
+    };
+  }
+
+  // The finished measurement as an annotation to create, placed at the centre
+  // of its points. Clears the points.
+  complete(): AnnotationInput | null {
+    const measurement = this.getReading();
+    if (!measurement) {
+      return null;
+    }
+
+    const { points } = measurement;
+    const position = {
+      x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+      y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+      z: points.reduce((sum, point) => sum + point.z, 0) / points.length
+    };
+
+    this.points = [];
+    return {
+      type: 'measurement',
+      position,
+      measurement
+    };
+  }
+
+  // The lowest horizontal plane is taken to be the floor
+  private findFloorHeight(): number | null {
+    const floors = this.sceneManager.getPlanes().filter((plane) => plane.alignment === 'horizontal');
+    if (floors.length === 0) {
+      return null;
+    }
+    return Math.min(...floors.map((plane) => plane.center.y));
+  }
+}
+
+export default ARMeasurementService;
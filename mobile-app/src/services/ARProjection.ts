@@ -0,0 +1,469 @@
+// World-to-screen projection for AR overlays. Pure math with no React Native
+// imports so it can be unit tested and reused by anything that draws on top of
+// the camera feed.
+//
+// Conventions follow ARKit/ARCore: right-handed world space in metres, camera
+// looking down -Z with +Y up, and 4x4 matrices stored column-major as flat
+// 16-element arrays (m[col * 4 + row]), the same layout the native modules use.
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export type Matrix4 = number[];
+
+export interface CameraPose {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+// Pinhole intrinsics in pixels of the captured camera image
+export interface CameraIntrinsics {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ProjectionCamera {
+  position: Vector3;
+  viewMatrix: Matrix4;
+  projectionMatrix: Matrix4;
+  viewProjectionMatrix: Matrix4;
+  viewport: Size;
+  near: number;
+  far: number;
+}
+
+export interface ProjectionOptions {
+  near?: number;
+  far?: number;
+  // Vertical field of view used when the frame carries no intrinsics
+  fallbackFovY?: number;
+}
+
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+  // Distance along the camera's viewing axis, in metres
+  depth: number;
+  inFrustum: boolean;
+}
+
+export interface OcclusionPlane {
+  center: Vector3;
+  alignment: 'horizontal' | 'vertical' | 'unknown';
+  vertices: Vector3[];
+}
+
+export interface ScreenPlacementOptions {
+  // Extra room around the viewport, in pixels, so large markers don't pop at the edges
+  margin?: number;
+  // Depth at which a marker is drawn at its natural size
+  referenceDepth?: number;
+  minScale?: number;
+  maxScale?: number;
+  // How far behind an occluding plane a marker is before it reaches minOpacity
+  occlusionFadeDistance?: number;
+  minOpacity?: number;
+}
+
+export interface ScreenPlacement {
+  visible: boolean;
+  x: number;
+  y: number;
+  depth: number;
+  scale: number;
+  opacity: number;
+}
+
+const DEFAULT_NEAR = 0.01;
+const DEFAULT_FAR = 100;
+const DEFAULT_FOV_Y = (60 * Math.PI) / 180;
+
+const DEFAULT_PLACEMENT: Required<ScreenPlacementOptions> = {
+  margin: 40,
+  referenceDepth: 1,
+  minScale: 0.35,
+  maxScale: 2,
+  occlusionFadeDistance: 0.5,
+  minOpacity: 0.15,
+};
+
+const EPSILON = 1e-9;
+
+export const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const identityMatrix = (): Matrix4 => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+export const multiplyMatrices = (a: Matrix4, b: Matrix4): Matrix4 => {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+};
+
+// Returns homogeneous coordinates; callers divide by w when they need to
+export const transformPoint = (m: Matrix4, p: Vector3): { x: number; y: number; z: number; w: number } => ({
+  x: m[0] * p.x + m[4] * p.y + m[8] * p.z + m[12],
+  y: m[1] * p.x + m[5] * p.y + m[9] * p.z + m[13],
+  z: m[2] * p.x + m[6] * p.y + m[10] * p.z + m[14],
+  w: m[3] * p.x + m[7] * p.y + m[11] * p.z + m[15],
+});
+
+export const normalizeQuaternion = (q: Quaternion): Quaternion => {
+  const length = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w);
+  if (length < EPSILON) {
+    return { x: 0, y: 0, z: 0, w: 1 };
+  }
+  return { x: q.x / length, y: q.y / length, z: q.z / length, w: q.w / length };
+};
+
+// Camera-to-world transform from a position and orientation
+export const poseToMatrix = (pose: CameraPose): Matrix4 => {
+  const { x, y, z, w } = normalizeQuaternion(pose.rotation);
+  const { position } = pose;
+
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w), 0,
+    2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w), 0,
+    2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y), 0,
+    position.x, position.y, position.z, 1,
+  ];
+};
+
+// Position and orientation of a rigid transform; the inverse of poseToMatrix
+export const matrixToPose = (m: Matrix4): CameraPose => {
+  const [r00, r10, r20] = [m[0], m[1], m[2]];
+  const [r01, r11, r21] = [m[4], m[5], m[6]];
+  const [r02, r12, r22] = [m[8], m[9], m[10]];
+  const trace = r00 + r11 + r22;
+  let rotation: Quaternion;
+
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    rotation = { x: (r21 - r12) * s, y: (r02 - r20) * s, z: (r10 - r01) * s, w: 0.25 / s };
+  } else if (r00 > r11 && r00 > r22) {
+    const s = 2 * Math.sqrt(1 + r00 - r11 - r22);
+    rotation = { x: 0.25 * s, y: (r01 + r10) / s, z: (r02 + r20) / s, w: (r21 - r12) / s };
+  } else if (r11 > r22) {
+    const s = 2 * Math.sqrt(1 + r11 - r00 - r22);
+    rotation = { x: (r01 + r10) / s, y: 0.25 * s, z: (r12 + r21) / s, w: (r02 - r20) / s };
+  } else {
+    const s = 2 * Math.sqrt(1 + r22 - r00 - r11);
+    rotation = { x: (r02 + r20) / s, y: (r12 + r21) / s, z: 0.25 * s, w: (r10 - r01) / s };
+  }
+
+  return {
+    position: { x: m[12], y: m[13], z: m[14] },
+    rotation: normalizeQuaternion(rotation),
+  };
+};
+
+// Inverse of a rotation + translation matrix: transpose the rotation and
+// rotate the negated translation
+export const invertRigidTransform = (m: Matrix4): Matrix4 => {
+  const tx = m[12];
+  const ty = m[13];
+  const tz = m[14];
+
+  return [
+    m[0], m[4], m[8], 0,
+    m[1], m[5], m[9], 0,
+    m[2], m[6], m[10], 0,
+    -(m[0] * tx + m[1] * ty + m[2] * tz),
+    -(m[4] * tx + m[5] * ty + m[6] * tz),
+    -(m[8] * tx + m[9] * ty + m[10] * tz),
+    1,
+  ];
+};
+
+// World-to-camera transform
+export const viewMatrixFromPose = (pose: CameraPose): Matrix4 => invertRigidTransform(poseToMatrix(pose));
+
+// Maps intrinsics of the captured image onto the on-screen viewport. The
+// sensor image is landscape; in a portrait viewport it is shown rotated 90°
+// clockwise, and in either case scaled to fill the viewport and centre-cropped.
+export const intrinsicsForViewport = (
+  intrinsics: CameraIntrinsics,
+  imageResolution: Size,
+  viewport: Size
+): CameraIntrinsics => {
+  const imageLandscape = imageResolution.width >= imageResolution.height;
+  const viewportLandscape = viewport.width >= viewport.height;
+
+  let oriented = intrinsics;
+  let orientedSize = imageResolution;
+
+  if (imageLandscape !== viewportLandscape) {
+    oriented = {
+      fx: intrinsics.fy,
+      fy: intrinsics.fx,
+      cx: imageResolution.height - intrinsics.cy,
+      cy: intrinsics.cx,
+    };
+    orientedSize = { width: imageResolution.height, height: imageResolution.width };
+  }
+
+  const scale = Math.max(viewport.width / orientedSize.width, viewport.height / orientedSize.height);
+  const offsetX = (viewport.width - orientedSize.width * scale) / 2;
+  const offsetY = (viewport.height - orientedSize.height * scale) / 2;
+
+  return {
+    fx: oriented.fx * scale,
+    fy: oriented.fy * scale,
+    cx: oriented.cx * scale + offsetX,
+    cy: oriented.cy * scale + offsetY,
+  };
+};
+
+// Intrinsics of an ideal centred camera with the given vertical field of view
+export const intrinsicsFromFov = (fovY: number, viewport: Size): CameraIntrinsics => {
+  const focal = viewport.height / 2 / Math.tan(fovY / 2);
+  return { fx: focal, fy: focal, cx: viewport.width / 2, cy: viewport.height / 2 };
+};
+
+// OpenGL-style projection (clip space with y up) built from viewport-space
+// intrinsics, so an off-centre principal point is preserved
+export const projectionMatrixFromIntrinsics = (
+  intrinsics: CameraIntrinsics,
+  viewport: Size,
+  near: number = DEFAULT_NEAR,
+  far: number = DEFAULT_FAR
+): Matrix4 => {
+  const { fx, fy, cx, cy } = intrinsics;
+  const { width, height } = viewport;
+
+  return [
+    (2 * fx) / width, 0, 0, 0,
+    0, (2 * fy) / height, 0, 0,
+    1 - (2 * cx) / width, (2 * cy) / height - 1, -(far + near) / (far - near), -1,
+    0, 0, (-2 * far * near) / (far - near), 0,
+  ];
+};
+
+export const createProjectionCamera = (
+  pose: CameraPose,
+  viewport: Size,
+  camera?: { intrinsics: CameraIntrinsics; imageResolution: Size },
+  options: ProjectionOptions = {}
+): ProjectionCamera => {
+  const near = options.near ?? DEFAULT_NEAR;
+  const far = options.far ?? DEFAULT_FAR;
+  const intrinsics = camera
+    ? intrinsicsForViewport(camera.intrinsics, camera.imageResolution, viewport)
+    : intrinsicsFromFov(options.fallbackFovY ?? DEFAULT_FOV_Y, viewport);
+
+  const viewMatrix = viewMatrixFromPose(pose);
+  const projectionMatrix = projectionMatrixFromIntrinsics(intrinsics, viewport, near, far);
+
+  return {
+    position: pose.position,
+    viewMatrix,
+    projectionMatrix,
+    viewProjectionMatrix: multiplyMatrices(projectionMatrix, viewMatrix),
+    viewport,
+    near,
+    far,
+  };
+};
+
+// Projects a world point to viewport pixels (origin top-left, y down).
+// Returns null for points behind the camera or nearer than the near plane.
+export const projectPoint = (
+  point: Vector3,
+  camera: ProjectionCamera,
+  margin: number = 0
+): ProjectedPoint | null => {
+  const viewSpace = transformPoint(camera.viewMatrix, point);
+  const depth = -viewSpace.z;
+
+  if (depth < camera.near) {
+    return null;
+  }
+
+  const clip = transformPoint(camera.projectionMatrix, viewSpace);
+  const ndcX = clip.x / clip.w;
+  const ndcY = clip.y / clip.w;
+
+  const x = ((ndcX + 1) / 2) * camera.viewport.width;
+  const y = ((1 - ndcY) / 2) * camera.viewport.height;
+
+  const inFrustum = depth <= camera.far
+    && x >= -margin && x <= camera.viewport.width + margin
+    && y >= -margin && y <= camera.viewport.height + margin;
+
+  return { x, y, depth, inFrustum };
+};
+
+// Markers shrink with distance, clamped so far ones stay tappable and near
+// ones don't cover the view
+export const depthScale = (
+  depth: number,
+  referenceDepth: number = DEFAULT_PLACEMENT.referenceDepth,
+  minScale: number = DEFAULT_PLACEMENT.minScale,
+  maxScale: number = DEFAULT_PLACEMENT.maxScale
+): number => {
+  if (depth <= EPSILON) {
+    return maxScale;
+  }
+  return clamp(referenceDepth / depth, minScale, maxScale);
+};
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (v: Vector3): number => Math.sqrt(dot(v, v));
+
+// Newell's method; robust for the slightly non-planar polygons trackers report
+export const planeNormal = (plane: OcclusionPlane): Vector3 | null => {
+  if (plane.alignment === 'horizontal') {
+    return { x: 0, y: 1, z: 0 };
+  }
+
+  const normal = { x: 0, y: 0, z: 0 };
+  const { vertices } = plane;
+
+  for (let i = 0; i < vertices.length; i++) {
+    const current = vertices[i];
+    const next = vertices[(i + 1) % vertices.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  }
+
+  const size = length(normal);
+  return size > EPSILON ? { x: normal.x / size, y: normal.y / size, z: normal.z / size } : null;
+};
+
+// Point-in-polygon on the plane, using the two axes the normal is least aligned with
+const isInsidePolygon = (point: Vector3, vertices: Vector3[], normal: Vector3): boolean => {
+  const ax = Math.abs(normal.x);
+  const ay = Math.abs(normal.y);
+  const az = Math.abs(normal.z);
+  const [u, v]: Array<keyof Vector3> = ax >= ay && ax >= az ? ['y', 'z'] : ay >= az ? ['x', 'z'] : ['x', 'y'];
+
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a[v] > point[v]) !== (b[v] > point[v])
+      && point[u] < ((b[u] - a[u]) * (point[v] - a[v])) / (b[v] - a[v]) + a[u]) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Distance from the camera to the nearest detected plane crossing the line
+// of sight to the point, or null when nothing is in between
+export const occluderDistance = (from: Vector3, to: Vector3, planes: OcclusionPlane[]): number | null => {
+  const direction = subtract(to, from);
+  const targetDistance = length(direction);
+  if (targetDistance < EPSILON) {
+    return null;
+  }
+
+  let nearest: number | null = null;
+
+  planes.forEach((plane) => {
+    if (plane.vertices.length < 3) {
+      return;
+    }
+
+    const normal = planeNormal(plane);
+    if (!normal) {
+      return;
+    }
+
+    const denominator = dot(normal, direction);
+    if (Math.abs(denominator) < EPSILON) {
+      return;
+    }
+
+    const t = dot(normal, subtract(plane.center, from)) / denominator;
+    if (t <= 0 || t >= 1) {
+      return;
+    }
+
+    const hit = { x: from.x + direction.x * t, y: from.y + direction.y * t, z: from.z + direction.z * t };
+    if (!isInsidePolygon(hit, plane.vertices, normal)) {
+      return;
+    }
+
+    const distance = t * targetDistance;
+    if (nearest === null || distance < nearest) {
+      nearest = distance;
+    }
+  });
+
+  return nearest;
+};
+
+// Full opacity in front of any occluder, fading out linearly the further the
+// point sits behind it
+export const occlusionOpacity = (
+  pointDistance: number,
+  occluder: number | null,
+  fadeDistance: number = DEFAULT_PLACEMENT.occlusionFadeDistance,
+  minOpacity: number = DEFAULT_PLACEMENT.minOpacity
+): number => {
+  if (occluder === null || pointDistance <= occluder) {
+    return 1;
+  }
+  if (fadeDistance <= 0) {
+    return minOpacity;
+  }
+  return clamp(1 - (pointDistance - occluder) / fadeDistance, minOpacity, 1);
+};
+
+// Everything an overlay needs to draw a world-anchored marker this frame
+export const placeOnScreen = (
+  point: Vector3,
+  camera: ProjectionCamera,
+  planes: OcclusionPlane[] = [],
+  options: ScreenPlacementOptions = {}
+): ScreenPlacement => {
+  const settings = { ...DEFAULT_PLACEMENT, ...options };
+  const projected = projectPoint(point, camera, settings.margin);
+
+  if (!projected || !projected.inFrustum) {
+    return { visible: false, x: 0, y: 0, depth: projected?.depth ?? 0, scale: 0, opacity: 0 };
+  }
+
+  const distance = length(subtract(point, camera.position));
+
+  return {
+    visible: true,
+    x: projected.x,
+    y: projected.y,
+    depth: projected.depth,
+    scale: depthScale(projected.depth, settings.referenceDepth, settings.minScale, settings.maxScale),
+    opacity: occlusionOpacity(
+      distance,
+      occluderDistance(camera.position, point, planes),
+      settings.occlusionFadeDistance,
+      settings.minOpacity
+    ),
+  };
+};
@@ -1,4 +1,6 @@
-import { NativeModules, Platform, NativeEventEmitter } from 'react-native';
+import { ARAnchorData, ARFrameData, ARProvider, ARSessionOptions } from 'ar-inspection-platform-shared';
+import { CameraIntrinsics, poseToMatrix } from './ARProjection';
+import NativeARProvider from './NativeARProvider';
 
 interface ARAnchor {
   id: string;
@@ -7,7 +9,7 @@ interface ARAnchor {
   persistenceKey?: string;
 }
 
-interface ARPlane {
+export interface ARPlane {
   id: string;
   center: { x: number; y: number; z: number };
   extent: { width: number; height: number };
@@ -15,12 +17,22 @@ interface ARPlane {
   vertices: Array<{ x: number; y: number; z: number }>;
 }
 
-interface ARFrame {
+// ARKit's camera tracking states; ARCore's TRACKING / PAUSED / STOPPED are
+// reported as normal / limited / notAvailable
+export type ARTrackingQuality = 'normal' | 'limited' | 'notAvailable';
+
+export interface ARFrame {
   timestamp: number;
   cameraTransform: {
     position: { x: number; y: number; z: number };
     rotation: { x: number; y: number; z: number; w: number };
   };
+  // Pinhole intrinsics of the captured image, in its own pixel space.
+  // Platforms that don't report them get a default field of view.
+  camera?: {
+    intrinsics: CameraIntrinsics;
+    imageResolution: { width: number; height: number };
+  };
   lightEstimate: {
     ambientIntensity: number;
     ambientColorTemperature: number;
@@ -28,82 +40,111 @@ interface ARFrame {
   };
 }
 
+// Light estimate for runtimes that don't report one
+const DEFAULT_LIGHT_ESTIMATE = { ambientIntensity: 1000, ambientColorTemperature: 6500 };
+
+const toAnchor = (anchor: ARAnchorData): ARAnchor => ({
+  id: anchor.id,
+  transform: poseToMatrix(anchor.pose),
+  type: 'plane'
+});
+
+const toFrame = (frame: ARFrameData): ARFrame => {
+  const lightEstimate = frame.lightEstimate || DEFAULT_LIGHT_ESTIMATE;
+  return {
+    timestamp: frame.timestamp,
+    cameraTransform: frame.camera,
+    camera: frame.intrinsics && frame.imageResolution
+      ? { intrinsics: frame.intrinsics, imageResolution: frame.imageResolution }
+      : undefined,
+    lightEstimate: {
+      ambientIntensity: lightEstimate.ambientIntensity,
+      ambientColorTemperature: lightEstimate.ambientColorTemperature,
+      directionalIntensity: frame.lightEstimate?.directionalIntensity ?? lightEstimate.ambientIntensity
+    }
+  };
+};
+
+// Scene state on top of an AR provider: ARKit or ARCore on devices, or a
+// SimulatedARProvider replaying a scene file in tests and on the web
 class ARSceneManager {
   private isInitialized = false;
   private isRunning = false;
   private anchors: Map<string, ARAnchor> = new Map();
   private planes: Map<string, ARPlane> = new Map();
-  private eventEmitter: NativeEventEmitter;
+  private trackingQuality: ARTrackingQuality = 'notAvailable';
+  private sessionOptions: ARSessionOptions = {};
   
-  constructor() {
-    if (Platform.OS === 'ios') {
-      this.eventEmitter = new NativeEventEmitter(NativeModules.ARKitManager);
-    } else if (Platform.OS === 'android') {
-      this.eventEmitter = new NativeEventEmitter(NativeModules.ARCoreManager);
-    }
-    
+  constructor(private provider: ARProvider = new NativeARProvider()) {
     this.setupEventListeners();
   }
   
+  getProvider(): ARProvider {
+    return this.provider;
+  }
+  
   private setupEventListeners() {
     // Plane detection events
-    this.eventEmitter.addListener('onPlaneDetected', (plane: ARPlane) => {
+    this.provider.on('planeAdded', (plane: ARPlane) => {
       this.planes.set(plane.id, plane);
       console.log(`Plane detected: ${plane.id}`);
       this.emit('planeDetected', plane);
     });
     
-    this.eventEmitter.addListener('onPlaneUpdated', (plane: ARPlane) => {
+    this.provider.on('planeUpdated', (plane: ARPlane) => {
       this.planes.set(plane.id, plane);
       console.log(`Plane updated: ${plane.id}`);
       this.emit('planeUpdated', plane);
     });
     
-    this.eventEmitter.addListener('onPlaneRemoved', (planeId: string) => {
+    this.provider.on('planeRemoved', ({ id: planeId }) => {
       this.planes.delete(planeId);
       console.log(`Plane removed: ${planeId}`);
       this.emit('planeRemoved', planeId);
     });
     
     // Anchor events
-    this.eventEmitter.addListener('onAnchorAdded', (anchor: ARAnchor) => {
+    this.provider.on('anchorAdded', (data) => {
+      const anchor = toAnchor(data);
       this.anchors.set(anchor.id, anchor);
       console.log(`Anchor added: ${anchor.id}`);
       this.emit('anchorAdded', anchor);
     });
     
-    this.eventEmitter.addListener('onAnchorUpdated', (anchor: ARAnchor) => {
+    this.provider.on('anchorUpdated', (data) => {
+      const anchor = toAnchor(data);
       this.anchors.set(anchor.id, anchor);
       console.log(`Anchor updated: ${anchor.id}`);
       this.emit('anchorUpdated', anchor);
     });
     
-    this.eventEmitter.addListener('onAnchorRemoved', (anchorId: string) => {
+    this.provider.on('anchorRemoved', ({ id: anchorId }) => {
       this.anchors.delete(anchorId);
       console.log(`Anchor removed: ${anchorId}`);
       this.emit('anchorRemoved', anchorId);
     });
     
     // AR session events
-    this.eventEmitter.addListener('onSessionInterrupted', () => {
+    this.provider.on('sessionInterrupted', () => {
       this.isRunning = false;
       console.warn('AR session interrupted');
       this.emit('sessionInterrupted');
     });
     
-    this.eventEmitter.addListener('onSessionResumed', () => {
+    this.provider.on('sessionResumed', () => {
       this.isRunning = true;
       console.log('AR session resumed');
       this.emit('sessionResumed');
     });
     
-    this.eventEmitter.addListener('onTrackingQualityChanged', (quality: string) => {
+    this.provider.on('trackingStateChanged', ({ state: quality }) => {
+      this.trackingQuality = quality;
       console.log(`Tracking quality changed to: ${quality}`);
       this.emit('trackingQualityChanged', quality);
     });
     
-    this.eventEmitter.addListener('onARFrameUpdate', (frame: ARFrame) => {
-      this.emit('frameUpdate', frame);
+    this.provider.on('frame', (frame) => {
+      this.emit('frameUpdate', toFrame(frame));
     });
   }
   
@@ -118,14 +159,11 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.initialize(config);
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.initialize(config);
-      } else {
+      if (!(await this.provider.isSupported())) {
         throw new Error('AR not supported on this platform');
       }
       
+      this.sessionOptions = config;
       this.isInitialized = true;
       console.log('ARSceneManager initialized successfully');
       return true;
@@ -147,11 +185,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.startSession();
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.startSession();
-      }
+      await this.provider.startSession(this.sessionOptions);
       
       this.isRunning = true;
       console.log('AR session started');
@@ -168,11 +202,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.pauseSession();
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.pauseSession();
-      }
+      await this.provider.pauseSession();
       
       console.log('AR session paused');
     } catch (error) {
@@ -186,11 +216,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.resumeSession();
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.resumeSession();
-      }
+      await this.provider.resumeSession();
       
       this.isRunning = true;
       console.log('AR session resumed');
@@ -205,13 +231,10 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.stopSession();
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.stopSession();
-      }
+      await this.provider.stopSession();
       
       this.isRunning = false;
+      this.trackingQuality = 'notAvailable';
       this.anchors.clear();
       this.planes.clear();
       console.log('AR session stopped');
@@ -234,13 +257,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        return await NativeModules.ARKitManager.hitTest(screenPoint.x, screenPoint.y, type);
-      } else if (Platform.OS === 'android') {
-        return await NativeModules.ARCoreManager.hitTest(screenPoint.x, screenPoint.y);
-      }
-      
-      return [];
+      return await this.provider.hitTest(screenPoint, [type]);
     } catch (error) {
       console.error('Hit test failed:', error);
       return [];
@@ -253,26 +270,9 @@ class ARSceneManager {
     }
     
     try {
-      let anchorId: string;
-      
-      if (Platform.OS === 'ios') {
-        anchorId = await NativeModules.ARKitManager.createAnchor(position);
-      } else if (Platform.OS === 'android') {
-        anchorId = await NativeModules.ARCoreManager.createAnchor(position);
-      }
-      
-      if (anchorId) {
-        const anchor: ARAnchor = {
-          id: anchorId,
-          transform: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], // Identity matrix
-          type: 'plane'
-        };
-        
-        this.anchors.set(anchorId, anchor);
-        return anchorId;
-      }
-      
-      return null;
+      const anchor = await this.provider.createAnchor({ position, rotation: { x: 0, y: 0, z: 0, w: 1 } });
+      this.anchors.set(anchor.id, toAnchor(anchor));
+      return anchor.id;
     } catch (error) {
       console.error('Failed to create anchor:', error);
       return null;
@@ -285,11 +285,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        await NativeModules.ARKitManager.removeAnchor(anchorId);
-      } else if (Platform.OS === 'android') {
-        await NativeModules.ARCoreManager.removeAnchor(anchorId);
-      }
+      await this.provider.removeAnchor(anchorId);
       
       this.anchors.delete(anchorId);
       console.log(`Anchor removed: ${anchorId}`);
@@ -304,13 +300,7 @@ class ARSceneManager {
     }
     
     try {
-      let worldMapData: string;
-      
-      if (Platform.OS === 'ios') {
-        worldMapData = await NativeModules.ARKitManager.saveWorldMap();
-      } else if (Platform.OS === 'android') {
-        worldMapData = await NativeModules.ARCoreManager.saveCloudAnchor();
-      }
+      const worldMapData = await this.provider.getWorldMap();
       
       console.log('World map saved');
       return worldMapData;
@@ -326,13 +316,7 @@ class ARSceneManager {
     }
     
     try {
-      let success: boolean;
-      
-      if (Platform.OS === 'ios') {
-        success = await NativeModules.ARKitManager.loadWorldMap(worldMapData);
-      } else if (Platform.OS === 'android') {
-        success = await NativeModules.ARCoreManager.loadCloudAnchor(worldMapData);
-      }
+      const success = await this.provider.loadWorldMap(worldMapData);
       
       if (success) {
         console.log('World map loaded successfully');
@@ -355,16 +339,7 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        return await NativeModules.ARKitManager.getCameraTransform();
-      } else if (Platform.OS === 'android') {
-        return await NativeModules.ARCoreManager.getCameraTransform();
-      }
-      
-      return {
-        position: { x: 0, y: 0, z: 0 },
-        rotation: { x: 0, y: 0, z: 0, w: 1 }
-      };
+      return await this.provider.getCameraPose();
     } catch (error) {
       console.error('Failed to get camera transform:', error);
       throw error;
@@ -382,13 +357,17 @@ class ARSceneManager {
     }
     
     try {
-      if (Platform.OS === 'ios') {
-        return await NativeModules.ARKitManager.captureFrame();
-      } else if (Platform.OS === 'android') {
-        return await NativeModules.ARCoreManager.captureFrame();
+      if (!this.provider.captureFrame) {
+        throw new Error('AR frame capture not supported on this platform');
       }
       
-      throw new Error('AR frame capture not supported on this platform');
+      const frame = await this.provider.captureFrame();
+      return {
+        image: frame.image,
+        depthMap: frame.depthMap,
+        cameraTransform: poseToMatrix(frame.camera),
+        timestamp: frame.timestamp
+      };
     } catch (error) {
       console.error('Failed to capture AR frame:', error);
       throw error;
@@ -404,6 +383,10 @@ class ARSceneManager {
     return Array.from(this.anchors.values());
   }
   
+  getTrackingQuality(): ARTrackingQuality {
+    return this.trackingQuality;
+  }
+  
   isSessionRunning(): boolean {
     return this.isRunning;
   }
@@ -0,0 +1,196 @@
+// Geometry of detected planes: area, orientation, flatness and what kind of
+// surface a plane probably is. Pure math with no React Native imports, like
+// ARProjection, and the same conventions: world space in metres with +Y up.
+// Plane vertices are the boundary polygon in world space, in order.
+
+import { polygonArea } from 'ar-inspection-platform-shared';
+import { Vector3 } from './ARProjection';
+
+export type SurfaceOrientation = 'horizontal' | 'vertical' | 'unknown';
+
+export type SurfaceClassification = 'floor' | 'wall' | 'ceiling' | 'table' | 'unknown';
+
+export interface AnalyzablePlane {
+  id: string;
+  center: Vector3;
+  extent: { width: number; height: number };
+  alignment: 'horizontal' | 'vertical' | 'unknown';
+  vertices: Vector3[];
+}
+
+export interface SurfaceAnalysis {
+  planeId: string;
+  // From the measured normal, not the tracker's alignment hint
+  surfaceType: SurfaceOrientation;
+  classification: SurfaceClassification;
+  // Unit normal pointing out of the surface: up from floors and tables, down
+  // from ceilings, towards the camera from walls when the camera is known
+  normal: Vector3;
+  // Square metres
+  area: number;
+  // RMS distance of the boundary vertices from the best-fit plane, in metres
+  flatness: number;
+  isFlat: boolean;
+}
+
+// Within this many degrees of level (or plumb) counts as horizontal (or vertical)
+const ORIENTATION_TOLERANCE = 15;
+const FLATNESS_TOLERANCE = 0.01;
+
+// Heights above the floor, in metres
+const FLOOR_MAX_HEIGHT = 0.15;
+const TABLE_MIN_HEIGHT = 0.3;
+const TABLE_MAX_HEIGHT = 1.3;
+const CEILING_MIN_HEIGHT = 1.9;
+// How far below the camera a floor usually is when the device is held up;
+// the lowest plane is only trusted as the floor when it is at least
+// MIN_FLOOR_DEPTH below the camera
+const TYPICAL_DEVICE_HEIGHT = 1.4;
+const MIN_FLOOR_DEPTH = 1.0;
+
+const EPSILON = 1e-9;
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const scale = (v: Vector3, factor: number): Vector3 => ({ x: v.x * factor, y: v.y * factor, z: v.z * factor });
+
+const centroid = (points: Vector3[]): Vector3 => scale(
+  points.reduce((sum, point) => ({ x: sum.x + point.x, y: sum.y + point.y, z: sum.z + point.z }), { x: 0, y: 0, z: 0 }),
+  1 / points.length
+);
+
+// Newell's method, so the result follows the winding of the vertices and
+// tolerates the slightly non-planar polygons trackers report. Planes without
+// a usable polygon fall back to the tracker's alignment.
+export const surfaceNormal = (plane: AnalyzablePlane): Vector3 => {
+  const normal = { x: 0, y: 0, z: 0 };
+  const { vertices } = plane;
+
+  for (let i = 0; i < vertices.length; i++) {
+    const current = vertices[i];
+    const next = vertices[(i + 1) % vertices.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  }
+
+  const size = Math.sqrt(dot(normal, normal));
+  if (vertices.length >= 3 && size > EPSILON) {
+    return scale(normal, 1 / size);
+  }
+  return plane.alignment === 'vertical' ? { x: 0, y: 0, z: 1 } : { x: 0, y: 1, z: 0 };
+};
+
+// The boundary polygon's area, or the bounding extent when there is no
+// polygon or its points are collinear
+export const surfaceArea = (plane: AnalyzablePlane): number => {
+  const area = plane.vertices.length >= 3 ? polygonArea(plane.vertices) : 0;
+  return area > EPSILON ? area : plane.extent.width * plane.extent.height;
+};
+
+// RMS deviation of the vertices from the plane through their centroid
+export const surfaceFlatness = (plane: AnalyzablePlane, normal: Vector3 = surfaceNormal(plane)): number => {
+  const { vertices } = plane;
+  if (vertices.length < 4) {
+    // Three points always lie on a plane
+    return 0;
+  }
+
+  const middle = centroid(vertices);
+  const squared = vertices.reduce((sum, vertex) => sum + dot(subtract(vertex, middle), normal) ** 2, 0);
+  return Math.sqrt(squared / vertices.length);
+};
+
+export const surfaceOrientation = (normal: Vector3): SurfaceOrientation => {
+  const tilt = Math.acos(Math.min(1, Math.abs(normal.y))) * 180 / Math.PI;
+  if (tilt <= ORIENTATION_TOLERANCE) {
+    return 'horizontal';
+  }
+  if (tilt >= 90 - ORIENTATION_TOLERANCE) {
+    return 'vertical';
+  }
+  return 'unknown';
+};
+
+// Height of the floor: the lowest horizontal plane, unless it is too close
+// below the camera to be the floor (a table seen before the floor was)
+export const estimateFloorHeight = (planes: AnalyzablePlane[], cameraPosition?: Vector3): number | null => {
+  const heights = planes
+    .filter((plane) => surfaceOrientation(surfaceNormal(plane)) === 'horizontal')
+    .map((plane) => plane.center.y)
+    .filter((height) => !cameraPosition || height < cameraPosition.y);
+
+  const lowest = heights.length > 0 ? Math.min(...heights) : null;
+
+  if (cameraPosition && (lowest === null || cameraPosition.y - lowest < MIN_FLOOR_DEPTH)) {
+    return cameraPosition.y - TYPICAL_DEVICE_HEIGHT;
+  }
+  return lowest;
+};
+
+export const classifySurface = (
+  plane: AnalyzablePlane,
+  orientation: SurfaceOrientation,
+  floorHeight: number | null,
+  cameraPosition?: Vector3
+): SurfaceClassification => {
+  if (orientation === 'vertical') {
+    return 'wall';
+  }
+  if (orientation !== 'horizontal') {
+    return 'unknown';
+  }
+
+  if (cameraPosition && plane.center.y > cameraPosition.y) {
+    return 'ceiling';
+  }
+  if (floorHeight === null) {
+    return 'unknown';
+  }
+
+  const height = plane.center.y - floorHeight;
+  if (height <= FLOOR_MAX_HEIGHT) {
+    return 'floor';
+  }
+  if (height >= TABLE_MIN_HEIGHT && height <= TABLE_MAX_HEIGHT) {
+    return 'table';
+  }
+  if (height >= CEILING_MIN_HEIGHT) {
+    return 'ceiling';
+  }
+  return 'unknown';
+};
+
+// Everything known about one plane. The other tracked planes locate the floor;
+// the camera position, when known, separates ceilings from floors and orients
+// wall normals towards the viewer.
+export const analyzeSurface = (
+  plane: AnalyzablePlane,
+  planes: AnalyzablePlane[],
+  cameraPosition?: Vector3
+): SurfaceAnalysis => {
+  let normal = surfaceNormal(plane);
+  const surfaceType = surfaceOrientation(normal);
+  const classification = classifySurface(plane, surfaceType, estimateFloorHeight(planes, cameraPosition), cameraPosition);
+  const flatness = surfaceFlatness(plane, normal);
+
+  // Vertex winding says nothing about which side is the front
+  if (surfaceType === 'horizontal') {
+    const up = classification === 'ceiling' ? -1 : 1;
+    if (Math.sign(normal.y) !== up) {
+      normal = scale(normal, -1);
+    }
+  } else if (cameraPosition && dot(normal, subtract(cameraPosition, plane.center)) < 0) {
+    normal = scale(normal, -1);
+  }
+
+  return {
+    planeId: plane.id,
+    surfaceType,
+    classification,
+    normal,
+    area: surfaceArea(plane),
+    flatness,
+    isFlat: flatness <= FLATNESS_TOLERANCE
+  };
+};
@@ -0,0 +1,107 @@
+export interface ChecklistServiceConfig {
+  serverUrl?: string;
+  getAccessToken?: () => Promise<string | null> | string | null;
+}
+
+export type FindingResult = 'pass' | 'fail' | 'na';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  type: 'pass_fail' | 'numeric';
+  required: boolean;
+  requires_photo: boolean;
+  guidance?: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ChecklistFinding {
+  item_id: string;
+  result: FindingResult | null;
+  value: number | null;
+  within_tolerance: boolean | null;
+  notes: string | null;
+  annotation_ids: string[];
+  media_ids: string[];
+}
+
+export interface SessionChecklist {
+  id: string;
+  name: string;
+  sections: { id: string; title: string; items: ChecklistItem[] }[];
+  findings: ChecklistFinding[];
+  progress: { answered: number; total: number; failed: number };
+  completed_at: string | null;
+}
+
+export interface FindingInput {
+  result?: FindingResult;
+  value?: number;
+  notes?: string;
+  annotation_ids?: string[];
+  media_ids?: string[];
+}
+
+export class ChecklistRequestError extends Error {
+  constructor(message: string, public status: number, public details?: any) {
+    super(message);
+  }
+}
+
+// REST client for the checklists attached to an inspection session. Live
+// updates from other participants arrive through SocketService as
+// checklist:updated / checklist:removed.
+class ChecklistService {
+  private static instance: ChecklistService;
+  private config: ChecklistServiceConfig;
+
+  constructor(config: ChecklistServiceConfig = {}) {
+    this.config = {
+      serverUrl: config.serverUrl || 'http://localhost:3000',
+      ...config,
+    };
+  }
+
+  static getInstance(config?: ChecklistServiceConfig): ChecklistService {
+    if (!ChecklistService.instance) {
+      ChecklistService.instance = new ChecklistService(config);
+    }
+    return ChecklistService.instance;
+  }
+
+  async listChecklists(sessionId: string): Promise<SessionChecklist[]> {
+    const response = await this.request('GET', `/api/sessions/${sessionId}/checklists`);
+    return response.checklists;
+  }
+
+  recordFinding(sessionId: string, checklistId: string, itemId: string, finding: FindingInput): Promise<SessionChecklist> {
+    return this.request('PUT', `/api/sessions/${sessionId}/checklists/${checklistId}/findings/${itemId}`, finding);
+  }
+
+  // Rejects with a ChecklistRequestError whose details list the incomplete items
+  completeChecklist(sessionId: string, checklistId: string): Promise<SessionChecklist> {
+    return this.request('POST', `/api/sessions/${sessionId}/checklists/${checklistId}/complete`);
+  }
+
+  private async request(method: string, path: string, body?: any): Promise<any> {
+    const token = await this.config.getAccessToken?.();
+    const response = await fetch(`${this.config.serverUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new ChecklistRequestError(data.error || `Request failed with status ${response.status}`, response.status, data);
+    }
+    return data;
+  }
+}
+
+export default ChecklistService;
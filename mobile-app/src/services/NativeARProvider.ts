@@ -0,0 +1,182 @@
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+import {
+  ARAnchorData,
+  ARHitResult,
+  ARHitTestType,
+  ARPose,
+  ARProvider,
+  ARProviderEventName,
+  ARProviderEvents,
+  ARProviderListener,
+  ARSessionOptions,
+  ARTrackingState,
+  Vector2
+} from 'ar-inspection-platform-shared';
+import { matrixToPose } from './ARProjection';
+
+// ARKit on iOS and ARCore on Android, through the ARKitManager and
+// ARCoreManager native modules. Native event payloads are converted to the
+// provider's: anchors arrive with a 4x4 transform and frames in ARSceneManager's
+// ARFrame shape.
+
+const NATIVE_EVENTS: { [E in ARProviderEventName]: { name: string; convert: (payload: any) => ARProviderEvents[E] } } = {
+  frame: {
+    name: 'onARFrameUpdate',
+    convert: (frame) => ({
+      timestamp: frame.timestamp,
+      camera: frame.cameraTransform,
+      intrinsics: frame.camera?.intrinsics,
+      imageResolution: frame.camera?.imageResolution,
+      lightEstimate: frame.lightEstimate
+    })
+  },
+  trackingStateChanged: { name: 'onTrackingQualityChanged', convert: (state) => ({ state }) },
+  planeAdded: { name: 'onPlaneDetected', convert: (plane) => plane },
+  planeUpdated: { name: 'onPlaneUpdated', convert: (plane) => plane },
+  planeRemoved: { name: 'onPlaneRemoved', convert: (id) => ({ id }) },
+  anchorAdded: { name: 'onAnchorAdded', convert: (anchor) => ({ id: anchor.id, pose: matrixToPose(anchor.transform) }) },
+  anchorUpdated: { name: 'onAnchorUpdated', convert: (anchor) => ({ id: anchor.id, pose: matrixToPose(anchor.transform) }) },
+  anchorRemoved: { name: 'onAnchorRemoved', convert: (id) => ({ id }) },
+  sessionInterrupted: { name: 'onSessionInterrupted', convert: () => ({}) },
+  sessionResumed: { name: 'onSessionResumed', convert: () => ({}) }
+};
+
+class NativeARProvider implements ARProvider {
+  readonly name = Platform.OS === 'ios' ? 'arkit' : 'arcore';
+
+  private native: any;
+  private eventEmitter: NativeEventEmitter | null = null;
+  private isInitialized = false;
+  private trackingState: ARTrackingState = 'notAvailable';
+
+  constructor() {
+    if (Platform.OS === 'ios') {
+      this.native = NativeModules.ARKitManager;
+    } else if (Platform.OS === 'android') {
+      this.native = NativeModules.ARCoreManager;
+    }
+
+    if (this.native) {
+      this.eventEmitter = new NativeEventEmitter(this.native);
+      this.on('trackingStateChanged', ({ state }) => {
+        this.trackingState = state;
+      });
+    }
+  }
+
+  private requireNative(): any {
+    if (!this.native) {
+      throw new Error('AR not supported on this platform');
+    }
+    return this.native;
+  }
+
+  async isSupported(): Promise<boolean> {
+    return !!this.native;
+  }
+
+  async startSession(options: ARSessionOptions = {}): Promise<void> {
+    const native = this.requireNative();
+
+    if (!this.isInitialized) {
+      await native.initialize({
+        planeDetection: options.planeDetection ?? true,
+        lightEstimation: options.lightEstimation ?? true,
+        worldAlignment: options.worldAlignment ?? 'gravity'
+      });
+      this.isInitialized = true;
+    }
+
+    await native.startSession();
+  }
+
+  async pauseSession(): Promise<void> {
+    await this.requireNative().pauseSession();
+  }
+
+  async resumeSession(): Promise<void> {
+    await this.requireNative().resumeSession();
+  }
+
+  async stopSession(): Promise<void> {
+    await this.requireNative().stopSession();
+    this.trackingState = 'notAvailable';
+  }
+
+  async getTrackingState(): Promise<ARTrackingState> {
+    return this.trackingState;
+  }
+
+  async getCameraPose(): Promise<ARPose> {
+    return await this.requireNative().getCameraTransform();
+  }
+
+  // ARKit tests one type per call. ARCore ignores the type and returns plane
+  // and point hits together, told apart by whether they carry a plane.
+  async hitTest(point: Vector2, types: ARHitTestType[]): Promise<ARHitResult[]> {
+    const native = this.requireNative();
+
+    if (Platform.OS === 'android') {
+      const hits: Array<Omit<ARHitResult, 'type'>> = await native.hitTest(point.x, point.y);
+      return hits
+        .map((hit): ARHitResult => ({ ...hit, type: hit.planeId ? 'existingPlane' : 'featurePoint' }))
+        .filter((hit) => types.includes(hit.type));
+    }
+
+    const results: ARHitResult[] = [];
+    for (const type of types) {
+      const hits: Array<Omit<ARHitResult, 'type'>> = await native.hitTest(point.x, point.y, type);
+      results.push(...hits.map((hit) => ({ ...hit, type })));
+    }
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  async createAnchor(pose: ARPose): Promise<ARAnchorData> {
+    const id: string | null = await this.requireNative().createAnchor(pose.position);
+    if (!id) {
+      throw new Error('Anchor was not created');
+    }
+    return { id, pose };
+  }
+
+  async removeAnchor(id: string): Promise<void> {
+    await this.requireNative().removeAnchor(id);
+  }
+
+  async isWorldMapSupported(): Promise<boolean> {
+    return !!this.native;
+  }
+
+  // ARCore has no world map; a hosted cloud anchor stands in for one
+  async getWorldMap(): Promise<string | null> {
+    const native = this.requireNative();
+    return Platform.OS === 'ios' ? await native.saveWorldMap() : await native.saveCloudAnchor();
+  }
+
+  async loadWorldMap(data: string): Promise<boolean> {
+    const native = this.requireNative();
+    return Platform.OS === 'ios' ? await native.loadWorldMap(data) : await native.loadCloudAnchor(data);
+  }
+
+  async captureFrame(): Promise<{ image: string; depthMap?: string; camera: ARPose; timestamp: number }> {
+    const frame = await this.requireNative().captureFrame();
+    return {
+      image: frame.image,
+      depthMap: frame.depthMap,
+      camera: matrixToPose(frame.cameraTransform),
+      timestamp: frame.timestamp
+    };
+  }
+
+  on<E extends ARProviderEventName>(event: E, listener: ARProviderListener<E>): () => void {
+    if (!this.eventEmitter) {
+      return () => {};
+    }
+
+    const { name, convert } = NATIVE_EVENTS[event];
+    const subscription = this.eventEmitter.addListener(name, (payload: any) => listener(convert(payload)));
+    return () => subscription.remove();
+  }
+}
+
+export default NativeARProvider;
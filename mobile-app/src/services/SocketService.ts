@@ -0,0 +1,214 @@
+import { io, Socket } from 'socket.io-client';
+import {
+  AnnotationInput,
+  AnnotationResource,
+  AnnotationRevision,
+  CursorSpace,
+  ServerEventName,
+  SessionStatusEvent,
+  Vector2,
+  Vector3,
+  validateAnnotation,
+} from 'ar-inspection-platform-shared';
+
+export interface SocketServiceConfig {
+  serverUrl?: string;
+  namespace?: string;
+}
+
+type AckResponse = { error?: string; [key: string]: any };
+
+// Client for the backend /collaboration namespace. Tracks the joined session and
+// the cursor the server issued when it was joined, so a reconnect can ask the
+// server to replay only what happened after it.
+class SocketService {
+  private static instance: SocketService;
+  private config: SocketServiceConfig;
+  private socket: Socket | null = null;
+  private currentSessionId: string | null = null;
+  private cursor: string | null = null;
+  private listeners: Map<string, Function[]> = new Map();
+
+  constructor(config: SocketServiceConfig = {}) {
+    this.config = {
+      serverUrl: config.serverUrl || 'http://localhost:3000',
+      namespace: config.namespace || '/collaboration',
+      ...config,
+    };
+  }
+
+  static getInstance(config?: SocketServiceConfig): SocketService {
+    if (!SocketService.instance) {
+      SocketService.instance = new SocketService(config);
+    }
+    return SocketService.instance;
+  }
+
+  connect(token: string): void {
+    if (this.socket) {
+      this.socket.disconnect();
+    }
+
+    this.socket = io(`${this.config.serverUrl}${this.config.namespace}`, {
+      auth: { token },
+      transports: ['websocket'],
+      reconnection: true,
+    });
+
+    this.socket.on('connect', () => {
+      console.log('Collaboration socket connected');
+      // Rejoin after a reconnect and replay missed revisions
+      if (this.currentSessionId) {
+        this.joinSession(this.currentSessionId).catch(error => {
+          console.error('Failed to rejoin session:', error);
+        });
+      }
+      this.emit('connected');
+    });
+
+    this.socket.on('disconnect', (reason: string) => {
+      console.warn('Collaboration socket disconnected:', reason);
+      this.emit('disconnected', reason);
+    });
+
+    this.socket.on('connect_error', (error: Error) => {
+      console.error('Collaboration socket error:', error.message);
+      this.emit('error', error);
+    });
+
+    const relayedEvents: ServerEventName[] = [
+      'annotation:created', 'annotation:updated', 'annotation:deleted',
+      'presence:update', 'cursor:moved', 'session:status', 'checklist:updated', 'checklist:removed',
+    ];
+    relayedEvents.forEach(event => {
+      this.socket?.on(event, (payload: any) => this.emit(event, payload));
+    });
+  }
+
+  disconnect(): void {
+    this.socket?.disconnect();
+    this.socket = null;
+    this.currentSessionId = null;
+    this.cursor = null;
+  }
+
+  async joinSession(sessionId: string): Promise<AckResponse> {
+    const isRejoin = this.currentSessionId === sessionId && this.cursor !== null;
+    const response = await this.request('session:join', {
+      sessionId,
+      cursor: isRejoin ? this.cursor : undefined,
+    });
+
+    this.currentSessionId = sessionId;
+    this.cursor = response.cursor;
+
+    if (response.revisions) {
+      // Replay is at-least-once; listeners should ignore versions they already have
+      this.emit('revisions:replayed', response.revisions as AnnotationRevision[]);
+      (response.statusEvents as SessionStatusEvent[] || []).forEach(event => {
+        this.emit('session:status', event.session);
+      });
+    } else if (response.annotations) {
+      this.emit('annotations:loaded', response.annotations as AnnotationResource[]);
+    }
+
+    return response;
+  }
+
+  async leaveSession(): Promise<void> {
+    if (!this.currentSessionId) {
+      return;
+    }
+
+    await this.request('session:leave', { sessionId: this.currentSessionId });
+    this.currentSessionId = null;
+    this.cursor = null;
+  }
+
+  // Annotations are checked against the shared contract before they are sent
+  createAnnotation(annotation: AnnotationInput): Promise<AckResponse> {
+    const error = validateAnnotation(annotation, false);
+    if (error) {
+      return Promise.reject(new Error(error));
+    }
+    return this.request('annotation:create', { sessionId: this.currentSessionId, annotation });
+  }
+
+  updateAnnotation(annotationId: string, changes: AnnotationInput): Promise<AckResponse> {
+    const error = validateAnnotation(changes, true);
+    if (error) {
+      return Promise.reject(new Error(error));
+    }
+    return this.request('annotation:update', { sessionId: this.currentSessionId, annotationId, changes });
+  }
+
+  deleteAnnotation(annotationId: string): Promise<AckResponse> {
+    return this.request('annotation:delete', { sessionId: this.currentSessionId, annotationId });
+  }
+
+  sendCursor(position: Vector2 | Vector3, space: CursorSpace = 'screen'): void {
+    if (!this.socket || !this.currentSessionId) {
+      return;
+    }
+
+    this.socket.volatile.emit('cursor:move', { sessionId: this.currentSessionId, position, space });
+  }
+
+  isConnected(): boolean {
+    return this.socket?.connected || false;
+  }
+
+  private request(event: string, payload: any): Promise<AckResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+
+      this.socket.emit(event, payload, (response: AckResponse) => {
+        if (response?.error) {
+          reject(new Error(response.error));
+        } else {
+          resolve(response);
+        }
+      });
+    });
+  }
+
+  // Event handling
+  on(event: string, callback: Function): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)?.push(callback);
+  }
+
+  off(event: string, callback?: Function): void {
+    if (!this.listeners.has(event)) return;
+
+    if (callback) {
+      const callbacks = this.listeners.get(event) || [];
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const callbacks = this.listeners.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`Error in ${event} listener:`, error);
+        }
+      });
+    }
+  }
+}
+
+export default SocketService;
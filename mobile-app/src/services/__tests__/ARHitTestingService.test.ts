@@ -0,0 +1,95 @@
+import fs from 'fs';
+import { SimulatedARProvider } from 'ar-inspection-platform-shared';
+import ARHitTestingService from '../ARHitTestingService';
+import ARSceneManager from '../ARSceneManager';
+
+// inspection-room: a 4m x 4m floor (16m²) and a 4m x 2.5m back wall (10m²).
+// By 2000ms the camera, 1.4m up, is pitched 30° down towards them.
+const SCENE_FILE = require.resolve('ar-inspection-platform-shared/scenes/inspection-room.json');
+
+const CENTRE = { x: 195, y: 422 };
+// Near the top of the screen the ray clears the floor and meets the wall
+const TOP = { x: 195, y: 100 };
+
+const hit = (distance: number, planeId?: string) => ({
+  position: { x: 0, y: 0, z: -distance },
+  distance,
+  planeId,
+  transform: [],
+});
+
+describe('ARHitTestingService filters', () => {
+  let provider: SimulatedARProvider;
+  let sceneManager: ARSceneManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    provider = SimulatedARProvider.fromJSON(fs.readFileSync(SCENE_FILE, 'utf8'));
+    sceneManager = new ARSceneManager(provider);
+    await sceneManager.initialize({ planeDetection: true, lightEstimation: true, worldAlignment: 'gravity' });
+    await sceneManager.startSession();
+    provider.advance(2000);
+
+    ARHitTestingService.attach(sceneManager);
+  });
+
+  afterEach(async () => {
+    ARHitTestingService.attach(null);
+    await sceneManager.stopSession();
+    sceneManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('drops hits on planes smaller than minPlaneSize', async () => {
+    const onWall = await sceneManager.performHitTest(TOP);
+    const onFloor = await sceneManager.performHitTest(CENTRE);
+
+    expect(onWall).toMatchObject([{ planeId: 'back-wall' }]);
+    expect(onFloor).toMatchObject([{ planeId: 'floor' }]);
+
+    expect(ARHitTestingService.filterHitResults(onWall, { minPlaneSize: 12 })).toEqual([]);
+    expect(ARHitTestingService.filterHitResults(onWall, { minPlaneSize: 8 })).toEqual(onWall);
+    expect(ARHitTestingService.filterHitResults(onFloor, { minPlaneSize: 12 })).toEqual(onFloor);
+  });
+
+  it('drops hits on planes that are no longer tracked but keeps feature points', () => {
+    const results = [hit(1, 'removed-plane'), hit(1.5), hit(2, 'floor')];
+
+    expect(ARHitTestingService.filterHitResults(results, { minPlaneSize: 1 })).toEqual([hit(1.5), hit(2, 'floor')]);
+    expect(ARHitTestingService.filterHitResults(results, {})).toEqual(results);
+  });
+
+  it('drops hits beyond maxDistance', () => {
+    const results = [hit(1, 'back-wall'), hit(3, 'floor')];
+
+    expect(ARHitTestingService.filterHitResults(results, { maxDistance: 2 })).toEqual([hit(1, 'back-wall')]);
+  });
+
+  it('puts hits on horizontal planes first when asked, each group nearest first', () => {
+    const results = [hit(4, 'back-wall'), hit(3, 'floor'), hit(0.5), hit(1, 'back-wall'), hit(2, 'floor')];
+
+    expect(ARHitTestingService.filterHitResults(results, { preferHorizontalPlanes: true })).toEqual([
+      hit(2, 'floor'),
+      hit(3, 'floor'),
+      hit(0.5),
+      hit(1, 'back-wall'),
+      hit(4, 'back-wall'),
+    ]);
+    expect(ARHitTestingService.filterHitResults(results, {})).toEqual(results);
+  });
+
+  it('falls back to an estimated plane when the detected one is too small', async () => {
+    const options = { maxDistance: 10, preferHorizontalPlanes: false, minPlaneSize: 12 };
+
+    const onFloor = await ARHitTestingService.performSmartHitTest(CENTRE, options);
+    expect(onFloor).toMatchObject({ planeId: 'floor' });
+    expect(onFloor!.distance).toBeCloseTo(2.8, 3);
+
+    // The wall is too small and the floor's extension is past maxDistance
+    const onWall = await ARHitTestingService.performSmartHitTest(TOP, options);
+    expect(onWall).toMatchObject({ type: 'estimatedVerticalPlane' });
+    expect(onWall!.planeId).toBeUndefined();
+    expect(onWall!.distance).toBeCloseTo(4.02, 2);
+  });
+});
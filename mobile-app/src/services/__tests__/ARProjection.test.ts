@@ -0,0 +1,156 @@
+import {
+  CameraPose,
+  Matrix4,
+  createProjectionCamera,
+  depthScale,
+  identityMatrix,
+  multiplyMatrices,
+  placeOnScreen,
+  poseToMatrix,
+  projectPoint,
+  transformPoint,
+  viewMatrixFromPose,
+} from '../ARProjection';
+
+const viewport = { width: 200, height: 100 };
+
+// A 90° vertical field of view over a 100px tall viewport gives a 50px focal length
+const cameraAt = (pose: CameraPose, options = {}) =>
+  createProjectionCamera(pose, viewport, undefined, { fallbackFovY: Math.PI / 2, ...options });
+
+const origin: CameraPose = { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0, w: 1 } };
+
+// Standing at (1, 1.5, 2) and turned 90° left, so looking down world -X
+const turnedLeft: CameraPose = {
+  position: { x: 1, y: 1.5, z: 2 },
+  rotation: { x: 0, y: Math.SQRT1_2, z: 0, w: Math.SQRT1_2 },
+};
+
+const expectMatrixClose = (actual: Matrix4, expected: Matrix4) => {
+  actual.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 9));
+};
+
+describe('ARProjection', () => {
+  describe('view matrix', () => {
+    it('is the inverse of the camera pose', () => {
+      expectMatrixClose(multiplyMatrices(viewMatrixFromPose(turnedLeft), poseToMatrix(turnedLeft)), identityMatrix());
+    });
+
+    it('puts a point the camera is looking at straight down -Z', () => {
+      const ahead = transformPoint(viewMatrixFromPose(turnedLeft), { x: -2, y: 1.5, z: 2 });
+
+      expect(ahead.x).toBeCloseTo(0, 9);
+      expect(ahead.y).toBeCloseTo(0, 9);
+      expect(ahead.z).toBeCloseTo(-3, 9);
+    });
+  });
+
+  describe('projection matrix', () => {
+    it('is built from the focal length and near and far planes', () => {
+      const camera = cameraAt(origin, { near: 0.1, far: 10 });
+
+      expectMatrixClose(camera.projectionMatrix, [
+        0.5, 0, 0, 0,
+        0, 1, 0, 0,
+        0, 0, -10.1 / 9.9, -1,
+        0, 0, -2 / 9.9, 0,
+      ]);
+    });
+
+    it('maps the near and far planes to the ends of clip space', () => {
+      const camera = cameraAt(origin, { near: 0.1, far: 10 });
+      const near = transformPoint(camera.projectionMatrix, { x: 0, y: 0, z: -0.1 });
+      const far = transformPoint(camera.projectionMatrix, { x: 0, y: 0, z: -10 });
+
+      expect(near.z / near.w).toBeCloseTo(-1, 9);
+      expect(far.z / far.w).toBeCloseTo(1, 9);
+    });
+
+    it('projects through the focal length with y pointing down the screen', () => {
+      const projected = projectPoint({ x: 0.5, y: 0.25, z: -1 }, cameraAt(origin));
+
+      expect(projected).not.toBeNull();
+      expect(projected!.x).toBeCloseTo(125, 6);
+      expect(projected!.y).toBeCloseTo(37.5, 6);
+      expect(projected!.depth).toBeCloseTo(1, 9);
+      expect(projected!.inFrustum).toBe(true);
+    });
+
+    it('keeps an off-centre principal point', () => {
+      const camera = createProjectionCamera(origin, viewport, {
+        intrinsics: { fx: 50, fy: 50, cx: 120, cy: 40 },
+        imageResolution: viewport,
+      });
+
+      const projected = projectPoint({ x: 0, y: 0, z: -3 }, camera);
+
+      expect(projected!.x).toBeCloseTo(120, 6);
+      expect(projected!.y).toBeCloseTo(40, 6);
+    });
+
+    it('projects through a moved and rotated camera', () => {
+      const projected = projectPoint({ x: -2, y: 1.5, z: 2 }, cameraAt(turnedLeft));
+
+      expect(projected!.x).toBeCloseTo(100, 6);
+      expect(projected!.y).toBeCloseTo(50, 6);
+      expect(projected!.depth).toBeCloseTo(3, 9);
+    });
+  });
+
+  describe('culling', () => {
+    it('drops points behind the camera', () => {
+      const camera = cameraAt(origin);
+
+      expect(projectPoint({ x: 0, y: 0, z: 1 }, camera)).toBeNull();
+      expect(placeOnScreen({ x: 0, y: 0, z: 1 }, camera)).toMatchObject({ visible: false, scale: 0, opacity: 0 });
+    });
+
+    it('drops points behind a turned camera that would be in front of an unturned one', () => {
+      expect(projectPoint({ x: 3, y: 1.5, z: 0 }, cameraAt(turnedLeft))).toBeNull();
+    });
+
+    it('drops points nearer than the near plane', () => {
+      expect(projectPoint({ x: 0, y: 0, z: -0.05 }, cameraAt(origin, { near: 0.1 }))).toBeNull();
+    });
+
+    it('marks points beside the viewport as outside the frustum, allowing for the margin', () => {
+      const camera = cameraAt(origin);
+      // 2.5m to the right at 1m lands at x = 225, past the 200px edge
+      const beside = { x: 2.5, y: 0, z: -1 };
+
+      expect(projectPoint(beside, camera)!.inFrustum).toBe(false);
+      expect(projectPoint(beside, camera, 40)!.inFrustum).toBe(true);
+      expect(placeOnScreen(beside, camera, [], { margin: 0 }).visible).toBe(false);
+    });
+
+    it('marks points past the far plane as outside the frustum', () => {
+      const projected = projectPoint({ x: 0, y: 0, z: -150 }, cameraAt(origin, { far: 100 }));
+
+      expect(projected!.inFrustum).toBe(false);
+      expect(placeOnScreen({ x: 0, y: 0, z: -150 }, cameraAt(origin, { far: 100 })).visible).toBe(false);
+    });
+  });
+
+  describe('distance scaling', () => {
+    it('draws markers at their natural size at the reference depth and shrinks them with distance', () => {
+      expect(depthScale(1)).toBe(1);
+      expect(depthScale(2)).toBe(0.5);
+      expect(depthScale(4, 2)).toBe(0.5);
+    });
+
+    it('clamps very near and very far markers', () => {
+      expect(depthScale(0.1)).toBe(2);
+      expect(depthScale(0)).toBe(2);
+      expect(depthScale(20)).toBe(0.35);
+      expect(depthScale(20, 1, 0.1, 3)).toBe(0.1);
+    });
+
+    it('scales a placed marker by its depth along the viewing axis', () => {
+      const camera = cameraAt(origin);
+
+      expect(placeOnScreen({ x: 0, y: 0, z: -2 }, camera)).toMatchObject({ visible: true, scale: 0.5, opacity: 1 });
+      // Off to the side the straight-line distance is longer, but the scale follows depth
+      expect(placeOnScreen({ x: 1, y: 0, z: -2 }, camera).scale).toBe(0.5);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import { SimulatedARProvider } from 'ar-inspection-platform-shared';
+import ARSceneManager, { ARTrackingQuality } from '../ARSceneManager';
+
+// inspection-room: tracking is limited while initializing, normal from 500ms,
+// limited at 3000ms, lost at 3500ms and back at 4000ms. The floor appears at
+// 800ms, the back wall at 1200ms, and by 2000ms the camera (1.4m up) is
+// pitched 30° down towards them. Relocalizing against a map takes 1500ms.
+const SCENE_FILE = require.resolve('ar-inspection-platform-shared/scenes/inspection-room.json');
+
+const CENTRE = { x: 195, y: 422 };
+const TOP = { x: 195, y: 100 };
+
+describe('ARSceneManager on the simulator', () => {
+  let provider: SimulatedARProvider;
+  let sceneManager: ARSceneManager;
+  let trackingChanges: ARTrackingQuality[];
+
+  // Runs the simulator to the given time since the session started
+  const advanceTo = (time: number) => provider.advance(time - provider.now());
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    provider = SimulatedARProvider.fromJSON(fs.readFileSync(SCENE_FILE, 'utf8'));
+    sceneManager = new ARSceneManager(provider);
+    trackingChanges = [];
+    sceneManager.on('trackingQualityChanged', (quality: ARTrackingQuality) => trackingChanges.push(quality));
+
+    await sceneManager.initialize({ planeDetection: true, lightEstimation: true, worldAlignment: 'gravity' });
+    await sceneManager.startSession();
+  });
+
+  afterEach(async () => {
+    await sceneManager.stopSession();
+    sceneManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe('hit tests', () => {
+    it('finds nothing before the planes are detected', async () => {
+      advanceTo(500);
+
+      expect(sceneManager.getPlanes()).toEqual([]);
+      expect(await sceneManager.performHitTest(CENTRE)).toEqual([]);
+    });
+
+    it('hits the floor and the wall from the scene', async () => {
+      const detected: string[] = [];
+      sceneManager.on('planeDetected', (plane: { id: string }) => detected.push(plane.id));
+
+      advanceTo(2000);
+
+      expect(detected).toEqual(['floor', 'back-wall']);
+      expect(sceneManager.getPlanes().map((plane) => plane.id)).toEqual(['floor', 'back-wall']);
+
+      const [floor] = await sceneManager.performHitTest(CENTRE);
+      expect(floor).toMatchObject({ type: 'existingPlane', planeId: 'floor' });
+      // 1.4m up looking 30° down meets the floor 2.8m away
+      expect(floor.distance).toBeCloseTo(2.8, 3);
+      expect(floor.position.y).toBeCloseTo(0, 6);
+      expect(floor.position.z).toBeCloseTo(-1.4 * Math.sqrt(3), 3);
+
+      const [wall] = await sceneManager.performHitTest(TOP);
+      expect(wall).toMatchObject({ type: 'existingPlane', planeId: 'back-wall' });
+      expect(wall.position.z).toBeCloseTo(-4, 6);
+    });
+
+    it('reports estimated planes beyond the detected polygons', async () => {
+      advanceTo(2000);
+
+      // From the top of the screen the ray lands on the floor's extension
+      // about 13m out, well past the 4m floor
+      const results = await sceneManager.performHitTest(TOP, 'estimatedHorizontalPlane');
+
+      expect(results).toHaveLength(1);
+      expect(results[0].planeId).toBeUndefined();
+      expect(results[0].distance).toBeGreaterThan(12);
+    });
+  });
+
+  describe('tracking loss', () => {
+    it('follows the scripted tracking states', () => {
+      expect(sceneManager.getTrackingQuality()).toBe('limited');
+
+      advanceTo(3500);
+      expect(sceneManager.getTrackingQuality()).toBe('notAvailable');
+
+      advanceTo(4000);
+      expect(trackingChanges).toEqual(['limited', 'normal', 'limited', 'notAvailable', 'normal']);
+      expect(sceneManager.getTrackingQuality()).toBe('normal');
+    });
+
+    it('cannot hit test, place anchors or save a map while tracking is lost', async () => {
+      const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+      advanceTo(3500);
+
+      expect(await sceneManager.performHitTest(CENTRE)).toEqual([]);
+      expect(await sceneManager.createAnchor({ x: 0, y: 0, z: -2 })).toBeNull();
+      expect(errors).toHaveBeenCalledWith('Failed to create anchor:', expect.any(Error));
+      expect(await sceneManager.saveWorldMap()).toBeNull();
+      expect(sceneManager.getAnchors()).toEqual([]);
+    });
+
+    it('keeps its planes and hit tests again once tracking is back', async () => {
+      advanceTo(4000);
+
+      expect(sceneManager.getPlanes()).toHaveLength(2);
+      expect(await sceneManager.performHitTest(CENTRE)).toMatchObject([{ planeId: 'floor' }]);
+    });
+  });
+
+  describe('world maps', () => {
+    it('only saves a map while tracking is normal', async () => {
+      advanceTo(3000);
+      expect(await sceneManager.saveWorldMap()).toBeNull();
+
+      advanceTo(4000);
+      expect(await sceneManager.saveWorldMap()).toEqual(expect.any(String));
+    });
+
+    it('brings anchors back in a new session once it relocalizes against the saved map', async () => {
+      advanceTo(2000);
+      const [floor] = await sceneManager.performHitTest(CENTRE);
+      const anchorId = await sceneManager.createAnchor(floor.position);
+      const map = await sceneManager.saveWorldMap();
+
+      expect(anchorId).toBe('sim-anchor-1');
+      expect(map).not.toBeNull();
+
+      await sceneManager.stopSession();
+      await sceneManager.startSession();
+      advanceTo(500);
+      expect(sceneManager.getAnchors()).toEqual([]);
+
+      const restored: string[] = [];
+      sceneManager.on('anchorAdded', (anchor: { id: string }) => restored.push(anchor.id));
+
+      expect(await sceneManager.loadWorldMap(map!)).toBe(true);
+      expect(sceneManager.getTrackingQuality()).toBe('limited');
+
+      advanceTo(1999);
+      expect(restored).toEqual([]);
+
+      advanceTo(2000);
+      expect(restored).toEqual(['sim-anchor-1']);
+      expect(sceneManager.getTrackingQuality()).toBe('normal');
+
+      const [anchor] = sceneManager.getAnchors();
+      expect(anchor.id).toBe('sim-anchor-1');
+      expect(anchor.transform[12]).toBeCloseTo(floor.position.x, 6);
+      expect(anchor.transform[13]).toBeCloseTo(floor.position.y, 6);
+      expect(anchor.transform[14]).toBeCloseTo(floor.position.z, 6);
+
+      // New anchors don't reuse the restored ids
+      expect(await sceneManager.createAnchor({ x: 1, y: 0, z: -1 })).toBe('sim-anchor-2');
+    });
+
+    it('rejects a map that is not a simulator map', async () => {
+      advanceTo(500);
+
+      expect(await sceneManager.loadWorldMap('not a world map')).toBe(false);
+      expect(sceneManager.getTrackingQuality()).toBe('normal');
+    });
+  });
+});
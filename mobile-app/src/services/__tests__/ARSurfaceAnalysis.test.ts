@@ -0,0 +1,173 @@
+import {
+  AnalyzablePlane,
+  analyzeSurface,
+  surfaceArea,
+  surfaceFlatness,
+  surfaceNormal,
+  surfaceOrientation,
+} from '../ARSurfaceAnalysis';
+import { Vector3 } from '../ARProjection';
+
+// A width x depth rectangle at the given height, wound so its normal points up
+const horizontal = (id: string, y: number, width = 2, depth = 2): AnalyzablePlane => ({
+  id,
+  center: { x: 0, y, z: -2 },
+  extent: { width, height: depth },
+  alignment: 'horizontal',
+  vertices: [
+    { x: -width / 2, y, z: -2 - depth / 2 },
+    { x: -width / 2, y, z: -2 + depth / 2 },
+    { x: width / 2, y, z: -2 + depth / 2 },
+    { x: width / 2, y, z: -2 - depth / 2 },
+  ],
+});
+
+// 4m x 2.5m wall 4m in front of the origin, wound so its normal faces the origin
+const backWall: AnalyzablePlane = {
+  id: 'back-wall',
+  center: { x: 0, y: 1.25, z: -4 },
+  extent: { width: 4, height: 2.5 },
+  alignment: 'vertical',
+  vertices: [
+    { x: -2, y: 0, z: -4 },
+    { x: 2, y: 0, z: -4 },
+    { x: 2, y: 2.5, z: -4 },
+    { x: -2, y: 2.5, z: -4 },
+  ],
+};
+
+const reversed = (plane: AnalyzablePlane): AnalyzablePlane => ({ ...plane, vertices: [...plane.vertices].reverse() });
+
+// A unit normal tilted `degrees` away from straight up, towards +Z
+const tilted = (degrees: number): Vector3 => {
+  const radians = (degrees * Math.PI) / 180;
+  return { x: 0, y: Math.cos(radians), z: Math.sin(radians) };
+};
+
+const expectVectorClose = (actual: Vector3, expected: Vector3) => {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+  expect(actual.z).toBeCloseTo(expected.z, 9);
+};
+
+describe('ARSurfaceAnalysis', () => {
+  describe('geometry', () => {
+    it('measures the area of the boundary polygon', () => {
+      expect(surfaceArea(horizontal('floor', 0, 4, 4))).toBeCloseTo(16, 9);
+      expect(surfaceArea(backWall)).toBeCloseTo(10, 9);
+    });
+
+    it('takes the normal from the winding of the vertices', () => {
+      expectVectorClose(surfaceNormal(horizontal('floor', 0)), { x: 0, y: 1, z: 0 });
+      expectVectorClose(surfaceNormal(reversed(horizontal('floor', 0))), { x: 0, y: -1, z: 0 });
+      expectVectorClose(surfaceNormal(backWall), { x: 0, y: 0, z: 1 });
+    });
+
+    it('reports a level polygon as perfectly flat', () => {
+      expect(surfaceFlatness(horizontal('floor', 0))).toBeCloseTo(0, 9);
+      expect(analyzeSurface(horizontal('floor', 0), []).isFlat).toBe(true);
+    });
+
+    it('measures how far a warped polygon strays from its plane', () => {
+      // Two opposite corners raised 4cm: a saddle no tilt of the plane can fit
+      const warped = horizontal('warped', 0);
+      warped.vertices[1] = { ...warped.vertices[1], y: 0.04 };
+      warped.vertices[3] = { ...warped.vertices[3], y: 0.04 };
+
+      expect(surfaceFlatness(warped)).toBeCloseTo(0.02, 9);
+      expect(analyzeSurface(warped, [])).toMatchObject({ surfaceType: 'horizontal', isFlat: false });
+    });
+  });
+
+  describe('orientation', () => {
+    it('counts normals within 15° of vertical as horizontal surfaces, facing either way', () => {
+      expect(surfaceOrientation({ x: 0, y: 1, z: 0 })).toBe('horizontal');
+      expect(surfaceOrientation({ x: 0, y: -1, z: 0 })).toBe('horizontal');
+      expect(surfaceOrientation(tilted(10))).toBe('horizontal');
+    });
+
+    it('counts normals within 15° of level as vertical surfaces', () => {
+      expect(surfaceOrientation({ x: 0, y: 0, z: 1 })).toBe('vertical');
+      expect(surfaceOrientation(tilted(80))).toBe('vertical');
+    });
+
+    it('leaves slopes in between unclassified', () => {
+      expect(surfaceOrientation(tilted(30))).toBe('unknown');
+      expect(surfaceOrientation(tilted(60))).toBe('unknown');
+    });
+  });
+
+  describe('classification', () => {
+    const floor = horizontal('floor', 0, 4, 4);
+    const table = horizontal('table', 0.75, 1, 0.6);
+    const ceiling = reversed(horizontal('ceiling', 2.5, 4, 4));
+    const planes = [floor, table, ceiling, backWall];
+
+    it('tells floors, tables, ceilings and walls apart by height above the lowest plane', () => {
+      expect(planes.map((plane) => analyzeSurface(plane, planes).classification))
+        .toEqual(['floor', 'table', 'ceiling', 'wall']);
+    });
+
+    it('treats anything above the camera as a ceiling', () => {
+      const shelf = horizontal('shelf', 1.6);
+
+      expect(analyzeSurface(shelf, [floor, shelf]).classification).toBe('unknown');
+      expect(analyzeSurface(shelf, [floor, shelf], { x: 0, y: 1.4, z: 0 }).classification).toBe('ceiling');
+    });
+
+    it('does not mistake a table for the floor when the floor has not been seen', () => {
+      const camera = { x: 0, y: 1.4, z: 0 };
+
+      expect(analyzeSurface(table, [table], camera).classification).toBe('table');
+    });
+
+    it('points floor normals up and ceiling normals down whatever the winding', () => {
+      expectVectorClose(analyzeSurface(reversed(floor), planes).normal, { x: 0, y: 1, z: 0 });
+      expectVectorClose(analyzeSurface(ceiling, planes).normal, { x: 0, y: -1, z: 0 });
+      expectVectorClose(analyzeSurface(reversed(ceiling), planes).normal, { x: 0, y: -1, z: 0 });
+    });
+
+    it('points wall normals towards the camera', () => {
+      const camera = { x: 0, y: 1.4, z: 0 };
+
+      expectVectorClose(analyzeSurface(reversed(backWall), planes, camera).normal, { x: 0, y: 0, z: 1 });
+      expectVectorClose(analyzeSurface(backWall, planes, { x: 0, y: 1.4, z: -8 }).normal, { x: 0, y: 0, z: -1 });
+    });
+  });
+
+  describe('degenerate polygons', () => {
+    it('falls back to the alignment and extent with fewer than three vertices', () => {
+      const wall: AnalyzablePlane = { ...backWall, vertices: backWall.vertices.slice(0, 2) };
+      const floor: AnalyzablePlane = { ...horizontal('floor', 0, 3, 2), vertices: [] };
+
+      expectVectorClose(surfaceNormal(wall), { x: 0, y: 0, z: 1 });
+      expect(surfaceArea(wall)).toBeCloseTo(10, 9);
+      expect(surfaceFlatness(wall)).toBe(0);
+      expectVectorClose(surfaceNormal(floor), { x: 0, y: 1, z: 0 });
+      expect(surfaceArea(floor)).toBeCloseTo(6, 9);
+    });
+
+    it('falls back to the alignment and extent when the vertices are collinear', () => {
+      const line: AnalyzablePlane = {
+        ...horizontal('line', 0, 2, 1),
+        vertices: [
+          { x: -1, y: 0, z: -2 },
+          { x: 0, y: 0, z: -2 },
+          { x: 1, y: 0, z: -2 },
+          { x: 2, y: 0, z: -2 },
+        ],
+      };
+
+      expectVectorClose(surfaceNormal(line), { x: 0, y: 1, z: 0 });
+      expect(surfaceArea(line)).toBeCloseTo(2, 9);
+      expect(surfaceFlatness(line)).toBeCloseTo(0, 9);
+      expect(analyzeSurface(line, [line])).toMatchObject({ surfaceType: 'horizontal', isFlat: true });
+    });
+
+    it('treats a plane with no polygon and no alignment as horizontal', () => {
+      const unknown: AnalyzablePlane = { ...horizontal('unknown', 0), alignment: 'unknown', vertices: [] };
+
+      expect(analyzeSurface(unknown, []).surfaceType).toBe('horizontal');
+    });
+  });
+});
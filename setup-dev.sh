@@ -62,12 +62,21 @@ DB_USER=dev
 DB_PASSWORD=devpassword
 REDIS_HOST=redis-dev
 REDIS_PORT=6379
+AUTH_LOCKOUT_THRESHOLD=5
+AUTH_LOCKOUT_SECONDS=60
 JWT_SECRET=dev_jwt_secret_$(openssl rand -hex 32)
 CORS_ORIGINS=http://localhost:3001,http://localhost:19006
 STUN_SERVERS=stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302
 TURN_SERVERS=turn:turn.arinspection.com:3478
 TURN_USERNAME=turn_user
 TURN_PASSWORD=turn_password
+STORAGE_DRIVER=local
+MEDIA_STORAGE_DIR=uploads/media
+REPORT_BRAND_NAME="AR Inspection Platform"
+APP_URL=http://localhost:3001
+MAIL_TRANSPORT=file
+MAIL_OUTBOX_DIR=uploads/mail
+TOTP_ENCRYPTION_KEY=$(openssl rand -hex 32)
 EOF
     echo "✅ Created backend/.env"
 fi
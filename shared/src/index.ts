@@ -0,0 +1,42 @@
+// Canonical contracts shared by the backend, web client and mobile apps.
+// Changing a type here should break the consumer builds that depend on it.
+
+export * from './types/common';
+export * from './types/users';
+export * from './types/sessions';
+export * from './types/annotations';
+export * from './types/media';
+export * from './types/worldMaps';
+export * from './types/socket';
+export * from './types/organizations';
+export * from './types/checklists';
+export * from './types/jobs';
+export * from './types/audit';
+export * from './types/measurements';
+export * from './types/arProvider';
+
+export * from './schemas/common';
+export * from './schemas/users';
+export * from './schemas/sessions';
+export * from './schemas/annotations';
+export * from './schemas/media';
+export * from './schemas/checklists';
+export * from './schemas/reports';
+export * from './schemas/jobs';
+export * from './schemas/organizations';
+export * from './schemas/audit';
+
+export * from './validators/common';
+export * from './validators/users';
+export * from './validators/sessions';
+export * from './validators/annotations';
+export * from './validators/measurements';
+export * from './validators/media';
+export * from './validators/worldMaps';
+export * from './validators/socket';
+export * from './validators/request';
+export * from './validators/arScene';
+
+export * from './simulator/SimulatedARProvider';
+export * from './webxr/xr';
+export * from './webxr/WebXRProvider';
@@ -0,0 +1,92 @@
+import Joi from 'joi';
+import { ANNOTATION_TYPES } from '../types/annotations';
+import { LENGTH_UNITS, MEASUREMENT_KINDS, MEASUREMENT_POINT_LIMITS } from '../types/measurements';
+import {
+  flagSchema,
+  isoDateSchema,
+  RequestSchema,
+  rotationSchema,
+  sessionParamsSchema,
+  uuidSchema,
+  vector2Schema,
+  vector3Schema
+} from './common';
+
+// The backend recomputes `value` from the points, so a client's figure is only a hint
+const measurementSchema = Joi.object({
+  kind: Joi.string().valid(...MEASUREMENT_KINDS).required(),
+  points: Joi.array().items(vector3Schema.required()).required().when('kind', {
+    switch: MEASUREMENT_KINDS.map((kind) => ({
+      is: kind,
+      then: Joi.array().min(MEASUREMENT_POINT_LIMITS[kind].min).max(MEASUREMENT_POINT_LIMITS[kind].max)
+    }))
+  }),
+  value: Joi.number().min(0),
+  unit: Joi.string().valid(...LENGTH_UNITS).required(),
+  accuracy: Joi.number().min(0).allow(null).default(null)
+});
+
+const annotationFields = {
+  type: Joi.string().valid(...ANNOTATION_TYPES),
+  points: Joi.array().items(vector2Schema).max(10000),
+  color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/)
+    .messages({ 'string.pattern.base': 'color must be a #RRGGBB or #RRGGBBAA hex color' }),
+  stroke_width: Joi.number().integer().positive().allow(null),
+  text: Joi.string().max(2000).allow('', null),
+  font_size: Joi.number().integer().positive().allow(null),
+  position: vector3Schema.allow(null),
+  rotation: rotationSchema.allow(null),
+  scale: vector3Schema.allow(null),
+  anchor_id: Joi.string().max(255).allow(null),
+  measurement: measurementSchema.allow(null)
+};
+
+// Bodies of REST creates and the socket's annotation:create payload
+export const annotationCreateBodySchema = Joi.object({
+  ...annotationFields,
+  type: annotationFields.type.required(),
+  measurement: annotationFields.measurement.when('type', {
+    is: 'measurement',
+    then: Joi.required().invalid(null),
+    otherwise: Joi.forbidden()
+  })
+}).or('points', 'position')
+  .messages({ 'object.missing': 'Either points or position is required' });
+
+// Bodies of REST updates and the socket's annotation:update changes
+export const annotationUpdateBodySchema = Joi.object(annotationFields)
+  .min(1)
+  .messages({ 'object.min': 'No fields to update' });
+
+const annotationParamsSchema = sessionParamsSchema.keys({
+  annotationId: uuidSchema.required()
+});
+
+export const listAnnotationsSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  query: Joi.object({
+    include_deleted: flagSchema
+  })
+};
+
+export const annotationHistorySchema: RequestSchema = {
+  params: sessionParamsSchema,
+  query: Joi.object({
+    since: isoDateSchema
+  })
+};
+
+export const createAnnotationSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  body: annotationCreateBodySchema
+};
+
+export const updateAnnotationSchema: RequestSchema = {
+  params: annotationParamsSchema,
+  body: annotationUpdateBodySchema
+};
+
+// Delete and revision history
+export const annotationIdSchema: RequestSchema = {
+  params: annotationParamsSchema
+};
@@ -0,0 +1,25 @@
+import Joi from 'joi';
+import { AUDIT_ACTIONS } from '../types/audit';
+import { isoDateSchema, paginationKeys, RequestSchema, uuidSchema } from './common';
+import { organizationParamsSchema } from './organizations';
+
+const auditFilterKeys = {
+  action: Joi.string().valid(...AUDIT_ACTIONS),
+  user_id: uuidSchema,
+  from: isoDateSchema,
+  to: isoDateSchema
+};
+
+export const listAuditLogSchema: RequestSchema = {
+  params: organizationParamsSchema,
+  query: Joi.object({
+    ...auditFilterKeys,
+    ...paginationKeys
+  })
+};
+
+// Exports every matching entry, so there is nothing to paginate
+export const exportAuditLogSchema: RequestSchema = {
+  params: organizationParamsSchema,
+  query: Joi.object(auditFilterKeys)
+};
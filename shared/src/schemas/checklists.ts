@@ -0,0 +1,83 @@
+import Joi from 'joi';
+import { CHECKLIST_ITEM_TYPES, FINDING_RESULTS } from '../types/checklists';
+import { RequestSchema, sessionParamsSchema, uuidSchema } from './common';
+
+// Shape only; the server fills defaults and checks ranges and duplicate ids
+const checklistItemSchema = Joi.object({
+  id: Joi.string().max(64),
+  label: Joi.string().trim().max(500).required(),
+  type: Joi.string().valid(...CHECKLIST_ITEM_TYPES),
+  required: Joi.boolean(),
+  requires_photo: Joi.boolean(),
+  guidance: Joi.string().max(2000).allow('', null),
+  unit: Joi.string().max(50).allow('', null),
+  min: Joi.number().allow(null),
+  max: Joi.number().allow(null),
+  target: Joi.number().allow(null),
+  tolerance: Joi.number().min(0).allow(null)
+});
+
+const checklistSectionSchema = Joi.object({
+  id: Joi.string().max(64),
+  title: Joi.string().trim().max(255).required(),
+  items: Joi.array().items(checklistItemSchema).min(1).required()
+});
+
+const templateFields = {
+  name: Joi.string().trim().max(255),
+  description: Joi.string().max(2000).allow('', null),
+  sections: Joi.array().items(checklistSectionSchema).min(1)
+};
+
+const templateParamsSchema = Joi.object({
+  templateId: uuidSchema.required()
+});
+
+const checklistParamsSchema = sessionParamsSchema.keys({
+  checklistId: uuidSchema.required()
+});
+
+export const createChecklistTemplateSchema: RequestSchema = {
+  body: Joi.object({
+    ...templateFields,
+    name: templateFields.name.required(),
+    sections: templateFields.sections.required()
+  })
+};
+
+export const updateChecklistTemplateSchema: RequestSchema = {
+  params: templateParamsSchema,
+  body: Joi.object(templateFields)
+    .min(1)
+    .messages({ 'object.min': 'No fields to update' })
+};
+
+export const checklistTemplateIdSchema: RequestSchema = {
+  params: templateParamsSchema
+};
+
+export const attachChecklistSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  body: Joi.object({
+    template_id: uuidSchema.required()
+  })
+};
+
+export const checklistIdSchema: RequestSchema = {
+  params: checklistParamsSchema
+};
+
+// Whether a value suits the item, and whether linked evidence belongs to the
+// session, are checked by the server against the checklist itself
+export const recordFindingSchema: RequestSchema = {
+  params: checklistParamsSchema.keys({
+    itemId: Joi.string().max(64).required()
+  }),
+  body: Joi.object({
+    result: Joi.string().valid(...FINDING_RESULTS).allow(null),
+    value: Joi.number().allow(null),
+    notes: Joi.string().max(5000).allow('', null),
+    annotation_ids: Joi.array().items(uuidSchema).max(100),
+    media_ids: Joi.array().items(uuidSchema).max(100)
+  })
+};
@@ -0,0 +1,57 @@
+import Joi from 'joi';
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+// The schemas a route declares for each part of the request. Parts without
+// a schema are passed through untouched.
+export type RequestSchema = Partial<Record<RequestLocation, Joi.ObjectSchema>>;
+
+export interface ValidationIssue {
+  location: RequestLocation;
+  // Dotted path to the offending field, e.g. `sections[0].items[2].label`
+  path: string;
+  message: string;
+  type: string;
+}
+
+export const SCHEMA_OPTIONS: Joi.ValidationOptions = {
+  abortEarly: false,
+  convert: true,
+  errors: { wrap: { label: false } }
+};
+
+export const uuidSchema = Joi.string().guid();
+
+export const isoDateSchema = Joi.string().isoDate();
+
+// Query string booleans arrive as text
+export const flagSchema = Joi.string().valid('true', 'false');
+
+export const vector2Schema = Joi.object({
+  x: Joi.number().required(),
+  y: Joi.number().required()
+});
+
+export const vector3Schema = vector2Schema.keys({
+  z: Joi.number().required()
+});
+
+export const rotationSchema = vector3Schema.keys({
+  w: Joi.number()
+});
+
+export const gpsLocationSchema = Joi.object({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  altitude: Joi.number()
+});
+
+export const paginationKeys = {
+  limit: Joi.number().integer().min(1).max(100),
+  offset: Joi.number().integer().min(0)
+};
+
+// Params for routes nested under /api/sessions/:id
+export const sessionParamsSchema = Joi.object({
+  id: uuidSchema.required()
+});
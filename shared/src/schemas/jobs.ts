@@ -0,0 +1,80 @@
+import Joi from 'joi';
+import { JOB_STATUSES, MAX_FEED_RADIUS_KM } from '../types/jobs';
+import { flagSchema, isoDateSchema, RequestSchema, uuidSchema } from './common';
+
+// Compared with the window_start beside it, when there is one
+const windowEndSchema = isoDateSchema.custom((value: string, helpers) => {
+  const windowStart = helpers.state.ancestors[0].window_start;
+  if (windowStart !== undefined && Date.parse(value) <= Date.parse(windowStart)) {
+    return helpers.message({ custom: 'window_end must be after window_start' });
+  }
+  return value;
+});
+
+const jobFields = {
+  title: Joi.string().trim().max(255),
+  description: Joi.string().max(5000).allow('', null),
+  address: Joi.string().max(500).allow('', null),
+  latitude: Joi.number().min(-90).max(90),
+  longitude: Joi.number().min(-180).max(180),
+  required_skills: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50),
+  window_start: isoDateSchema,
+  window_end: windowEndSchema,
+  price: Joi.number().min(0),
+  currency: Joi.string().pattern(/^[A-Z]{3}$/)
+    .messages({ 'string.pattern.base': 'currency must be a 3-letter ISO code' })
+};
+
+const jobParamsSchema = Joi.object({
+  jobId: uuidSchema.required()
+});
+
+// New jobs must end in the future
+export const createJobSchema: RequestSchema = {
+  body: Joi.object(jobFields)
+    .fork(
+      ['title', 'latitude', 'longitude', 'window_start', 'window_end', 'price'],
+      (field) => field.required()
+    )
+    .fork('window_end', (field) => field.custom((value: string, helpers) => {
+      return Date.parse(value) <= Date.now()
+        ? helpers.message({ custom: 'window_end must be in the future' })
+        : value;
+    }))
+};
+
+export const updateJobSchema: RequestSchema = {
+  params: jobParamsSchema,
+  body: Joi.object(jobFields)
+    .min(1)
+    .messages({ 'object.min': 'No fields to update' })
+};
+
+// An update that moves only one end of the window is checked again with the
+// stored other end filled in
+export const jobWindowSchema: RequestSchema = {
+  body: Joi.object({
+    window_start: isoDateSchema.required(),
+    window_end: windowEndSchema.required()
+  })
+};
+
+export const listJobsSchema: RequestSchema = {
+  query: Joi.object({
+    status: Joi.string().valid(...JOB_STATUSES)
+  })
+};
+
+export const jobFeedSchema: RequestSchema = {
+  query: Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required(),
+    radius_km: Joi.number().greater(0).max(MAX_FEED_RADIUS_KM),
+    include_unmatched: flagSchema
+  })
+};
+
+// Get, cancel, accept and decline
+export const jobIdSchema: RequestSchema = {
+  params: jobParamsSchema
+};
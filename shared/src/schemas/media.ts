@@ -0,0 +1,56 @@
+import Joi from 'joi';
+import { gpsLocationSchema, RequestSchema, rotationSchema, sessionParamsSchema, uuidSchema, vector3Schema } from './common';
+
+// Metadata the device sends alongside an upload. Multipart uploads carry it
+// as a JSON string, which parseClientMetadata decodes and checks.
+export const clientMediaMetadataSchema = Joi.object({
+  // raw() keeps the client's string; the server normalises it to ISO
+  captured_at: Joi.date().raw(),
+  camera_pose: Joi.object({
+    position: vector3Schema.required(),
+    rotation: rotationSchema.required()
+  }),
+  gps: gpsLocationSchema
+});
+
+export const listMediaSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  query: Joi.object({
+    type: Joi.string().valid('photo', 'video')
+  })
+};
+
+// Multipart form fields are validated by the route once multer has parsed them
+export const uploadMediaSchema: RequestSchema = {
+  params: sessionParamsSchema
+};
+
+export const createUploadSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  body: Joi.object({
+    mime_type: Joi.string().max(255).required(),
+    total_size: Joi.number().integer().positive().required(),
+    filename: Joi.string().max(255).allow(null),
+    metadata: clientMediaMetadataSchema
+  })
+};
+
+// Status, chunk PATCH and completion of a resumable upload
+export const uploadIdSchema: RequestSchema = {
+  params: sessionParamsSchema.keys({
+    uploadId: uuidSchema.required()
+  })
+};
+
+export const mediaIdSchema: RequestSchema = {
+  params: sessionParamsSchema.keys({
+    mediaId: uuidSchema.required()
+  })
+};
+
+export const signedFileSchema: RequestSchema = {
+  query: Joi.object({
+    expires: Joi.number().integer().required(),
+    signature: Joi.string().hex().required()
+  })
+};
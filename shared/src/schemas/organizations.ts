@@ -0,0 +1,59 @@
+import Joi from 'joi';
+import { ORGANIZATION_ROLES } from '../types/organizations';
+import { RequestSchema, uuidSchema } from './common';
+import { emailSchema } from './users';
+
+export const organizationParamsSchema = Joi.object({
+  orgId: uuidSchema.required()
+});
+
+const organizationNameBodySchema = Joi.object({
+  name: Joi.string().trim().max(255).required()
+});
+
+export const createOrganizationSchema: RequestSchema = {
+  body: organizationNameBodySchema
+};
+
+export const acceptInvitationSchema: RequestSchema = {
+  body: Joi.object({
+    token: Joi.string().required()
+  })
+};
+
+export const organizationIdSchema: RequestSchema = {
+  params: organizationParamsSchema
+};
+
+export const renameOrganizationSchema: RequestSchema = {
+  params: organizationParamsSchema,
+  body: organizationNameBodySchema
+};
+
+export const organizationMemberSchema: RequestSchema = {
+  params: organizationParamsSchema.keys({
+    userId: uuidSchema.required()
+  })
+};
+
+export const updateMemberRoleSchema: RequestSchema = {
+  params: organizationMemberSchema.params,
+  body: Joi.object({
+    role: Joi.string().valid(...ORGANIZATION_ROLES).required()
+  })
+};
+
+// Ownership is transferred by changing a member's role, never by invitation
+export const createInvitationSchema: RequestSchema = {
+  params: organizationParamsSchema,
+  body: Joi.object({
+    email: emailSchema.trim().lowercase().required(),
+    role: Joi.string().valid(...ORGANIZATION_ROLES.filter((role) => role !== 'owner')).required()
+  })
+};
+
+export const organizationInvitationSchema: RequestSchema = {
+  params: organizationParamsSchema.keys({
+    invitationId: uuidSchema.required()
+  })
+};
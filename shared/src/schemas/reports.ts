@@ -0,0 +1,8 @@
+import Joi from 'joi';
+import { RequestSchema, sessionParamsSchema, uuidSchema } from './common';
+
+export const reportIdSchema: RequestSchema = {
+  params: sessionParamsSchema.keys({
+    reportId: uuidSchema.required()
+  })
+};
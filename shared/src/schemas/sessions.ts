@@ -0,0 +1,35 @@
+import Joi from 'joi';
+import { SESSION_STATUSES } from '../types/sessions';
+import { isoDateSchema, flagSchema, paginationKeys, RequestSchema, sessionParamsSchema, uuidSchema } from './common';
+
+const statusListPattern = new RegExp(`^(${SESSION_STATUSES.join('|')})(,(${SESSION_STATUSES.join('|')}))*$`);
+
+// Routes that only name a session, e.g. GET /api/sessions/:id
+export const sessionIdSchema: RequestSchema = {
+  params: sessionParamsSchema
+};
+
+export const createSessionSchema: RequestSchema = {
+  body: Joi.object({
+    metadata: Joi.object().unknown(true)
+  })
+};
+
+export const listSessionsSchema: RequestSchema = {
+  query: Joi.object({
+    role: Joi.string().valid('all', 'client', 'gig_user'),
+    status: Joi.string().pattern(statusListPattern)
+      .messages({ 'string.pattern.base': 'status must be a comma-separated list of session statuses' }),
+    from: isoDateSchema,
+    to: isoDateSchema,
+    available: flagSchema,
+    ...paginationKeys
+  })
+};
+
+export const assignSessionSchema: RequestSchema = {
+  params: sessionParamsSchema,
+  body: Joi.object({
+    gig_user_id: uuidSchema.required()
+  })
+};
@@ -0,0 +1,83 @@
+import Joi from 'joi';
+import { USER_TYPES } from '../types/users';
+import { RequestSchema } from './common';
+
+export const PASSWORD_MIN_LENGTH = 8;
+// bcrypt ignores everything past 72 bytes
+export const PASSWORD_MAX_LENGTH = 72;
+
+export const emailSchema = Joi.string().email({ tlds: { allow: false } }).max(255);
+
+// New passwords only; login accepts whatever was set before the policy existed
+export const passwordSchema = Joi.string()
+  .min(PASSWORD_MIN_LENGTH)
+  .max(PASSWORD_MAX_LENGTH)
+  .pattern(/[A-Za-z]/, 'letter')
+  .pattern(/[0-9]/, 'digit')
+  .messages({
+    'string.pattern.name': '{#label} must contain at least one {#name}'
+  });
+
+// A TOTP or backup code; the two-factor service decides which
+const codeSchema = Joi.string().trim().max(64);
+
+export const registerBodySchema = Joi.object({
+  email: emailSchema.required(),
+  password: passwordSchema.required(),
+  user_type: Joi.string().valid(...USER_TYPES).required(),
+  name: Joi.string().trim().max(255).allow('', null)
+});
+
+export const registerSchema: RequestSchema = {
+  body: registerBodySchema
+};
+
+export const loginSchema: RequestSchema = {
+  body: Joi.object({
+    email: Joi.string().max(255).required(),
+    password: Joi.string().max(1024).required()
+  })
+};
+
+export const loginTwoFactorSchema: RequestSchema = {
+  body: Joi.object({
+    challenge_token: Joi.string().required(),
+    code: codeSchema.required()
+  })
+};
+
+// Refresh and logout
+export const refreshTokenSchema: RequestSchema = {
+  body: Joi.object({
+    refresh_token: Joi.string().required()
+  })
+};
+
+export const forgotPasswordSchema: RequestSchema = {
+  body: Joi.object({
+    email: emailSchema.required()
+  })
+};
+
+export const resetPasswordSchema: RequestSchema = {
+  body: Joi.object({
+    token: Joi.string().required(),
+    password: passwordSchema.required()
+  })
+};
+
+export const twoFactorCodeSchema: RequestSchema = {
+  body: Joi.object({
+    code: codeSchema.required()
+  })
+};
+
+export const updateProfileSchema: RequestSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(255).allow(''),
+    phone: Joi.string().trim().max(50).pattern(/^\+?[0-9 ()-]*$/).allow('')
+      .messages({ 'string.pattern.base': 'phone may only contain digits, spaces, +, -, ( and )' }),
+    bio: Joi.string().max(2000).allow(''),
+    skills: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50)
+  }).min(1).messages({ 'object.min': 'No fields to update' })
+};
@@ -0,0 +1,593 @@
+import { Vector2, Vector3 } from '../types/common';
+import {
+  ARAnchorData,
+  ARFrameData,
+  ARHitResult,
+  ARHitTestType,
+  ARPlaneData,
+  ARPose,
+  ARProvider,
+  ARProviderEventName,
+  ARProviderEvents,
+  ARProviderListener,
+  ARSessionOptions,
+  ARSimulatorEvent,
+  ARSimulatorScene,
+  ARTrackingReason,
+  ARTrackingState,
+  Quaternion
+} from '../types/arProvider';
+import { validateARScene } from '../validators/arScene';
+
+// Replays a scene file as an AR runtime. Nothing happens on its own: time only
+// moves when the owner calls advance(), and every event for that stretch of
+// simulated time is emitted synchronously, in order, before advance() returns.
+// The same scene and the same calls always produce the same events, hit
+// results and anchor ids, so tests can assert on them exactly.
+
+const DEFAULT_FOV_Y = 60;
+const DEFAULT_FRAME_INTERVAL = 100;
+const DEFAULT_RELOCALIZATION_DELAY = 1000;
+// Recorded hit tests match taps within this many pixels
+const DEFAULT_HIT_RADIUS = 10;
+// How far from the ray a feature point may be and still be hit, in metres
+const FEATURE_POINT_TOLERANCE = 0.05;
+const EPSILON = 1e-9;
+
+const WORLD_MAP_FORMAT = 'ar-simulator-world-map';
+
+const IDENTITY_POSE: ARPose = {
+  position: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0, w: 1 }
+};
+
+const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const scale = (v: Vector3, factor: number): Vector3 => ({ x: v.x * factor, y: v.y * factor, z: v.z * factor });
+const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+const length = (v: Vector3): number => Math.sqrt(dot(v, v));
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+const rotate = (q: Quaternion, v: Vector3): Vector3 => {
+  const axis = { x: q.x, y: q.y, z: q.z };
+  const t = scale(cross(axis, v), 2);
+  return add(add(v, scale(t, q.w)), cross(axis, t));
+};
+
+// Normalized linear interpolation along the shorter arc; close enough to slerp
+// for the small steps between camera keyframes
+const nlerp = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  const sign = a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w < 0 ? -1 : 1;
+  const q = {
+    x: lerp(a.x, sign * b.x, t),
+    y: lerp(a.y, sign * b.y, t),
+    z: lerp(a.z, sign * b.z, t),
+    w: lerp(a.w, sign * b.w, t)
+  };
+  const size = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z + q.w * q.w) || 1;
+  return { x: q.x / size, y: q.y / size, z: q.z / size, w: q.w / size };
+};
+
+// Column-major 4x4 translation, the layout native hit results use
+const translation = (position: Vector3): number[] => [
+  1, 0, 0, 0,
+  0, 1, 0, 0,
+  0, 0, 1, 0,
+  position.x, position.y, position.z, 1
+];
+
+const planeNormal = (plane: ARPlaneData): Vector3 => {
+  const normal = { x: 0, y: 0, z: 0 };
+  const { vertices } = plane;
+  for (let i = 0; i < vertices.length; i++) {
+    const current = vertices[i];
+    const next = vertices[(i + 1) % vertices.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  }
+
+  const size = length(normal);
+  if (vertices.length >= 3 && size > EPSILON) {
+    return scale(normal, 1 / size);
+  }
+  return plane.alignment === 'vertical' ? { x: 0, y: 0, z: 1 } : { x: 0, y: 1, z: 0 };
+};
+
+// Whether a point on the plane lies inside its boundary polygon, tested in the
+// 2D projection that drops the normal's dominant axis. Planes without a
+// polygon use their extent around the centre.
+const withinPlane = (plane: ARPlaneData, normal: Vector3, point: Vector3): boolean => {
+  if (plane.vertices.length < 3) {
+    const offset = subtract(point, plane.center);
+    if (plane.alignment !== 'vertical') {
+      return Math.abs(offset.x) <= plane.extent.width / 2 && Math.abs(offset.z) <= plane.extent.height / 2;
+    }
+    const across = cross({ x: 0, y: 1, z: 0 }, normal);
+    const size = length(across) || 1;
+    return Math.abs(dot(offset, across)) / size <= plane.extent.width / 2
+      && Math.abs(offset.y) <= plane.extent.height / 2;
+  }
+
+  const ax = Math.abs(normal.x);
+  const ay = Math.abs(normal.y);
+  const az = Math.abs(normal.z);
+  const project = (v: Vector3): Vector2 => (ax >= ay && ax >= az
+    ? { x: v.y, y: v.z }
+    : ay >= az ? { x: v.x, y: v.z } : { x: v.x, y: v.y });
+
+  const p = project(point);
+  const polygon = plane.vertices.map(project);
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const isHorizontal = (plane: ARPlaneData): boolean => Math.abs(planeNormal(plane).y) > Math.cos(Math.PI / 12);
+const isVertical = (plane: ARPlaneData): boolean => Math.abs(planeNormal(plane).y) < Math.sin(Math.PI / 12);
+
+interface SimulatedWorldMap {
+  format: typeof WORLD_MAP_FORMAT;
+  scene: string;
+  anchors: ARAnchorData[];
+}
+
+export class SimulatedARProvider implements ARProvider {
+  readonly name = 'simulator';
+
+  private readonly scene: ARSimulatorScene;
+  private readonly timeline: ARSimulatorEvent[];
+  private readonly cameraKeyframes: Array<{ at: number; pose: ARPose }>;
+  private listeners: { [E in ARProviderEventName]?: Array<ARProviderListener<E>> } = {};
+
+  private running = false;
+  private paused = false;
+  private interrupted = false;
+  private time = 0;
+  private cursor = 0;
+  private nextFrameAt = 0;
+  private trackingState: ARTrackingState = 'normal';
+  private trackingReason: ARTrackingReason | undefined;
+  private planes = new Map<string, ARPlaneData>();
+  private anchors = new Map<string, ARAnchorData>();
+  private anchorCount = 0;
+  private relocalization: { at: number; anchors: ARAnchorData[] } | null = null;
+
+  constructor(scene: ARSimulatorScene) {
+    const error = validateARScene(scene);
+    if (error) {
+      throw new Error(`Invalid AR scene: ${error}`);
+    }
+
+    this.scene = scene;
+    // Stable, so events at the same time keep their file order
+    this.timeline = scene.timeline
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+      .map(({ event }) => event);
+
+    this.cameraKeyframes = [{ at: 0, pose: scene.initialCamera || IDENTITY_POSE }];
+    for (const event of this.timeline) {
+      if (event.type === 'camera') {
+        this.cameraKeyframes.push({ at: event.at, pose: event.pose });
+      }
+    }
+  }
+
+  // Parses and validates a scene file's contents
+  static fromJSON(json: string): SimulatedARProvider {
+    return new SimulatedARProvider(JSON.parse(json));
+  }
+
+  // Simulated milliseconds since the session started
+  now(): number {
+    return this.time;
+  }
+
+  // Moves simulated time forward, emitting everything due on the way. Paused
+  // and stopped sessions don't move.
+  advance(ms: number): void {
+    if (!this.running || this.paused) {
+      return;
+    }
+
+    const target = this.time + Math.max(0, ms);
+    for (;;) {
+      const next = this.nextDue();
+      if (next === null || next > target) {
+        break;
+      }
+      this.time = next;
+      this.processDue();
+    }
+    this.time = target;
+  }
+
+  // Advances until the last timeline event (and any pending relocalization)
+  runToEnd(): void {
+    const lastEvent = this.timeline.length > 0 ? this.timeline[this.timeline.length - 1].at : 0;
+    const end = Math.max(lastEvent, this.relocalization?.at ?? 0);
+    this.advance(Math.max(0, end - this.time));
+  }
+
+  async isSupported(): Promise<boolean> {
+    return true;
+  }
+
+  async startSession(_options?: ARSessionOptions): Promise<void> {
+    this.reset();
+    this.running = true;
+    this.processDue();
+  }
+
+  async pauseSession(): Promise<void> {
+    this.requireRunning();
+    this.paused = true;
+  }
+
+  async resumeSession(): Promise<void> {
+    this.requireRunning();
+    this.paused = false;
+  }
+
+  async stopSession(): Promise<void> {
+    this.reset();
+  }
+
+  async getTrackingState(): Promise<ARTrackingState> {
+    return this.trackingState;
+  }
+
+  async getCameraPose(): Promise<ARPose> {
+    this.requireRunning();
+    return this.cameraPoseAt(this.time);
+  }
+
+  async hitTest(point: Vector2, types: ARHitTestType[]): Promise<ARHitResult[]> {
+    this.requireRunning();
+    if (this.trackingState === 'notAvailable' || this.interrupted) {
+      return [];
+    }
+
+    const recorded = this.recordedHitTest(point);
+    const results = recorded
+      ? recorded.filter((result) => types.includes(result.type))
+      : this.castRay(point, types);
+
+    return [...results].sort((a, b) => a.distance - b.distance);
+  }
+
+  async createAnchor(pose: ARPose): Promise<ARAnchorData> {
+    this.requireRunning();
+    if (this.trackingState === 'notAvailable') {
+      throw new Error('Cannot create an anchor without tracking');
+    }
+
+    const anchor = { id: `sim-anchor-${++this.anchorCount}`, pose };
+    this.anchors.set(anchor.id, anchor);
+    this.emit('anchorAdded', anchor);
+    return anchor;
+  }
+
+  async removeAnchor(id: string): Promise<void> {
+    if (this.anchors.delete(id)) {
+      this.emit('anchorRemoved', { id });
+    }
+  }
+
+  async isWorldMapSupported(): Promise<boolean> {
+    return this.scene.supportsWorldMap !== false;
+  }
+
+  // Like ARKit, only a session that is tracking normally has a map worth saving
+  async getWorldMap(): Promise<string | null> {
+    this.requireRunning();
+    if (this.scene.supportsWorldMap === false || this.trackingState !== 'normal') {
+      return null;
+    }
+
+    const map: SimulatedWorldMap = {
+      format: WORLD_MAP_FORMAT,
+      scene: this.scene.name,
+      anchors: Array.from(this.anchors.values())
+    };
+    return JSON.stringify(map);
+  }
+
+  // Drops the current anchors and relocalizes against the map. Saved anchors
+  // come back through anchorAdded once relocalization.delay has passed, except
+  // the scene's lostAnchorIds, and never when the scene says it fails.
+  async loadWorldMap(data: string): Promise<boolean> {
+    this.requireRunning();
+    if (this.scene.supportsWorldMap === false) {
+      return false;
+    }
+
+    let map: SimulatedWorldMap;
+    try {
+      map = JSON.parse(data);
+    } catch {
+      return false;
+    }
+    if (!map || map.format !== WORLD_MAP_FORMAT || map.scene !== this.scene.name || !Array.isArray(map.anchors)) {
+      return false;
+    }
+
+    for (const id of Array.from(this.anchors.keys())) {
+      this.anchors.delete(id);
+      this.emit('anchorRemoved', { id });
+    }
+
+    // Keep new anchor ids clear of the restored ones
+    for (const anchor of map.anchors) {
+      const match = /^sim-anchor-(\d+)$/.exec(anchor.id);
+      if (match) {
+        this.anchorCount = Math.max(this.anchorCount, Number(match[1]));
+      }
+    }
+
+    const lost = this.scene.relocalization?.lostAnchorIds || [];
+    this.relocalization = this.scene.relocalization?.fails
+      ? null
+      : {
+        at: this.time + (this.scene.relocalization?.delay ?? DEFAULT_RELOCALIZATION_DELAY),
+        anchors: map.anchors.filter((anchor) => !lost.includes(anchor.id))
+      };
+    this.setTracking('limited', 'relocalizing');
+    return true;
+  }
+
+  on<E extends ARProviderEventName>(event: E, listener: ARProviderListener<E>): () => void {
+    const listeners = (this.listeners[event] || []) as Array<ARProviderListener<E>>;
+    listeners.push(listener);
+    (this.listeners as any)[event] = listeners;
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private emit<E extends ARProviderEventName>(event: E, payload: ARProviderEvents[E]): void {
+    const listeners = (this.listeners[event] || []) as Array<ARProviderListener<E>>;
+    // A listener may unsubscribe while being called
+    for (const listener of [...listeners]) {
+      listener(payload);
+    }
+  }
+
+  private requireRunning(): void {
+    if (!this.running) {
+      throw new Error('Simulated AR session is not running');
+    }
+  }
+
+  private reset(): void {
+    this.running = false;
+    this.paused = false;
+    this.interrupted = false;
+    this.time = 0;
+    this.cursor = 0;
+    this.nextFrameAt = this.frameInterval() > 0 ? 0 : Infinity;
+    this.trackingState = 'normal';
+    this.trackingReason = undefined;
+    this.planes.clear();
+    this.anchors.clear();
+    this.anchorCount = 0;
+    this.relocalization = null;
+  }
+
+  private frameInterval(): number {
+    return this.scene.frameInterval ?? DEFAULT_FRAME_INTERVAL;
+  }
+
+  private nextDue(): number | null {
+    const candidates = [
+      this.cursor < this.timeline.length ? this.timeline[this.cursor].at : Infinity,
+      this.nextFrameAt,
+      this.relocalization ? this.relocalization.at : Infinity
+    ];
+    const next = Math.min(...candidates);
+    return next === Infinity ? null : next;
+  }
+
+  // Everything due at the current time: timeline events first, then
+  // relocalization, then the frame, so a frame sees the state of its instant
+  private processDue(): void {
+    while (this.cursor < this.timeline.length && this.timeline[this.cursor].at <= this.time) {
+      this.apply(this.timeline[this.cursor++]);
+    }
+
+    if (this.relocalization && this.relocalization.at <= this.time) {
+      const { anchors } = this.relocalization;
+      this.relocalization = null;
+      this.setTracking('normal');
+      for (const anchor of anchors) {
+        this.anchors.set(anchor.id, anchor);
+        this.emit('anchorAdded', anchor);
+      }
+    }
+
+    if (this.nextFrameAt <= this.time) {
+      if (!this.interrupted) {
+        this.emit('frame', this.frameAt(this.time));
+      }
+      this.nextFrameAt = this.time + this.frameInterval();
+    }
+  }
+
+  private apply(event: ARSimulatorEvent): void {
+    switch (event.type) {
+      case 'camera':
+        // Keyframes are read by cameraPoseAt
+        break;
+      case 'tracking':
+        this.setTracking(event.state, event.reason);
+        break;
+      case 'planeAdded':
+      case 'planeUpdated':
+        this.planes.set(event.plane.id, event.plane);
+        this.emit(event.type, event.plane);
+        break;
+      case 'planeRemoved':
+        this.planes.delete(event.id);
+        this.emit('planeRemoved', { id: event.id });
+        break;
+      case 'anchorAdded':
+      case 'anchorUpdated':
+        this.anchors.set(event.anchor.id, event.anchor);
+        this.emit(event.type, event.anchor);
+        break;
+      case 'anchorRemoved':
+        this.anchors.delete(event.id);
+        this.emit('anchorRemoved', { id: event.id });
+        break;
+      case 'interrupted':
+        this.interrupted = true;
+        this.emit('sessionInterrupted', {});
+        break;
+      case 'resumed':
+        this.interrupted = false;
+        this.emit('sessionResumed', {});
+        break;
+    }
+  }
+
+  private setTracking(state: ARTrackingState, reason?: ARTrackingReason): void {
+    if (state === this.trackingState && reason === this.trackingReason) {
+      return;
+    }
+    this.trackingState = state;
+    this.trackingReason = reason;
+    this.emit('trackingStateChanged', reason ? { state, reason } : { state });
+  }
+
+  private cameraPoseAt(time: number): ARPose {
+    const keyframes = this.cameraKeyframes;
+    let index = 0;
+    while (index + 1 < keyframes.length && keyframes[index + 1].at <= time) {
+      index++;
+    }
+
+    const from = keyframes[index];
+    const to = keyframes[index + 1];
+    if (!to || to.at <= from.at) {
+      return from.pose;
+    }
+
+    const t = (time - from.at) / (to.at - from.at);
+    return {
+      position: {
+        x: lerp(from.pose.position.x, to.pose.position.x, t),
+        y: lerp(from.pose.position.y, to.pose.position.y, t),
+        z: lerp(from.pose.position.z, to.pose.position.z, t)
+      },
+      rotation: nlerp(from.pose.rotation, to.pose.rotation, t)
+    };
+  }
+
+  private focalLength(): number {
+    const fovY = (this.scene.fovY ?? DEFAULT_FOV_Y) * Math.PI / 180;
+    return this.scene.viewport.height / 2 / Math.tan(fovY / 2);
+  }
+
+  private frameAt(time: number): ARFrameData {
+    const { width, height } = this.scene.viewport;
+    const focal = this.focalLength();
+    return {
+      timestamp: time,
+      camera: this.cameraPoseAt(time),
+      intrinsics: { fx: focal, fy: focal, cx: width / 2, cy: height / 2 },
+      imageResolution: { width, height },
+      lightEstimate: { ambientIntensity: 1000, ambientColorTemperature: 6500 }
+    };
+  }
+
+  // The most recently recorded hit test near the point, if one is in effect
+  private recordedHitTest(point: Vector2): ARHitResult[] | null {
+    let match: { at: number; results: ARHitResult[] } | null = null;
+    for (const hit of this.scene.hitTests || []) {
+      const at = hit.at ?? 0;
+      const radius = hit.radius ?? DEFAULT_HIT_RADIUS;
+      const near = Math.hypot(hit.point.x - point.x, hit.point.y - point.y) <= radius;
+      if (near && at <= this.time && (!match || at >= match.at)) {
+        match = { at, results: hit.results };
+      }
+    }
+    return match ? match.results : null;
+  }
+
+  private castRay(point: Vector2, types: ARHitTestType[]): ARHitResult[] {
+    const { width, height } = this.scene.viewport;
+    const focal = this.focalLength();
+    const camera = this.cameraPoseAt(this.time);
+    const origin = camera.position;
+    const local = { x: (point.x - width / 2) / focal, y: -(point.y - height / 2) / focal, z: -1 };
+    const direction = scale(rotate(camera.rotation, local), 1 / length(local));
+
+    const results: ARHitResult[] = [];
+    const hit = (type: ARHitTestType, distance: number, planeId?: string) => {
+      const position = add(origin, scale(direction, distance));
+      results.push({ type, position, distance, ...(planeId ? { planeId } : {}), transform: translation(position) });
+    };
+
+    const planes = Array.from(this.planes.values());
+    for (const plane of planes) {
+      const normal = planeNormal(plane);
+      const facing = dot(direction, normal);
+      if (Math.abs(facing) < EPSILON) {
+        continue;
+      }
+      const distance = dot(subtract(plane.center, origin), normal) / facing;
+      if (distance <= 0) {
+        continue;
+      }
+
+      if (types.includes('existingPlane') && withinPlane(plane, normal, add(origin, scale(direction, distance)))) {
+        hit('existingPlane', distance, plane.id);
+      }
+      // Estimated planes extend the detected ones without bounds
+      if (types.includes('estimatedHorizontalPlane') && isHorizontal(plane)) {
+        hit('estimatedHorizontalPlane', distance);
+      }
+      if (types.includes('estimatedVerticalPlane') && isVertical(plane)) {
+        hit('estimatedVerticalPlane', distance);
+      }
+    }
+
+    if (types.includes('featurePoint')) {
+      let nearest: Vector3 | null = null;
+      for (const feature of this.scene.featurePoints || []) {
+        const along = dot(subtract(feature, origin), direction);
+        const offset = length(subtract(feature, add(origin, scale(direction, along))));
+        if (along > 0 && offset <= FEATURE_POINT_TOLERANCE
+          && (!nearest || along < dot(subtract(nearest, origin), direction))) {
+          nearest = feature;
+        }
+      }
+      if (nearest) {
+        results.push({
+          type: 'featurePoint',
+          position: nearest,
+          distance: length(subtract(nearest, origin)),
+          transform: translation(nearest)
+        });
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,101 @@
+import { ISODateString, Rotation, Vector2, Vector3 } from './common';
+import { Measurement } from './measurements';
+
+// Drawing types for the 2D video overlay
+export const ANNOTATION_2D_TYPES = ['freehand', 'line', 'arrow', 'circle', 'rectangle', 'text'] as const;
+
+// Shapes placed in world space by the mobile AR panel
+export const ANNOTATION_3D_TYPES = ['sphere', 'box', 'arrow', 'text', 'circle', 'line'] as const;
+
+// Every type the API accepts. `measurement` annotations are created by the
+// AR measurement tools and carry a `measurement` alongside their position.
+export const ANNOTATION_TYPES = [
+  'freehand', 'line', 'arrow', 'circle', 'rectangle', 'text', 'sphere', 'box', 'measurement'
+] as const;
+
+export type Annotation2DType = typeof ANNOTATION_2D_TYPES[number];
+export type Annotation3DType = typeof ANNOTATION_3D_TYPES[number];
+export type AnnotationType = typeof ANNOTATION_TYPES[number];
+
+// Fields a client may set when creating or updating an annotation
+export interface AnnotationInput {
+  type?: AnnotationType;
+  points?: Vector2[];
+  color?: string;
+  stroke_width?: number | null;
+  text?: string | null;
+  font_size?: number | null;
+  position?: Vector3 | null;
+  rotation?: Rotation | null;
+  scale?: Vector3 | null;
+  anchor_id?: string | null;
+  measurement?: Measurement | null;
+}
+
+export const ANNOTATION_EDITABLE_FIELDS: (keyof AnnotationInput)[] = [
+  'type', 'points', 'color', 'stroke_width', 'text', 'font_size',
+  'position', 'rotation', 'scale', 'anchor_id', 'measurement'
+];
+
+// An annotation as returned by the REST API and the collaboration socket
+export interface AnnotationResource {
+  id: string;
+  session_id: string;
+  type: AnnotationType;
+  points: Vector2[];
+  color: string;
+  stroke_width: number | null;
+  text: string | null;
+  font_size: number | null;
+  position: Vector3 | null;
+  rotation: Rotation | null;
+  scale: Vector3 | null;
+  anchor_id: string | null;
+  measurement: Measurement | null;
+  version: number;
+  created_by: string;
+  created_at: ISODateString;
+  updated_at: ISODateString;
+  deleted_at: ISODateString | null;
+}
+
+export type AnnotationRevisionAction = 'create' | 'update' | 'delete';
+
+export interface AnnotationRevision {
+  id: string;
+  annotation_id: string;
+  version: number;
+  action: AnnotationRevisionAction;
+  snapshot: AnnotationResource;
+  changed_by: string;
+  created_at: ISODateString;
+}
+
+// Client-side model of a 2D overlay annotation
+export interface Annotation {
+  id: string;
+  type: Annotation2DType;
+  points: Vector2[];
+  color: string;
+  strokeWidth: number;
+  text?: string;
+  fontSize?: number;
+  createdAt: number;
+  createdBy: string;
+}
+
+// Client-side model of an annotation anchored in the AR scene
+export interface Annotation3D {
+  id: string;
+  type: Annotation3DType | 'measurement';
+  position: Vector3;
+  rotation?: Vector3;
+  scale?: Vector3;
+  color: string;
+  text?: string;
+  strokeWidth?: number;
+  fontSize?: number;
+  measurement?: Measurement;
+  createdAt: number;
+  createdBy: string;
+}
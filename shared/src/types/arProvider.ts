@@ -0,0 +1,177 @@
+import { Vector2, Vector3 } from './common';
+
+// The AR runtime behind the mobile and web clients: ARKit, ARCore, WebXR or
+// the scripted simulator. Everything is in world space, in metres, with +Y up
+// and the camera looking down -Z; screen points are in view pixels.
+
+export type ARTrackingState = 'normal' | 'limited' | 'notAvailable';
+
+// Why tracking is limited, when the runtime says
+export type ARTrackingReason =
+  | 'initializing'
+  | 'relocalizing'
+  | 'excessiveMotion'
+  | 'insufficientFeatures';
+
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export interface ARPose {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+export interface ARPlaneData {
+  id: string;
+  center: Vector3;
+  extent: { width: number; height: number };
+  alignment: 'horizontal' | 'vertical' | 'unknown';
+  // Boundary polygon in world space, in order
+  vertices: Vector3[];
+}
+
+export interface ARAnchorData {
+  id: string;
+  pose: ARPose;
+}
+
+export const AR_HIT_TEST_TYPES = [
+  'existingPlane',
+  'estimatedHorizontalPlane',
+  'estimatedVerticalPlane',
+  'featurePoint'
+] as const;
+
+export type ARHitTestType = typeof AR_HIT_TEST_TYPES[number];
+
+export interface ARHitResult {
+  type: ARHitTestType;
+  position: Vector3;
+  // From the camera, in metres
+  distance: number;
+  planeId?: string;
+  // Pose of the hit as a column-major 4x4 matrix
+  transform: number[];
+}
+
+export interface ARLightEstimate {
+  ambientIntensity: number;
+  ambientColorTemperature: number;
+  directionalIntensity?: number;
+}
+
+export interface ARFrameData {
+  timestamp: number;
+  camera: ARPose;
+  // Pinhole intrinsics of the captured image, when the runtime reports them
+  intrinsics?: { fx: number; fy: number; cx: number; cy: number };
+  imageResolution?: { width: number; height: number };
+  lightEstimate?: ARLightEstimate;
+}
+
+export interface ARSessionOptions {
+  planeDetection?: boolean;
+  lightEstimation?: boolean;
+  worldAlignment?: 'gravity' | 'gravityAndHeading' | 'camera';
+  // For bridges that address sessions by id
+  sessionId?: string;
+}
+
+export interface ARProviderEvents {
+  frame: ARFrameData;
+  trackingStateChanged: { state: ARTrackingState; reason?: ARTrackingReason };
+  planeAdded: ARPlaneData;
+  planeUpdated: ARPlaneData;
+  planeRemoved: { id: string };
+  anchorAdded: ARAnchorData;
+  anchorUpdated: ARAnchorData;
+  anchorRemoved: { id: string };
+  sessionInterrupted: Record<string, never>;
+  sessionResumed: Record<string, never>;
+}
+
+export type ARProviderEventName = keyof ARProviderEvents;
+
+export type ARProviderListener<E extends ARProviderEventName> = (payload: ARProviderEvents[E]) => void;
+
+// Methods reject when the runtime fails or the session isn't running. World
+// maps are opaque strings that only the provider that made them can load;
+// loading one starts relocalization, after which saved anchors come back
+// through anchorAdded.
+export interface ARProvider {
+  readonly name: string;
+
+  isSupported(): Promise<boolean>;
+  startSession(options?: ARSessionOptions): Promise<void>;
+  pauseSession(): Promise<void>;
+  resumeSession(): Promise<void>;
+  stopSession(): Promise<void>;
+
+  getTrackingState(): Promise<ARTrackingState>;
+  getCameraPose(): Promise<ARPose>;
+  hitTest(point: Vector2, types: ARHitTestType[]): Promise<ARHitResult[]>;
+
+  createAnchor(pose: ARPose): Promise<ARAnchorData>;
+  removeAnchor(id: string): Promise<void>;
+
+  isWorldMapSupported(): Promise<boolean>;
+  getWorldMap(): Promise<string | null>;
+  loadWorldMap(data: string): Promise<boolean>;
+  // For runtimes that collect map data only while told to
+  beginWorldMapping?(mapId: string): Promise<void>;
+  endWorldMapping?(): Promise<void>;
+
+  // Camera image (base64) with its pose; not every runtime can capture
+  captureFrame?(): Promise<{ image: string; depthMap?: string; camera: ARPose; timestamp: number }>;
+
+  // Returns a function that removes the listener
+  on<E extends ARProviderEventName>(event: E, listener: ARProviderListener<E>): () => void;
+}
+
+// Scene files for SimulatedARProvider. Times are milliseconds of simulated
+// time since the session started; the simulator only moves when advanced.
+export interface ARSimulatorScene {
+  version: 1;
+  name: string;
+  viewport: { width: number; height: number };
+  // Vertical field of view of the simulated camera, in degrees
+  fovY?: number;
+  // Simulated time between frame events; the camera moves linearly between
+  // its timeline poses. 0 emits no frames.
+  frameInterval?: number;
+  supportsWorldMap?: boolean;
+  // Pose before the first camera event
+  initialCamera?: ARPose;
+  timeline: ARSimulatorEvent[];
+  // Recorded hit tests. A request within `radius` pixels of `point` (at or
+  // after `at`) gets these results; anything else is ray cast against the
+  // planes and feature points in the scene.
+  hitTests?: Array<{ at?: number; point: Vector2; radius?: number; results: ARHitResult[] }>;
+  featurePoints?: Vector3[];
+  relocalization?: {
+    // Time from loadWorldMap until tracking is normal again
+    delay: number;
+    // Never reached: tracking stays limited with reason 'relocalizing'
+    fails?: boolean;
+    // Saved anchors that don't come back
+    lostAnchorIds?: string[];
+  };
+}
+
+export type ARSimulatorEvent =
+  | { at: number; type: 'camera'; pose: ARPose }
+  | { at: number; type: 'tracking'; state: ARTrackingState; reason?: ARTrackingReason }
+  | { at: number; type: 'planeAdded' | 'planeUpdated'; plane: ARPlaneData }
+  | { at: number; type: 'planeRemoved'; id: string }
+  | { at: number; type: 'anchorAdded' | 'anchorUpdated'; anchor: ARAnchorData }
+  | { at: number; type: 'anchorRemoved'; id: string }
+  | { at: number; type: 'interrupted' | 'resumed' };
+
+export const AR_SIMULATOR_EVENT_TYPES: ARSimulatorEvent['type'][] = [
+  'camera', 'tracking', 'planeAdded', 'planeUpdated', 'planeRemoved',
+  'anchorAdded', 'anchorUpdated', 'anchorRemoved', 'interrupted', 'resumed'
+];
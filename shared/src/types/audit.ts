@@ -0,0 +1,35 @@
+// Events the server writes to its audit log
+export const AUDIT_ACTIONS = [
+  'auth.register',
+  'auth.login',
+  'auth.login_failed',
+  'auth.lockout',
+  'auth.token_refresh',
+  'session.access',
+  'annotation.access',
+  'media.access',
+  'organization.update',
+  'organization.delete',
+  'member.role_change',
+  'member.remove',
+  'invitation.create',
+  'invitation.revoke',
+  'audit.export'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// One link of the audit chain. `hash` covers every other field, including
+// `prev_hash`, the hash of the entry with the previous sequence number.
+export interface AuditLogEntry {
+  sequence: number;
+  action: AuditAction;
+  user_id: string | null;
+  organization_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  metadata: Record<string, any>;
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+}
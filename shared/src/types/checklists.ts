@@ -0,0 +1,6 @@
+export const CHECKLIST_ITEM_TYPES = ['pass_fail', 'numeric'] as const;
+
+export const FINDING_RESULTS = ['pass', 'fail', 'na'] as const;
+
+export type ChecklistItemType = typeof CHECKLIST_ITEM_TYPES[number];
+export type FindingResult = typeof FINDING_RESULTS[number];
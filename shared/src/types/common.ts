@@ -0,0 +1,37 @@
+// Geometry and location primitives shared by annotations, media and AR state
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Euler angles when w is omitted, a unit quaternion otherwise
+export interface Rotation extends Vector3 {
+  w?: number;
+}
+
+export interface GpsLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface CameraPose {
+  position: Vector3;
+  rotation: Rotation;
+}
+
+// Timestamps cross the wire as ISO 8601 strings
+export type ISODateString = string;
+
+// Validators return the normalised value or an error message
+export interface ValidationResult<T> {
+  error?: string;
+  value?: T;
+}
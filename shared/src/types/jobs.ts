@@ -0,0 +1,7 @@
+// Statuses stored on a job. `expired` is derived from the time window when a job is read.
+export const JOB_STATUSES = ['open', 'assigned', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const DEFAULT_FEED_RADIUS_KM = 50;
+export const MAX_FEED_RADIUS_KM = 500;
@@ -0,0 +1,45 @@
+import { Vector3 } from './common';
+
+// Tools of the AR measurement panel. Points are world positions in meters,
+// with y pointing up (ARKit and ARCore both align the world to gravity).
+//   distance  two points, tape-measure style
+//   polyline  two or more points; the segment lengths added up
+//   area      three or more points outlining a polygon
+//   height    a point on the floor, then the measured point; vertical separation only
+//   angle     three points; the angle at the middle one
+export const MEASUREMENT_KINDS = ['distance', 'polyline', 'area', 'height', 'angle'] as const;
+
+export type MeasurementKind = typeof MEASUREMENT_KINDS[number];
+
+export const MEASUREMENT_POINT_LIMITS: Record<MeasurementKind, { min: number; max: number }> = {
+  distance: { min: 2, max: 2 },
+  polyline: { min: 2, max: 100 },
+  area: { min: 3, max: 100 },
+  height: { min: 2, max: 2 },
+  angle: { min: 3, max: 3 }
+};
+
+export const LENGTH_UNITS = ['mm', 'cm', 'm', 'in', 'ft'] as const;
+
+export type LengthUnit = typeof LENGTH_UNITS[number];
+
+// Meters per unit
+export const LENGTH_UNIT_METERS: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048
+};
+
+// A measurement recorded in AR, stored on annotations of type `measurement`
+export interface Measurement {
+  kind: MeasurementKind;
+  points: Vector3[];
+  // Meters, square meters for areas, degrees for angles. Derived from points.
+  value: number;
+  // How lengths and areas are shown; angles are always in degrees
+  unit: LengthUnit;
+  // Estimated ± error, in the same base unit as value; null when unknown
+  accuracy: number | null;
+}
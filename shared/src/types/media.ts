@@ -0,0 +1,36 @@
+import { CameraPose, GpsLocation, ISODateString } from './common';
+
+export type MediaType = 'photo' | 'video';
+
+// Metadata the device sends alongside an upload
+export interface ClientMediaMetadata {
+  captured_at?: ISODateString;
+  camera_pose?: CameraPose;
+  gps?: GpsLocation;
+}
+
+// Client metadata merged with what the server extracted from the file
+export interface MediaMetadata extends ClientMediaMetadata {
+  width?: number;
+  height?: number;
+  [key: string]: any;
+}
+
+// A media item as returned by /api/sessions/:id/media. URLs are signed and
+// expire at url_expires_at.
+export interface MediaResource {
+  id: string;
+  session_id: string;
+  type: MediaType;
+  mime_type: string;
+  original_name: string | null;
+  file_size: number | null;
+  duration: number | null;
+  captured_at: ISODateString | null;
+  metadata: MediaMetadata;
+  uploaded_by: string;
+  created_at: ISODateString;
+  url: string | null;
+  thumbnail_url: string | null;
+  url_expires_at: ISODateString;
+}
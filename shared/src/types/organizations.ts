@@ -0,0 +1,3 @@
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'dispatcher', 'inspector', 'viewer'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
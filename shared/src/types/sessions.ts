@@ -0,0 +1,29 @@
+import { ISODateString } from './common';
+
+export const SESSION_STATUSES = ['waiting', 'active', 'completed', 'cancelled'] as const;
+
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+// Legal status transitions; the API rejects anything not listed here with 409
+export const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  waiting: ['active', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+// A session as returned by /api/sessions
+export interface SessionResource {
+  id: string;
+  organization_id: string | null;
+  client_id: string;
+  gig_user_id: string | null;
+  client_name?: string | null;
+  gig_user_name?: string | null;
+  status: SessionStatus;
+  metadata: Record<string, any>;
+  started_at?: ISODateString | null;
+  ended_at?: ISODateString | null;
+  created_at?: ISODateString;
+  updated_at?: ISODateString;
+}
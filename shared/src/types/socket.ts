@@ -0,0 +1,145 @@
+import { ISODateString, Vector2, Vector3 } from './common';
+import { AnnotationInput, AnnotationResource, AnnotationRevision } from './annotations';
+import { MediaResource } from './media';
+import { SessionResource, SessionStatus } from './sessions';
+
+// Payloads for the /collaboration namespace. Client events are acknowledged
+// with either the documented response or { error }.
+
+export type CursorSpace = 'screen' | 'world';
+
+export interface SocketErrorResponse {
+  error: string;
+}
+
+export type SocketAck<T> = (response: T | SocketErrorResponse) => void;
+
+export interface PresenceParticipant {
+  userId: string;
+  connections: number;
+}
+
+// Client -> server
+
+export interface SessionJoinPayload {
+  sessionId: string;
+  // The cursor of the last join before a reconnect; the server replays the
+  // revisions and status changes after it
+  cursor?: string;
+}
+
+export interface SessionLeavePayload {
+  sessionId: string;
+}
+
+export interface AnnotationCreatePayload {
+  sessionId: string;
+  annotation: AnnotationInput;
+}
+
+export interface AnnotationUpdatePayload {
+  sessionId: string;
+  annotationId: string;
+  changes: AnnotationInput;
+}
+
+export interface AnnotationDeletePayload {
+  sessionId: string;
+  annotationId: string;
+}
+
+export interface CursorMovePayload {
+  sessionId: string;
+  position: Vector2 | Vector3;
+  space?: CursorSpace;
+}
+
+// A status change as it was broadcast in session:status
+export interface SessionStatusEvent {
+  status: SessionStatus;
+  session: SessionResource;
+  changed_by: string | null;
+  created_at: ISODateString;
+}
+
+export interface SessionJoinResponse {
+  session: { id: string; client_id: string; gig_user_id: string | null; status: SessionStatus };
+  participants: PresenceParticipant[];
+  // First joins get the current annotations, rejoins the revisions and
+  // status changes they missed. Replay is at-least-once.
+  annotations?: AnnotationResource[];
+  revisions?: AnnotationRevision[];
+  statusEvents?: SessionStatusEvent[];
+  // Issued by the database; pass it back when rejoining
+  cursor: string;
+}
+
+export interface AnnotationResponse {
+  annotation: AnnotationResource;
+}
+
+// Server -> client
+
+export interface PresenceUpdatePayload {
+  sessionId: string;
+  participants: PresenceParticipant[];
+}
+
+export interface AnnotationEventPayload {
+  sessionId: string;
+  annotation: AnnotationResource;
+}
+
+export interface CursorMovedPayload {
+  sessionId: string;
+  userId: string;
+  space: CursorSpace;
+  position: Vector2 | Vector3;
+  timestamp: number;
+}
+
+export interface MediaCreatedPayload {
+  sessionId: string;
+  media: MediaResource;
+}
+
+export interface ChecklistUpdatedPayload {
+  sessionId: string;
+  checklist: Record<string, any>;
+}
+
+export interface ChecklistRemovedPayload {
+  sessionId: string;
+  checklistId: string;
+}
+
+export interface ReportGeneratedPayload {
+  sessionId: string;
+  report: Record<string, any>;
+}
+
+export interface ClientToServerEvents {
+  'session:join': (payload: SessionJoinPayload, ack?: SocketAck<SessionJoinResponse>) => void;
+  'session:leave': (payload: SessionLeavePayload, ack?: SocketAck<{ ok: true }>) => void;
+  'annotation:create': (payload: AnnotationCreatePayload, ack?: SocketAck<AnnotationResponse>) => void;
+  'annotation:update': (payload: AnnotationUpdatePayload, ack?: SocketAck<AnnotationResponse>) => void;
+  'annotation:delete': (payload: AnnotationDeletePayload, ack?: SocketAck<AnnotationResponse>) => void;
+  'cursor:move': (payload: CursorMovePayload) => void;
+}
+
+export interface ServerToClientEvents {
+  'presence:update': (payload: PresenceUpdatePayload) => void;
+  'annotation:created': (payload: AnnotationEventPayload) => void;
+  'annotation:updated': (payload: AnnotationEventPayload) => void;
+  'annotation:deleted': (payload: AnnotationEventPayload) => void;
+  'cursor:moved': (payload: CursorMovedPayload) => void;
+  'session:status': (payload: SessionResource) => void;
+  'media:created': (payload: MediaCreatedPayload) => void;
+  'checklist:updated': (payload: ChecklistUpdatedPayload) => void;
+  'checklist:removed': (payload: ChecklistRemovedPayload) => void;
+  'report:generated': (payload: ReportGeneratedPayload) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
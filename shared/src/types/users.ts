@@ -0,0 +1,33 @@
+export const USER_TYPES = ['client', 'gig_user'] as const;
+
+export type UserType = typeof USER_TYPES[number];
+
+// The user object returned by login, registration and /api/auth/me
+export interface AuthUser {
+  id: string;
+  email: string;
+  user_type: UserType;
+  name?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refresh_token: string;
+  expires_in?: number;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  user_type: UserType;
+  name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: AuthUser;
+}
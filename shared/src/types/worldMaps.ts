@@ -0,0 +1,46 @@
+import { GpsLocation, Vector3 } from './common';
+import { AnnotationType } from './annotations';
+import { ARPose, Quaternion } from './arProvider';
+import { Measurement } from './measurements';
+
+// An annotation saved with a world map. Its transform is relative to its
+// anchor, so it lands where the anchor does once the map relocalizes;
+// annotations placed without an anchor keep a world-space transform.
+export interface WorldMapAnnotation {
+  id: string;
+  type: AnnotationType;
+  anchorId: string | null;
+  transform: {
+    position: Vector3;
+    rotation: Quaternion;
+    scale: Vector3;
+  };
+  // Where the annotation was when the map was saved, for anchors that never
+  // come back
+  worldPose: ARPose;
+  style: {
+    color: string;
+    strokeWidth: number | null;
+    fontSize: number | null;
+  };
+  text: string | null;
+  measurement: Measurement | null;
+}
+
+// A saved ARKit/ARCore world map. Times are epoch milliseconds because the
+// maps live on the device.
+export interface WorldMapData {
+  id: string;
+  name: string;
+  created: number;
+  updated: number;
+  duration: number;
+  annotationCount: number;
+  annotations?: WorldMapAnnotation[];
+  mapData?: any; // ARKit/ARCore world map data
+  thumbnail?: string;
+  location?: GpsLocation;
+  metadata?: {
+    [key: string]: any;
+  };
+}
@@ -0,0 +1,16 @@
+import { SCHEMA_OPTIONS } from '../schemas/common';
+import { annotationCreateBodySchema, annotationUpdateBodySchema } from '../schemas/annotations';
+
+// Returns an error message for the first invalid field, or null. Partial
+// bodies are updates and need at least one editable field. Checks the same
+// schemas the REST routes declare, for payloads that arrive over the socket.
+export const validateAnnotation = (body: any, partial: boolean): string | null => {
+  if (!body || typeof body !== 'object') {
+    return 'Annotation body is required';
+  }
+
+  const schema = partial ? annotationUpdateBodySchema : annotationCreateBodySchema;
+  const { error } = schema.validate(body, { ...SCHEMA_OPTIONS, abortEarly: true });
+
+  return error ? error.details[0].message : null;
+};
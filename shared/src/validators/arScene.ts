@@ -0,0 +1,93 @@
+import { AR_SIMULATOR_EVENT_TYPES } from '../types/arProvider';
+import { isFiniteNumber, isNonEmptyString, isVector2, isVector3 } from './common';
+
+const isPose = (value: any): boolean => {
+  return value !== null && typeof value === 'object'
+    && isVector3(value.position)
+    && isVector3(value.rotation) && isFiniteNumber(value.rotation.w);
+};
+
+const isPlane = (value: any): boolean => {
+  return value !== null && typeof value === 'object'
+    && isNonEmptyString(value.id)
+    && isVector3(value.center)
+    && isFiniteNumber(value.extent?.width) && isFiniteNumber(value.extent?.height)
+    && ['horizontal', 'vertical', 'unknown'].includes(value.alignment)
+    && Array.isArray(value.vertices) && value.vertices.every(isVector3);
+};
+
+const checkEvent = (event: any): string | null => {
+  if (!event || typeof event !== 'object' || !isFiniteNumber(event.at) || event.at < 0) {
+    return 'needs a non-negative time';
+  }
+
+  if (!AR_SIMULATOR_EVENT_TYPES.includes(event.type)) {
+    return `has unknown type ${event.type}`;
+  }
+
+  switch (event.type) {
+    case 'camera':
+      return isPose(event.pose) ? null : 'needs a pose';
+    case 'tracking':
+      return ['normal', 'limited', 'notAvailable'].includes(event.state) ? null : 'needs a tracking state';
+    case 'planeAdded':
+    case 'planeUpdated':
+      return isPlane(event.plane) ? null : 'needs a plane';
+    case 'anchorAdded':
+    case 'anchorUpdated':
+      return isNonEmptyString(event.anchor?.id) && isPose(event.anchor?.pose) ? null : 'needs an anchor';
+    case 'planeRemoved':
+    case 'anchorRemoved':
+      return isNonEmptyString(event.id) ? null : 'needs an id';
+    default:
+      return null;
+  }
+};
+
+// Returns an error message when a simulator scene file is malformed, or null
+export const validateARScene = (value: any): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Scene must be an object';
+  }
+
+  if (value.version !== 1) {
+    return 'Scene version must be 1';
+  }
+
+  if (!isFiniteNumber(value.viewport?.width) || !isFiniteNumber(value.viewport?.height)) {
+    return 'Scene needs a viewport width and height';
+  }
+
+  if (value.initialCamera !== undefined && !isPose(value.initialCamera)) {
+    return 'Scene initialCamera must be a pose';
+  }
+
+  if (!Array.isArray(value.timeline)) {
+    return 'Scene timeline must be an array';
+  }
+
+  for (const [index, event] of value.timeline.entries()) {
+    const error = checkEvent(event);
+    if (error) {
+      return `Timeline event ${index} ${error}`;
+    }
+  }
+
+  if (value.hitTests !== undefined) {
+    if (!Array.isArray(value.hitTests)
+      || !value.hitTests.every((hit: any) => isVector2(hit?.point) && Array.isArray(hit.results))) {
+      return 'Scene hitTests need a point and results';
+    }
+  }
+
+  if (value.featurePoints !== undefined
+    && (!Array.isArray(value.featurePoints) || !value.featurePoints.every(isVector3))) {
+    return 'Scene featurePoints must be points';
+  }
+
+  if (value.relocalization !== undefined && !isFiniteNumber(value.relocalization?.delay)) {
+    return 'Scene relocalization needs a delay';
+  }
+
+  return null;
+};
@@ -0,0 +1,17 @@
+import { Vector2, Vector3 } from '../types/common';
+
+export const isFiniteNumber = (value: any): value is number => typeof value === 'number' && isFinite(value);
+
+export const isNonEmptyString = (value: any): value is string => typeof value === 'string' && value.length > 0;
+
+export const isVector2 = (value: any): value is Vector2 => {
+  return value !== null && typeof value === 'object'
+    && ['x', 'y'].every((axis) => isFiniteNumber(value[axis]));
+};
+
+export const isVector3 = (value: any): value is Vector3 => {
+  return value !== null && typeof value === 'object'
+    && ['x', 'y', 'z'].every((axis) => isFiniteNumber(value[axis]));
+};
+
+export const isIsoDate = (value: any): boolean => typeof value === 'string' && !isNaN(Date.parse(value));
@@ -0,0 +1,114 @@
+import { Vector3 } from '../types/common';
+import { LENGTH_UNIT_METERS, LengthUnit, Measurement, MeasurementKind } from '../types/measurements';
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+
+const length = (v: Vector3) => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+export const distanceBetween = (a: Vector3, b: Vector3): number => length(subtract(a, b));
+
+export const polylineLength = (points: Vector3[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceBetween(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+// Newell's method: half the length of the summed edge cross products. Exact
+// for planar polygons and, for points that are only roughly coplanar (as hit
+// tests are), the area projected onto their best-fit plane.
+export const polygonArea = (points: Vector3[]): number => {
+  const normal = { x: 0, y: 0, z: 0 };
+  points.forEach((point, index) => {
+    const edge = cross(point, points[(index + 1) % points.length]);
+    normal.x += edge.x;
+    normal.y += edge.y;
+    normal.z += edge.z;
+  });
+  return length(normal) / 2;
+};
+
+// Degrees at `vertex` between the rays towards `a` and `b`
+export const angleAt = (a: Vector3, vertex: Vector3, b: Vector3): number => {
+  const toA = subtract(a, vertex);
+  const toB = subtract(b, vertex);
+  const lengths = length(toA) * length(toB);
+  if (lengths === 0) {
+    return 0;
+  }
+
+  const cosine = (toA.x * toB.x + toA.y * toB.y + toA.z * toB.z) / lengths;
+  return Math.acos(Math.min(1, Math.max(-1, cosine))) * 180 / Math.PI;
+};
+
+// The value a measurement of this kind takes for these points. Callers check
+// the point count against MEASUREMENT_POINT_LIMITS first.
+export const measureValue = (kind: MeasurementKind, points: Vector3[]): number => {
+  switch (kind) {
+    case 'distance':
+      return distanceBetween(points[0], points[1]);
+    case 'polyline':
+      return polylineLength(points);
+    case 'area':
+      return polygonArea(points);
+    case 'height':
+      return Math.abs(points[1].y - points[0].y);
+    case 'angle':
+      return angleAt(points[0], points[1], points[2]);
+  }
+};
+
+const DECIMALS: Record<LengthUnit, number> = { mm: 0, cm: 1, m: 2, in: 1, ft: 2 };
+
+export interface MeasurementDisplay {
+  value: number;
+  accuracy: number | null;
+  // 'cm', 'ft²', '°' and so on
+  unit: string;
+  decimals: number;
+}
+
+// Value and accuracy converted from meters to the measurement's unit and rounded for display
+export const displayMeasurement = (
+  measurement: Pick<Measurement, 'kind' | 'value' | 'unit' | 'accuracy'>
+): MeasurementDisplay => {
+  const { kind, value, unit, accuracy } = measurement;
+
+  let factor = LENGTH_UNIT_METERS[unit];
+  let decimals = DECIMALS[unit];
+  let suffix: string = unit;
+
+  if (kind === 'angle') {
+    factor = 1;
+    decimals = 1;
+    suffix = '°';
+  } else if (kind === 'area') {
+    factor = factor ** 2;
+    decimals = 2;
+    suffix = `${unit}²`;
+  }
+
+  const round = (amount: number) => Number((amount / factor).toFixed(decimals));
+
+  return {
+    value: round(value),
+    accuracy: accuracy !== null ? round(accuracy) : null,
+    unit: suffix,
+    decimals
+  };
+};
+
+// e.g. "1.25 m ± 0.01 m", "3.40 ft² ± 0.12 ft²" or "87.5° ± 1.2°"
+export const formatMeasurement = (measurement: Pick<Measurement, 'kind' | 'value' | 'unit' | 'accuracy'>): string => {
+  const { value, accuracy, unit, decimals } = displayMeasurement(measurement);
+  const format = (amount: number) => `${amount.toFixed(decimals)}${unit === '°' ? '' : ' '}${unit}`;
+
+  return format(value) + (accuracy !== null ? ` ± ${format(accuracy)}` : '');
+};
@@ -0,0 +1,58 @@
+import { ClientMediaMetadata } from '../types/media';
+import { isFiniteNumber } from './common';
+
+// Accepts the metadata the device sends alongside an upload, either as an
+// object or a JSON string in a multipart field. Returns an error message or
+// the normalised metadata.
+export const parseClientMetadata = (raw: any): { error?: string; metadata?: ClientMediaMetadata } => {
+  if (raw === undefined || raw === null || raw === '') {
+    return { metadata: {} };
+  }
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      return { error: 'Metadata must be valid JSON' };
+    }
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Metadata must be an object' };
+  }
+
+  const metadata: ClientMediaMetadata = {};
+
+  if (value.captured_at !== undefined) {
+    if (isNaN(Date.parse(value.captured_at))) {
+      return { error: 'Invalid captured_at date' };
+    }
+    metadata.captured_at = new Date(value.captured_at).toISOString();
+  }
+
+  if (value.camera_pose !== undefined) {
+    const { position, rotation } = value.camera_pose || {};
+    const validPosition = position && ['x', 'y', 'z'].every((axis) => isFiniteNumber(position[axis]));
+    const validRotation = rotation && ['x', 'y', 'z'].every((axis) => isFiniteNumber(rotation[axis]))
+      && (rotation.w === undefined || isFiniteNumber(rotation.w));
+
+    if (!validPosition || !validRotation) {
+      return { error: 'camera_pose must have {x, y, z} position and rotation' };
+    }
+    metadata.camera_pose = { position, rotation };
+  }
+
+  if (value.gps !== undefined) {
+    const { latitude, longitude, altitude } = value.gps || {};
+
+    if (!isFiniteNumber(latitude) || Math.abs(latitude) > 90
+      || !isFiniteNumber(longitude) || Math.abs(longitude) > 180
+      || (altitude !== undefined && !isFiniteNumber(altitude))) {
+      return { error: 'gps must have a valid latitude and longitude' };
+    }
+    metadata.gps = { latitude, longitude, ...(altitude !== undefined ? { altitude } : {}) };
+  }
+
+  return { metadata };
+};
@@ -0,0 +1,53 @@
+import Joi from 'joi';
+import { RequestLocation, RequestSchema, SCHEMA_OPTIONS, ValidationIssue } from '../schemas/common';
+
+export interface RequestParts {
+  params?: any;
+  query?: any;
+  body?: any;
+}
+
+const formatPath = (path: (string | number)[]): string => {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') {
+      return `${result}[${key}]`;
+    }
+    return result ? `${result}.${key}` : key;
+  }, '');
+};
+
+export const toValidationIssues = (error: Joi.ValidationError, location: RequestLocation): ValidationIssue[] => {
+  return error.details.map((detail) => ({
+    location,
+    path: formatPath(detail.path),
+    message: detail.message,
+    type: detail.type
+  }));
+};
+
+// Checks each declared part of a request against its schema. Clients call
+// this before sending; the backend's validate middleware calls it on arrival.
+// Returns the converted values and every issue found, in location order.
+export const validateRequest = (
+  schema: RequestSchema,
+  parts: RequestParts
+): { value: RequestParts; issues: ValidationIssue[] } => {
+  const value: RequestParts = { ...parts };
+  const issues: ValidationIssue[] = [];
+
+  for (const location of ['params', 'query', 'body'] as RequestLocation[]) {
+    const partSchema = schema[location];
+    if (!partSchema) {
+      continue;
+    }
+
+    const result = partSchema.validate(parts[location] ?? {}, SCHEMA_OPTIONS);
+    if (result.error) {
+      issues.push(...toValidationIssues(result.error, location));
+    } else {
+      value[location] = result.value;
+    }
+  }
+
+  return { value, issues };
+};
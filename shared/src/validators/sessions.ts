@@ -0,0 +1,9 @@
+import { SESSION_STATUSES, STATUS_TRANSITIONS, SessionStatus } from '../types/sessions';
+
+export const isSessionStatus = (value: any): value is SessionStatus => {
+  return (SESSION_STATUSES as readonly string[]).includes(value);
+};
+
+export const canTransition = (from: SessionStatus, to: SessionStatus): boolean => {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
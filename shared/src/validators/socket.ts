@@ -0,0 +1,71 @@
+import { isFiniteNumber, isNonEmptyString, isVector2 } from './common';
+import { validateAnnotation } from './annotations';
+
+// Each validator returns an error message for the first problem, or null
+
+const validateSessionId = (payload: any): string | null => {
+  if (!payload || typeof payload !== 'object' || !isNonEmptyString(payload.sessionId)) {
+    return 'sessionId is required';
+  }
+  return null;
+};
+
+export const validateSessionJoin = (payload: any): string | null => {
+  const error = validateSessionId(payload);
+  if (error) {
+    return error;
+  }
+
+  if (payload.cursor !== undefined && (typeof payload.cursor !== 'string' || !/^\d+$/.test(payload.cursor))) {
+    return 'cursor must be the cursor from a previous join';
+  }
+
+  return null;
+};
+
+export const validateSessionLeave = (payload: any): string | null => validateSessionId(payload);
+
+export const validateAnnotationCreate = (payload: any): string | null => {
+  return validateSessionId(payload) || validateAnnotation(payload.annotation, false);
+};
+
+export const validateAnnotationUpdate = (payload: any): string | null => {
+  const error = validateSessionId(payload);
+  if (error) {
+    return error;
+  }
+
+  if (!isNonEmptyString(payload.annotationId)) {
+    return 'annotationId is required';
+  }
+
+  return validateAnnotation(payload.changes, true);
+};
+
+export const validateAnnotationDelete = (payload: any): string | null => {
+  const error = validateSessionId(payload);
+  if (error) {
+    return error;
+  }
+
+  return isNonEmptyString(payload.annotationId) ? null : 'annotationId is required';
+};
+
+// Screen cursors are {x, y}; world cursors add z
+export const validateCursorMove = (payload: any): string | null => {
+  const error = validateSessionId(payload);
+  if (error) {
+    return error;
+  }
+
+  if (!isVector2(payload.position)
+    || (payload.position.z !== undefined && !isFiniteNumber(payload.position.z))) {
+    return 'position must be an {x, y} or {x, y, z} point';
+  }
+
+  if (payload.space !== undefined && payload.space !== 'screen' && payload.space !== 'world') {
+    return 'space must be screen or world';
+  }
+
+  return null;
+};
@@ -0,0 +1,12 @@
+import { USER_TYPES } from '../types/users';
+import { SCHEMA_OPTIONS } from '../schemas/common';
+import { registerBodySchema } from '../schemas/users';
+
+export const isUserType = (value: any): boolean => (USER_TYPES as readonly string[]).includes(value);
+
+// Returns an error message for the first problem with a registration body,
+// including the password policy, or null
+export const validateRegistration = (body: any): string | null => {
+  const { error } = registerBodySchema.validate(body ?? {}, { ...SCHEMA_OPTIONS, abortEarly: true });
+  return error ? error.details[0].message : null;
+};
@@ -0,0 +1,77 @@
+import { ANNOTATION_TYPES } from '../types/annotations';
+import { isFiniteNumber, isNonEmptyString, isVector3 } from './common';
+
+const isQuaternion = (value: any): boolean => isVector3(value) && isFiniteNumber((value as any).w);
+
+const isPose = (value: any): boolean => !!value && isVector3(value.position) && isQuaternion(value.rotation);
+
+// Returns an error message when an annotation saved with a world map is
+// malformed, or null
+export const validateWorldMapAnnotation = (value: any): string | null => {
+  if (!value || typeof value !== 'object' || !isNonEmptyString(value.id)) {
+    return 'World map annotation needs an id';
+  }
+
+  if (!(ANNOTATION_TYPES as readonly string[]).includes(value.type)) {
+    return `World map annotation ${value.id} has an unknown type`;
+  }
+
+  if (value.anchorId !== null && !isNonEmptyString(value.anchorId)) {
+    return `World map annotation ${value.id} anchorId must be a string or null`;
+  }
+
+  const { transform } = value;
+  if (!transform || !isVector3(transform.position) || !isQuaternion(transform.rotation) || !isVector3(transform.scale)) {
+    return `World map annotation ${value.id} needs a position, rotation and scale`;
+  }
+
+  if (!isPose(value.worldPose)) {
+    return `World map annotation ${value.id} needs a world pose`;
+  }
+
+  if (!value.style || typeof value.style.color !== 'string') {
+    return `World map annotation ${value.id} needs a color`;
+  }
+
+  return null;
+};
+
+// Returns an error message when a stored or imported world map record is
+// malformed, or null. The native map blob itself is opaque and not inspected.
+export const validateWorldMapData = (value: any): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'World map must be an object';
+  }
+
+  if (!isNonEmptyString(value.id) || typeof value.name !== 'string') {
+    return 'World map needs an id and name';
+  }
+
+  for (const field of ['created', 'updated', 'duration', 'annotationCount']) {
+    if (!isFiniteNumber(value[field])) {
+      return `World map ${field} must be a number`;
+    }
+  }
+
+  if (value.annotations !== undefined) {
+    if (!Array.isArray(value.annotations)) {
+      return 'World map annotations must be an array';
+    }
+    for (const annotation of value.annotations) {
+      const invalid = validateWorldMapAnnotation(annotation);
+      if (invalid) {
+        return invalid;
+      }
+    }
+  }
+
+  if (value.location !== undefined && value.location !== null) {
+    const { latitude, longitude } = value.location;
+    if (!isFiniteNumber(latitude) || Math.abs(latitude) > 90
+      || !isFiniteNumber(longitude) || Math.abs(longitude) > 180) {
+      return 'World map location must have a valid latitude and longitude';
+    }
+  }
+
+  return null;
+};
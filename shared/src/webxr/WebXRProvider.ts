@@ -0,0 +1,564 @@
+import { Vector2, Vector3 } from '../types/common';
+import {
+  ARAnchorData,
+  ARHitResult,
+  ARHitTestType,
+  ARPose,
+  ARProvider,
+  ARProviderEventName,
+  ARProviderEvents,
+  ARProviderListener,
+  ARSessionOptions,
+  ARTrackingReason,
+  ARTrackingState
+} from '../types/arProvider';
+import {
+  WebXRAnchor,
+  WebXRFrame,
+  WebXRHitTestSource,
+  WebXRPlane,
+  WebXRPose,
+  WebXRRuntime,
+  WebXRSession,
+  WebXRSpace,
+  browserXRRuntime
+} from './xr';
+
+// An immersive-ar WebXR session as an AR provider, for Chrome on Android and
+// other browsers with the hit-test module. Anchors and plane detection are
+// used when the browser grants them. WebXR sessions must be started from a
+// user gesture and cannot pause: pauseSession() only stops frame events, and
+// there are no world maps.
+//
+// WebXR answers hit tests and creates anchors inside frame callbacks, so
+// those calls resolve on a later frame. Screen points are in CSS pixels of
+// the viewport, the same space as the DOM overlay.
+
+export interface WebXRProviderOptions<Session extends WebXRSession = WebXRSession> {
+  // Defaults to the browser's navigator.xr
+  runtime?: WebXRRuntime<Session> | null;
+  // Element shown over the camera view when the browser supports DOM overlay
+  domOverlayRoot?: unknown;
+  referenceSpaceType?: 'local-floor' | 'local';
+  // Size of the view in CSS pixels; defaults to the window
+  viewport?: () => { width: number; height: number };
+}
+
+// Frames a hit test waits for results before giving up; browsers often have
+// none on the first frame after a hit test source is created
+const HIT_TEST_FRAMES = 3;
+// Anchors that move less than this between frames don't emit anchorUpdated
+const ANCHOR_MOVE_TOLERANCE = 0.001;
+const ORIENTATION_TOLERANCE = Math.PI / 12;
+
+const ORIGIN: Vector3 = { x: 0, y: 0, z: 0 };
+
+const toPose = (pose: WebXRPose): ARPose => {
+  const { position, orientation } = pose.transform;
+  return {
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w ?? 1 }
+  };
+};
+
+const distanceBetween = (a: Vector3, b: Vector3): number => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+// Y component of the local +Y axis of a pose, which is the surface normal of
+// hit test results and planes
+const upAxisY = (pose: ARPose): number => {
+  const { x, z } = pose.rotation;
+  return 1 - 2 * (x * x + z * z);
+};
+
+const matchesOrientation = (type: ARHitTestType, pose: ARPose): boolean => {
+  const up = Math.abs(upAxisY(pose));
+  if (type === 'estimatedHorizontalPlane') {
+    return up >= Math.cos(ORIENTATION_TOLERANCE);
+  }
+  if (type === 'estimatedVerticalPlane') {
+    return up <= Math.sin(ORIENTATION_TOLERANCE);
+  }
+  return true;
+};
+
+interface PendingHitTest {
+  sources: Array<{ type: ARHitTestType; source: WebXRHitTestSource }>;
+  framesLeft: number;
+  resolve: (results: ARHitResult[]) => void;
+}
+
+interface PendingAnchor {
+  pose: ARPose;
+  resolve: (anchor: ARAnchorData) => void;
+  reject: (error: Error) => void;
+}
+
+export class WebXRProvider<Session extends WebXRSession = WebXRSession> implements ARProvider {
+  readonly name = 'webxr';
+
+  private readonly runtime: WebXRRuntime<Session> | null;
+  private readonly options: WebXRProviderOptions<Session>;
+  private listeners: { [E in ARProviderEventName]?: Array<ARProviderListener<E>> } = {};
+
+  private session: Session | null = null;
+  private referenceSpace: WebXRSpace | null = null;
+  private referenceSpaceType: 'local-floor' | 'local' = 'local';
+  private viewerSpace: WebXRSpace | null = null;
+  private frameHandle: number | null = null;
+  private paused = false;
+  private interrupted = false;
+
+  private trackingState: ARTrackingState = 'notAvailable';
+  private trackingReason: ARTrackingReason | undefined;
+  private hasTracked = false;
+  private cameraPose: ARPose | null = null;
+  private projectionMatrix: ArrayLike<number> | null = null;
+
+  private pendingHitTests: PendingHitTest[] = [];
+  private pendingAnchors: PendingAnchor[] = [];
+  private anchors = new Map<WebXRAnchor, ARAnchorData>();
+  private anchorCount = 0;
+  private planes = new Map<WebXRPlane, { id: string; lastChangedTime: number }>();
+  private planeCount = 0;
+
+  constructor(options: WebXRProviderOptions<Session> = {}) {
+    this.options = options;
+    this.runtime = options.runtime === undefined ? browserXRRuntime<Session>() : options.runtime;
+  }
+
+  // For renderers that draw into the same session, such as Three.js's
+  // WebXRManager; name the browser's XRSession as the provider's Session
+  getSession(): Session | null {
+    return this.session;
+  }
+
+  getReferenceSpaceType(): 'local-floor' | 'local' {
+    return this.referenceSpaceType;
+  }
+
+  isDomOverlayActive(): boolean {
+    return !!this.session?.domOverlayState;
+  }
+
+  async isSupported(): Promise<boolean> {
+    if (!this.runtime) {
+      return false;
+    }
+
+    try {
+      return await this.runtime.xr.isSessionSupported('immersive-ar');
+    } catch {
+      return false;
+    }
+  }
+
+  async startSession(options: ARSessionOptions = {}): Promise<void> {
+    if (!this.runtime) {
+      throw new Error('WebXR is not available in this browser');
+    }
+    if (this.session) {
+      throw new Error('WebXR session already running');
+    }
+
+    const preferredSpace = this.options.referenceSpaceType || 'local-floor';
+    const optionalFeatures = [preferredSpace, 'anchors'];
+    if (options.planeDetection !== false) {
+      optionalFeatures.push('plane-detection');
+    }
+    if (this.options.domOverlayRoot) {
+      optionalFeatures.push('dom-overlay');
+    }
+
+    const session = await this.runtime.xr.requestSession('immersive-ar', {
+      requiredFeatures: ['hit-test'],
+      optionalFeatures,
+      ...(this.options.domOverlayRoot ? { domOverlay: { root: this.options.domOverlayRoot } } : {})
+    });
+
+    try {
+      try {
+        this.referenceSpace = await session.requestReferenceSpace(preferredSpace);
+        this.referenceSpaceType = preferredSpace;
+      } catch {
+        this.referenceSpace = await session.requestReferenceSpace('local');
+        this.referenceSpaceType = 'local';
+      }
+      this.viewerSpace = await session.requestReferenceSpace('viewer');
+    } catch (error) {
+      await session.end();
+      throw error;
+    }
+
+    this.session = session;
+    this.paused = false;
+    this.interrupted = false;
+    session.addEventListener('end', this.handleEnd);
+    session.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.setTracking('limited', 'initializing');
+    this.frameHandle = session.requestAnimationFrame(this.handleFrame);
+  }
+
+  async pauseSession(): Promise<void> {
+    this.requireSession();
+    this.paused = true;
+  }
+
+  async resumeSession(): Promise<void> {
+    this.requireSession();
+    this.paused = false;
+  }
+
+  async stopSession(): Promise<void> {
+    if (this.session) {
+      await this.session.end();
+      // Browsers fire end before resolving; this covers runtimes that don't
+      this.handleEnd();
+    }
+  }
+
+  async getTrackingState(): Promise<ARTrackingState> {
+    return this.trackingState;
+  }
+
+  async getCameraPose(): Promise<ARPose> {
+    this.requireSession();
+    if (!this.cameraPose) {
+      throw new Error('No camera pose yet');
+    }
+    return this.cameraPose;
+  }
+
+  // One hit test source per type, cast through the point from the viewer and
+  // cancelled once answered. Plane types hit WebXR planes and meshes; the
+  // estimated ones are filtered by the surface orientation at the hit.
+  async hitTest(point: Vector2, types: ARHitTestType[]): Promise<ARHitResult[]> {
+    const session = this.requireSession();
+    if (!session.requestHitTestSource || !this.runtime || !this.viewerSpace || !this.projectionMatrix
+      || this.trackingState === 'notAvailable' || types.length === 0) {
+      return [];
+    }
+
+    const offsetRay = this.runtime.createRay(ORIGIN, this.rayDirection(point, this.projectionMatrix));
+    const requested = await Promise.all(types.map(async (type) => ({
+      type,
+      source: await session.requestHitTestSource!({
+        space: this.viewerSpace!,
+        offsetRay,
+        entityTypes: [type === 'featurePoint' ? 'point' : 'plane']
+      })
+    })));
+    const sources = requested.filter(
+      (entry): entry is { type: ARHitTestType; source: WebXRHitTestSource } => !!entry.source
+    );
+    if (sources.length === 0) {
+      return [];
+    }
+
+    return new Promise((resolve) => {
+      this.pendingHitTests.push({ sources, framesLeft: HIT_TEST_FRAMES, resolve });
+    });
+  }
+
+  async createAnchor(pose: ARPose): Promise<ARAnchorData> {
+    this.requireSession();
+    if (this.trackingState === 'notAvailable') {
+      throw new Error('Cannot create an anchor without tracking');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingAnchors.push({ pose, resolve, reject });
+    });
+  }
+
+  async removeAnchor(id: string): Promise<void> {
+    for (const [anchor, data] of this.anchors) {
+      if (data.id === id) {
+        anchor.delete();
+        this.anchors.delete(anchor);
+        this.emit('anchorRemoved', { id });
+        return;
+      }
+    }
+  }
+
+  async isWorldMapSupported(): Promise<boolean> {
+    return false;
+  }
+
+  async getWorldMap(): Promise<string | null> {
+    return null;
+  }
+
+  async loadWorldMap(_data: string): Promise<boolean> {
+    return false;
+  }
+
+  on<E extends ARProviderEventName>(event: E, listener: ARProviderListener<E>): () => void {
+    const listeners = (this.listeners[event] || []) as Array<ARProviderListener<E>>;
+    listeners.push(listener);
+    (this.listeners as any)[event] = listeners;
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private emit<E extends ARProviderEventName>(event: E, payload: ARProviderEvents[E]): void {
+    const listeners = (this.listeners[event] || []) as Array<ARProviderListener<E>>;
+    for (const listener of [...listeners]) {
+      listener(payload);
+    }
+  }
+
+  private requireSession(): Session {
+    if (!this.session) {
+      throw new Error('WebXR session is not running');
+    }
+    return this.session;
+  }
+
+  private viewport(): { width: number; height: number } {
+    if (this.options.viewport) {
+      return this.options.viewport();
+    }
+    const scope = globalThis as any;
+    return { width: scope.innerWidth || 1, height: scope.innerHeight || 1 };
+  }
+
+  // Direction through a screen point in viewer space, from the view's
+  // perspective projection
+  private rayDirection(point: Vector2, projection: ArrayLike<number>): Vector3 {
+    const { width, height } = this.viewport();
+    const ndcX = (2 * point.x) / width - 1;
+    const ndcY = 1 - (2 * point.y) / height;
+    const x = (ndcX + projection[8]) / projection[0];
+    const y = (ndcY + projection[9]) / projection[5];
+    const size = Math.hypot(x, y, 1);
+    return { x: x / size, y: y / size, z: -1 / size };
+  }
+
+  private setTracking(state: ARTrackingState, reason?: ARTrackingReason): void {
+    if (state === this.trackingState && reason === this.trackingReason) {
+      return;
+    }
+    this.trackingState = state;
+    this.trackingReason = reason;
+    this.emit('trackingStateChanged', reason ? { state, reason } : { state });
+  }
+
+  private handleFrame = (time: number, frame: WebXRFrame): void => {
+    if (!this.session || !this.referenceSpace) {
+      return;
+    }
+    this.frameHandle = this.session.requestAnimationFrame(this.handleFrame);
+
+    const viewerPose = frame.getViewerPose(this.referenceSpace);
+    if (!viewerPose) {
+      this.setTracking('notAvailable');
+    } else if (viewerPose.emulatedPosition) {
+      this.setTracking('limited', this.hasTracked ? 'insufficientFeatures' : 'initializing');
+    } else {
+      this.hasTracked = true;
+      this.setTracking('normal');
+    }
+
+    if (viewerPose) {
+      this.cameraPose = toPose(viewerPose);
+      this.projectionMatrix = viewerPose.views[0]?.projectionMatrix || this.projectionMatrix;
+    }
+
+    if (viewerPose && this.projectionMatrix && !this.paused && !this.interrupted) {
+      const { width, height } = this.viewport();
+      const p = this.projectionMatrix;
+      this.emit('frame', {
+        timestamp: time,
+        camera: this.cameraPose!,
+        intrinsics: {
+          fx: (p[0] * width) / 2,
+          fy: (p[5] * height) / 2,
+          cx: ((1 - p[8]) * width) / 2,
+          cy: ((1 + p[9]) * height) / 2
+        },
+        imageResolution: { width, height }
+      });
+    }
+
+    this.answerHitTests(frame);
+    this.createPendingAnchors(frame);
+    this.updateAnchors(frame);
+    this.updatePlanes(frame);
+  };
+
+  private answerHitTests(frame: WebXRFrame): void {
+    const camera = this.cameraPose;
+    const referenceSpace = this.referenceSpace!;
+
+    this.pendingHitTests = this.pendingHitTests.filter((pending) => {
+      const results: ARHitResult[] = [];
+      for (const { type, source } of pending.sources) {
+        for (const hit of frame.getHitTestResults(source)) {
+          const xrPose = hit.getPose(referenceSpace);
+          if (!xrPose) {
+            continue;
+          }
+          const pose = toPose(xrPose);
+          if (!matchesOrientation(type, pose)) {
+            continue;
+          }
+          results.push({
+            type,
+            position: pose.position,
+            distance: camera ? distanceBetween(camera.position, pose.position) : 0,
+            transform: Array.from(xrPose.transform.matrix)
+          });
+        }
+      }
+
+      pending.framesLeft--;
+      if (results.length === 0 && pending.framesLeft > 0) {
+        return true;
+      }
+
+      pending.sources.forEach(({ source }) => source.cancel());
+      pending.resolve(results.sort((a, b) => a.distance - b.distance));
+      return false;
+    });
+  }
+
+  private createPendingAnchors(frame: WebXRFrame): void {
+    const pending = this.pendingAnchors;
+    this.pendingAnchors = [];
+
+    for (const { pose, resolve, reject } of pending) {
+      if (!frame.createAnchor || !this.runtime) {
+        reject(new Error('Anchors are not supported by this browser'));
+        continue;
+      }
+
+      frame.createAnchor(this.runtime.createRigidTransform(pose.position, pose.rotation), this.referenceSpace!)
+        .then((anchor) => {
+          const data = { id: `webxr-anchor-${++this.anchorCount}`, pose };
+          this.anchors.set(anchor, data);
+          this.emit('anchorAdded', data);
+          resolve(data);
+        })
+        .catch(reject);
+    }
+  }
+
+  // Anchors the browser stops tracking are reported as removed
+  private updateAnchors(frame: WebXRFrame): void {
+    if (!frame.trackedAnchors) {
+      return;
+    }
+
+    for (const [anchor, data] of Array.from(this.anchors)) {
+      if (!frame.trackedAnchors.has(anchor)) {
+        this.anchors.delete(anchor);
+        this.emit('anchorRemoved', { id: data.id });
+        continue;
+      }
+
+      const xrPose = frame.getPose(anchor.anchorSpace, this.referenceSpace!);
+      if (!xrPose) {
+        continue;
+      }
+      const pose = toPose(xrPose);
+      if (distanceBetween(pose.position, data.pose.position) > ANCHOR_MOVE_TOLERANCE) {
+        const updated = { id: data.id, pose };
+        this.anchors.set(anchor, updated);
+        this.emit('anchorUpdated', updated);
+      }
+    }
+  }
+
+  private updatePlanes(frame: WebXRFrame): void {
+    if (!frame.detectedPlanes) {
+      return;
+    }
+
+    for (const [plane, known] of Array.from(this.planes)) {
+      if (!frame.detectedPlanes.has(plane)) {
+        this.planes.delete(plane);
+        this.emit('planeRemoved', { id: known.id });
+      }
+    }
+
+    frame.detectedPlanes.forEach((plane) => {
+      const known = this.planes.get(plane);
+      if (known && known.lastChangedTime === plane.lastChangedTime) {
+        return;
+      }
+
+      const xrPose = frame.getPose(plane.planeSpace, this.referenceSpace!);
+      if (!xrPose) {
+        return;
+      }
+
+      const id = known ? known.id : `webxr-plane-${++this.planeCount}`;
+      this.planes.set(plane, { id, lastChangedTime: plane.lastChangedTime });
+
+      const m = xrPose.transform.matrix;
+      const xs = plane.polygon.map((vertex) => vertex.x);
+      const zs = plane.polygon.map((vertex) => vertex.z);
+      const data = {
+        id,
+        center: toPose(xrPose).position,
+        extent: {
+          width: xs.length > 0 ? Math.max(...xs) - Math.min(...xs) : 0,
+          height: zs.length > 0 ? Math.max(...zs) - Math.min(...zs) : 0
+        },
+        alignment: plane.orientation || 'unknown' as const,
+        // Plane space to world space
+        vertices: plane.polygon.map((vertex) => ({
+          x: m[0] * vertex.x + m[4] * vertex.y + m[8] * vertex.z + m[12],
+          y: m[1] * vertex.x + m[5] * vertex.y + m[9] * vertex.z + m[13],
+          z: m[2] * vertex.x + m[6] * vertex.y + m[10] * vertex.z + m[14]
+        }))
+      };
+      this.emit(known ? 'planeUpdated' : 'planeAdded', data);
+    });
+  }
+
+  private handleVisibilityChange = (): void => {
+    const visible = this.session?.visibilityState !== 'hidden';
+    if (visible === !this.interrupted) {
+      return;
+    }
+
+    this.interrupted = !visible;
+    this.emit(visible ? 'sessionResumed' : 'sessionInterrupted', {});
+  };
+
+  private handleEnd = (): void => {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+
+    session.removeEventListener('end', this.handleEnd);
+    session.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.frameHandle !== null) {
+      session.cancelAnimationFrame(this.frameHandle);
+    }
+
+    this.pendingHitTests.forEach((pending) => pending.resolve([]));
+    this.pendingAnchors.forEach((pending) => pending.reject(new Error('WebXR session ended')));
+
+    this.session = null;
+    this.referenceSpace = null;
+    this.viewerSpace = null;
+    this.frameHandle = null;
+    this.pendingHitTests = [];
+    this.pendingAnchors = [];
+    this.anchors.clear();
+    this.planes.clear();
+    this.cameraPose = null;
+    this.projectionMatrix = null;
+    this.hasTracked = false;
+    this.setTracking('notAvailable');
+  };
+}
@@ -0,0 +1,118 @@
+import { Vector3 } from '../types/common';
+import { Quaternion } from '../types/arProvider';
+
+// The parts of the WebXR Device API that WebXRProvider uses, typed
+// structurally so a fake runtime can stand in for the browser's. Matrices are
+// column-major, as in WebXR.
+
+export interface WebXRPoint {
+  x: number;
+  y: number;
+  z: number;
+  w?: number;
+}
+
+export interface WebXRRigidTransform {
+  position: WebXRPoint;
+  orientation: WebXRPoint;
+  matrix: ArrayLike<number>;
+}
+
+// XRSpace and XRReferenceSpace are opaque handles
+export type WebXRSpace = object;
+
+export interface WebXRPose {
+  transform: WebXRRigidTransform;
+  emulatedPosition: boolean;
+}
+
+export interface WebXRView {
+  projectionMatrix: ArrayLike<number>;
+  transform: WebXRRigidTransform;
+}
+
+export interface WebXRViewerPose extends WebXRPose {
+  views: ReadonlyArray<WebXRView>;
+}
+
+export interface WebXRHitTestResult {
+  getPose(baseSpace: WebXRSpace): WebXRPose | null | undefined;
+}
+
+export interface WebXRHitTestSource {
+  cancel(): void;
+}
+
+export interface WebXRAnchor {
+  anchorSpace: WebXRSpace;
+  delete(): void;
+}
+
+// Plane detection; the polygon is in plane space, where +Y is the normal
+export interface WebXRPlane {
+  orientation?: 'horizontal' | 'vertical';
+  planeSpace: WebXRSpace;
+  polygon: ReadonlyArray<WebXRPoint>;
+  lastChangedTime: number;
+}
+
+export interface WebXRFrame {
+  getViewerPose(referenceSpace: WebXRSpace): WebXRViewerPose | null | undefined;
+  getPose(space: WebXRSpace, baseSpace: WebXRSpace): WebXRPose | null | undefined;
+  getHitTestResults(source: WebXRHitTestSource): ReadonlyArray<WebXRHitTestResult>;
+  // Only with the 'anchors' feature
+  createAnchor?(pose: WebXRRigidTransform, space: WebXRSpace): Promise<WebXRAnchor>;
+  trackedAnchors?: ReadonlySet<WebXRAnchor>;
+  // Only with the 'plane-detection' feature
+  detectedPlanes?: ReadonlySet<WebXRPlane>;
+}
+
+export type WebXRFrameCallback = (time: number, frame: WebXRFrame) => void;
+
+export interface WebXRSessionInit {
+  requiredFeatures?: string[];
+  optionalFeatures?: string[];
+  domOverlay?: { root: unknown };
+}
+
+export interface WebXRSession {
+  visibilityState?: 'visible' | 'visible-blurred' | 'hidden';
+  domOverlayState?: { type: string } | null;
+  enabledFeatures?: ReadonlyArray<string>;
+  requestReferenceSpace(type: string): Promise<WebXRSpace>;
+  // Browsers may return undefined when the hit-test feature was not granted
+  requestHitTestSource?(options: { space: WebXRSpace; offsetRay?: unknown; entityTypes?: string[] }): Promise<WebXRHitTestSource> | undefined;
+  requestAnimationFrame(callback: WebXRFrameCallback): number;
+  cancelAnimationFrame(handle: number): void;
+  addEventListener(type: 'end' | 'visibilitychange', listener: () => void): void;
+  removeEventListener(type: 'end' | 'visibilitychange', listener: () => void): void;
+  end(): Promise<void>;
+}
+
+// Session is the session type the runtime hands out, so code that also
+// passes the session to a renderer can name the browser's XRSession
+export interface WebXRSystem<Session extends WebXRSession = WebXRSession> {
+  isSessionSupported(mode: string): Promise<boolean>;
+  requestSession(mode: string, init?: WebXRSessionInit): Promise<Session>;
+}
+
+// navigator.xr with the page's XRRigidTransform and XRRay constructors
+export interface WebXRRuntime<Session extends WebXRSession = WebXRSession> {
+  xr: WebXRSystem<Session>;
+  createRigidTransform(position: Vector3, orientation: Quaternion): WebXRRigidTransform;
+  createRay(origin: Vector3, direction: Vector3): unknown;
+}
+
+// The browser's runtime, or null outside a WebXR-capable browser
+export const browserXRRuntime = <Session extends WebXRSession = WebXRSession>(): WebXRRuntime<Session> | null => {
+  const scope = globalThis as any;
+  if (!scope.navigator?.xr) {
+    return null;
+  }
+
+  return {
+    xr: scope.navigator.xr,
+    createRigidTransform: (position, orientation) => new scope.XRRigidTransform({ ...position, w: 1 }, orientation),
+    createRay: (origin, direction) => new scope.XRRay({ ...origin, w: 1 }, { ...direction, w: 0 })
+  };
+};
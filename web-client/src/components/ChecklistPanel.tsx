@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  Select,
+  MenuItem,
+  Chip,
+  Alert,
+  LinearProgress,
+  FormControl,
+  InputLabel,
+} from '@mui/material';
+import axios from 'axios';
+
+type FindingResult = 'pass' | 'fail' | 'na';
+
+interface ChecklistItem {
+  id: string;
+  label: string;
+  type: 'pass_fail' | 'numeric';
+  required: boolean;
+  requires_photo: boolean;
+  guidance?: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+interface Finding {
+  item_id: string;
+  result: FindingResult | null;
+  value: number | null;
+  within_tolerance: boolean | null;
+  notes: string | null;
+  annotation_ids: string[];
+  media_ids: string[];
+}
+
+interface Checklist {
+  id: string;
+  name: string;
+  sections: { id: string; title: string; items: ChecklistItem[] }[];
+  findings: Finding[];
+  progress: { answered: number; total: number; failed: number };
+  completed_at: string | null;
+}
+
+interface ChecklistPanelProps {
+  sessionId: string;
+  // Clients attach templates; inspectors fill them in
+  canAttach: boolean;
+  canEdit: boolean;
+}
+
+const toleranceLabel = (item: ChecklistItem) => {
+  if (item.min !== undefined && item.max !== undefined) {
+    return `${item.min}–${item.max}${item.unit ? ` ${item.unit}` : ''}`;
+  }
+  if (item.min !== undefined) {
+    return `≥ ${item.min}${item.unit ? ` ${item.unit}` : ''}`;
+  }
+  if (item.max !== undefined) {
+    return `≤ ${item.max}${item.unit ? ` ${item.unit}` : ''}`;
+  }
+  return item.unit || '';
+};
+
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ sessionId, canAttach, canEdit }) => {
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [media, setMedia] = useState<{ id: string; type: string; original_name?: string }[]>([]);
+  const [readings, setReadings] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/sessions/${sessionId}/checklists`);
+      setChecklists(response.data.checklists);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load checklists');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+    axios.get(`/api/sessions/${sessionId}/media`, { params: { type: 'photo' } })
+      .then((response) => setMedia(response.data.media))
+      .catch(() => setMedia([]));
+    if (canAttach) {
+      axios.get('/api/checklist-templates')
+        .then((response) => setTemplates(response.data.templates))
+        .catch(() => setTemplates([]));
+    }
+  }, [sessionId, canAttach, load]);
+
+  const replaceChecklist = (updated: Checklist) => {
+    setChecklists((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+  };
+
+  const handleAttach = async () => {
+    setError(null);
+    try {
+      const response = await axios.post(`/api/sessions/${sessionId}/checklists`, { template_id: templateId });
+      setChecklists((prev) => [...prev, response.data]);
+      setTemplateId('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to attach checklist');
+    }
+  };
+
+  const saveFinding = async (checklist: Checklist, itemId: string, body: Partial<Finding>) => {
+    setError(null);
+    try {
+      const response = await axios.put(
+        `/api/sessions/${sessionId}/checklists/${checklist.id}/findings/${itemId}`,
+        body
+      );
+      replaceChecklist(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save finding');
+    }
+  };
+
+  const handleComplete = async (checklist: Checklist) => {
+    setError(null);
+    try {
+      const response = await axios.post(`/api/sessions/${sessionId}/checklists/${checklist.id}/complete`);
+      replaceChecklist(response.data);
+    } catch (err: any) {
+      const missing = err.response?.data?.incomplete_items;
+      setError(missing
+        ? `Still needed: ${missing.map((item: any) => item.label).join(', ')}`
+        : err.response?.data?.error || 'Failed to complete checklist');
+    }
+  };
+
+  const renderItem = (checklist: Checklist, item: ChecklistItem) => {
+    const finding = checklist.findings.find((f) => f.item_id === item.id);
+    const editable = canEdit && !checklist.completed_at;
+    const readingKey = `${checklist.id}:${item.id}`;
+
+    return (
+      <Box key={item.id} sx={{ py: 1, borderBottom: 1, borderColor: 'divider' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="body2" sx={{ flexGrow: 1 }}>
+            {item.label}
+            {item.required && ' *'}
+          </Typography>
+          {item.requires_photo && <Chip label="Photo required" size="small" variant="outlined" />}
+          {finding?.result && (
+            <Chip
+              label={finding.result.toUpperCase()}
+              size="small"
+              color={finding.result === 'pass' ? 'success' : finding.result === 'fail' ? 'error' : 'default'}
+            />
+          )}
+        </Box>
+        {item.guidance && (
+          <Typography variant="caption" color="text.secondary">{item.guidance}</Typography>
+        )}
+
+        {item.type === 'pass_fail' ? (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={finding?.result || null}
+            disabled={!editable}
+            onChange={(_, result) => result && saveFinding(checklist, item.id, { result })}
+            sx={{ mt: 1 }}
+          >
+            <ToggleButton value="pass">Pass</ToggleButton>
+            <ToggleButton value="fail">Fail</ToggleButton>
+            <ToggleButton value="na">N/A</ToggleButton>
+          </ToggleButtonGroup>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 1, mt: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              type="number"
+              label={toleranceLabel(item) || 'Reading'}
+              disabled={!editable}
+              value={readings[readingKey] ?? (finding?.value ?? '')}
+              onChange={(e) => setReadings((prev) => ({ ...prev, [readingKey]: e.target.value }))}
+            />
+            <Button
+              size="small"
+              disabled={!editable || readings[readingKey] === undefined || readings[readingKey] === ''}
+              onClick={() => saveFinding(checklist, item.id, { value: parseFloat(readings[readingKey]) })}
+            >
+              Save
+            </Button>
+            <Button size="small" disabled={!editable} onClick={() => saveFinding(checklist, item.id, { result: 'na' })}>
+              N/A
+            </Button>
+          </Box>
+        )}
+
+        {(item.requires_photo || (finding && finding.media_ids.length > 0)) && media.length > 0 && (
+          <FormControl size="small" sx={{ mt: 1, minWidth: 240 }} disabled={!editable}>
+            <InputLabel>Photo evidence</InputLabel>
+            <Select
+              multiple
+              label="Photo evidence"
+              value={finding?.media_ids || []}
+              onChange={(e) => saveFinding(checklist, item.id, { media_ids: e.target.value as string[] })}
+            >
+              {media.map((m) => (
+                <MenuItem key={m.id} value={m.id}>{m.original_name || m.id}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Paper sx={{ p: 2, mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Checklists
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {canAttach && templates.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>Template</InputLabel>
+            <Select label="Template" value={templateId} onChange={(e) => setTemplateId(e.target.value as string)}>
+              {templates.map((t) => (
+                <MenuItem key={t.id} value={t.id}>{t.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="outlined" disabled={!templateId} onClick={handleAttach}>
+            Attach
+          </Button>
+        </Box>
+      )}
+
+      {checklists.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No checklist attached to this session.
+        </Typography>
+      )}
+
+      {checklists.map((checklist) => (
+        <Box key={checklist.id} sx={{ mb: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant="subtitle1">{checklist.name}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {checklist.progress.answered}/{checklist.progress.total} answered
+              {checklist.progress.failed > 0 && ` · ${checklist.progress.failed} failed`}
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={checklist.progress.total ? (checklist.progress.answered / checklist.progress.total) * 100 : 0}
+            sx={{ my: 1 }}
+          />
+          {checklist.sections.map((section) => (
+            <Box key={section.id} sx={{ mt: 2 }}>
+              <Typography variant="overline">{section.title}</Typography>
+              {section.items.map((item) => renderItem(checklist, item))}
+            </Box>
+          ))}
+          {checklist.completed_at ? (
+            <Chip label={`Completed ${new Date(checklist.completed_at).toLocaleString()}`} color="success" sx={{ mt: 2 }} />
+          ) : canEdit && (
+            <Button variant="contained" sx={{ mt: 2 }} onClick={() => handleComplete(checklist)}>
+              Complete Checklist
+            </Button>
+          )}
+        </Box>
+      ))}
+    </Paper>
+  );
+};
+
+export default ChecklistPanel;
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Box,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  Chip,
+  Alert,
+} from '@mui/material';
+import axios from 'axios';
+import * as THREE from 'three';
+import {
+  AnnotationResource,
+  ARHitTestType,
+  ARTrackingState,
+  WebXRProvider,
+} from 'ar-inspection-platform-shared';
+import { createAnnotationObject, disposeAnnotationObject } from './arAnnotationObjects';
+
+type PlacementType = 'sphere' | 'box' | 'arrow' | 'text';
+
+const PLACEMENT_TYPES: PlacementType[] = ['sphere', 'box', 'arrow', 'text'];
+const HIT_TEST_TYPES: ARHitTestType[] = ['existingPlane', 'estimatedHorizontalPlane', 'estimatedVerticalPlane'];
+const ANNOTATION_COLOR = '#FF3B30';
+
+interface WebXRPanelProps {
+  sessionId: string;
+  canAnnotate: boolean;
+}
+
+// Immersive AR in the browser, for experts on Android Chrome. Annotations
+// are drawn with Three.js into the provider's WebXR session; the controls
+// sit in a DOM overlay, where a tap on empty space places an annotation.
+// Only annotations placed in this AR session are drawn: WebXR has no world
+// maps, so positions stored from earlier sessions are in another frame.
+const WebXRPanel: React.FC<WebXRPanelProps> = ({ sessionId, canAnnotate }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const providerRef = useRef<WebXRProvider<XRSession> | null>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const sceneRef = useRef(new THREE.Scene());
+  // Annotation objects placed in this AR session, by the anchor they follow
+  const anchoredRef = useRef(new Map<string, THREE.Object3D>());
+
+  const [isSupported, setIsSupported] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [trackingState, setTrackingState] = useState<ARTrackingState>('notAvailable');
+  const [placementType, setPlacementType] = useState<PlacementType>('sphere');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Created lazily so the overlay element exists for the session's DOM overlay
+  const getProvider = useCallback(() => {
+    if (!providerRef.current) {
+      providerRef.current = new WebXRProvider<XRSession>({ domOverlayRoot: overlayRef.current });
+    }
+    return providerRef.current;
+  }, []);
+
+  const addAnnotation = useCallback((annotation: AnnotationResource) => {
+    const object = createAnnotationObject(annotation);
+    if (!object) {
+      return;
+    }
+    sceneRef.current.add(object);
+    if (annotation.anchor_id) {
+      anchoredRef.current.set(annotation.anchor_id, object);
+    }
+  }, []);
+
+  const clearScene = useCallback(() => {
+    const scene = sceneRef.current;
+    [...scene.children].forEach((object) => {
+      scene.remove(object);
+      disposeAnnotationObject(object);
+    });
+    anchoredRef.current.clear();
+  }, []);
+
+  const teardown = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (renderer) {
+      renderer.setAnimationLoop(null);
+      renderer.dispose();
+      rendererRef.current = null;
+    }
+    clearScene();
+    setIsRunning(false);
+  }, [clearScene]);
+
+  useEffect(() => {
+    const provider = getProvider();
+    provider.isSupported().then(setIsSupported);
+
+    const unsubscribers = [
+      provider.on('trackingStateChanged', ({ state }) => {
+        setTrackingState(state);
+        // The browser ended the session, e.g. from its own exit control
+        if (state === 'notAvailable' && !provider.getSession()) {
+          teardown();
+        }
+      }),
+      provider.on('anchorUpdated', ({ id, pose }) => {
+        anchoredRef.current.get(id)?.position.set(pose.position.x, pose.position.y, pose.position.z);
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      provider.stopSession().catch(() => undefined);
+      teardown();
+    };
+  }, [getProvider, teardown]);
+
+  // Must run from the button's click so the browser allows the session
+  const handleEnter = async () => {
+    setError(null);
+    const provider = getProvider();
+
+    try {
+      await provider.startSession({ sessionId, planeDetection: true });
+      const session = provider.getSession();
+      if (!session) {
+        throw new Error('The AR session ended before it started');
+      }
+
+      const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+      renderer.setPixelRatio(window.devicePixelRatio);
+      renderer.setSize(window.innerWidth, window.innerHeight);
+      renderer.xr.enabled = true;
+      renderer.xr.setReferenceSpaceType(provider.getReferenceSpaceType());
+      await renderer.xr.setSession(session);
+
+      // WebXR supplies the camera pose and projection each frame
+      const camera = new THREE.PerspectiveCamera();
+      renderer.setAnimationLoop(() => renderer.render(sceneRef.current, camera));
+      rendererRef.current = renderer;
+      setIsRunning(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to start AR session');
+      await provider.stopSession().catch(() => undefined);
+      teardown();
+    }
+  };
+
+  const handleExit = async () => {
+    await getProvider().stopSession();
+    teardown();
+  };
+
+  const handlePlace = async (event: React.MouseEvent<HTMLDivElement>) => {
+    // Taps on the controls bubble up here too
+    if (event.target !== event.currentTarget || !canAnnotate || isPlacing) {
+      return;
+    }
+    if (placementType === 'text' && !text.trim()) {
+      setError('Enter the label text first');
+      return;
+    }
+
+    setError(null);
+    setIsPlacing(true);
+    const provider = getProvider();
+
+    try {
+      const [hit] = await provider.hitTest({ x: event.clientX, y: event.clientY }, HIT_TEST_TYPES);
+      if (!hit) {
+        setError('No surface found there. Move the phone slowly to scan the area.');
+        return;
+      }
+
+      // Without anchor support the annotation keeps its world position
+      const anchor = await provider.createAnchor({
+        position: hit.position,
+        rotation: { x: 0, y: 0, z: 0, w: 1 },
+      }).catch(() => null);
+
+      const response = await axios.post(`/api/sessions/${sessionId}/annotations`, {
+        type: placementType,
+        position: hit.position,
+        color: ANNOTATION_COLOR,
+        text: text.trim() || null,
+        anchor_id: anchor?.id ?? null,
+      });
+      addAnnotation(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to place annotation');
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  // Hidden rather than left out while unsupported, so the overlay element
+  // exists when the provider is created on mount
+  return (
+    <Paper sx={{ p: 2, mt: 3, display: isSupported ? 'block' : 'none' }}>
+      <Typography variant="h6" gutterBottom>
+        AR View
+      </Typography>
+
+      {error && !isRunning && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Button variant="contained" onClick={handleEnter} disabled={isRunning}>
+        Enter AR
+      </Button>
+
+      <Box
+        ref={overlayRef}
+        onClick={handlePlace}
+        sx={{ display: isRunning ? 'flex' : 'none', flexDirection: 'column', gap: 1, p: 2, height: '100%' }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Chip
+            label={`Tracking: ${trackingState}`}
+            color={trackingState === 'normal' ? 'success' : 'warning'}
+            sx={{ bgcolor: 'background.paper' }}
+            variant="outlined"
+          />
+          <Button variant="contained" color="error" size="small" onClick={handleExit}>
+            Exit AR
+          </Button>
+        </Box>
+
+        {canAnnotate && (
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', bgcolor: 'background.paper', p: 1, borderRadius: 1 }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={placementType}
+              onChange={(_, value) => value && setPlacementType(value)}
+            >
+              {PLACEMENT_TYPES.map((type) => (
+                <ToggleButton key={type} value={type}>{type}</ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <TextField
+              size="small"
+              label="Label"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {trackingState !== 'normal' && (
+          <Alert severity="info">Move the phone slowly to scan the area.</Alert>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default WebXRPanel;
@@ -0,0 +1,217 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import axios from 'axios';
+import * as THREE from 'three';
+import WebXRPanel from '../WebXRPanel';
+import { FakeXRRigidTransform, FakeXRSession, FakeXRSystem, installFakeXR, uninstallFakeXR } from '../../test/fakeXRRuntime';
+
+interface FakeRenderer {
+  xr: { enabled: boolean; setReferenceSpaceType: jest.Mock; setSession: jest.Mock };
+  setAnimationLoop: jest.Mock;
+  dispose: jest.Mock;
+  render: jest.Mock;
+}
+
+// jsdom has no WebGL, so the renderer only records what the panel asks of it
+const mockRenderers: FakeRenderer[] = [];
+
+jest.mock('three', () => {
+  const actual = jest.requireActual('three');
+  return {
+    ...actual,
+    WebGLRenderer: class {
+      xr = { enabled: false, setReferenceSpaceType: jest.fn(), setSession: jest.fn().mockResolvedValue(undefined) };
+      setPixelRatio = jest.fn();
+      setSize = jest.fn();
+      setAnimationLoop = jest.fn();
+      render = jest.fn();
+      dispose = jest.fn();
+
+      constructor() {
+        mockRenderers.push(this as unknown as FakeRenderer);
+      }
+    },
+  };
+});
+
+jest.mock('axios', () => ({ __esModule: true, default: { get: jest.fn(), post: jest.fn() } }));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Lets pending promises and the React updates they cause settle
+const settle = () => act(async () => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+});
+
+describe('WebXRPanel', () => {
+  let xr: FakeXRSystem;
+  let container: HTMLDivElement;
+  let root: Root;
+
+  const button = (label: string) => {
+    const found = Array.from(container.querySelectorAll('button')).find((b) => b.textContent === label);
+    if (!found) {
+      throw new Error(`No "${label}" button`);
+    }
+    return found;
+  };
+
+  const click = async (element: Element, init: MouseEventInit = {}) => {
+    await act(async () => {
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, ...init }));
+    });
+    await settle();
+  };
+
+  const runFrame = async (session: FakeXRSession) => {
+    await act(async () => session.frame());
+    await settle();
+  };
+
+  // The scene the panel draws into the session on the next animation frame
+  const renderedScene = (renderer: FakeRenderer): THREE.Scene => {
+    const [loop] = renderer.setAnimationLoop.mock.calls[0];
+    loop();
+    return renderer.render.mock.calls[renderer.render.mock.calls.length - 1][0];
+  };
+
+  const enterAR = async () => {
+    await click(button('Enter AR'));
+    const session = xr.session;
+    // The first frame with a real viewer pose brings tracking to normal
+    await runFrame(session);
+    return session;
+  };
+
+  beforeEach(async () => {
+    xr = installFakeXR();
+    mockRenderers.length = 0;
+    mockedAxios.post.mockImplementation(async (_url, body: any) => ({
+      data: {
+        id: 'annotation-1',
+        session_id: 'session-1',
+        points: [],
+        stroke_width: null,
+        font_size: null,
+        rotation: null,
+        scale: null,
+        measurement: null,
+        version: 1,
+        ...body,
+      },
+    }));
+
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    await act(async () => {
+      root.render(<WebXRPanel sessionId="session-1" canAnnotate />);
+    });
+    await settle();
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+    container.remove();
+    uninstallFakeXR();
+  });
+
+  it('starts an immersive AR session and hands the same session to the renderer', async () => {
+    await click(button('Enter AR'));
+
+    expect(xr.requests).toHaveLength(1);
+    const [{ mode, init }] = xr.requests;
+    expect(mode).toBe('immersive-ar');
+    expect(init.requiredFeatures).toEqual(['hit-test']);
+    expect(init.optionalFeatures).toEqual(['local-floor', 'anchors', 'plane-detection', 'dom-overlay']);
+    // The controls are the DOM overlay
+    expect(container.contains(init.domOverlay!.root as Node)).toBe(true);
+
+    const [renderer] = mockRenderers;
+    expect(renderer.xr.enabled).toBe(true);
+    expect(renderer.xr.setReferenceSpaceType).toHaveBeenCalledWith('local-floor');
+    expect(renderer.xr.setSession).toHaveBeenCalledWith(xr.session);
+    expect(button('Enter AR').disabled).toBe(true);
+
+    // Annotations stored from other sessions are not placed in this one
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+    expect(renderedScene(renderer).children).toHaveLength(0);
+  });
+
+  it('places an annotation where the hit test meets a surface and follows its anchor', async () => {
+    const session = await enterAR();
+    const overlay = xr.requests[0].init.domOverlay!.root as HTMLElement;
+    session.hits = [new FakeXRRigidTransform({ x: 0.5, y: 0, z: -2 })];
+
+    await click(overlay, { clientX: 200, clientY: 400 });
+    expect(session.hitTestSources).toHaveLength(3);
+
+    // Answers the hit test, then creates the anchor on the next frame
+    await runFrame(session);
+    expect(session.hitTestSources.every((source) => source.cancelled)).toBe(true);
+    await runFrame(session);
+
+    expect(session.anchors).toHaveLength(1);
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/sessions/session-1/annotations', {
+      type: 'sphere',
+      position: { x: 0.5, y: 0, z: -2 },
+      color: '#FF3B30',
+      text: null,
+      anchor_id: 'webxr-anchor-1',
+    });
+
+    const scene = renderedScene(mockRenderers[0]);
+    expect(scene.children).toHaveLength(1);
+    expect(scene.children[0].position.toArray()).toEqual([0.5, 0, -2]);
+
+    // The browser refines the anchor and the annotation moves with it
+    session.anchors[0].transform = new FakeXRRigidTransform({ x: 0.5, y: 0.02, z: -2.1 });
+    await runFrame(session);
+    const [x, y, z] = scene.children[0].position.toArray();
+    expect([x, y, z].map((value) => Number(value.toFixed(3)))).toEqual([0.5, 0.02, -2.1]);
+  });
+
+  it('asks the user to scan when the hit test finds no surface', async () => {
+    const session = await enterAR();
+    const overlay = xr.requests[0].init.domOverlay!.root as HTMLElement;
+
+    await click(overlay, { clientX: 200, clientY: 400 });
+    for (let i = 0; i < 3; i++) {
+      await runFrame(session);
+    }
+
+    expect(container.textContent).toContain('No surface found there');
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+    expect(session.anchors).toHaveLength(0);
+  });
+
+  it('tears down when the browser ends the session, and starts the next one empty', async () => {
+    const session = await enterAR();
+    session.hits = [new FakeXRRigidTransform({ x: 0, y: 0, z: -2 })];
+    await click(xr.requests[0].init.domOverlay!.root as HTMLElement, { clientX: 200, clientY: 400 });
+    await runFrame(session);
+    await runFrame(session);
+
+    const [renderer] = mockRenderers;
+    expect(renderedScene(renderer).children).toHaveLength(1);
+
+    // As from the browser's own exit control
+    await act(async () => {
+      await session.end();
+    });
+    await settle();
+
+    expect(renderer.setAnimationLoop).toHaveBeenLastCalledWith(null);
+    expect(renderer.dispose).toHaveBeenCalled();
+    expect(container.textContent).toContain('Tracking: notAvailable');
+    expect(button('Enter AR').disabled).toBe(false);
+
+    await enterAR();
+
+    expect(xr.sessions).toHaveLength(2);
+    expect(mockRenderers[1].xr.setSession).toHaveBeenCalledWith(xr.sessions[1]);
+    expect(renderedScene(mockRenderers[1]).children).toHaveLength(0);
+  });
+});
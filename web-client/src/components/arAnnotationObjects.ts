@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { AnnotationResource, formatMeasurement } from 'ar-inspection-platform-shared';
+
+// Three.js objects for session annotations in WebXR, in world space metres
+// like the annotations' positions. 2D annotation types only have a position
+// when they were placed in AR, and are drawn as a marker.
+
+const MARKER_SIZE = 0.05;
+const LABEL_HEIGHT = 0.04;
+const LABEL_FONT_SIZE = 48;
+const LABEL_PADDING = 12;
+
+// Camera-facing text drawn on a canvas; drawn over geometry so it stays readable
+const createLabel = (text: string, color: string): THREE.Sprite => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  const font = `bold ${LABEL_FONT_SIZE}px sans-serif`;
+
+  context.font = font;
+  canvas.width = Math.ceil(context.measureText(text).width) + LABEL_PADDING * 2;
+  canvas.height = LABEL_FONT_SIZE + LABEL_PADDING * 2;
+
+  // Resizing the canvas resets its state
+  context.font = font;
+  context.textBaseline = 'middle';
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = color;
+  context.fillText(text, LABEL_PADDING, canvas.height / 2);
+
+  const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set((LABEL_HEIGHT * canvas.width) / canvas.height, LABEL_HEIGHT, 1);
+  sprite.renderOrder = 1;
+  return sprite;
+};
+
+const createShape = (annotation: AnnotationResource, color: THREE.Color): THREE.Object3D | null => {
+  const material = new THREE.MeshBasicMaterial({ color });
+
+  switch (annotation.type) {
+    case 'sphere':
+      return new THREE.Mesh(new THREE.SphereGeometry(MARKER_SIZE / 2, 24, 16), material);
+    case 'box':
+      return new THREE.Mesh(new THREE.BoxGeometry(MARKER_SIZE, MARKER_SIZE, MARKER_SIZE), material);
+    case 'arrow':
+      // Points down at the annotated spot
+      return new THREE.ArrowHelper(
+        new THREE.Vector3(0, -1, 0), new THREE.Vector3(0, MARKER_SIZE * 2, 0), MARKER_SIZE * 2, color
+      );
+    case 'circle': {
+      const ring = new THREE.Mesh(
+        new THREE.RingGeometry(MARKER_SIZE * 0.8, MARKER_SIZE, 32),
+        new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide })
+      );
+      ring.rotation.x = -Math.PI / 2;
+      return ring;
+    }
+    case 'measurement': {
+      const { measurement, position } = annotation;
+      if (!measurement || !position) {
+        return null;
+      }
+      // Points are in world space; the group sits at the annotation's position
+      const points = measurement.points.map((point) => new THREE.Vector3(
+        point.x - position.x, point.y - position.y, point.z - position.z
+      ));
+      if (measurement.kind === 'area') {
+        points.push(points[0]);
+      }
+      return new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), new THREE.LineBasicMaterial({ color }));
+    }
+    case 'text':
+      return null;
+    default:
+      return new THREE.Mesh(new THREE.SphereGeometry(MARKER_SIZE / 4, 16, 12), material);
+  }
+};
+
+// Null for annotations without a world position
+export const createAnnotationObject = (annotation: AnnotationResource): THREE.Object3D | null => {
+  const { position, rotation, scale } = annotation;
+  if (!position) {
+    return null;
+  }
+
+  // Three.js colours have no alpha
+  const color = new THREE.Color(annotation.color.slice(0, 7));
+  const group = new THREE.Group();
+  group.name = annotation.id;
+
+  const shape = createShape(annotation, color);
+  if (shape) {
+    group.add(shape);
+  }
+
+  const label = annotation.type === 'measurement' && annotation.measurement
+    ? formatMeasurement(annotation.measurement)
+    : annotation.text;
+  if (label) {
+    const sprite = createLabel(label, annotation.color.slice(0, 7));
+    sprite.position.y = shape ? MARKER_SIZE * 1.5 : 0;
+    group.add(sprite);
+  }
+
+  group.position.set(position.x, position.y, position.z);
+  if (rotation) {
+    if (rotation.w !== undefined) {
+      group.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    } else {
+      group.rotation.set(rotation.x, rotation.y, rotation.z);
+    }
+  }
+  if (scale) {
+    group.scale.set(scale.x, scale.y, scale.z);
+  }
+
+  return group;
+};
+
+export const disposeAnnotationObject = (object: THREE.Object3D): void => {
+  object.traverse((child) => {
+    const { geometry, material } = child as THREE.Mesh;
+    geometry?.dispose();
+    (Array.isArray(material) ? material : material ? [material] : []).forEach((m) => {
+      (m as THREE.SpriteMaterial).map?.dispose();
+      m.dispose();
+    });
+  });
+};
@@ -1,21 +1,83 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import axios from 'axios';
-
-interface User {
-  id: string;
-  email: string;
-  user_type: 'client' | 'gig_user';
-  name?: string;
-}
+import { AuthTokens, AuthUser, registerSchema, validateRequest } from 'ar-inspection-platform-shared';
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to a challenge token when the account needs a second factor
+  login: (email: string, password: string) => Promise<string | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (data: any) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
 }
 
+// Auth endpoints whose 401s mean bad credentials, not an expired access token
+const NO_REFRESH_PATHS = [
+  '/api/auth/login',
+  '/api/auth/login/2fa',
+  '/api/auth/register',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+];
+
+// Throttled auth requests (429) carry retry_after in seconds; fold the wait into the message
+const authErrorMessage = (error: any, fallback: string) => {
+  const data = error.response?.data;
+  const message = data?.error || fallback;
+
+  if (error.response?.status !== 429 || !data?.retry_after) {
+    return message;
+  }
+
+  const minutes = Math.ceil(data.retry_after / 60);
+  const wait = data.retry_after < 60
+    ? `${data.retry_after} second${data.retry_after === 1 ? '' : 's'}`
+    : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return `${message}. Try again in ${wait}.`;
+};
+
+const storeTokens = ({ token, refresh_token }: AuthTokens) => {
+  localStorage.setItem('token', token);
+  localStorage.setItem('refreshToken', refresh_token);
+  axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+};
+
+const clearStoredSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  delete axios.defaults.headers.common['Authorization'];
+};
+
+// Requests that fail together while the access token is expired share one
+// refresh call, since each refresh token can only be used once
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        return null;
+      }
+
+      try {
+        const response = await axios.post('/api/auth/refresh', { refresh_token: refreshToken });
+        storeTokens(response.data);
+        return response.data.token as string;
+      } catch (error) {
+        return null;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+
+  return refreshPromise;
+};
+
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
 
 export const useAuth = () => {
@@ -31,7 +93,7 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -44,6 +106,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, []);
 
+  // Retry a request once with a fresh access token when it fails with 401
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(
+      (response) => response,
+      async (error) => {
+        const original = error.config;
+        const isAuthPath = NO_REFRESH_PATHS.includes(original?.url);
+
+        if (error.response?.status !== 401 || !original || original._retried || isAuthPath) {
+          return Promise.reject(error);
+        }
+
+        original._retried = true;
+        const token = await refreshAccessToken();
+
+        if (!token) {
+          clearStoredSession();
+          setUser(null);
+          return Promise.reject(error);
+        }
+
+        original.headers = { ...original.headers, Authorization: `Bearer ${token}` };
+        return axios(original);
+      }
+    );
+
+    return () => axios.interceptors.response.eject(interceptor);
+  }, []);
+
   const login = async (email: string, password: string) => {
     setLoading(true);
     try {
@@ -52,50 +143,102 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         password,
       });
       
-      const { user, token } = response.data;
+      if (response.data.two_factor_required) {
+        return response.data.challenge_token as string;
+      }
+
+      const { user } = response.data;
       
-      localStorage.setItem('token', token);
+      storeTokens(response.data);
+      localStorage.setItem('user', JSON.stringify(user));
+      setUser(user);
+      return null;
+    } catch (error: any) {
+      throw new Error(authErrorMessage(error, 'Login failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Second login step with an authenticator or backup code
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    setLoading(true);
+    try {
+      const response = await axios.post('/api/auth/login/2fa', {
+        challenge_token: challengeToken,
+        code,
+      });
+
+      const { user } = response.data;
+
+      storeTokens(response.data);
       localStorage.setItem('user', JSON.stringify(user));
       setUser(user);
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
     } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Login failed');
+      throw new Error(authErrorMessage(error, 'Verification failed'));
     } finally {
       setLoading(false);
     }
   };
 
   const register = async (data: any) => {
+    // Same checks the server runs, so policy errors show without a round trip
+    const { issues } = validateRequest(registerSchema, { body: data });
+    if (issues.length > 0) {
+      throw new Error(issues[0].message);
+    }
+
     setLoading(true);
     try {
       const response = await axios.post('/api/auth/register', data);
       
-      const { user, token } = response.data;
+      const { user } = response.data;
       
-      localStorage.setItem('token', token);
+      storeTokens(response.data);
       localStorage.setItem('user', JSON.stringify(user));
       setUser(user);
-      axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
     } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Registration failed');
+      throw new Error(authErrorMessage(error, 'Registration failed'));
     } finally {
       setLoading(false);
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    setUser(null);
-    delete axios.defaults.headers.common['Authorization'];
+  const logout = async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    try {
+      if (refreshToken) {
+        await axios.post('/api/auth/logout', { refresh_token: refreshToken });
+      }
+    } catch (error) {
+      console.error('Logout failed:', error);
+    } finally {
+      clearStoredSession();
+      setUser(null);
+    }
+  };
+
+  // Revokes every session for this account, on all devices
+  const logoutAll = async () => {
+    try {
+      await axios.post('/api/auth/logout-all');
+    } catch (error) {
+      console.error('Logout of all devices failed:', error);
+    } finally {
+      clearStoredSession();
+      setUser(null);
+    }
   };
 
   const value: AuthContextType = {
     user,
     loading,
     login,
+    verifyTwoFactor,
     register,
     logout,
+    logoutAll,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
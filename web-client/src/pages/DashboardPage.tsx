@@ -6,15 +6,26 @@ import {
   Typography,
   Box,
   Alert,
+  Button,
 } from '@mui/material';
 import {
   GridColDef,
   DataGrid,
 } from '@mui/x-data-grid';
+import { Link as RouterLink } from 'react-router-dom';
+import axios from 'axios';
+import { SessionResource } from 'ar-inspection-platform-shared';
 import { useAuth } from '../contexts/AuthContext';
 
+const sessionMinutes = (session: SessionResource): number => {
+  if (!session.started_at || !session.ended_at) {
+    return 0;
+  }
+  return Math.round((new Date(session.ended_at).getTime() - new Date(session.started_at).getTime()) / 60000);
+};
+
 const DashboardPage: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutAll } = useAuth();
   const [stats, setStats] = useState({
     totalSessions: 0,
     completedSessions: 0,
@@ -22,30 +33,70 @@ const DashboardPage: React.FC = () => {
     userSatisfaction: 4.5,
   });
 
+  const [sessions, setSessions] = useState<any[]>([]);
+  const [reportError, setReportError] = useState<string | null>(null);
+
   useEffect(() => {
-    // Load dashboard stats
-    // In a real implementation, this would fetch from API
     const loadStats = async () => {
       try {
-        // Mock data for now
-        setStats({
-          totalSessions: 12,
-          completedSessions: 10,
-          averageDuration: 45,
-          userSatisfaction: 4.5,
+        const response = await axios.get('/api/sessions', {
+          params: { role: user?.user_type },
         });
+        const rows: SessionResource[] = response.data.sessions;
+        const completed = rows.filter((s) => s.status === 'completed');
+        const durations = completed
+          .filter((s) => s.started_at && s.ended_at)
+          .map(sessionMinutes);
+
+        setStats((prev) => ({
+          ...prev,
+          totalSessions: rows.length,
+          completedSessions: completed.length,
+          averageDuration: durations.length > 0
+            ? Math.round(durations.reduce((sum: number, d: number) => sum + d, 0) / durations.length)
+            : 0,
+        }));
+
+        setSessions(rows.map((s) => ({
+          id: s.id,
+          clientName: s.client_name || 'Unknown',
+          status: s.status.charAt(0).toUpperCase() + s.status.slice(1),
+          duration: sessionMinutes(s),
+          earnings: Number(s.metadata?.price) || 0,
+          hasReport: s.status === 'completed',
+        })));
       } catch (error) {
         console.error('Failed to load stats:', error);
       }
     };
 
-    loadStats();
-  }, []);
+    if (user) {
+      loadStats();
+    }
+  }, [user]);
 
   const handleLogout = () => {
     logout();
   };
 
+  // Download links are signed and short-lived, so fetch a fresh one per click
+  const handleDownloadReport = async (sessionId: string) => {
+    setReportError(null);
+    try {
+      const response = await axios.get(`/api/sessions/${sessionId}/reports`);
+      const report = response.data.reports.find((r: any) => r.status === 'ready');
+      if (report) {
+        window.open(report.url, '_blank');
+      } else {
+        setReportError(response.data.reports.length > 0
+          ? 'The report is still being generated'
+          : 'No report is available for this session');
+      }
+    } catch (error: any) {
+      setReportError(error.response?.data?.error || 'Failed to load report');
+    }
+  };
+
   const columns: GridColDef[] = [
     {
       field: 'id',
@@ -73,29 +124,16 @@ const DashboardPage: React.FC = () => {
       width: 120,
       valueFormatter: (value: number) => `$${value.toFixed(2)}`,
     },
-  ];
-
-  const sessions = [
     {
-      id: '001',
-      clientName: 'John Doe',
-      status: 'Completed',
-      duration: 45,
-      earnings: 75.00,
-    },
-    {
-      id: '002',
-      clientName: 'Jane Smith',
-      status: 'Active',
-      duration: 30,
-      earnings: 50.00,
-    },
-    {
-      id: '003',
-      clientName: 'Bob Johnson',
-      status: 'Scheduled',
-      duration: 60,
-      earnings: 100.00,
+      field: 'hasReport',
+      headerName: 'Report',
+      width: 120,
+      sortable: false,
+      renderCell: (params) => params.value && (
+        <Button size="small" onClick={() => handleDownloadReport(params.row.id)}>
+          PDF
+        </Button>
+      ),
     },
   ];
 
@@ -113,9 +151,15 @@ const DashboardPage: React.FC = () => {
           <Typography variant="body2">
             Welcome, {user?.name || 'Expert'}!
           </Typography>
+          <Typography variant="body2" component={RouterLink} to="/jobs" sx={{ display: 'block' }}>
+            {user?.user_type === 'client' ? 'Request an inspection' : 'Find jobs'}
+          </Typography>
           <Typography variant="body2" color="error.main" sx={{ cursor: 'pointer' }} onClick={handleLogout}>
             Logout
           </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ cursor: 'pointer' }} onClick={logoutAll}>
+            Log out all devices
+          </Typography>
         </Box>
       </Box>
 
@@ -173,6 +217,11 @@ const DashboardPage: React.FC = () => {
         <Typography variant="h6" gutterBottom>
           Recent Sessions
         </Typography>
+        {reportError && (
+          <Alert severity="info" sx={{ mb: 1 }} onClose={() => setReportError(null)}>
+            {reportError}
+          </Alert>
+        )}
         <DataGrid
           rows={sessions}
           columns={columns}
@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  TextField,
+  Chip,
+  Link,
+  Stack,
+} from '@mui/material';
+import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Job {
+  id: string;
+  title: string;
+  description?: string;
+  address?: string;
+  required_skills: string[];
+  window_start: string;
+  window_end: string;
+  price: number;
+  currency: string;
+  status: 'open' | 'assigned' | 'cancelled' | 'expired';
+  session_id?: string;
+  distance_meters?: number;
+}
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  address: '',
+  latitude: '',
+  longitude: '',
+  skills: '',
+  windowStart: '',
+  windowEnd: '',
+  price: '',
+};
+
+const formatWindow = (job: Job) => {
+  return `${new Date(job.window_start).toLocaleString()} – ${new Date(job.window_end).toLocaleString()}`;
+};
+
+const formatPrice = (job: Job) => `${job.price.toFixed(2)} ${job.currency}`;
+
+// Clients post inspection jobs and track them; gig users get a feed of open
+// jobs near their current location
+const JobsPage: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const isClient = user?.user_type === 'client';
+
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadPostedJobs = useCallback(async () => {
+    const response = await axios.get('/api/jobs');
+    setJobs(response.data.jobs);
+  }, []);
+
+  const loadFeed = useCallback(() => {
+    if (!navigator.geolocation) {
+      setError('Location is needed to find jobs near you');
+      return;
+    }
+
+    setLoading(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const response = await axios.get('/api/jobs/feed', {
+            params: { lat: position.coords.latitude, lng: position.coords.longitude },
+          });
+          setJobs(response.data.jobs);
+        } catch (err: any) {
+          setError(err.response?.data?.error || 'Failed to load jobs');
+        } finally {
+          setLoading(false);
+        }
+      },
+      () => {
+        setError('Location is needed to find jobs near you');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    if (isClient) {
+      loadPostedJobs().catch((err) => setError(err.response?.data?.error || 'Failed to load jobs'));
+    } else {
+      loadFeed();
+    }
+  }, [isClient, loadPostedJobs, loadFeed]);
+
+  const updateField = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      await axios.post('/api/jobs', {
+        title: form.title,
+        description: form.description || undefined,
+        address: form.address || undefined,
+        latitude: parseFloat(form.latitude),
+        longitude: parseFloat(form.longitude),
+        required_skills: form.skills.split(',').map((s) => s.trim()).filter(Boolean),
+        window_start: form.windowStart ? new Date(form.windowStart).toISOString() : undefined,
+        window_end: form.windowEnd ? new Date(form.windowEnd).toISOString() : undefined,
+        price: parseFloat(form.price),
+      });
+      setForm(EMPTY_FORM);
+      await loadPostedJobs();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to post job');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async (job: Job) => {
+    try {
+      await axios.post(`/api/jobs/${job.id}/cancel`);
+      await loadPostedJobs();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to cancel job');
+    }
+  };
+
+  const handleAccept = async (job: Job) => {
+    setError(null);
+    try {
+      const response = await axios.post(`/api/jobs/${job.id}/accept`);
+      navigate(`/session/${response.data.session_id}`);
+    } catch (err: any) {
+      // Someone else was faster; drop it from the feed
+      setError(err.response?.data?.error || 'Failed to accept job');
+      setJobs((prev) => prev.filter((j) => j.id !== job.id));
+    }
+  };
+
+  const handleDecline = async (job: Job) => {
+    try {
+      await axios.post(`/api/jobs/${job.id}/decline`);
+      setJobs((prev) => prev.filter((j) => j.id !== job.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to decline job');
+    }
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4" component="h1">
+          {isClient ? 'My Inspection Jobs' : 'Jobs Near You'}
+        </Typography>
+        <Link component={RouterLink} to="/dashboard" variant="body2">
+          Back to dashboard
+        </Link>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {isClient && (
+        <Paper component="form" onSubmit={handlePost} sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Request an inspection
+          </Typography>
+          <TextField label="Title" fullWidth margin="dense" required value={form.title} onChange={updateField('title')} />
+          <TextField
+            label="Description"
+            fullWidth
+            multiline
+            minRows={2}
+            margin="dense"
+            value={form.description}
+            onChange={updateField('description')}
+          />
+          <TextField label="Address" fullWidth margin="dense" value={form.address} onChange={updateField('address')} />
+          <Stack direction="row" spacing={2}>
+            <TextField label="Latitude" type="number" margin="dense" required value={form.latitude} onChange={updateField('latitude')} />
+            <TextField label="Longitude" type="number" margin="dense" required value={form.longitude} onChange={updateField('longitude')} />
+            <TextField label="Price" type="number" margin="dense" required value={form.price} onChange={updateField('price')} />
+          </Stack>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Earliest start"
+              type="datetime-local"
+              margin="dense"
+              required
+              InputLabelProps={{ shrink: true }}
+              value={form.windowStart}
+              onChange={updateField('windowStart')}
+            />
+            <TextField
+              label="Latest end"
+              type="datetime-local"
+              margin="dense"
+              required
+              InputLabelProps={{ shrink: true }}
+              value={form.windowEnd}
+              onChange={updateField('windowEnd')}
+            />
+          </Stack>
+          <TextField
+            label="Required skills (comma separated)"
+            fullWidth
+            margin="dense"
+            value={form.skills}
+            onChange={updateField('skills')}
+          />
+          <Button type="submit" variant="contained" sx={{ mt: 2 }} disabled={loading}>
+            Post Job
+          </Button>
+        </Paper>
+      )}
+
+      {!isClient && (
+        <Button variant="outlined" sx={{ mb: 2 }} onClick={loadFeed} disabled={loading}>
+          Refresh
+        </Button>
+      )}
+
+      {jobs.length === 0 && !loading && (
+        <Typography color="text.secondary">
+          {isClient ? 'You have not posted any jobs yet.' : 'No open jobs nearby right now.'}
+        </Typography>
+      )}
+
+      {jobs.map((job) => (
+        <Paper key={job.id} sx={{ p: 2, mb: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="h6">{job.title}</Typography>
+            <Typography variant="h6" color="primary.main">{formatPrice(job)}</Typography>
+          </Box>
+          {job.address && <Typography variant="body2">{job.address}</Typography>}
+          <Typography variant="body2" color="text.secondary">
+            {formatWindow(job)}
+            {job.distance_meters !== undefined && ` · ${(job.distance_meters / 1000).toFixed(1)} km away`}
+          </Typography>
+          {job.description && <Typography variant="body2" sx={{ mt: 1 }}>{job.description}</Typography>}
+          <Box sx={{ mt: 1, display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+            {isClient && <Chip label={job.status} size="small" color={job.status === 'assigned' ? 'success' : 'default'} />}
+            {job.required_skills.map((skill) => (
+              <Chip key={skill} label={skill} size="small" variant="outlined" />
+            ))}
+          </Box>
+          <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
+            {isClient && job.status === 'open' && (
+              <Button size="small" color="error" onClick={() => handleCancel(job)}>
+                Cancel
+              </Button>
+            )}
+            {isClient && job.session_id && (
+              <Button size="small" component={RouterLink} to={`/session/${job.session_id}`}>
+                Open Session
+              </Button>
+            )}
+            {!isClient && (
+              <>
+                <Button size="small" variant="contained" onClick={() => handleAccept(job)}>
+                  Accept
+                </Button>
+                <Button size="small" onClick={() => handleDecline(job)}>
+                  Decline
+                </Button>
+              </>
+            )}
+          </Box>
+        </Paper>
+      ))}
+    </Container>
+  );
+};
+
+export default JobsPage;
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Container,
   TextField,
@@ -7,6 +8,7 @@ import {
   Box,
   Alert,
   Paper,
+  Link,
 } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -14,7 +16,9 @@ const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const { login, verifyTwoFactor } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,7 +30,11 @@ const LoginPage: React.FC = () => {
 
     setLoading(true);
     try {
-      await login(email, password);
+      if (challengeToken) {
+        await verifyTwoFactor(challengeToken, code);
+      } else {
+        setChallengeToken(await login(email, password));
+      }
     } catch (error: any) {
       Alert.alert('Login Failed', error.message);
     } finally {
@@ -79,6 +87,21 @@ const LoginPage: React.FC = () => {
               onChange={(e) => setPassword(e.target.value)}
               disabled={loading}
             />
+            {challengeToken && (
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                name="code"
+                label="Authenticator or Backup Code"
+                id="code"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={loading}
+              />
+            )}
             <Button
               type="submit"
               fullWidth
@@ -86,8 +109,11 @@ const LoginPage: React.FC = () => {
               sx={{ mt: 3, mb: 2 }}
               disabled={loading}
             >
-              {loading ? 'Signing In...' : 'Sign In'}
+              {loading ? 'Signing In...' : challengeToken ? 'Verify' : 'Sign In'}
             </Button>
+            <Link component={RouterLink} to="/reset-password" variant="body2">
+              Forgot password?
+            </Link>
           </Box>
         </Paper>
       </Box>
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Link as RouterLink, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Container,
+  TextField,
+  Button,
+  Typography,
+  Box,
+  Alert,
+  Paper,
+  Link,
+} from '@mui/material';
+import axios from 'axios';
+import { resetPasswordSchema, validateRequest } from 'ar-inspection-platform-shared';
+
+// Without a token this asks for the account email; the emailed link brings the
+// user back here with ?token= to choose a new password
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!email) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await axios.post('/api/auth/forgot-password', { email });
+      setMessage(response.data.message);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to request password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const { issues } = validateRequest(resetPasswordSchema, { body: { token, password } });
+    if (issues.length > 0) {
+      setError(issues[0].message);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await axios.post('/api/auth/reset-password', { token, password });
+      navigate('/login', { replace: true });
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+        }}
+      >
+        <Paper sx={{ p: 4, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+          <Typography variant="h5" component="h1" gutterBottom>
+            {token ? 'Choose a New Password' : 'Reset Password'}
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2, width: '100%' }}>
+              {error}
+            </Alert>
+          )}
+
+          {message && (
+            <Alert severity="success" sx={{ mt: 2, width: '100%' }}>
+              {message}
+            </Alert>
+          )}
+
+          {token ? (
+            <Box component="form" onSubmit={handleReset} sx={{ mt: 1, width: '100%' }}>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                name="password"
+                label="New Password"
+                type="password"
+                id="password"
+                autoComplete="new-password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+              />
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                name="confirmPassword"
+                label="Confirm New Password"
+                type="password"
+                id="confirmPassword"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                disabled={loading}
+              />
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2 }}
+                disabled={loading}
+              >
+                {loading ? 'Saving...' : 'Reset Password'}
+              </Button>
+            </Box>
+          ) : (
+            <Box component="form" onSubmit={handleRequest} sx={{ mt: 1, width: '100%' }}>
+              <Typography variant="body2" color="text.secondary">
+                Enter your account email and we'll send you a link to reset your password.
+              </Typography>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="email"
+                label="Email Address"
+                name="email"
+                autoComplete="email"
+                autoFocus
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={loading || message !== null}
+              />
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2 }}
+                disabled={loading || message !== null}
+              >
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </Button>
+            </Box>
+          )}
+
+          <Link component={RouterLink} to="/login" variant="body2">
+            Back to sign in
+          </Link>
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
+
+export default ResetPasswordPage;
@@ -6,18 +6,55 @@ import {
   Box,
   Paper,
   Button,
+  Alert,
+  Chip,
 } from '@mui/material';
+import axios from 'axios';
+import { SessionResource } from 'ar-inspection-platform-shared';
 import { useAuth } from '../contexts/AuthContext';
+import ChecklistPanel from '../components/ChecklistPanel';
+import WebXRPanel from '../components/WebXRPanel';
 
 const SessionPage: React.FC = () => {
   const { user } = useAuth();
   const { id } = useParams<{ id: string }>();
+  const [session, setSession] = useState<SessionResource | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [isJoining, setIsJoining] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await axios.get(`/api/sessions/${id}`);
+        setSession(response.data);
+      } catch (error: any) {
+        setError(error.response?.data?.error || 'Failed to load session');
+      }
+    };
+
+    if (id) {
+      loadSession();
+    }
+  }, [id]);
 
   if (!user) {
     return <div>Authentication required</div>;
   }
 
+  const runAction = async (action: 'accept' | 'start' | 'complete' | 'cancel') => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const response = await axios.post(`/api/sessions/${id}/${action}`);
+      setSession(response.data);
+    } catch (error: any) {
+      setError(error.response?.data?.error || `Failed to ${action} session`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleJoinSession = async () => {
     setIsJoining(true);
     try {
@@ -33,22 +70,82 @@ const SessionPage: React.FC = () => {
     }
   };
 
+  const isGigUser = user.user_type === 'gig_user';
+  const canAccept = isGigUser && session?.status === 'waiting' && !session.gig_user_id;
+  const canStart = isGigUser && session?.status === 'waiting' && session.gig_user_id === user.id;
+  const canComplete = session?.status === 'active';
+  const canCancel = session?.status === 'waiting' || session?.status === 'active';
+
   return (
     <Container maxWidth="lg" sx={{ mt: 4 }}>
       <Typography variant="h4" component="h1" gutterBottom>
         Session {id}
       </Typography>
-      
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {session && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Chip label={session.status} color={session.status === 'active' ? 'success' : 'default'} />
+            <Typography variant="body2">
+              Client: {session.client_name || session.client_id}
+            </Typography>
+            <Typography variant="body2">
+              Inspector: {session.gig_user_name || session.gig_user_id || 'Unassigned'}
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+            {canAccept && (
+              <Button variant="outlined" onClick={() => runAction('accept')} disabled={isUpdating}>
+                Accept
+              </Button>
+            )}
+            {canStart && (
+              <Button variant="outlined" onClick={() => runAction('start')} disabled={isUpdating}>
+                Start
+              </Button>
+            )}
+            {canComplete && (
+              <Button variant="outlined" color="success" onClick={() => runAction('complete')} disabled={isUpdating}>
+                Complete
+              </Button>
+            )}
+            {canCancel && (
+              <Button variant="outlined" color="error" onClick={() => runAction('cancel')} disabled={isUpdating}>
+                Cancel
+              </Button>
+            )}
+          </Box>
+        </Paper>
+      )}
+
+      {session && id && (
+        <ChecklistPanel
+          sessionId={id}
+          canAttach={session.client_id === user.id && ['waiting', 'active'].includes(session.status)}
+          canEdit={session.gig_user_id === user.id && session.status === 'active'}
+        />
+      )}
+
+      {session && id && (
+        <WebXRPanel sessionId={id} canAnnotate={session.status === 'active'} />
+      )}
+
       <Paper sx={{ p: 3, textAlign: 'center', mt: 3 }}>
         <Typography variant="body1" gutterBottom>
           Ready to start inspection session
         </Typography>
-        
+
         <Button
           variant="contained"
           size="large"
           onClick={handleJoinSession}
-          disabled={isJoining}
+          disabled={isJoining || session?.status !== 'active'}
           sx={{ mt: 2 }}
         >
           {isJoining ? 'Joining Session...' : 'Join Session'}
@@ -58,4 +155,4 @@ const SessionPage: React.FC = () => {
   );
 };
 
-export default SessionPage;
\ No newline at end of file
+export default SessionPage;
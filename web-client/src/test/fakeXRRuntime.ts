@@ -0,0 +1,213 @@
+// A scriptable stand-in for the browser's WebXR runtime. installFakeXR() puts
+// it in place of navigator.xr, XRRigidTransform and XRRay, so WebXRProvider
+// runs as it does in Chrome; tests then step it one frame at a time and say
+// what the viewer and hit tests see. Matrices are column-major, as in WebXR.
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+  w?: number;
+}
+
+type FrameCallback = (time: number, frame: FakeXRFrame) => void;
+type SessionEvent = 'end' | 'visibilitychange';
+
+// 90° field of view at any aspect, near 0.1, far 100
+const PROJECTION = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, -1.002, -1, 0, 0, -0.2002, 0];
+
+export class FakeXRRigidTransform {
+  readonly position: Required<Point>;
+  readonly orientation: Required<Point>;
+  readonly matrix: Float32Array;
+
+  constructor(position: Point = { x: 0, y: 0, z: 0 }, orientation: Point = { x: 0, y: 0, z: 0, w: 1 }) {
+    this.position = { x: position.x, y: position.y, z: position.z, w: 1 };
+    this.orientation = { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w ?? 1 };
+
+    const { x, y, z, w } = this.orientation;
+    this.matrix = new Float32Array([
+      1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w), 0,
+      2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w), 0,
+      2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y), 0,
+      position.x, position.y, position.z, 1,
+    ]);
+  }
+}
+
+export class FakeXRRay {
+  constructor(readonly origin: Point, readonly direction: Point) {}
+}
+
+// Reference spaces and anchor spaces are opaque to the page
+export class FakeXRSpace {
+  constructor(readonly type: string) {}
+}
+
+export class FakeXRHitTestSource {
+  cancelled = false;
+
+  constructor(readonly options: { space: unknown; offsetRay?: unknown; entityTypes?: string[] }) {}
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+}
+
+export class FakeXRAnchor {
+  readonly anchorSpace = new FakeXRSpace('anchor');
+  deleted = false;
+
+  // Moving the transform is the browser refining the anchor
+  constructor(public transform: FakeXRRigidTransform) {}
+
+  delete(): void {
+    this.deleted = true;
+  }
+}
+
+export interface FakeXRFrame {
+  getViewerPose(referenceSpace: unknown): object | null;
+  getPose(space: unknown, baseSpace: unknown): object | null;
+  getHitTestResults(source: FakeXRHitTestSource): Array<{ getPose(baseSpace: unknown): object }>;
+  createAnchor(pose: FakeXRRigidTransform, space: unknown): Promise<FakeXRAnchor>;
+  trackedAnchors: Set<FakeXRAnchor>;
+}
+
+export class FakeXRSession {
+  readonly enabledFeatures: string[];
+  readonly domOverlayState: { type: string } | null;
+  visibilityState: 'visible' | 'visible-blurred' | 'hidden' = 'visible';
+  ended = false;
+
+  // What the following frames report: the viewer 1.4m up looking ahead, and
+  // the poses every hit test source finds
+  viewer: FakeXRRigidTransform | null = new FakeXRRigidTransform({ x: 0, y: 1.4, z: 0 });
+  emulatedPosition = false;
+  hits: FakeXRRigidTransform[] = [];
+
+  readonly hitTestSources: FakeXRHitTestSource[] = [];
+  readonly anchors: FakeXRAnchor[] = [];
+
+  private callbacks = new Map<number, FrameCallback>();
+  private listeners: Record<SessionEvent, Array<() => void>> = { end: [], visibilitychange: [] };
+  private nextHandle = 1;
+  private time = 0;
+
+  constructor(readonly init: { requiredFeatures?: string[]; optionalFeatures?: string[]; domOverlay?: { root: unknown } }) {
+    this.enabledFeatures = [...(init.requiredFeatures || []), ...(init.optionalFeatures || [])];
+    this.domOverlayState = init.domOverlay ? { type: 'screen' } : null;
+  }
+
+  async requestReferenceSpace(type: string): Promise<FakeXRSpace> {
+    return new FakeXRSpace(type);
+  }
+
+  async requestHitTestSource(options: FakeXRHitTestSource['options']): Promise<FakeXRHitTestSource> {
+    const source = new FakeXRHitTestSource(options);
+    this.hitTestSources.push(source);
+    return source;
+  }
+
+  requestAnimationFrame(callback: FrameCallback): number {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  cancelAnimationFrame(handle: number): void {
+    this.callbacks.delete(handle);
+  }
+
+  addEventListener(type: SessionEvent, listener: () => void): void {
+    this.listeners[type].push(listener);
+  }
+
+  removeEventListener(type: SessionEvent, listener: () => void): void {
+    this.listeners[type] = this.listeners[type].filter((l) => l !== listener);
+  }
+
+  // Also how the browser ends the session from its own exit control
+  async end(): Promise<void> {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.callbacks.clear();
+    this.listeners.end.forEach((listener) => listener());
+  }
+
+  // Runs the callbacks waiting for the next frame, as the browser does once
+  // per display refresh
+  frame(elapsed = 16): void {
+    this.time += elapsed;
+    const callbacks = Array.from(this.callbacks.values());
+    this.callbacks.clear();
+
+    const frame = this.createFrame();
+    callbacks.forEach((callback) => callback(this.time, frame));
+  }
+
+  private createFrame(): FakeXRFrame {
+    const { viewer, emulatedPosition, hits, anchors } = this;
+
+    return {
+      getViewerPose: () => viewer && {
+        transform: viewer,
+        emulatedPosition,
+        views: [{ projectionMatrix: PROJECTION, transform: viewer }],
+      },
+      getPose: (space) => {
+        const anchor = anchors.find((a) => a.anchorSpace === space);
+        return anchor ? { transform: anchor.transform, emulatedPosition: false } : null;
+      },
+      getHitTestResults: (source) => (source.cancelled ? [] : hits.map((transform) => ({
+        getPose: () => ({ transform, emulatedPosition: false }),
+      }))),
+      createAnchor: async (pose) => {
+        const anchor = new FakeXRAnchor(pose);
+        anchors.push(anchor);
+        return anchor;
+      },
+      trackedAnchors: new Set(anchors.filter((anchor) => !anchor.deleted)),
+    };
+  }
+}
+
+export class FakeXRSystem {
+  supported = true;
+  readonly requests: Array<{ mode: string; init: FakeXRSession['init'] }> = [];
+  readonly sessions: FakeXRSession[] = [];
+
+  async isSessionSupported(mode: string): Promise<boolean> {
+    return this.supported && mode === 'immersive-ar';
+  }
+
+  async requestSession(mode: string, init: FakeXRSession['init'] = {}): Promise<FakeXRSession> {
+    this.requests.push({ mode, init });
+    const session = new FakeXRSession(init);
+    this.sessions.push(session);
+    return session;
+  }
+
+  // The most recently requested session
+  get session(): FakeXRSession {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
+
+const GLOBALS = { XRRigidTransform: FakeXRRigidTransform, XRRay: FakeXRRay };
+
+export const installFakeXR = (): FakeXRSystem => {
+  const xr = new FakeXRSystem();
+  Object.defineProperty(navigator, 'xr', { value: xr, configurable: true });
+  Object.entries(GLOBALS).forEach(([name, value]) => {
+    Object.defineProperty(window, name, { value, configurable: true, writable: true });
+  });
+  return xr;
+};
+
+export const uninstallFakeXR = (): void => {
+  delete (navigator as any).xr;
+  Object.keys(GLOBALS).forEach((name) => delete (window as any)[name]);
+};